@@ -17,6 +17,7 @@ import type { Session } from '@/lib/auth/session';
 // Mock next/navigation
 jest.mock('next/navigation', () => ({
   usePathname: () => '/',
+  useRouter: () => ({ refresh: jest.fn() }),
 }));
 
 describe('HeaderNav Session Integration', () => {
@@ -29,6 +30,7 @@ describe('HeaderNav Session Integration', () => {
       avatar: 'https://avatars.steamstatic.com/test123_full.jpg',
       hasCS2Game: true,
       lastLogin: new Date(),
+      displayCurrency: 'USD',
     },
     sessionToken: 'test-session-token',
     expires: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
@@ -17,7 +17,7 @@
  *   - Solution: Multiple API fallbacks + cached rates
  */
 
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, jest } from '@jest/globals';
 import {
   validatePositivePrice,
   validateExchangeRate,
@@ -31,10 +31,60 @@ import {
   createCache,
   getUniqueCurrencies,
   CurrencyConversionService,
+  FALLBACK_CACHE_TTL_MS,
   CurrencyConversionError,
 } from '../src/lib/currency-conversion';
+import {
+  ExchangeRateApiSource,
+  FixerSource,
+  type ExchangeRateSnapshot,
+  type ExchangeRateSource,
+} from '../src/lib/currency/exchange-rate-sources';
+import type { ExchangeRateStore, StoredExchangeRate } from '../src/lib/currency/exchange-rate-store';
 import type { Currency } from '../src/types/price';
 
+/**
+ * Rate source stub: returns fixed rates or fails
+ */
+function stubSource(name: string, rates: Partial<Record<Currency, number>> | null): ExchangeRateSource {
+  return {
+    name,
+    fetchRates: jest.fn(async () => {
+      if (!rates) throw new Error(`${name} unavailable`);
+      return { rates, source: name, fetchedAt: new Date('2025-11-01T00:00:00Z') };
+    }),
+  };
+}
+
+/**
+ * In-memory ExchangeRateStore
+ */
+function memoryStore(initial: StoredExchangeRate[] = []): ExchangeRateStore & { rows: StoredExchangeRate[] } {
+  const rows = [...initial];
+  return {
+    rows,
+    async save(snapshot: ExchangeRateSnapshot) {
+      for (const [currency, rate] of Object.entries(snapshot.rates)) {
+        rows.push({ currency: currency as Currency, rate: rate as number, source: snapshot.source, fetchedAt: snapshot.fetchedAt });
+      }
+    },
+    async getRates(currencies: Currency[], asOf?: Date) {
+      return currencies
+        .map((currency) =>
+          rows
+            .filter((row) => row.currency === currency && (!asOf || row.fetchedAt <= asOf))
+            .sort((a, b) => b.fetchedAt.getTime() - a.fetchedAt.getTime())[0]
+        )
+        .filter((row): row is StoredExchangeRate => row !== undefined);
+    },
+  };
+}
+
+function jsonFetch(body: unknown): typeof fetch {
+  // jsdom has no Response - only the fields the sources read
+  return (async () => ({ ok: true, status: 200, json: async () => body })) as unknown as typeof fetch;
+}
+
 describe('Currency Conversion Service', () => {
   describe('Price Validation', () => {
     it('should reject negative prices', () => {
@@ -369,4 +419,145 @@ describe('Currency Conversion Service', () => {
       expect(uniqueCurrencies).toContain('RUB');
     });
   });
+
+  describe('Exchange Rate Fallback Chain', () => {
+    it('should use the primary source and persist its rates', async () => {
+      const store = memoryStore();
+      const service = new CurrencyConversionService({
+        sources: [stubSource('primary-api', { CNY: 0.14, RUB: 0.011 }), stubSource('secondary-api', { CNY: 0.5 })],
+        store,
+      });
+
+      const result = await service.convertToUSD(100, 'CNY');
+
+      expect(result.convertedAmount).toBe(14);
+      expect(result.rateSource).toBe('primary-api');
+      expect(service.getCache()?.source).toBe('primary');
+      expect(store.rows.map((row) => row.currency).sort()).toEqual(['CNY', 'RUB']);
+    });
+
+    it('should fall back to the secondary source when the primary fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const service = new CurrencyConversionService({
+        sources: [stubSource('primary-api', null), stubSource('secondary-api', { RUB: 0.0125 })],
+        store: null,
+      });
+
+      const result = await service.convertToUSD(1000, 'RUB');
+
+      expect(result.convertedAmount).toBe(12.5);
+      expect(result.rateSource).toBe('secondary-api');
+      expect(service.getCache()?.source).toBe('secondary');
+    });
+
+    it('should fill currencies a source omitted from the next source', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const secondary = stubSource('secondary-api', { EUR: 1.08, GBP: 1.27, BRL: 0.2, CNY: 0.5 });
+      const service = new CurrencyConversionService({
+        sources: [stubSource('primary-api', { CNY: 0.14, RUB: 0.011 }), secondary],
+        store: null,
+      });
+
+      const cny = await service.convertToUSD(100, 'CNY');
+      const eur = await service.convertToUSD(100, 'EUR');
+
+      expect(secondary.fetchRates).toHaveBeenCalledWith(['EUR', 'GBP', 'BRL']);
+      expect(cny.rateSource).toBe('primary-api');
+      expect(eur.convertedAmount).toBe(108);
+      expect(eur.rateSource).toBe('secondary-api');
+      expect(service.getCache()?.expiresAt.getTime()).toBeGreaterThan(Date.now() + FALLBACK_CACHE_TTL_MS);
+    });
+
+    it('should cache an incomplete rate set only for the fallback TTL', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchedAt = new Date('2025-10-30T00:00:00Z');
+      const service = new CurrencyConversionService({
+        sources: [stubSource('primary-api', { CNY: 0.14 })],
+        store: memoryStore([{ currency: 'EUR', rate: 1.07, source: 'primary-api', fetchedAt }]),
+      });
+
+      const eur = await service.convertToUSD(100, 'EUR');
+
+      expect(eur.convertedAmount).toBe(107);
+      expect(eur.rateTimestamp).toEqual(fetchedAt);
+      await expect(service.convertToUSD(100, 'RUB')).rejects.toMatchObject({ code: 'MISSING_RATE' });
+      expect(service.getCache()?.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + FALLBACK_CACHE_TTL_MS);
+    });
+
+    it('should fall back to stored rates when every API fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const fetchedAt = new Date('2025-10-30T00:00:00Z');
+      const service = new CurrencyConversionService({
+        sources: [stubSource('primary-api', null), stubSource('secondary-api', null)],
+        store: memoryStore([{ currency: 'CNY', rate: 0.139, source: 'primary-api', fetchedAt }]),
+      });
+
+      const result = await service.convertToUSD(100, 'CNY');
+
+      expect(result.convertedAmount).toBe(13.9);
+      expect(result.source).toBe('cache');
+      expect(result.rateTimestamp).toEqual(fetchedAt);
+      expect(service.getCache()?.source).toBe('fallback');
+    });
+
+    it('should throw RATES_UNAVAILABLE when no tier has rates', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const service = new CurrencyConversionService({
+        sources: [stubSource('primary-api', null)],
+        store: memoryStore(),
+      });
+
+      await expect(service.convertToUSD(100, 'EUR')).rejects.toMatchObject({ code: 'RATES_UNAVAILABLE' });
+    });
+
+    it('should convert past prices at the historical rate', async () => {
+      const service = new CurrencyConversionService({
+        sources: [],
+        store: memoryStore([
+          { currency: 'CNY', rate: 0.13, source: 'primary-api', fetchedAt: new Date('2025-01-01T00:00:00Z') },
+          { currency: 'CNY', rate: 0.14, source: 'primary-api', fetchedAt: new Date('2025-06-01T00:00:00Z') },
+        ]),
+      });
+
+      const result = await service.convertToUSDAt(100, 'CNY', new Date('2025-03-15T00:00:00Z'));
+
+      expect(result.exchangeRate).toBe(0.13);
+      await expect(
+        service.convertToUSDAt(100, 'CNY', new Date('2024-12-31T00:00:00Z'))
+      ).rejects.toMatchObject({ code: 'MISSING_HISTORICAL_RATE' });
+    });
+
+    it('should expose the current USD rate for display currencies', async () => {
+      const service = new CurrencyConversionService({
+        sources: [stubSource('primary-api', { EUR: 1.08 })],
+        store: null,
+      });
+
+      await expect(service.getUSDRate('USD')).resolves.toBe(1);
+      await expect(service.getUSDRate('EUR')).resolves.toBe(1.08);
+    });
+
+    it('should invert USD-based quotes from exchangerate-api', async () => {
+      const source = new ExchangeRateApiSource(undefined, {
+        fetchFn: jsonFetch({ result: 'success', rates: { USD: 1, CNY: 7.25, EUR: 0.92 } }),
+      });
+
+      const snapshot = await source.fetchRates(['CNY', 'EUR', 'RUB']);
+
+      expect(snapshot.rates.CNY).toBeCloseTo(1 / 7.25, 6);
+      expect(snapshot.rates.EUR).toBeCloseTo(1 / 0.92, 6);
+      expect(snapshot.rates.RUB).toBeUndefined();
+    });
+
+    it('should cross EUR-based fixer quotes through USD', async () => {
+      const source = new FixerSource('key', {
+        fetchFn: jsonFetch({ success: true, base: 'EUR', rates: { USD: 1.1, CNY: 7.7 } }),
+      });
+
+      const snapshot = await source.fetchRates(['EUR', 'CNY']);
+
+      expect(snapshot.rates.EUR).toBeCloseTo(1.1, 6);
+      expect(snapshot.rates.CNY).toBeCloseTo(1.1 / 7.7, 6);
+    });
+  });
 });
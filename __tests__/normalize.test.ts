@@ -5,7 +5,14 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
-import { normalizeItemName } from '@/lib/normalize';
+import {
+  getBaseWeaponName,
+  getRarityIds,
+  getRarityRank,
+  getWearForFloat,
+  normalizeItemName,
+  normalizeRarity,
+} from '@/lib/normalize';
 
 describe('normalizeItemName', () => {
   describe('Basic Normalization', () => {
@@ -111,3 +118,54 @@ describe('normalizeItemName', () => {
     });
   });
 });
+
+describe('normalizeRarity', () => {
+  it('should map ByMykel weapon rarity ids to grade names', () => {
+    expect(normalizeRarity('rarity_common_weapon')).toBe('consumer');
+    expect(normalizeRarity('rarity_rare_weapon')).toBe('milspec');
+    expect(normalizeRarity('rarity_legendary_weapon')).toBe('classified');
+    expect(normalizeRarity('rarity_ancient_weapon')).toBe('covert');
+    expect(normalizeRarity('rarity_contraband')).toBe('contraband');
+  });
+
+  it('should map sticker and agent grades to the weapon grade at the same tier', () => {
+    expect(normalizeRarity('rarity_default')).toBe('consumer');
+    expect(normalizeRarity('rarity_mythical')).toBe('restricted');
+    expect(normalizeRarity('rarity_ancient_character')).toBe('covert');
+  });
+
+  it('should pass grade names through and reject unknown values', () => {
+    expect(normalizeRarity('Covert')).toBe('covert');
+    expect(normalizeRarity('rarity_unknown_weapon')).toBeNull();
+    expect(normalizeRarity(null)).toBeNull();
+  });
+
+  it('should rank tiers and list the stored ids of a grade', () => {
+    expect(getRarityRank('rarity_ancient_weapon')).toBe(6);
+    expect(getRarityRank('milspec')).toBe(3);
+    expect(getRarityRank(null)).toBe(0);
+    expect(getRarityIds('classified')).toEqual([
+      'classified',
+      'rarity_legendary',
+      'rarity_legendary_weapon',
+      'rarity_legendary_character',
+    ]);
+  });
+});
+
+describe('getBaseWeaponName', () => {
+  it('should strip StatTrak, Souvenir and the wear condition', () => {
+    expect(getBaseWeaponName('StatTrak™ AK-47 | Redline (Field-Tested)')).toBe('AK-47 | Redline');
+    expect(getBaseWeaponName('Souvenir AWP | Dragon Lore (Factory New)')).toBe('AWP | Dragon Lore');
+    expect(getBaseWeaponName('★ Karambit | Fade')).toBe('★ Karambit | Fade');
+  });
+});
+
+describe('getWearForFloat', () => {
+  it('should put a float on a bracket boundary in the more worn bracket', () => {
+    expect(getWearForFloat(0)).toBe('factory_new');
+    expect(getWearForFloat(0.07)).toBe('minimal_wear');
+    expect(getWearForFloat(0.44)).toBe('well_worn');
+    expect(getWearForFloat(1)).toBe('battle_scarred');
+  });
+});
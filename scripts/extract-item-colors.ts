@@ -0,0 +1,51 @@
+/**
+ * Extract Item Color Palettes
+ *
+ * Computes dominant colors from item images and stores them on Item.palette
+ * and Item.color_families, used for theme matching in the loadout builder.
+ * Format: src/lib/colors/color-palette.ts
+ *
+ * Usage: npx tsx scripts/extract-item-colors.ts [--limit N] [--force]
+ *
+ * Without --force only items that were never extracted are processed, so the
+ * script can be re-run after imports add new items.
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { extractItemPalettes } from '../src/lib/colors/item-palette-service'
+
+const prisma = new PrismaClient()
+
+function parseArgs(args: string[]): { limit?: number; force: boolean } {
+  const limitIndex = args.indexOf('--limit')
+  const limit = limitIndex >= 0 ? Number(args[limitIndex + 1]) : undefined
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    console.error('Usage: npx tsx scripts/extract-item-colors.ts [--limit N] [--force]')
+    process.exit(1)
+  }
+  return { limit, force: args.includes('--force') }
+}
+
+async function main() {
+  const { limit, force } = parseArgs(process.argv.slice(2))
+  console.log(`[Palettes] Extracting item colors${force ? ' (all items)' : ''}...`)
+
+  const result = await extractItemPalettes({ limit, force }, prisma)
+  console.log(
+    `[Palettes] ${result.processed} processed, ${result.extracted} extracted, ${result.undecodable} undecodable, ${result.failed} failed`
+  )
+
+  const withPalette = await prisma.item.count({ where: { color_families: { isEmpty: false } } })
+  console.log(`\n[Palettes] Items with color families: ${withPalette}`)
+
+  if (result.failed > 0) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[Palettes] Extraction failed:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -11,6 +11,7 @@
  */
 
 import { PrismaClient } from '@prisma/client'
+import { recordMarketplacePrice } from '../src/lib/price/price-history-service'
 
 const prisma = new PrismaClient()
 
@@ -102,30 +103,18 @@ async function importPrices() {
     }
 
     try {
-      // Upsert Steam marketplace price
-      await prisma.marketplacePrice.upsert({
-        where: {
-          item_id_platform: {
-            item_id: item.id,
-            platform: 'steam',
-          },
-        },
-        update: {
-          price: steamPrice,
-          total_cost: steamPrice * 1.15, // Steam takes ~15%
-          last_updated: new Date(),
-        },
-        create: {
-          item_id: item.id,
+      // Upsert Steam marketplace price (also appends a price_history snapshot)
+      await recordMarketplacePrice(
+        {
+          itemId: item.id,
           platform: 'steam',
           price: steamPrice,
-          currency: 'USD',
-          seller_fee_percent: 13,
-          buyer_fee_percent: 2,
-          total_cost: steamPrice * 1.15,
-          last_updated: new Date(),
+          totalCost: steamPrice * 1.15, // Steam takes ~15%
+          sellerFeePercent: 13,
+          buyerFeePercent: 2,
         },
-      })
+        prisma
+      )
 
       // Check if this was an update or create
       const existing = await prisma.marketplacePrice.findUnique({
@@ -145,56 +134,32 @@ async function importPrices() {
 
       // Also add Skinport price if available
       if (prices.skinport?.price && prices.skinport.price > 0) {
-        await prisma.marketplacePrice.upsert({
-          where: {
-            item_id_platform: {
-              item_id: item.id,
-              platform: 'skinport',
-            },
-          },
-          update: {
-            price: prices.skinport.price,
-            total_cost: prices.skinport.price * 1.12,
-            last_updated: new Date(),
-          },
-          create: {
-            item_id: item.id,
+        await recordMarketplacePrice(
+          {
+            itemId: item.id,
             platform: 'skinport',
             price: prices.skinport.price,
-            currency: 'USD',
-            seller_fee_percent: 10,
-            buyer_fee_percent: 2,
-            total_cost: prices.skinport.price * 1.12,
-            last_updated: new Date(),
+            totalCost: prices.skinport.price * 1.12,
+            sellerFeePercent: 10,
+            buyerFeePercent: 2,
           },
-        })
+          prisma
+        )
       }
 
       // Add Buff163 price if available
       if (prices.buff163?.starting_at?.price && prices.buff163.starting_at.price > 0) {
-        await prisma.marketplacePrice.upsert({
-          where: {
-            item_id_platform: {
-              item_id: item.id,
-              platform: 'buff163',
-            },
-          },
-          update: {
-            price: prices.buff163.starting_at.price,
-            total_cost: prices.buff163.starting_at.price * 1.025,
-            last_updated: new Date(),
-          },
-          create: {
-            item_id: item.id,
+        await recordMarketplacePrice(
+          {
+            itemId: item.id,
             platform: 'buff163',
             price: prices.buff163.starting_at.price,
-            currency: 'USD',
-            seller_fee_percent: 2.5,
-            buyer_fee_percent: 0,
-            total_cost: prices.buff163.starting_at.price * 1.025,
-            last_updated: new Date(),
+            totalCost: prices.buff163.starting_at.price * 1.025,
+            sellerFeePercent: 2.5,
+            buyerFeePercent: 0,
           },
-        })
+          prisma
+        )
       }
 
     } catch (error) {
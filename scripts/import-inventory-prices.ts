@@ -8,6 +8,7 @@
  */
 
 import { PrismaClient } from '@prisma/client'
+import { recordMarketplacePrice } from '../src/lib/price/price-history-service'
 
 const prisma = new PrismaClient()
 
@@ -113,29 +114,17 @@ async function main() {
       })
 
       if (item) {
-        await prisma.marketplacePrice.upsert({
-          where: {
-            item_id_platform: {
-              item_id: item.id,
-              platform: 'steam',
-            },
-          },
-          update: {
-            price: price,
-            total_cost: price * 1.15,
-            last_updated: new Date(),
-          },
-          create: {
-            item_id: item.id,
+        await recordMarketplacePrice(
+          {
+            itemId: item.id,
             platform: 'steam',
             price: price,
-            currency: 'USD',
-            seller_fee_percent: 13,
-            buyer_fee_percent: 2,
-            total_cost: price * 1.15,
-            last_updated: new Date(),
+            totalCost: price * 1.15,
+            sellerFeePercent: 13,
+            buyerFeePercent: 2,
           },
-        })
+          prisma
+        )
       }
     } else {
       console.log(`  No price found`)
@@ -0,0 +1,57 @@
+/**
+ * Import Pattern Seed Tier Lists
+ *
+ * Loads a community tier list (Case Hardened blue gems, Fade percentages,
+ * Doppler phases) into PatternTier. Format: src/lib/patterns/pattern-tiers.ts
+ *
+ * Usage: npx tsx scripts/import-pattern-tiers.ts <tier-list.json> [more.json ...]
+ *
+ * Re-running a file updates existing skin + seed rows in place.
+ */
+
+import { readFile } from 'fs/promises'
+import { PrismaClient } from '@prisma/client'
+import { parsePatternTierFile } from '../src/lib/patterns/pattern-tiers'
+import { importPatternTiers } from '../src/lib/patterns/pattern-tier-service'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  const files = process.argv.slice(2)
+  if (files.length === 0) {
+    console.error('Usage: npx tsx scripts/import-pattern-tiers.ts <tier-list.json> [more.json ...]')
+    process.exit(1)
+  }
+
+  let hadErrors = false
+
+  for (const file of files) {
+    console.log(`[PatternTiers] Reading ${file}...`)
+
+    const { entries, errors } = parsePatternTierFile(JSON.parse(await readFile(file, 'utf8')))
+    for (const error of errors) {
+      console.warn(`[PatternTiers]   Skipped ${error}`)
+    }
+    hadErrors = hadErrors || errors.length > 0
+
+    const result = await importPatternTiers(entries, prisma)
+    console.log(
+      `[PatternTiers] ${file}: ${result.processed} processed, ${result.created} created, ${result.updated} updated, ${result.failed} failed`
+    )
+    hadErrors = hadErrors || result.failed > 0
+  }
+
+  const total = await prisma.patternTier.count()
+  console.log(`\n[PatternTiers] Total tiers in database: ${total}`)
+
+  if (hadErrors) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('[PatternTiers] Import failed:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
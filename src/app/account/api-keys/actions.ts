@@ -0,0 +1,61 @@
+'use server'
+
+/**
+ * Server Actions for API Key Management
+ *
+ * Responsibilities:
+ * - Create an API key (plaintext returned once, only the hash is stored)
+ * - Revoke an API key
+ * - Require authentication
+ *
+ * Keys authenticate /api/v1 requests (src/lib/api-v1/handler.ts).
+ */
+
+import { revalidatePath } from 'next/cache'
+import { requireAuth } from '@/lib/auth/session'
+import { ApiKeyError } from '@/lib/api-v1/api-keys'
+import { createApiKey, revokeApiKey } from '@/lib/api-v1/api-key-service'
+
+interface IActionResult {
+  success: boolean
+  error?: string
+  key?: string // Plaintext key, only returned by createApiKeyAction
+}
+
+/**
+ * Create an API key for the current user
+ */
+export async function createApiKeyAction(name: string): Promise<IActionResult> {
+  try {
+    const session = await requireAuth()
+    const { key } = await createApiKey(session.user.id, name)
+
+    revalidatePath('/account/api-keys')
+    return { success: true, key }
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return { success: false, error: error.message }
+    }
+    console.error('Error creating API key:', error)
+    return { success: false, error: 'Failed to create API key' }
+  }
+}
+
+/**
+ * Revoke one of the current user's API keys
+ */
+export async function revokeApiKeyAction(keyId: string): Promise<IActionResult> {
+  try {
+    const session = await requireAuth()
+    await revokeApiKey(session.user.id, keyId)
+
+    revalidatePath('/account/api-keys')
+    return { success: true }
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return { success: false, error: error.message }
+    }
+    console.error('Error revoking API key:', error)
+    return { success: false, error: 'Failed to revoke API key' }
+  }
+}
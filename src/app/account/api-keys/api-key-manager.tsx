@@ -0,0 +1,142 @@
+'use client'
+
+/**
+ * ApiKeyManager Client Component
+ *
+ * Create form, one-time display of a new key, and the key list with revoke
+ * buttons. Server actions live in ./actions.ts.
+ */
+
+import { useState, useTransition } from 'react'
+import { createApiKeyAction, revokeApiKeyAction } from './actions'
+
+interface ApiKeyRow {
+  id: string
+  name: string
+  keyPrefix: string
+  rateLimitPerMinute: number
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+interface ApiKeyManagerProps {
+  keys: ApiKeyRow[]
+  maxKeys: number
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'Never'
+}
+
+export function ApiKeyManager({ keys, maxKeys }: ApiKeyManagerProps) {
+  const [isPending, startTransition] = useTransition()
+  const [name, setName] = useState('')
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const activeCount = keys.filter(key => !key.revokedAt).length
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault()
+    setError(null)
+    startTransition(async () => {
+      const result = await createApiKeyAction(name)
+      if (result.success && result.key) {
+        setNewKey(result.key)
+        setName('')
+      } else {
+        setError(result.error || 'Failed to create API key')
+      }
+    })
+  }
+
+  const handleRevoke = (keyId: string) => {
+    if (!confirm('Revoke this key? Scripts using it will stop working immediately.')) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await revokeApiKeyAction(keyId)
+      if (!result.success) {
+        setError(result.error || 'Failed to revoke API key')
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Create a key</h2>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Price tracker script"
+            maxLength={100}
+            aria-label="Key name"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isPending || name.trim().length === 0 || activeCount >= maxKeys}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Create Key
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          {activeCount} of {maxKeys} active keys
+        </p>
+
+        {newKey && (
+          <div className="mt-4 rounded-md border border-green-200 bg-green-50 p-4" role="status">
+            <p className="text-sm font-medium text-green-800">
+              Copy your key now. It will not be shown again.
+            </p>
+            <code className="mt-2 block break-all rounded bg-white px-2 py-1 text-sm">{newKey}</code>
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-4 text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </form>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {keys.length === 0 ? (
+          <p className="p-6 text-center text-gray-600">You have no API keys yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200" aria-label="API keys">
+            {keys.map(key => (
+              <li key={key.id} className="flex items-center justify-between p-4">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {key.name}
+                    {key.revokedAt && <span className="ml-2 text-sm text-red-600">Revoked</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    <code>{key.keyPrefix}…</code> · {key.rateLimitPerMinute} requests/min · Last used{' '}
+                    {formatDate(key.lastUsedAt)}
+                  </p>
+                </div>
+                {!key.revokedAt && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(key.id)}
+                    disabled={isPending}
+                    className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+/**
+ * API Keys Page (Server Component)
+ *
+ * Lets signed-in users create and revoke keys for the public /api/v1 API.
+ * The OpenAPI document lives at /api/v1/openapi.json.
+ */
+
+import { Metadata } from 'next'
+import { requireAuth } from '@/lib/auth/session'
+import { MAX_API_KEYS_PER_USER } from '@/lib/api-v1/api-keys'
+import { listApiKeys } from '@/lib/api-v1/api-key-service'
+import { ApiKeyManager } from './api-key-manager'
+
+export const metadata: Metadata = {
+  title: 'API Keys - CSLoadout.gg',
+  robots: 'noindex, nofollow'
+}
+
+export default async function ApiKeysPage() {
+  const session = await requireAuth()
+  const keys = await listApiKeys(session.user.id)
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-gray-900">API Keys</h1>
+          <p className="mt-2 text-gray-600">
+            Use a key to call the public API from scripts. Send it as{' '}
+            <code className="rounded bg-gray-100 px-1">Authorization: Bearer &lt;key&gt;</code>. See the{' '}
+            <a href="/api/v1/openapi.json" className="text-blue-600 hover:underline">
+              OpenAPI document
+            </a>{' '}
+            for endpoints and response formats.
+          </p>
+        </div>
+
+        <ApiKeyManager
+          maxKeys={MAX_API_KEYS_PER_USER}
+          keys={keys.map(key => ({
+            id: key.id,
+            name: key.name,
+            keyPrefix: key.keyPrefix,
+            rateLimitPerMinute: key.rateLimitPerMinute,
+            lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+            revokedAt: key.revokedAt?.toISOString() ?? null,
+            createdAt: key.createdAt.toISOString()
+          }))}
+        />
+      </div>
+    </main>
+  )
+}
@@ -7,12 +7,12 @@
  * Tests: __tests__/price-alerts.test.ts
  *
  * Responsibilities:
- * - Create price alert (with validation)
- * - Update alert target price and notification preferences
+ * - Create price alert (with validation) of any type in src/lib/alerts/alert-conditions.ts
+ * - Update alert target price and notification preferences (re-validated per type)
  * - Delete alert
  * - Pause/resume alert (toggle is_active)
  * - Validate: positive target_price, at least one notification method
- * - Prevent duplicate active alerts for same user+item
+ * - Prevent duplicate active alerts for same user+item+type
  * - Require authentication
  * - Handle database errors gracefully
  */
@@ -20,6 +20,14 @@
 import { revalidatePath } from 'next/cache'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth/session'
+import {
+  clearUnusedConditionFields,
+  toAlertCondition,
+  usesTargetPrice,
+  validateAlertCondition,
+  type AlertCondition,
+  type AlertType
+} from '@/lib/alerts/alert-conditions'
 
 interface IActionResult {
   success: boolean
@@ -28,13 +36,27 @@ interface IActionResult {
     id: string
     user_id: string
     item_id: string
-    target_price: number
+    alert_type: string
+    target_price: number | null
     notify_email: boolean
     notify_push: boolean
     is_active: boolean
   }
 }
 
+/**
+ * Type-specific alert settings (defaults to a "price below target" alert)
+ */
+export interface IAlertConditionOptions {
+  alertType?: AlertType
+  platform?: string | null
+  dropPercent?: number // percent_drop
+  windowHours?: number // percent_drop
+  spreadPercent?: number // platform_spread
+  floatMin?: number // float_range
+  floatMax?: number // float_range
+}
+
 /**
  * Create price alert
  * BDD: Scenario "Create price alert with email notification" (line 22)
@@ -44,19 +66,33 @@ export async function createPriceAlertAction(
   itemId: string,
   targetPrice: number,
   notifyEmail: boolean,
-  notifyPush: boolean
+  notifyPush: boolean,
+  options: IAlertConditionOptions = {}
 ): Promise<IActionResult> {
   try {
     // Require authentication
     const session = await requireAuth()
 
-    // Validation: Positive target price
+    const alertType = options.alertType ?? 'price_below'
+    const condition: AlertCondition = {
+      type: alertType,
+      targetPrice: usesTargetPrice(alertType) ? targetPrice : null,
+      platform: options.platform ?? null,
+      dropPercent: options.dropPercent ?? null,
+      windowHours: options.windowHours ?? null,
+      spreadPercent: options.spreadPercent ?? null,
+      floatMin: options.floatMin ?? null,
+      floatMax: options.floatMax ?? null
+    }
+
+    // Validation: Positive target price and type-specific fields
     // BDD: Scenario "Reject invalid target price (negative)" (line 61)
     // BDD: Scenario "Reject invalid target price (zero)" (line 68)
-    if (targetPrice <= 0) {
+    const conditionError = validateAlertCondition(condition)
+    if (conditionError) {
       return {
         success: false,
-        error: 'Target price must be greater than $0'
+        error: conditionError
       }
     }
 
@@ -75,6 +111,7 @@ export async function createPriceAlertAction(
       where: {
         user_id: session.user.id,
         item_id: itemId,
+        alert_type: alertType,
         is_active: true
       }
     })
@@ -103,7 +140,14 @@ export async function createPriceAlertAction(
       data: {
         user_id: session.user.id,
         item_id: itemId,
-        target_price: targetPrice,
+        alert_type: alertType,
+        target_price: condition.targetPrice,
+        platform: condition.platform,
+        drop_percent: condition.dropPercent,
+        window_hours: condition.windowHours,
+        spread_percent: condition.spreadPercent,
+        float_min: condition.floatMin,
+        float_max: condition.floatMax,
         notify_email: notifyEmail,
         notify_push: notifyPush,
         is_active: true
@@ -120,7 +164,8 @@ export async function createPriceAlertAction(
         id: priceAlert.id,
         user_id: priceAlert.user_id,
         item_id: priceAlert.item_id,
-        target_price: Number(priceAlert.target_price),
+        alert_type: priceAlert.alert_type,
+        target_price: priceAlert.target_price === null ? null : Number(priceAlert.target_price),
         notify_email: priceAlert.notify_email,
         notify_push: priceAlert.notify_push,
         is_active: priceAlert.is_active
@@ -169,11 +214,18 @@ export async function updatePriceAlertAction(
       }
     }
 
-    // Validate target price if provided
-    if (targetPrice !== undefined && targetPrice <= 0) {
+    // Re-validate the whole condition for the alert's type: a target price
+    // only applies to the types compared against one, and fields left over
+    // from another type are cleared
+    const condition: AlertCondition = {
+      ...clearUnusedConditionFields(toAlertCondition(alert)),
+      ...(targetPrice !== undefined && { targetPrice })
+    }
+    const conditionError = validateAlertCondition(condition)
+    if (conditionError) {
       return {
         success: false,
-        error: 'Target price must be greater than $0'
+        error: conditionError
       }
     }
 
@@ -192,7 +244,12 @@ export async function updatePriceAlertAction(
     const updatedAlert = await prisma.priceAlert.update({
       where: { id: alertId },
       data: {
-        ...(targetPrice !== undefined && { target_price: targetPrice }),
+        target_price: condition.targetPrice,
+        drop_percent: condition.dropPercent,
+        window_hours: condition.windowHours,
+        spread_percent: condition.spreadPercent,
+        float_min: condition.floatMin,
+        float_max: condition.floatMax,
         ...(notifyEmail !== undefined && { notify_email: notifyEmail }),
         ...(notifyPush !== undefined && { notify_push: notifyPush }),
         updated_at: new Date()
@@ -209,7 +266,8 @@ export async function updatePriceAlertAction(
         id: updatedAlert.id,
         user_id: updatedAlert.user_id,
         item_id: updatedAlert.item_id,
-        target_price: Number(updatedAlert.target_price),
+        alert_type: updatedAlert.alert_type,
+        target_price: updatedAlert.target_price === null ? null : Number(updatedAlert.target_price),
         notify_email: updatedAlert.notify_email,
         notify_push: updatedAlert.notify_push,
         is_active: updatedAlert.is_active
@@ -328,7 +386,8 @@ export async function pauseResumeAlertAction(
         id: updatedAlert.id,
         user_id: updatedAlert.user_id,
         item_id: updatedAlert.item_id,
-        target_price: Number(updatedAlert.target_price),
+        alert_type: updatedAlert.alert_type,
+        target_price: updatedAlert.target_price === null ? null : Number(updatedAlert.target_price),
         notify_email: updatedAlert.notify_email,
         notify_push: updatedAlert.notify_push,
         is_active: updatedAlert.is_active
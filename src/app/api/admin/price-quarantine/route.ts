@@ -0,0 +1,78 @@
+/**
+ * GET /api/admin/price-quarantine - Review quarantined marketplace prices
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Lists prices flagged by the ingestion outlier checks
+ * (src/lib/price/price-quarantine-service.ts) with the reason each one was
+ * quarantined, newest first.
+ *
+ * Security:
+ * - Validates Authorization: Bearer {ADMIN_API_SECRET} header
+ * - Returns 401 Unauthorized if secret doesn't match
+ *
+ * Parameters:
+ *   - limit: Maximum rows (1-500, default 100)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { listQuarantinedPrices } from '@/lib/price/price-quarantine-service'
+
+// Force dynamic rendering (uses request.headers for authorization)
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+export async function GET(request: NextRequest) {
+  const expectedSecret = process.env.ADMIN_API_SECRET
+  if (!expectedSecret) {
+    console.error('[ADMIN] ADMIN_API_SECRET environment variable not configured')
+    return NextResponse.json(
+      { error: 'Server configuration error' },
+      { status: 500 }
+    )
+  }
+
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${expectedSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const limitParam = request.nextUrl.searchParams.get('limit')
+  const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `Invalid limit. Must be between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const prices = await listQuarantinedPrices(limit)
+
+    return NextResponse.json({
+      count: prices.length,
+      prices: prices.map(price => ({
+        id: price.id,
+        itemId: price.item.id,
+        itemName: price.item.display_name,
+        marketHashName: price.item.name,
+        platform: price.platform,
+        price: price.price,
+        totalCost: price.total_cost,
+        currency: price.currency,
+        reason: price.quarantine_reason,
+        quarantinedAt: price.quarantined_at,
+        listingUrl: price.listing_url,
+      })),
+    })
+  } catch (error) {
+    console.error('[API /admin/price-quarantine] Error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -19,13 +19,23 @@
  *   {
  *     id, name, slug, description, imageUrl, keyPrice, releaseDate,
  *     items: CaseItem[],
- *     expectedValue: number,
+ *     expectedValue: number,       // Net of seller fees, per opening
+ *     valuation: CaseValuation,    // EV, ROI, break-even odds, variance, tier breakdown
  *     probabilityValid: boolean
  *   }
+ *
+ * Expected value uses the cheapest non-quarantined listing of every variant
+ * (src/lib/cases/case-expected-value.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getBaseWeaponName } from '@/lib/normalize';
+import {
+  CASE_VALUATION_ITEM_SELECT,
+  calculateCaseValuation,
+  toCaseValuationVariant,
+} from '@/lib/cases/case-expected-value';
 
 // Force dynamic rendering (uses dynamic route parameters which require dynamic mode)
 export const dynamic = 'force-dynamic';
@@ -50,23 +60,6 @@ const WEAR_ORDER: Record<string, number> = {
   'Battle-Scarred': 5,
 };
 
-/**
- * Extract base weapon name by removing prefixes (StatTrak™, Souvenir) and wear condition
- * "StatTrak™ AK-47 | Redline (Field-Tested)" -> "AK-47 | Redline"
- */
-function getBaseWeaponName(name: string): string {
-  let baseName = name;
-
-  // Remove StatTrak™ prefix
-  baseName = baseName.replace(/^StatTrak™\s+/i, '');
-  // Remove Souvenir prefix
-  baseName = baseName.replace(/^Souvenir\s+/i, '');
-  // Remove wear condition in parentheses at the end
-  baseName = baseName.replace(/\s*\((Factory New|Minimal Wear|Field-Tested|Well-Worn|Battle-Scarred)\)\s*$/i, '');
-
-  return baseName.trim();
-}
-
 /**
  * Generate URL-friendly slug from base weapon name
  * "AWP | Printstream" -> "awp-printstream"
@@ -119,11 +112,10 @@ export async function GET(
           include: {
             item: {
               select: {
+                ...CASE_VALUATION_ITEM_SELECT, // name, rarity, wear/quality + cheapest price
                 id: true,
-                name: true,
                 display_name: true,
                 search_name: true,
-                rarity: true,
                 type: true,
                 weapon_type: true,
                 image_url: true,
@@ -271,10 +263,14 @@ export async function GET(
       });
     }
 
-    // Calculate expected value (placeholder - requires price data)
-    // Expected value = sum of (probability × price) for all items
-    // For now, using 0 until price data is available
-    const expectedValue = 0; // TODO: Calculate when price data available
+    // Expected value per opening from live prices, net of seller fees
+    const valuation = calculateCaseValuation(
+      caseData.key_price,
+      caseData.case_items.map(toCaseValuationVariant)
+    );
+    valuation.tiers.sort(
+      (a, b) => (RARITY_ORDER[a.rarity] || 999) - (RARITY_ORDER[b.rarity] || 999)
+    );
 
     // Format response
     const response = {
@@ -302,7 +298,8 @@ export async function GET(
       })),
       itemCount: sortedItems.length,
       totalVariants: caseData.case_items.length,
-      expectedValue,
+      expectedValue: valuation.expectedValue,
+      valuation,
       probabilityValid,
       totalProbability,
     };
@@ -0,0 +1,165 @@
+/**
+ * POST /api/cases/:slug/simulate - Monte Carlo case-opening simulation
+ *
+ * BDD Reference: features/02-relational-browsing.feature
+ *   - Calculate expected value
+ *
+ * Runs `trials` seeded sessions of `openings` openings against live prices
+ * (src/lib/cases/case-simulator.ts).
+ *
+ * Request Body (all optional):
+ *   {
+ *     openings?: number  // Openings per session (default 100, max 10000)
+ *     trials?: number    // Sessions to simulate (default 1000, max 10000)
+ *     seed?: number | string  // Reproducible seed (random when omitted)
+ *   }
+ *
+ * Response:
+ *   - 200: { caseId, name, slug, ...CaseSimulationResult }
+ *   - 308: Redirect from a previous slug
+ *   - 400: Invalid options
+ *   - 404: Case not found / has no items / has no drop odds
+ *   - 500: Server error
+ *
+ * Gotcha #7: Support previous_slugs (308 keeps the POST body)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import {
+  CASE_VALUATION_ITEM_SELECT,
+  buildCaseOutcomes,
+  toCaseValuationVariant,
+} from '@/lib/cases/case-expected-value';
+import {
+  DEFAULT_OPENINGS,
+  DEFAULT_TRIALS,
+  MAX_OPENINGS,
+  MAX_SIMULATED_OPENINGS,
+  MAX_TRIALS,
+  CaseSimulationError,
+  normalizeSeed,
+  simulateCaseOpenings,
+} from '@/lib/cases/case-simulator';
+
+export const dynamic = 'force-dynamic';
+
+function isCount(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const { slug } = params;
+
+    // Empty body = all defaults
+    let body: { openings?: unknown; trials?: unknown; seed?: unknown } = {};
+    const rawBody = await request.text();
+    if (rawBody.trim()) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(rawBody);
+      } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+      }
+      body = parsed;
+    }
+
+    const openings = body.openings ?? DEFAULT_OPENINGS;
+    const trials = body.trials ?? DEFAULT_TRIALS;
+
+    if (!isCount(openings, MAX_OPENINGS)) {
+      return NextResponse.json(
+        { error: `openings must be an integer between 1 and ${MAX_OPENINGS}` },
+        { status: 400 }
+      );
+    }
+    if (!isCount(trials, MAX_TRIALS)) {
+      return NextResponse.json(
+        { error: `trials must be an integer between 1 and ${MAX_TRIALS}` },
+        { status: 400 }
+      );
+    }
+    if (openings * trials > MAX_SIMULATED_OPENINGS) {
+      return NextResponse.json(
+        { error: `openings × trials must not exceed ${MAX_SIMULATED_OPENINGS}` },
+        { status: 400 }
+      );
+    }
+
+    const seed =
+      body.seed === undefined || body.seed === null
+        ? Math.floor(Math.random() * 0x100000000)
+        : normalizeSeed(body.seed);
+    if (seed === null) {
+      return NextResponse.json(
+        { error: 'seed must be a non-negative 32-bit integer or a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    const caseData = await prisma.case.findUnique({
+      where: { slug },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        key_price: true,
+        case_items: {
+          select: {
+            drop_probability: true,
+            is_special_item: true,
+            item: { select: CASE_VALUATION_ITEM_SELECT },
+          },
+        },
+      },
+    });
+
+    if (!caseData) {
+      const caseByOldSlug = await prisma.case.findFirst({
+        where: { previous_slugs: { has: slug } },
+        select: { slug: true },
+      });
+
+      if (caseByOldSlug) {
+        return NextResponse.redirect(
+          new URL(`/api/cases/${caseByOldSlug.slug}/simulate`, request.url),
+          { status: 308 }
+        );
+      }
+
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    if (caseData.case_items.length === 0) {
+      return NextResponse.json({ error: 'Case has no items' }, { status: 404 });
+    }
+
+    const outcomes = buildCaseOutcomes(caseData.case_items.map(toCaseValuationVariant));
+    const result = simulateCaseOpenings(caseData.key_price, outcomes, { openings, trials, seed });
+
+    return NextResponse.json({
+      caseId: caseData.id,
+      name: caseData.name,
+      slug: caseData.slug,
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof CaseSimulationError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    console.error('[API /cases/:slug/simulate] Error:', error);
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -18,11 +18,17 @@
  *
  * Responsibilities:
  * - Fetch all active price alerts with eager loading (prevent N+1)
- * - Compare current lowest price vs target price
- * - Trigger alerts where price <= target AND cooldown elapsed (15 min)
+ * - Load window highs and float listings for all alerts up front, not per alert
+ * - Evaluate each alert type against current prices (quarantined outliers never trigger):
+ *   price below/above target, % drop over a window, cross-platform spread, float range
+ *   (src/lib/alerts/alert-conditions.ts)
+ * - Trigger alerts where the condition holds AND cooldown elapsed (15 min)
  * - Increment triggered_count and update last_triggered_at
  * - Create AlertTrigger records for history tracking
  * - Send email/push notifications (Phase 1e/1f - implemented separately)
+ * - Render notification prices in each user's display currency
+ * - Email instant-delivery users only; hourly/daily users get a digest
+ *   (/api/cron/send-alert-digests, src/lib/alerts/alert-digest.ts)
  * - Respect 15-minute cooldown between triggers (prevent spam)
  * - Complete within 60 seconds (Vercel timeout)
  * - Use BRIN index for price_history queries (Phase 1j performance requirement)
@@ -32,6 +38,22 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { emailService } from '@/lib/email/email-service'
 import { pushService } from '@/lib/push/push-service'
+import { loadDisplayCurrency } from '@/lib/currency/get-display-currency'
+import { NON_QUARANTINED_PRICE } from '@/lib/price/price-quarantine-service'
+import {
+  evaluateAlertCondition,
+  loadFloatListingPrices,
+  loadWindowHighPrices,
+  summarizeAlertTrigger,
+  toAlertCondition,
+  windowHighKey,
+  type AlertPriceSnapshot
+} from '@/lib/alerts/alert-conditions'
+import {
+  formatPrice,
+  resolveDisplayCurrencyCode,
+  type DisplayCurrency
+} from '@/lib/currency/display-currency'
 
 // Force dynamic rendering (uses request.headers for authorization)
 export const dynamic = 'force-dynamic'
@@ -63,8 +85,8 @@ export async function GET(request: NextRequest) {
         item: {
           include: {
             marketplace_prices: {
-              orderBy: { total_cost: 'asc' },
-              take: 1 // Only fetch lowest price
+              where: NON_QUARANTINED_PRICE,
+              orderBy: { total_cost: 'asc' } // All platforms: spread/above alerts need more than the lowest
             }
           }
         },
@@ -73,7 +95,9 @@ export async function GET(request: NextRequest) {
             id: true,
             email: true,
             notification_email_enabled: true,
-            notification_push_enabled: true
+            notification_push_enabled: true,
+            display_currency: true,
+            alert_delivery: true
           }
         }
       }
@@ -82,16 +106,56 @@ export async function GET(request: NextRequest) {
     const now = new Date()
     const alertsTriggered = []
 
-    // Step 2: Filter alerts that should trigger
-    for (const alert of activeAlerts) {
-      const lowestPrice = alert.item.marketplace_prices[0]
-      if (!lowestPrice) continue // No price data available
+    // Rates are looked up once per display currency, not once per alert
+    const displayCurrencies = new Map<string, Promise<DisplayCurrency>>()
+    const getUserDisplayCurrency = (preference: string) => {
+      const currency = resolveDisplayCurrencyCode(preference)
+      if (!displayCurrencies.has(currency)) {
+        displayCurrencies.set(currency, loadDisplayCurrency(currency))
+      }
+      return displayCurrencies.get(currency)!
+    }
 
-      const currentPrice = Number(lowestPrice.total_cost)
-      const targetPrice = Number(alert.target_price)
+    // Reference prices for percent_drop and float_range alerts, batched across alerts
+    // (prevent N+1). A failed lookup only skips those alert types this run.
+    const conditions = new Map(activeAlerts.map(alert => [alert.id, toAlertCondition(alert)]))
+    const percentDropWindows = activeAlerts.flatMap(alert => {
+      const condition = conditions.get(alert.id)!
+      return condition.type === 'percent_drop' && condition.windowHours
+        ? [{ itemId: alert.item_id, windowHours: condition.windowHours }]
+        : []
+    })
+    const floatRangeItemIds = Array.from(
+      new Set(activeAlerts.filter(alert => conditions.get(alert.id)!.type === 'float_range').map(alert => alert.item_id))
+    )
 
-      // Check price condition
-      if (currentPrice > targetPrice) continue
+    let windowHighs = new Map<string, Record<string, number>>()
+    if (percentDropWindows.length > 0) {
+      try {
+        windowHighs = await loadWindowHighPrices(percentDropWindows, now)
+      } catch (error) {
+        console.error('Failed to load window highs for percent_drop alerts:', error)
+      }
+    }
+
+    let floatListings = new Map<string, AlertPriceSnapshot[]>()
+    if (floatRangeItemIds.length > 0) {
+      try {
+        floatListings = await loadFloatListingPrices(floatRangeItemIds)
+      } catch (error) {
+        console.error('Failed to load float listings for float_range alerts:', error)
+      }
+    }
+
+    // Step 2: Filter alerts that should trigger
+    for (const alert of activeAlerts) {
+      const prices: AlertPriceSnapshot[] = alert.item.marketplace_prices.map(price => ({
+        platform: price.platform,
+        totalCost: Number(price.total_cost),
+        listingUrl: price.listing_url,
+        floatValue: price.float_value
+      }))
+      if (prices.length === 0) continue // No price data available
 
       // Check cooldown period (15 minutes minimum between triggers)
       // BDD Scenario: "Prevent duplicate triggers within cooldown period" (line 131)
@@ -101,6 +165,30 @@ export async function GET(request: NextRequest) {
         if (minutesSinceLastTrigger < COOLDOWN_MINUTES) continue
       }
 
+      // Check the alert's condition
+      const condition = conditions.get(alert.id)!
+      const windowHighPrices =
+        condition.type === 'percent_drop' && condition.windowHours
+          ? windowHighs.get(windowHighKey(alert.item_id, condition.windowHours)) ?? null
+          : null
+
+      // float_range scans every stored listing with a float, not just each platform's cheapest,
+      // on platforms whose current price is not quarantined
+      const pricedPlatforms = new Set(prices.map(price => price.platform))
+      const candidatePrices =
+        condition.type === 'float_range'
+          ? [
+              ...prices,
+              ...(floatListings.get(alert.item_id) ?? []).filter(listing => pricedPlatforms.has(listing.platform))
+            ]
+          : prices
+
+      const evaluation = evaluateAlertCondition(condition, candidatePrices, windowHighPrices)
+      if (!evaluation) continue
+
+      const currentPrice = evaluation.triggeredPrice
+      const targetPrice = condition.targetPrice
+
       // Step 3: Trigger alert (update database)
       try {
         // Update alert record
@@ -119,8 +207,9 @@ export async function GET(request: NextRequest) {
           data: {
             alert_id: alert.id,
             triggered_price: currentPrice,
-            platform: lowestPrice.platform,
-            listing_url: lowestPrice.listing_url || null,
+            platform: evaluation.platform,
+            listing_url: evaluation.listingUrl || null,
+            details: evaluation.details,
             clicked: false
           }
         })
@@ -128,22 +217,28 @@ export async function GET(request: NextRequest) {
         alertsTriggered.push({
           alert_id: alert.id,
           item_name: alert.item.display_name,
+          alert_type: condition.type,
           target_price: targetPrice,
           triggered_price: currentPrice,
           user_email: alert.user.email
         })
 
+        const displayCurrency = await getUserDisplayCurrency(alert.user.display_currency)
+
         // Phase 1e: Send email notification if notify_email = true
         // BDD Scenario: "Send email notification when alert triggers" (line 143)
-        if (alert.notify_email && alert.user.email) {
+        // Hourly/daily digest users: trigger stays email_sent = false for /api/cron/send-alert-digests
+        if (alert.notify_email && alert.user.email && alert.user.alert_delivery === 'instant') {
           const emailResult = await emailService.sendPriceAlertEmail({
             to: alert.user.email,
             itemName: alert.item.display_name,
-            targetPrice: targetPrice,
+            targetPrice: targetPrice ?? undefined,
             triggeredPrice: currentPrice,
-            platform: lowestPrice.platform,
-            listingUrl: lowestPrice.listing_url || '',
-            alertId: alert.id
+            platform: evaluation.platform,
+            listingUrl: evaluation.listingUrl || '',
+            alertId: alert.id,
+            details: evaluation.details,
+            displayCurrency
           })
 
           // Update trigger record with email status
@@ -179,9 +274,13 @@ export async function GET(request: NextRequest) {
                 }
               },
               title: `Price Alert: ${alert.item.display_name}`,
-              body: `Now $${currentPrice.toFixed(2)} - Your target: $${targetPrice.toFixed(2)}`,
+              body: evaluation.details.type === 'price_below'
+                ? `Now ${formatPrice(currentPrice, displayCurrency)} - Your target: ${formatPrice(evaluation.details.targetPrice, displayCurrency)}`
+                : summarizeAlertTrigger(alert.item.display_name, currentPrice, evaluation.details, amount =>
+                    formatPrice(amount, displayCurrency)
+                  ),
               icon: alert.item.image_url,
-              url: lowestPrice.listing_url || '',
+              url: evaluation.listingUrl || '',
               subscriptionId: sub.id
             })
 
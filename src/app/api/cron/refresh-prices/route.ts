@@ -0,0 +1,86 @@
+/**
+ * Vercel Cron Job: Scheduled Marketplace Price Refresh
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ * Scenario: Display data freshness indicator
+ *
+ * Requirements:
+ * - Runs hourly (configured in vercel.json)
+ * - Refreshes items in demand order (alerts > loadouts > inventory holdings)
+ * - Stays within each provider's rate limit budget
+ * - Resumes from the persisted per-platform cursor on the next run
+ * - Reports per-platform freshness against the SLA
+ * - Recomputes loadout swap suggestions (LoadoutWeaponSkin.alternatives)
+ *   for weapons whose prices changed, in the time left after pricing
+ * - Secured with CRON_SECRET environment variable
+ *
+ * CRITICAL GOTCHA: Vercel kills the function at maxDuration. New chunks stop
+ * starting RUN_BUDGET_MS into the run so the cursor is always saved.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPlatformFreshness, runPriceRefresh } from '@/lib/price/price-refresh-service'
+import { refreshStaleAlternatives } from '@/lib/budget-loadout/skin-alternatives-service'
+
+// Force dynamic rendering (uses request.headers for authorization)
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+// Leave headroom for the in-flight chunk, cursor writes and freshness queries
+const RUN_BUDGET_MS = 45 * 1000
+
+// Swap suggestion refresh after pricing; stale slots carry over to the next run
+const ALTERNATIVES_BUDGET_MS = 5 * 1000
+
+/**
+ * GET /api/cron/refresh-prices
+ * Triggered by Vercel Cron on schedule defined in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  const expectedSecret = process.env.CRON_SECRET
+  if (!expectedSecret) {
+    console.error('[CRON] CRON_SECRET environment variable not configured')
+    return NextResponse.json(
+      { error: 'Server configuration error' },
+      { status: 500 }
+    )
+  }
+
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${expectedSecret}`) {
+    console.warn('[CRON] Unauthorized cron job access attempt')
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  console.log('[CRON] Price refresh job started')
+
+  try {
+    const platforms = await runPriceRefresh({ deadline: startTime + RUN_BUDGET_MS })
+    const freshness = await getPlatformFreshness()
+    const alternatives = await refreshStaleAlternatives({ deadline: startTime + RUN_BUDGET_MS + ALTERNATIVES_BUDGET_MS })
+
+    const response = {
+      success: true,
+      platforms,
+      freshness,
+      alternatives,
+      duration: `${Math.round((Date.now() - startTime) / 1000)}s`,
+      timestamp: new Date().toISOString(),
+    }
+
+    console.log('[CRON] Price refresh completed:', {
+      priced: platforms.reduce((sum, p) => sum + p.priced, 0),
+      slaBreaches: freshness.filter(f => !f.meetsSla).map(f => f.platform),
+    })
+
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error('[CRON] Price refresh failed:', error)
+    return NextResponse.json(
+      { error: 'Price refresh failed' },
+      { status: 500 }
+    )
+  }
+}
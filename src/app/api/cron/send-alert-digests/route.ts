@@ -0,0 +1,64 @@
+/**
+ * Vercel Cron Job: Price Alert Digests
+ *
+ * BDD: features/09-price-alerts-phase1.feature (Phase 1e: Email Notifications)
+ *
+ * Requirements:
+ * - Runs hourly (configured in vercel.json); daily digests go out once
+ *   24h have passed since the user's last digest
+ * - One email per user listing every pending AlertTrigger (email_sent = false)
+ *   with the item's current lowest price and a listing link
+ * - Marks every included trigger email_sent
+ * - Secured with CRON_SECRET environment variable
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { sendAlertDigests } from '@/lib/alerts/alert-digest'
+
+// Force dynamic rendering (uses request.headers for authorization)
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+/**
+ * GET /api/cron/send-alert-digests
+ * Triggered by Vercel Cron on schedule defined in vercel.json
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  const expectedSecret = process.env.CRON_SECRET
+  if (!expectedSecret) {
+    console.error('[CRON] CRON_SECRET environment variable not configured')
+    return NextResponse.json(
+      { error: 'Server configuration error' },
+      { status: 500 }
+    )
+  }
+
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${expectedSecret}`) {
+    console.warn('[CRON] Unauthorized cron job access attempt')
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  console.log('[CRON] Alert digest job started')
+
+  try {
+    const result = await sendAlertDigests()
+
+    console.log('[CRON] Alert digests completed:', result)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      duration: `${Math.round((Date.now() - startTime) / 1000)}s`,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[CRON] Alert digests failed:', error)
+    return NextResponse.json(
+      { error: 'Alert digests failed' },
+      { status: 500 }
+    )
+  }
+}
@@ -10,6 +10,17 @@
  *
  * GET Response:
  *   - 200: Inventory object with items
+ *          Each item carries sticker_valuation (null without stickers); the
+ *          inventory carries sticker_premium, adjusted_total_value and a
+ *          sticker_valuation summary across all filtered items
+ *          Each item carries float_ranking (percentile in its wear bracket,
+ *          low_float / best_in_bracket tags; null without a float)
+ *          ?floatPremium=true applies the float premium curve: items gain
+ *          float_adjusted_value and the inventory float_premium, which is
+ *          included in adjusted_total_value
+ *          Each item carries pattern_tier (PatternTier for its skin + seed,
+ *          null when not on a tier list); pattern premiums are included in
+ *          pattern_premium and adjusted_total_value
  *   - 401: Unauthorized (no session or expired)
  *   - 404: No inventory found
  *   - 500: Server error
@@ -23,7 +34,14 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getSessionFromRequest } from '@/lib/auth/session'
+import { Prisma } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import { valueInventoryStickers } from '@/lib/stickers/sticker-service'
+import { summarizeStickerValuations } from '@/lib/stickers/sticker-valuation'
+import { rankOwnedFloats } from '@/lib/float/float-ranking-service'
+import { applyFloatPremium } from '@/lib/float/float-ranking'
+import { findPatternTiers } from '@/lib/patterns/pattern-tier-service'
+import { applyPatternPremium, patternTierKey } from '@/lib/patterns/pattern-tiers'
 
 export async function GET(request: NextRequest) {
   try {
@@ -38,6 +56,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100) // Max 100 per page
     const offset = parseInt(searchParams.get('offset') || '0')
+    const floatPremium = searchParams.get('floatPremium') === 'true'
 
     // Filter for tradeable items (excluding permanently non-tradeable items)
     const itemFilter = {
@@ -70,10 +89,12 @@ export async function GET(request: NextRequest) {
           },
           select: {
             id: true,
+            item_id: true,
             steam_asset_id: true,
             market_hash_name: true,
             custom_name: true,
             float_value: true,
+            pattern_seed: true,
             wear: true,
             quality: true,
             stickers: true,
@@ -86,6 +107,8 @@ export async function GET(request: NextRequest) {
               select: {
                 image_url: true,
                 rarity: true,
+                wear_min: true,
+                wear_max: true,
               },
             },
           },
@@ -119,12 +142,95 @@ export async function GET(request: NextRequest) {
     // Calculate filtered total value (sum of all filtered items)
     const filteredTotalValue = valueAggregate._sum.current_value || 0
 
+    // Sticker premiums across every filtered item with stickers, not just this page
+    const stickeredItems = await prisma.inventoryItem.findMany({
+      where: {
+        inventory_id: inventory.id,
+        ...itemFilter,
+        stickers: { not: Prisma.AnyNull },
+      },
+      select: { id: true, current_value: true, stickers: true },
+    })
+    const stickerValuations = await valueInventoryStickers(stickeredItems)
+    const stickerSummary = summarizeStickerValuations(Array.from(stickerValuations.values()))
+
+    // Float percentile within each item's wear bracket
+    const floatRankings = await rankOwnedFloats(inventory.items)
+
+    // Optional float premium, across every filtered item with a float
+    let floatPremiumTotal = 0
+    if (floatPremium) {
+      const floatItems = await prisma.inventoryItem.findMany({
+        where: {
+          inventory_id: inventory.id,
+          ...itemFilter,
+          float_value: { not: null },
+        },
+        select: {
+          id: true,
+          item_id: true,
+          float_value: true,
+          wear: true,
+          current_value: true,
+          item: { select: { wear_min: true, wear_max: true } },
+        },
+      })
+      const allRankings = await rankOwnedFloats(floatItems)
+      floatPremiumTotal = floatItems.reduce((sum, item) => {
+        const baseValue = Number(item.current_value ?? 0)
+        return sum + applyFloatPremium(baseValue, allRankings.get(item.id) ?? null) - baseValue
+      }, 0)
+      floatPremiumTotal = Math.round(floatPremiumTotal * 100) / 100
+    }
+
+    // Pattern seed tiers (blue gems, fade %, Doppler phases) across every filtered seeded item
+    const seededItems = await prisma.inventoryItem.findMany({
+      where: {
+        inventory_id: inventory.id,
+        ...itemFilter,
+        pattern_seed: { not: null },
+      },
+      select: { market_hash_name: true, pattern_seed: true, current_value: true },
+    })
+    const patternTiers = await findPatternTiers(
+      seededItems.map((item) => ({ name: item.market_hash_name, patternSeed: item.pattern_seed }))
+    )
+    const getPatternTier = (item: { market_hash_name: string; pattern_seed: number | null }) =>
+      item.pattern_seed !== null ? patternTiers.get(patternTierKey(item.market_hash_name, item.pattern_seed)) ?? null : null
+    const patternPremiumTotal =
+      Math.round(
+        seededItems.reduce((sum, item) => {
+          const baseValue = Number(item.current_value ?? 0)
+          return sum + applyPatternPremium(baseValue, getPatternTier(item)) - baseValue
+        }, 0) * 100
+      ) / 100
+
     // Return inventory data with pagination info
     return NextResponse.json({
       ...inventory,
+      items: inventory.items.map((item) => ({
+        ...item,
+        sticker_valuation: stickerValuations.get(item.id) ?? null,
+        float_ranking: floatRankings.get(item.id) ?? null,
+        pattern_tier: getPatternTier(item),
+        ...(floatPremium && {
+          float_adjusted_value: applyFloatPremium(
+            Number(item.current_value ?? 0),
+            floatRankings.get(item.id) ?? null
+          ),
+        }),
+      })),
       // Override total values with filtered calculations
       total_items: totalCount,
       total_value: filteredTotalValue,
+      sticker_premium: stickerSummary.stickerPremium,
+      ...(floatPremium && { float_premium: floatPremiumTotal }),
+      pattern_premium: patternPremiumTotal,
+      adjusted_total_value:
+        Math.round(
+          (Number(filteredTotalValue) + stickerSummary.stickerPremium + floatPremiumTotal + patternPremiumTotal) * 100
+        ) / 100,
+      sticker_valuation: stickerSummary,
       pagination: {
         offset,
         limit,
@@ -0,0 +1,111 @@
+/**
+ * GET /api/items/:id/prices/history - Get daily price history for charts
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *   - Scenario: "View 30-day price history chart"
+ *
+ * Requirements:
+ *   - Return one OHLC point per day from price_history snapshots
+ *   - Support 30, 90 and 365 day windows
+ *   - One platform per request (defaults to Steam Market)
+ *
+ * Parameters:
+ *   - id: UUID of the item
+ *   - platform: Marketplace identifier (optional, default "steam")
+ *   - days: 30 | 90 | 365 (optional, default 30)
+ *
+ * Response Format:
+ *   {
+ *     itemId: string,
+ *     platform: Platform,
+ *     dataPoints: PriceHistoryPoint[],
+ *     days: number
+ *   }
+ *
+ * Status Codes:
+ *   - 200: Success (dataPoints may be empty if no history yet)
+ *   - 400: Invalid UUID, platform or days
+ *   - 404: Item not found
+ *   - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { PLATFORM_NAMES, PRICE_HISTORY_RANGES, type Platform } from '@/types/price';
+import { getPriceHistory, isPriceHistoryRange } from '@/lib/price/price-history-service';
+
+// Force dynamic rendering (uses dynamic route parameters which require dynamic mode)
+export const dynamic = 'force-dynamic';
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DEFAULT_PLATFORM: Platform = 'steam';
+const DEFAULT_DAYS = 30;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+
+    // Validate UUID format
+    if (!id || !UUID_REGEX.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid item ID format' },
+        { status: 400 }
+      );
+    }
+
+    // Validate platform
+    const platform = searchParams.get('platform') || DEFAULT_PLATFORM;
+    if (!(platform in PLATFORM_NAMES)) {
+      return NextResponse.json(
+        { error: `Invalid platform. Must be one of: ${Object.keys(PLATFORM_NAMES).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate days
+    const daysParam = searchParams.get('days');
+    const days = daysParam ? Number(daysParam) : DEFAULT_DAYS;
+    if (!isPriceHistoryRange(days)) {
+      return NextResponse.json(
+        { error: `Invalid days. Must be one of: ${PRICE_HISTORY_RANGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Return 404 if item doesn't exist
+    const item = await prisma.item.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Item not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await getPriceHistory(item.id, platform as Platform, days);
+
+    return NextResponse.json(history, {
+      status: 200,
+      headers: {
+        // Daily points change slowly - cache for 15 minutes
+        'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=1800',
+      },
+    });
+  } catch (error) {
+    console.error('[API /items/:id/prices/history] Error:', error);
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,7 @@
  * Requirements:
  *   - Return all marketplace prices sorted by totalCost
  *   - Return lowest price and savings calculation
+ *   - Quarantined (outlier) prices are listed but never the lowest price
  *   - Include data freshness indicators
  *   - Fast response (<200ms with Redis cache)
  *   - Handle missing price data gracefully
@@ -35,7 +36,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import type { AggregatedPrices, PriceData } from '@/types/price';
-import { fromDatabase, calculateSavings, sortByTotalCost } from '@/types/price';
+import { fromDatabase, calculateSavings, excludeQuarantined, findLowestPrice, sortByTotalCost } from '@/types/price';
 
 // Force dynamic rendering (uses dynamic route parameters which require dynamic mode)
 export const dynamic = 'force-dynamic';
@@ -95,11 +96,18 @@ export async function GET(
     // Sort by total cost (already sorted by DB query, but ensure type safety)
     const sortedPrices = sortByTotalCost(allPrices);
 
-    // Lowest price is first after sorting
-    const lowestPrice = sortedPrices[0];
+    // Lowest non-quarantined price
+    const lowestPrice = findLowestPrice(sortedPrices);
 
-    // Calculate savings (highest - lowest)
-    const savings = calculateSavings(sortedPrices);
+    if (!lowestPrice) {
+      return NextResponse.json(
+        { error: 'No price data available for this item' },
+        { status: 404 }
+      );
+    }
+
+    // Calculate savings (highest - lowest), ignoring suspect outliers
+    const savings = calculateSavings(excludeQuarantined(sortedPrices));
 
     // Find most recent update time
     const mostRecentUpdate = allPrices.reduce((latest, price) => {
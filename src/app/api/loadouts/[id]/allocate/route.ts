@@ -5,6 +5,7 @@
  *
  * Executes the budget allocation algorithm for a specific loadout.
  * Uses saved loadout settings (budget, custom_allocation, prioritize mode).
+ * A color theme (Loadout.theme) shifts weapon budget toward on-theme skins.
  * Optionally enables float optimization guidance.
  *
  * Authentication: Required (getSessionFromRequest)
@@ -111,8 +112,14 @@ export async function POST(
         allocatedBudget: w.allocatedBudget,
         isEssential: w.isEssential,
       })),
+      charmAllocations: allocationResult.charmAllocations.map((w) => ({
+        weaponType: w.weaponType,
+        budgetWeight: w.budgetWeight,
+        allocatedBudget: w.allocatedBudget,
+      })),
       allocationMode: allocationResult.allocationMode,
       floatGuidance: allocationResult.floatGuidance,
+      themeAllocation: allocationResult.themeAllocation,
     }
 
     return NextResponse.json(
@@ -0,0 +1,111 @@
+/**
+ * POST /api/loadouts/:id/auto-fill - Fill Every Slot Within Budget
+ *
+ * Runs the budget allocation for the loadout, then picks a concrete item
+ * (wear, quality) and platform for every open slot under its allocated
+ * budget, spends leftover budget on upgrades and saves the picks.
+ * Algorithm: src/lib/budget-loadout/auto-fill.ts
+ *
+ * Request body (all optional):
+ * - theme: color theme, defaults to Loadout.theme (null for none)
+ * - quality: "any" | "normal" | "stattrak" (default "any")
+ * - replaceExisting: replace skins already in the loadout (default false)
+ * - dryRun: return the picks without saving them (default false)
+ *
+ * Authentication: Required (getSessionFromRequest)
+ * Authorization: User must own the loadout
+ *
+ * Response: picks with an explanation per slot, unfilled slots, cost and leftover
+ */
+
+import { NextResponse } from 'next/server'
+import { getSessionFromRequest } from '@/lib/auth/session'
+import { autoFillLoadout } from '@/lib/budget-loadout/auto-fill-service'
+import { AUTO_FILL_QUALITIES, AutoFillError, type AutoFillQuality } from '@/lib/budget-loadout/auto-fill'
+
+const ERROR_STATUS: Record<AutoFillError['code'], number> = {
+  NOT_FOUND: 404,
+  FORBIDDEN: 403,
+}
+
+// ============================================================================
+// POST /api/loadouts/:id/auto-fill - Fill Every Slot Within Budget
+// ============================================================================
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Authentication check
+    const session = await getSessionFromRequest(request)
+    if (!session) {
+      return errorResponse('Authentication required', 'UNAUTHORIZED', 401)
+    }
+
+    const loadoutId = params.id
+
+    // Validate UUID format
+    if (!isValidUUID(loadoutId)) {
+      return errorResponse('Invalid loadout ID format', 'VALIDATION_ERROR', 400)
+    }
+
+    // Validate body
+    const body = await request.json().catch(() => ({}))
+    const { theme, quality, replaceExisting, dryRun } = (body ?? {}) as Record<string, unknown>
+
+    if (theme !== undefined && theme !== null && typeof theme !== 'string') {
+      return errorResponse('theme must be a string or null', 'VALIDATION_ERROR', 400)
+    }
+    if (quality !== undefined && !AUTO_FILL_QUALITIES.includes(quality as AutoFillQuality)) {
+      return errorResponse(`quality must be one of: ${AUTO_FILL_QUALITIES.join(', ')}`, 'VALIDATION_ERROR', 400)
+    }
+
+    // Allocate, pick and save (ownership checked inside)
+    const result = await autoFillLoadout(loadoutId, session.user.id, {
+      theme: theme as string | null | undefined,
+      quality: quality as AutoFillQuality | undefined,
+      replaceExisting: replaceExisting === true,
+      dryRun: dryRun === true,
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    if (error instanceof AutoFillError) {
+      return errorResponse(error.message, error.code, ERROR_STATUS[error.code])
+    }
+
+    console.error(`POST /api/loadouts/${params.id}/auto-fill error:`, error)
+    return errorResponse('Internal server error', 'INTERNAL_ERROR', 500)
+  }
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function errorResponse(message: string, code: string, status: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: { message, code },
+      timestamp: new Date().toISOString(),
+    },
+    { status }
+  )
+}
+
+/**
+ * Validate UUID v4 format
+ */
+function isValidUUID(id: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+  return uuidRegex.test(id)
+}
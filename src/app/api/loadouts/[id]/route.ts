@@ -20,6 +20,8 @@ import {
   validateCustomAllocation,
   type CustomAllocation,
 } from '@/lib/budget-loadout/custom-allocation-validator'
+import { rankOwnedFloats } from '@/lib/float/float-ranking-service'
+import { normalizeStoredCharms } from '@/lib/charms/charm-attachments'
 
 // ============================================================================
 // GET /api/loadouts/:id - Retrieve Single Loadout
@@ -106,6 +108,9 @@ export async function GET(
       )
     }
 
+    // Float percentile of each weapon skin within its wear bracket
+    const floatRankings = await rankOwnedFloats(loadout.weapon_skins)
+
     // Transform to API response format
     const data = {
       id: loadout.id,
@@ -126,11 +131,12 @@ export async function GET(
         item_name: ws.item?.name,
         wear: ws.wear,
         float_value: ws.float_value?.toNumber(),
+        float_ranking: floatRankings.get(ws.id) ?? null,
         quality: ws.quality,
         selected_platform: ws.selected_platform,
         price: ws.price.toNumber(),
         stickers: ws.stickers,
-        charms: ws.charms,
+        charms: normalizeStoredCharms(ws.charms),
       })),
     }
 
@@ -92,6 +92,7 @@ describe('Feature 08 Phase 4 - Loadouts API', () => {
         avatar: testUser1.avatar,
         hasCS2Game: testUser1.has_cs2_game,
         lastLogin: testUser1.last_login,
+        displayCurrency: testUser1.display_currency,
       },
       sessionToken: 'mock-token-1',
       expires: new Date(Date.now() + 86400000),
@@ -106,6 +107,7 @@ describe('Feature 08 Phase 4 - Loadouts API', () => {
         avatar: testUser2.avatar,
         hasCS2Game: testUser2.has_cs2_game,
         lastLogin: testUser2.last_login,
+        displayCurrency: testUser2.display_currency,
       },
       sessionToken: 'mock-token-2',
       expires: new Date(Date.now() + 86400000),
@@ -0,0 +1,168 @@
+/**
+ * OpenGraph Image API Route (Phase 7f)
+ *
+ * Generates dynamic OG images for loadout social sharing
+ * Returns 1200x630 PNG optimized for OpenGraph and Twitter Cards
+ *
+ * Requirements:
+ * - Weapon icons in a grid, loadout name, total cost vs budget, creator
+ * - Cached by Loadout.updated_at: the page metadata links to ?v=<updated_at>,
+ *   which is served as immutable; ETag lets crawlers revalidate cheaply
+ * - Private/unknown loadouts and render failures redirect to /og-fallback.png
+ *
+ * Rendered with next/og (Satori): every element with more than one child
+ * needs an explicit display: flex, and images must be plain <img> elements
+ * (next/image does not render outside the browser).
+ */
+
+import { createElement, type ImgHTMLAttributes } from 'react'
+import { NextRequest, NextResponse } from 'next/server'
+import { ImageResponse } from 'next/og'
+import {
+  loadLoadoutOgImageData,
+  OG_IMAGE_HEIGHT,
+  OG_IMAGE_WIDTH,
+  type LoadoutOgImageData,
+} from '@/lib/budget-loadout/og-image'
+import { formatPrice } from '@/lib/currency/display-currency'
+
+// Prisma needs the Node.js runtime
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable'
+const UNVERSIONED_CACHE = 'public, max-age=300, s-maxage=300, stale-while-revalidate=86400'
+
+const COLORS = {
+  orange: '#ff6a00',
+  darker: '#0a0e1a',
+  dark: '#141b2e',
+  blue: '#3b82f6',
+  light: '#e2e8f0',
+  muted: '#94a3b8',
+  over: '#ef4444',
+  under: '#22c55e',
+}
+
+function fallback(request: NextRequest) {
+  return NextResponse.redirect(new URL('/og-fallback.png', request.url), 302)
+}
+
+/**
+ * Plain <img> for Satori, which fetches and inlines the source itself
+ */
+function ItemImage(props: ImgHTMLAttributes<HTMLImageElement> & { src: string; alt: string }) {
+  return createElement('img', props)
+}
+
+function LoadoutOgImage({ data }: { data: LoadoutOgImageData }) {
+  const overBudget = data.totalCost > data.budget
+
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        padding: 48,
+        backgroundColor: COLORS.darker,
+        color: COLORS.light,
+        fontFamily: 'sans-serif',
+      }}
+    >
+      {/* Header: name + creator */}
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <div style={{ fontSize: 56, fontWeight: 700, lineHeight: 1.1, maxWidth: 1100 }}>{data.name}</div>
+        <div style={{ display: 'flex', fontSize: 26, color: COLORS.muted, marginTop: 8 }}>
+          {`by ${data.creator}`}
+        </div>
+      </div>
+
+      {/* Weapon grid */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 16, marginTop: 32, flexGrow: 1 }}>
+        {data.weapons.map(weapon => (
+          <div
+            key={weapon.weaponType}
+            style={{
+              width: 203,
+              height: 150,
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              backgroundColor: COLORS.dark,
+              border: `2px solid ${COLORS.blue}33`,
+              borderRadius: 12,
+            }}
+          >
+            <ItemImage src={weapon.imageUrl} alt={weapon.name} width={160} height={105} style={{ objectFit: 'contain' }} />
+            <div style={{ display: 'flex', fontSize: 20, color: COLORS.light, marginTop: 4 }}>
+              {formatPrice(weapon.price)}
+            </div>
+          </div>
+        ))}
+        {data.hiddenWeaponCount > 0 && (
+          <div style={{ display: 'flex', alignItems: 'center', fontSize: 28, color: COLORS.muted }}>
+            {`+${data.hiddenWeaponCount} more`}
+          </div>
+        )}
+      </div>
+
+      {/* Footer: cost vs budget + branding */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-end' }}>
+        <div style={{ display: 'flex', alignItems: 'baseline', fontSize: 40, fontWeight: 700 }}>
+          <span style={{ color: overBudget ? COLORS.over : COLORS.under }}>{formatPrice(data.totalCost)}</span>
+          <span style={{ fontSize: 28, color: COLORS.muted, marginLeft: 12 }}>
+            {`of ${formatPrice(data.budget)} budget (${data.budgetUsedPercent}%)`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', fontSize: 32, fontWeight: 700 }}>
+          csloadout<span style={{ color: COLORS.orange }}>.gg</span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * GET /api/og-image/[id]?v=<updated_at>
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const data = await loadLoadoutOgImageData(params.id)
+    if (!data) {
+      return fallback(request)
+    }
+
+    const etag = `"${data.id}-${data.version}"`
+    const cacheControl =
+      request.nextUrl.searchParams.get('v') === data.version ? IMMUTABLE_CACHE : UNVERSIONED_CACHE
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag, 'Cache-Control': cacheControl } })
+    }
+
+    const image = new ImageResponse(<LoadoutOgImage data={data} />, {
+      width: OG_IMAGE_WIDTH,
+      height: OG_IMAGE_HEIGHT,
+    })
+
+    // Render eagerly so a broken item image falls back instead of a half-sent stream
+    const png = await image.arrayBuffer()
+
+    return new NextResponse(png, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': cacheControl,
+        ETag: etag,
+      },
+    })
+  } catch (error) {
+    console.error('[OG Image] Failed to render loadout image:', error)
+    return fallback(request)
+  }
+}
@@ -25,6 +25,7 @@
  *
  *   Basic Filters (Multi-Select - OR logic within filter, AND between filters):
  *   - weaponType: Comma-separated weapon types (e.g., "AK-47,M4A4")
+ *   - type: Comma-separated item types (e.g., "skin,agent")
  *   - rarity: Comma-separated rarity levels (e.g., "classified,covert")
  *   - quality: Comma-separated quality types (e.g., "stattrak,souvenir")
  *   - wear: Comma-separated wear conditions (e.g., "factory_new,minimal_wear")
@@ -37,7 +38,9 @@
  *   Advanced Filters (Collectors):
  *   - floatMin: Minimum float value (0.00-1.00)
  *   - floatMax: Maximum float value
- *   - patternSeed: Specific pattern seed (exact match)
+ *   - patternSeed: Specific pattern seed (exact match) - items whose skin has a
+ *     PatternTier entry for the seed, or with an owned copy (InventoryItem) on it;
+ *     results carry the seed's pattern_tier_label and pattern_premium_multiplier
  *   - hasStickers: Boolean - only show items with stickers
  *   - stickerCount: Minimum number of stickers
  *
@@ -52,6 +55,9 @@
  *
  *   Sort & Pagination:
  *   - sortBy: Sort order (relevance, price_asc, price_desc, name_asc, name_desc, rarity_desc, popularity, change_percent, float_asc, float_desc)
+ *     float_asc/float_desc rank items by the float percentile of owned copies
+ *     (InventoryItem.float_value) inside the item's wear bracket, then by
+ *     catalogue float range for items nobody owns
  *   - page: Page number (1-indexed, default: 1)
  *   - limit: Results per page (default: 50, max: 100)
  *
@@ -79,10 +85,34 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import type { SearchResponse, SearchFilters, SearchFacets, Rarity, Wear } from '@/types/search';
 import { SEARCH_DEFAULTS, SEARCH_LIMITS } from '@/types/search';
+import { WEAR_FLOAT_RANGES } from '@/lib/normalize';
 
 // Force dynamic rendering (uses request.url which requires dynamic mode)
 export const dynamic = 'force-dynamic';
 
+/**
+ * SQL for the percentile of a float inside the item's wear bracket
+ * (standard wear range clipped to i.wear_min/i.wear_max)
+ * Mirrors rankFloat() in src/lib/float/float-ranking.ts
+ */
+function floatPercentileSql(floatExpr: string): string {
+  const wears = Object.entries(WEAR_FLOAT_RANGES);
+  const wearLow = `CASE i.wear ${wears.map(([wear, [low]]) => `WHEN '${wear}' THEN ${low}`).join(' ')} ELSE 0 END`;
+  const wearHigh = `CASE i.wear ${wears.map(([wear, [, high]]) => `WHEN '${wear}' THEN ${high}`).join(' ')} ELSE 1 END`;
+  const bracketLow = `GREATEST(${wearLow}, COALESCE(i.wear_min, 0))`;
+  const bracketHigh = `LEAST(${wearHigh}, COALESCE(i.wear_max, 1))`;
+
+  return `(${floatExpr} - ${bracketLow}) / NULLIF(${bracketHigh} - ${bracketLow}, 0) * 100`;
+}
+
+/**
+ * SQL for the tier key skin name of i.name (no ★, StatTrak™, Souvenir or wear)
+ * Mirrors toPatternSkinName() in src/lib/patterns/pattern-tiers.ts
+ */
+function patternSkinNameSql(): string {
+  return `regexp_replace(regexp_replace(i.name, '^(StatTrak™ |Souvenir )?(★ )?(StatTrak™ )?', ''), ' \\((Factory New|Minimal Wear|Field-Tested|Well-Worn|Battle-Scarred)\\)$', '')`;
+}
+
 export async function GET(request: NextRequest) {
   const startTime = performance.now();
 
@@ -99,6 +129,7 @@ export async function GET(request: NextRequest) {
 
       // Basic Filters (Multi-Select)
       weaponType: searchParams.get('weaponType')?.split(',').filter(Boolean) || undefined,
+      type: searchParams.get('type')?.split(',').filter(Boolean) || undefined,
       rarity: searchParams.get('rarity')?.split(',').filter(Boolean) as Rarity[] | undefined,
       quality: searchParams.get('quality')?.split(',').filter(Boolean) as any[] | undefined,
       wear: searchParams.get('wear')?.split(',').filter(Boolean) as Wear[] | undefined,
@@ -180,6 +211,12 @@ export async function GET(request: NextRequest) {
       paramIndex++;
     }
 
+    if (filters.type && filters.type.length > 0) {
+      whereClauses.push(`i.type = ANY($${paramIndex}::text[])`);
+      queryParams.push(filters.type);
+      paramIndex++;
+    }
+
     if (filters.rarity && filters.rarity.length > 0) {
       whereClauses.push(`i.rarity = ANY($${paramIndex}::text[])`);
       queryParams.push(filters.rarity);
@@ -232,9 +269,14 @@ export async function GET(request: NextRequest) {
       paramIndex++;
     }
 
+    let patternSeedParam = 0;
     if (filters.patternSeed !== undefined) {
-      whereClauses.push(`i.pattern_seed = $${paramIndex}`);
+      whereClauses.push(`(
+        EXISTS (SELECT 1 FROM pattern_tiers pts WHERE pts.pattern_seed = $${paramIndex} AND pts.skin_name = ${patternSkinNameSql()})
+        OR EXISTS (SELECT 1 FROM "InventoryItem" iis WHERE iis.item_id = i.id AND iis.pattern_seed = $${paramIndex})
+      )`);
       queryParams.push(filters.patternSeed);
+      patternSeedParam = paramIndex;
       paramIndex++;
     }
 
@@ -308,11 +350,11 @@ export async function GET(request: NextRequest) {
         break;
 
       case 'float_asc':
-        orderByClause = 'ORDER BY i.wear_min ASC NULLS LAST, i.name ASC';
+        orderByClause = 'ORDER BY float_percentile ASC NULLS LAST, i.wear_min ASC NULLS LAST, i.name ASC';
         break;
 
       case 'float_desc':
-        orderByClause = 'ORDER BY i.wear_max DESC NULLS LAST, i.name ASC';
+        orderByClause = `ORDER BY ${floatPercentileSql('fl.worst_float')} DESC NULLS LAST, i.wear_max DESC NULLS LAST, i.name ASC`;
         break;
 
       default:
@@ -331,14 +373,43 @@ export async function GET(request: NextRequest) {
           SELECT MIN(total_cost) as min_price
           FROM "MarketplacePrice" mp2
           WHERE mp2.item_id = i.id
+          AND mp2.quarantined = false
           ${filters.platform ? `AND mp2.platform = $${queryParams.indexOf(filters.platform) + 1}` : ''}
         ) mp ON true`
       : `LEFT JOIN LATERAL (
           SELECT MIN(total_cost) as min_price
           FROM "MarketplacePrice" mp2
           WHERE mp2.item_id = i.id
+          AND mp2.quarantined = false
         ) mp ON true`;
 
+    // Owned-item floats, only needed for float sorts
+    const floatSort = filters.sortBy === 'float_asc' || filters.sortBy === 'float_desc';
+    const ownedFloatJoin = floatSort
+      ? `LEFT JOIN LATERAL (
+          SELECT MIN(ii.float_value)::float8 as best_float, MAX(ii.float_value)::float8 as worst_float
+          FROM "InventoryItem" ii
+          WHERE ii.item_id = i.id
+          AND ii.float_value IS NOT NULL
+        ) fl ON true`
+      : '';
+    const ownedFloatColumns = floatSort
+      ? `,
+        fl.best_float as float_value,
+        ROUND((${floatPercentileSql('fl.best_float')})::numeric, 2)::float8 as float_percentile`
+      : '';
+
+    // Tier of the requested pattern seed, only needed for pattern searches
+    const patternTierJoin = patternSeedParam
+      ? `LEFT JOIN pattern_tiers pt ON pt.pattern_seed = $${patternSeedParam} AND pt.skin_name = ${patternSkinNameSql()}`
+      : '';
+    const patternTierColumns = patternSeedParam
+      ? `,
+        $${patternSeedParam}::int as pattern_seed,
+        pt.tier_label as pattern_tier_label,
+        pt.premium_multiplier::float8 as pattern_premium_multiplier`
+      : '';
+
     const mainQuery = `
       SELECT
         i.id,
@@ -350,9 +421,11 @@ export async function GET(request: NextRequest) {
         i.wear,
         i.weapon_type,
         i.image_url,
-        mp.min_price as "lowestPrice"
+        mp.min_price as "lowestPrice"${ownedFloatColumns}${patternTierColumns}
       FROM "Item" i
       ${priceSubquery}
+      ${ownedFloatJoin}
+      ${patternTierJoin}
       ${whereClause}
       ${orderByClause}
       LIMIT $${paramIndex}
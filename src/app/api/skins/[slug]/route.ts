@@ -20,6 +20,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { NON_QUARANTINED_PRICE } from '@/lib/price/price-quarantine-service';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -154,6 +155,7 @@ export async function GET(
       },
       include: {
         marketplace_prices: {
+          where: NON_QUARANTINED_PRICE,
           orderBy: { total_cost: 'asc' },
         },
         collection: {
@@ -0,0 +1,58 @@
+/**
+ * GET /api/stickers/:id - Sticker detail with where it is applied
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Display applied stickers on item
+ *
+ * Parameters:
+ *   - id: UUID of the sticker item (type="sticker")
+ *
+ * Response:
+ *   - 200: { sticker, inventories: [...], loadouts: [...] }
+ *   - 400: Invalid UUID format
+ *   - 404: Sticker not found
+ *   - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStickerUsage } from '@/lib/stickers/sticker-service';
+
+// Force dynamic rendering (uses dynamic route parameters which require dynamic mode)
+export const dynamic = 'force-dynamic';
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    if (!id || !UUID_REGEX.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid sticker ID format' },
+        { status: 400 }
+      );
+    }
+
+    const usage = await getStickerUsage(id);
+
+    if (!usage) {
+      return NextResponse.json(
+        { error: 'Sticker not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(usage);
+  } catch (error) {
+    console.error('[API /stickers/:id] Error:', error);
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * POST /api/trade-up - Evaluate a trade-up contract
+ *
+ * Request Body:
+ *   {
+ *     inputs: Array<{ itemId: string; float: number }>  // Exactly 10
+ *   }
+ *
+ * Response:
+ *   - 200: { inputs: TradeUpInput[], ...TradeUpResult }
+ *          Every possible output with odds, resulting float and wear,
+ *          expected value from live prices and profit after seller fees
+ *   - 400: Invalid contract (rarity mix, StatTrak mix, float out of range...)
+ *   - 404: Input item not found
+ *   - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TRADE_UP_INPUT_COUNT } from '@/lib/trade-up/trade-up-engine';
+import { evaluateTradeUp, TradeUpError } from '@/lib/trade-up/trade-up-service';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+  const body = parsed as { inputs?: unknown };
+
+  const inputs = Array.isArray(body.inputs) ? body.inputs : null;
+  if (
+    !inputs ||
+    inputs.length !== TRADE_UP_INPUT_COUNT ||
+    !inputs.every(
+      (input) =>
+        input &&
+        typeof input.itemId === 'string' &&
+        typeof input.float === 'number' &&
+        Number.isFinite(input.float)
+    )
+  ) {
+    return NextResponse.json(
+      { error: `inputs must be ${TRADE_UP_INPUT_COUNT} entries of { itemId, float }` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { inputs: tradeUpInputs, result } = await evaluateTradeUp(
+      inputs.map((input: { itemId: string; float: number }) => ({
+        itemId: input.itemId,
+        floatValue: input.float,
+      }))
+    );
+
+    return NextResponse.json({ inputs: tradeUpInputs, ...result });
+  } catch (error) {
+    if (error instanceof TradeUpError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    console.error('[API /trade-up] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
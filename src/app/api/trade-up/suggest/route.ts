@@ -0,0 +1,60 @@
+/**
+ * POST /api/trade-up/suggest - Cheapest inputs for a target output and wear
+ *
+ * Request Body:
+ *   {
+ *     outputItemId: string  // Any variant of the desired output skin
+ *     targetWear: 'factory_new' | 'minimal_wear' | 'field_tested' | 'well_worn' | 'battle_scarred'
+ *   }
+ *
+ * Response:
+ *   - 200: { suggestion: TradeUpSuggestion | null }
+ *          null when no priced input can reach the target wear
+ *   - 400: Invalid request / output not obtainable from a trade-up
+ *   - 404: Output item not found
+ *   - 500: Server error
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WEAR_FLOAT_RANGES } from '@/lib/normalize';
+import { suggestTradeUpInputs, TradeUpError } from '@/lib/trade-up/trade-up-service';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  let parsed: unknown;
+  try {
+    parsed = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+  const body = parsed as { outputItemId?: unknown; targetWear?: unknown };
+
+  if (typeof body.outputItemId !== 'string' || !body.outputItemId) {
+    return NextResponse.json({ error: 'outputItemId is required' }, { status: 400 });
+  }
+  if (typeof body.targetWear !== 'string' || !Object.hasOwn(WEAR_FLOAT_RANGES, body.targetWear)) {
+    return NextResponse.json(
+      { error: `targetWear must be one of ${Object.keys(WEAR_FLOAT_RANGES).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const suggestion = await suggestTradeUpInputs(body.outputItemId, body.targetWear);
+    return NextResponse.json({ suggestion });
+  } catch (error) {
+    if (error instanceof TradeUpError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    console.error('[API /trade-up/suggest] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Display Currency Preference API Route
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Requirements:
+ * - Any visitor can pick one of the supported display currencies
+ * - Choice is stored in the display_currency cookie (anonymous fallback)
+ * - Signed-in users also get it saved on User.display_currency so it
+ *   follows them across devices and into alert emails
+ *
+ * Prices are still stored in USD; this only changes rendering.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth/session'
+import { prisma } from '@/lib/prisma'
+import {
+  DISPLAY_CURRENCIES,
+  DISPLAY_CURRENCY_COOKIE,
+  isDisplayCurrency,
+} from '@/lib/currency/display-currency'
+
+const COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60 // 1 year
+
+/**
+ * PUT /api/user/display-currency
+ *
+ * Body: { currency: 'USD' | 'EUR' | 'GBP' | 'CNY' | 'RUB' | 'BRL' }
+ */
+export async function PUT(request: NextRequest) {
+  let parsed: unknown
+  try {
+    parsed = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+  }
+  const body = parsed as { currency?: unknown }
+
+  if (!isDisplayCurrency(body.currency)) {
+    return NextResponse.json(
+      { error: `currency must be one of ${DISPLAY_CURRENCIES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const currency = body.currency
+
+  try {
+    const session = await getSession()
+
+    if (session) {
+      await prisma.user.update({
+        where: { id: session.user.id },
+        data: { display_currency: currency },
+      })
+    }
+
+    const response = NextResponse.json({ success: true, currency, saved: Boolean(session) })
+    response.cookies.set(DISPLAY_CURRENCY_COOKIE, currency, {
+      httpOnly: false,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: COOKIE_MAX_AGE_SECONDS,
+      path: '/',
+    })
+
+    return response
+  } catch (error) {
+    console.error('[DisplayCurrency] Failed to save preference:', error)
+    return NextResponse.json({ error: 'Failed to save display currency' }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Alert Delivery Preference API Route
+ *
+ * BDD: features/09-price-alerts-phase1.feature (Phase 1e: Email Notifications)
+ *
+ * Requirements:
+ * - Signed-in users choose how triggered alert emails are delivered:
+ *   instant (one email per trigger), hourly or daily digest
+ * - Stored on User.alert_delivery; push notifications are always instant
+ * - A change stamps alert_delivery_changed_at, so a new digest never picks up
+ *   triggers recorded under the previous mode
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@/lib/auth/session'
+import { prisma } from '@/lib/prisma'
+import { ALERT_DELIVERY_MODES, isAlertDelivery } from '@/lib/alerts/alert-digest'
+
+/**
+ * GET /api/user/notification-preferences
+ */
+export async function GET() {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { alert_delivery: true },
+  })
+
+  return NextResponse.json({ alertDelivery: user?.alert_delivery ?? 'instant' })
+}
+
+/**
+ * PUT /api/user/notification-preferences
+ *
+ * Body: { alertDelivery: 'instant' | 'hourly' | 'daily' }
+ */
+export async function PUT(request: NextRequest) {
+  const session = await getSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let parsed: unknown
+  try {
+    parsed = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+  }
+  const body = parsed as { alertDelivery?: unknown }
+
+  if (!isAlertDelivery(body.alertDelivery)) {
+    return NextResponse.json(
+      { error: `alertDelivery must be one of ${ALERT_DELIVERY_MODES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  try {
+    // Re-saving the same mode must not move the digest window
+    await prisma.user.updateMany({
+      where: { id: session.user.id, alert_delivery: { not: body.alertDelivery } },
+      data: { alert_delivery: body.alertDelivery, alert_delivery_changed_at: new Date() },
+    })
+
+    return NextResponse.json({ success: true, alertDelivery: body.alertDelivery })
+  } catch (error) {
+    console.error('[NotificationPreferences] Failed to save alert delivery:', error)
+    return NextResponse.json({ error: 'Failed to save notification preferences' }, { status: 500 })
+  }
+}
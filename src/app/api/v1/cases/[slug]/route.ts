@@ -0,0 +1,70 @@
+/**
+ * GET /api/v1/cases/:slug - Get a case with contents and expected value (public API v1)
+ *
+ * Authentication: API key (src/lib/api-v1/handler.ts)
+ *
+ * Previous slugs resolve to the current case (no redirect, unlike
+ * /api/cases/:slug) so script clients keep working after a rename.
+ *
+ * Response (ApiCaseResponse, src/lib/api-v1/contracts.ts):
+ *   - 200: { data: ApiCase } - one entry per case item variant
+ *   - 401: Missing or invalid API key
+ *   - 404: Case not found
+ *   - 429: Rate limit exceeded
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError, withApiKey } from '@/lib/api-v1/handler'
+import { normalizeRarity } from '@/lib/normalize'
+import type { ApiCaseResponse } from '@/lib/api-v1/contracts'
+import {
+  CASE_VALUATION_ITEM_SELECT,
+  calculateCaseValuation,
+  toCaseValuationVariant,
+} from '@/lib/cases/case-expected-value'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = withApiKey<{ slug: string }>(async (_request, { params }) => {
+  const caseData = await prisma.case.findFirst({
+    where: { OR: [{ slug: params.slug }, { previous_slugs: { has: params.slug } }] },
+    include: {
+      case_items: {
+        include: {
+          item: { select: { ...CASE_VALUATION_ITEM_SELECT, id: true } },
+        },
+      },
+    },
+  })
+
+  if (!caseData) {
+    return apiError(404, 'NOT_FOUND', 'Case not found')
+  }
+
+  const totalProbability = caseData.case_items.reduce((sum, caseItem) => sum + caseItem.drop_probability, 0)
+  const valuation = calculateCaseValuation(caseData.key_price, caseData.case_items.map(toCaseValuationVariant))
+
+  return NextResponse.json<ApiCaseResponse>({
+    data: {
+      id: caseData.id,
+      name: caseData.name,
+      slug: caseData.slug,
+      description: caseData.description,
+      imageUrl: caseData.image_url,
+      keyPrice: caseData.key_price,
+      releaseDate: caseData.release_date.toISOString(),
+      expectedValue: valuation.expectedValue,
+      roi: valuation.roi,
+      probabilityValid: Math.abs(totalProbability - 100) <= 0.01,
+      items: caseData.case_items.map((caseItem) => ({
+        id: caseItem.item.id,
+        name: caseItem.item.name,
+        rarity: normalizeRarity(caseItem.item.rarity),
+        dropProbability: caseItem.drop_probability,
+        isSpecialItem: caseItem.is_special_item,
+        lowestPrice: caseItem.item.marketplace_prices[0]?.price ?? null,
+      })),
+    },
+  })
+})
@@ -0,0 +1,31 @@
+/**
+ * GET /api/v1/items/:id - Get one catalogue item (public API v1)
+ *
+ * Authentication: API key (src/lib/api-v1/handler.ts)
+ *
+ * Response (ApiItemResponse, src/lib/api-v1/contracts.ts):
+ *   - 200: { data: ApiItem }
+ *   - 401: Missing or invalid API key
+ *   - 404: Item not found
+ *   - 429: Rate limit exceeded
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { apiError, withApiKey } from '@/lib/api-v1/handler'
+import { API_ITEM_SELECT, toApiItem, type ApiItemResponse } from '@/lib/api-v1/contracts'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = withApiKey<{ id: string }>(async (_request, { params }) => {
+  const item = await prisma.item.findUnique({
+    where: { id: params.id },
+    select: API_ITEM_SELECT,
+  })
+
+  if (!item) {
+    return apiError(404, 'NOT_FOUND', 'Item not found')
+  }
+
+  return NextResponse.json<ApiItemResponse>({ data: toApiItem(item) })
+})
@@ -0,0 +1,60 @@
+/**
+ * GET /api/v1/items - List catalogue items (public API v1)
+ *
+ * Authentication: API key (src/lib/api-v1/handler.ts)
+ *
+ * Query Parameters:
+ *   - q: Case-insensitive name search
+ *   - type, weaponType: Exact filters
+ *   - rarity: Weapon grade, e.g. covert (matches every stored rarity id of the grade)
+ *   - page: Page number (default: 1)
+ *   - pageSize: Items per page (default: 50, max: 100)
+ *
+ * Response (ApiItemList, src/lib/api-v1/contracts.ts):
+ *   - 200: { data: ApiItem[], pagination: { page, pageSize, total, totalPages } }
+ *   - 401: Missing or invalid API key
+ *   - 429: Rate limit exceeded
+ */
+
+import { NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { withApiKey } from '@/lib/api-v1/handler'
+import { getRarityIds, normalizeRarity } from '@/lib/normalize'
+import { API_ITEM_SELECT, toApiItem, toApiPagination, type ApiItemList } from '@/lib/api-v1/contracts'
+
+export const dynamic = 'force-dynamic'
+
+export const GET = withApiKey(async (request) => {
+  const { searchParams } = request.nextUrl
+
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+  const pageSize = Math.min(100, Math.max(1, parseInt(searchParams.get('pageSize') || '50') || 50))
+  const q = searchParams.get('q')?.trim()
+  const rarity = searchParams.get('rarity')
+  const grade = normalizeRarity(rarity)
+
+  const where: Prisma.ItemWhereInput = {
+    name: q ? { contains: q, mode: 'insensitive' } : undefined,
+    type: searchParams.get('type') || undefined,
+    // Unknown rarities keep the exact match (and so match nothing)
+    rarity: rarity ? { in: grade ? getRarityIds(grade) : [rarity] } : undefined,
+    weapon_type: searchParams.get('weaponType') || undefined,
+  }
+
+  const [items, total] = await Promise.all([
+    prisma.item.findMany({
+      where,
+      select: API_ITEM_SELECT,
+      orderBy: { name: 'asc' },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.item.count({ where }),
+  ])
+
+  return NextResponse.json<ApiItemList>({
+    data: items.map(toApiItem),
+    pagination: toApiPagination(page, pageSize, total),
+  })
+})
@@ -0,0 +1,17 @@
+/**
+ * GET /api/v1/openapi.json - OpenAPI 3.0 document for the public API
+ *
+ * Authentication: None
+ *
+ * Generated from the v1 route registry and response contracts
+ * (src/lib/api-v1/openapi.ts).
+ */
+
+import { NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/api-v1/openapi'
+
+export function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  })
+}
@@ -4,7 +4,7 @@
  *   - View case contents with probabilities
  *   - Items grouped by rarity
  *   - Special items highlighted
- *   - Calculate expected value
+ *   - Calculate expected value (ROI, break-even odds, value by rarity tier)
  *   - Validate probabilities sum to 100%
  *
  * Implementation:
@@ -13,11 +13,14 @@
  *   - Fetch from GET /api/cases/:slug
  *   - Display items in grid using ItemCard
  *   - Handle 404 for nonexistent cases
+ *   - Render prices in the viewer's display currency
  */
 
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import { GroupedItemCard } from '@/components/grouped-item-card';
+import { getDisplayCurrency } from '@/lib/currency/get-display-currency';
+import { formatPrice } from '@/lib/currency/display-currency';
 
 // Force dynamic rendering (fetches from API with dynamic route parameter)
 export const dynamic = 'force-dynamic';
@@ -49,6 +52,27 @@ interface GroupedCaseItem {
   variants: Variant[];
 }
 
+interface CaseTierBreakdown {
+  rarity: string;
+  skinCount: number;
+  probability: number;
+  averageValue: number;
+  contribution: number;
+}
+
+interface CaseValuation {
+  keyPrice: number;
+  grossExpectedValue: number;
+  expectedValue: number;
+  expectedProfit: number;
+  roi: number;
+  breakEvenProbability: number;
+  variance: number;
+  standardDeviation: number;
+  priceCoverage: number;
+  tiers: CaseTierBreakdown[];
+}
+
 interface CaseDetailResponse {
   id: string;
   name: string;
@@ -61,6 +85,7 @@ interface CaseDetailResponse {
   itemCount: number;
   totalVariants: number;
   expectedValue: number;
+  valuation: CaseValuation;
   probabilityValid: boolean;
   totalProbability: number;
 }
@@ -150,6 +175,7 @@ export default async function CaseDetailPage({
   }
 
   const releaseDate = new Date(caseData.releaseDate);
+  const displayCurrency = await getDisplayCurrency();
 
   // Group items by rarity for display
   const itemsByRarity: Record<string, GroupedCaseItem[]> = {};
@@ -173,6 +199,9 @@ export default async function CaseDetailPage({
     'unknown',
   ];
 
+  const { valuation } = caseData;
+  const worthOpening = valuation.expectedProfit >= 0;
+
   // Count special items
   const specialItemCount = caseData.items.filter(
     (item) => item.isSpecialItem
@@ -203,7 +232,7 @@ export default async function CaseDetailPage({
             <div>
               Key Price:{' '}
               <span className="text-green-500 font-semibold">
-                ${caseData.keyPrice.toFixed(2)}
+                {formatPrice(caseData.keyPrice, displayCurrency)}
               </span>
             </div>
             <div>
@@ -227,7 +256,37 @@ export default async function CaseDetailPage({
             <div className="bg-gray-900 px-4 py-2 rounded-lg">
               <div className="text-gray-400 text-xs mb-1">Expected Value</div>
               <div className="text-green-500 font-bold text-lg">
-                ${caseData.expectedValue.toFixed(2)}
+                {formatPrice(valuation.expectedValue, displayCurrency)}
+              </div>
+              <div className="text-gray-500 text-xs">
+                after fees ({formatPrice(valuation.grossExpectedValue, displayCurrency)} before)
+              </div>
+            </div>
+
+            <div className="bg-gray-900 px-4 py-2 rounded-lg">
+              <div className="text-gray-400 text-xs mb-1">ROI per Opening</div>
+              <div
+                className={`font-bold text-lg ${
+                  worthOpening ? 'text-green-500' : 'text-red-500'
+                }`}
+              >
+                {valuation.roi > 0 ? '+' : ''}
+                {valuation.roi.toFixed(1)}%
+              </div>
+              <div className="text-gray-500 text-xs">
+                {valuation.expectedProfit >= 0 ? '+' : '-'}
+                {formatPrice(Math.abs(valuation.expectedProfit), displayCurrency)} vs{' '}
+                {formatPrice(valuation.keyPrice, displayCurrency)} key
+              </div>
+            </div>
+
+            <div className="bg-gray-900 px-4 py-2 rounded-lg">
+              <div className="text-gray-400 text-xs mb-1">Break-even Chance</div>
+              <div className="text-white font-bold text-lg">
+                {valuation.breakEvenProbability.toFixed(2)}%
+              </div>
+              <div className="text-gray-500 text-xs">
+                ±{formatPrice(valuation.standardDeviation, displayCurrency)} std. deviation
               </div>
             </div>
 
@@ -253,6 +312,13 @@ export default async function CaseDetailPage({
             </div>
           </div>
 
+          {valuation.priceCoverage < 100 && (
+            <p className="mt-2 text-xs text-gray-500">
+              Prices available for {valuation.priceCoverage.toFixed(1)}% of drops;
+              unpriced skins count as {formatPrice(0, displayCurrency)}.
+            </p>
+          )}
+
           {/* Warning if probabilities invalid */}
           {!caseData.probabilityValid && (
             <div className="mt-4 bg-red-900/20 border border-red-500 rounded-lg p-4">
@@ -285,6 +351,44 @@ export default async function CaseDetailPage({
                 ))}
               </div>
 
+              {/* Value by Rarity */}
+              <div className="mt-8 p-4 bg-gray-900 rounded-lg">
+                <h3 className="text-sm font-semibold text-gray-400 mb-2">
+                  Value by Rarity
+                </h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 text-xs">
+                      <th className="py-1 font-normal">Tier</th>
+                      <th className="py-1 font-normal text-right">Odds</th>
+                      <th className="py-1 font-normal text-right">Avg. Drop Value</th>
+                      <th className="py-1 font-normal text-right">EV Contribution</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {valuation.tiers.map((tier) => (
+                      <tr key={tier.rarity} className="border-t border-gray-800">
+                        <td className="py-1 capitalize text-gray-300">
+                          {tier.rarity}{' '}
+                          <span className="text-gray-500 text-xs">
+                            ({tier.skinCount} skin{tier.skinCount !== 1 ? 's' : ''})
+                          </span>
+                        </td>
+                        <td className="py-1 text-right text-gray-300">
+                          {tier.probability.toFixed(2)}%
+                        </td>
+                        <td className="py-1 text-right text-gray-300">
+                          {formatPrice(tier.averageValue, displayCurrency)}
+                        </td>
+                        <td className="py-1 text-right text-orange-500 font-semibold">
+                          {formatPrice(tier.contribution, displayCurrency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
               {/* Rarity Distribution */}
               <div className="mt-8 p-4 bg-gray-900 rounded-lg">
                 <h3 className="text-sm font-semibold text-gray-400 mb-2">
@@ -38,10 +38,24 @@ function mapItemToUI(item: any): InventoryItem {
       image: imageUrl,
       rarity: rarity,
     },
-    marketValue: parseFloat(item.current_value) || 0,
+    // Pattern tier premium on the skin, plus applied sticker premiums
+    marketValue:
+      (parseFloat(item.current_value) || 0) * (item.pattern_tier?.premiumMultiplier ?? 1) +
+      (item.sticker_valuation?.stickerPremium ?? 0),
     valueChange: { amount: 0, percent: 0 },
     tradable: item.can_trade ?? true,
     marketable: true,
+    float: item.float_ranking
+      ? {
+          value: parseFloat(item.float_value),
+          percentile: item.float_ranking.percentile,
+          tags: item.float_ranking.tags,
+        }
+      : undefined,
+    pattern:
+      item.pattern_seed !== null && item.pattern_seed !== undefined
+        ? { seed: item.pattern_seed, tier: item.pattern_tier?.label ?? null }
+        : undefined,
   }
 }
 
@@ -50,6 +64,7 @@ export default function InventoryPage() {
   const [inventory, setInventory] = useState<InventoryItem[]>([])
   const [totalItems, setTotalItems] = useState(0)
   const [totalValue, setTotalValue] = useState<number | null>(null)
+  const [stickerPremium, setStickerPremium] = useState(0)
   const [searchQuery, setSearchQuery] = useState("")
   const [sortBy, setSortBy] = useState("value-high")
   const [filterTradable, setFilterTradable] = useState(false)
@@ -83,7 +98,8 @@ export default function InventoryPage() {
           // First load - replace items
           setInventory(newItems)
           setTotalItems(data.pagination?.total || data.total_items || newItems.length)
-          setTotalValue(parseFloat(data.total_value) || 0)
+          setTotalValue(parseFloat(data.adjusted_total_value ?? data.total_value) || 0)
+          setStickerPremium(data.sticker_premium || 0)
           setLastSync(data.last_synced ? new Date(data.last_synced).toLocaleString() : null)
         } else {
           // Subsequent loads - append items
@@ -160,7 +176,8 @@ export default function InventoryPage() {
           const data = await inventoryResponse.json()
           const items = (data.items || []).map(mapItemToUI)
           setInventory(items)
-          setTotalValue(parseFloat(data.total_value) || 0)
+          setTotalValue(parseFloat(data.adjusted_total_value ?? data.total_value) || 0)
+          setStickerPremium(data.sticker_premium || 0)
           setHasMore(data.pagination?.hasMore ?? false)
           setOffset(items.length)
         }
@@ -358,6 +375,9 @@ export default function InventoryPage() {
               <CardHeader className="pb-3">
                 <CardDescription className="text-gray-400">Total Value</CardDescription>
                 <CardTitle className="text-2xl md:text-3xl text-cs2-light">${stats.totalValue.toFixed(2)}</CardTitle>
+                {stickerPremium > 0 && (
+                  <p className="text-xs text-green-500">incl. ${stickerPremium.toFixed(2)} sticker premium</p>
+                )}
               </CardHeader>
             </Card>
 
@@ -20,6 +20,7 @@ import Image from "next/image"
 import { ChevronLeft } from "lucide-react"
 import { Metadata } from 'next'
 import { notFound } from 'next/navigation'
+import PriceHistoryChart from "@/components/PriceHistoryChart"
 
 interface Item {
   id: string
@@ -176,12 +177,23 @@ export default async function ItemDetailPage({ params }: ItemDetailPageProps) {
                 )}
               </div>
 
+              {item.type === 'sticker' && (
+                <Link href={`/stickers/${item.id}`} className="text-cs2-blue hover:text-cs2-blue/80 transition-colors">
+                  See inventories and loadouts using this sticker
+                </Link>
+              )}
+
               <button className="bg-cs2-orange hover:bg-cs2-orange/80 text-white px-6 py-3 rounded-lg font-semibold transition-colors">
                 Add to Loadout
               </button>
             </div>
           </div>
         </div>
+
+        {/* Price History (Feature 04: "View 30-day price history chart") */}
+        <div className="mt-8">
+          <PriceHistoryChart itemId={item.id} />
+        </div>
       </div>
     </div>
   )
@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import "./globals.css";
 import { HeaderNav } from "@/components/header-nav";
 import { getSession } from "@/lib/auth/session";
+import { DisplayCurrencyProvider } from "@/components/display-currency-provider";
+import { getDisplayCurrency } from "@/lib/currency/get-display-currency";
 
 export const metadata: Metadata = {
   metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'),
@@ -15,12 +17,15 @@ export default async function RootLayout({
   children: React.ReactNode;
 }>) {
   const session = await getSession();
+  const displayCurrency = await getDisplayCurrency();
 
   return (
     <html lang="en">
       <body className="min-h-screen flex flex-col bg-cs2-dark text-cs2-light">
-        <HeaderNav session={session} />
-        <main className="flex-1">{children}</main>
+        <DisplayCurrencyProvider value={displayCurrency}>
+          <HeaderNav session={session} />
+          <main className="flex-1">{children}</main>
+        </DisplayCurrencyProvider>
 
         {/* Legal compliance footer - BDD requirement from features/01-item-database.feature:82-87 */}
         <footer className="bg-cs2-dark border-t border-cs2-blue/20 py-6 mt-auto">
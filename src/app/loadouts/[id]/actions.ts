@@ -16,7 +16,10 @@
 
 import { getSession } from '@/lib/auth/session'
 import { prisma } from '@/lib/prisma'
+import { NON_QUARANTINED_PRICE } from '@/lib/price/price-quarantine-service'
 import { revalidatePath } from 'next/cache'
+import { getCharmsCost, MAX_CHARM_SLOTS, normalizeStoredCharms, toCharmName, type LoadoutCharm } from '@/lib/charms/charm-attachments'
+import { refreshSkinAlternatives } from '@/lib/budget-loadout/skin-alternatives-service'
 
 // ============================================================================
 // Type Definitions
@@ -46,6 +49,27 @@ interface ReplaceItemResult {
   actualCost?: number
 }
 
+interface CharmResult {
+  success: boolean
+  error?: string
+  charms?: LoadoutCharm[]
+  actualCost?: number
+}
+
+/**
+ * Store swap suggestions for a slot (LoadoutWeaponSkin.alternatives)
+ *
+ * Runs after the item transaction commits; a failure only leaves the slot
+ * without suggestions until the next price refresh.
+ */
+async function storeAlternatives(loadoutWeaponSkinId: string): Promise<void> {
+  try {
+    await refreshSkinAlternatives(loadoutWeaponSkinId)
+  } catch (error) {
+    console.error('Failed to compute alternatives:', error)
+  }
+}
+
 // ============================================================================
 // Server Action 1: Add Item to Loadout
 // ============================================================================
@@ -106,6 +130,7 @@ export async function addItemToLoadoutAction(
         where: { id: itemId },
         include: {
           marketplace_prices: {
+            where: NON_QUARANTINED_PRICE,
             orderBy: { total_cost: 'asc' },
             take: 1
           }
@@ -158,10 +183,13 @@ export async function addItemToLoadoutAction(
       }
     })
 
-    // 4. Revalidate path for fresh data
+    // 4. Suggest cheaper/upgrade swaps for the new slot
+    await storeAlternatives(result.loadoutWeaponSkin.id)
+
+    // 5. Revalidate path for fresh data
     revalidatePath(`/loadouts/${loadoutId}`)
 
-    // 5. Return success
+    // 6. Return success
     return {
       success: true,
       loadoutWeaponSkin: {
@@ -234,6 +262,7 @@ export async function removeItemFromLoadoutAction(
           item: {
             include: {
               marketplace_prices: {
+                where: NON_QUARANTINED_PRICE,
                 orderBy: { total_cost: 'asc' },
                 take: 1
               }
@@ -248,13 +277,13 @@ export async function removeItemFromLoadoutAction(
 
       const itemPrice = skin.item.marketplace_prices[0]?.total_cost || 0
 
-      // 3d. Delete LoadoutWeaponSkin record
+      // 3d. Delete LoadoutWeaponSkin record (attached charms go with it)
       await tx.loadoutWeaponSkin.delete({
         where: { id: skin.id }
       })
 
-      // 3e. Update loadout actual_cost (subtract item price)
-      const newActualCost = Number(loadout.actual_cost) - Number(itemPrice)
+      // 3e. Update loadout actual_cost (subtract item and charm prices)
+      const newActualCost = Number(loadout.actual_cost) - Number(itemPrice) - getCharmsCost(skin.charms)
       const updatedLoadout = await tx.loadout.update({
         where: { id: loadoutId },
         data: {
@@ -291,14 +320,21 @@ export async function removeItemFromLoadoutAction(
  *
  * BDD Scenario: Replace existing weapon skin (line 207)
  *
+ * The new skin is priced at its cheapest listing, or at its listing on
+ * `platform` when given (cheaper_platform swaps may replace an item with
+ * itself on another marketplace). actual_cost changes by the difference from
+ * the old skin's stored price.
+ *
  * @param loadoutId - UUID of loadout
  * @param oldWeaponType - Weapon type to replace
  * @param newItemId - UUID of new item
+ * @param platform - Marketplace to buy the new item on (default: cheapest)
  */
 export async function replaceItemAction(
   loadoutId: string,
   oldWeaponType: string,
-  newItemId: string
+  newItemId: string,
+  platform?: string
 ): Promise<ReplaceItemResult> {
   try {
     // 1. Authenticate user
@@ -333,16 +369,6 @@ export async function replaceItemAction(
         where: {
           loadout_id: loadoutId,
           weapon_type: oldWeaponType
-        },
-        include: {
-          item: {
-            include: {
-              marketplace_prices: {
-                orderBy: { total_cost: 'asc' },
-                take: 1
-              }
-            }
-          }
         }
       })
 
@@ -350,13 +376,15 @@ export async function replaceItemAction(
         throw new Error(`No ${oldWeaponType} skin found in loadout`)
       }
 
-      const oldPrice = oldSkin.item.marketplace_prices[0]?.total_cost || 0
+      // What actual_cost currently counts for the slot
+      const oldPrice = oldSkin.price
 
-      // 3d. Fetch new item to get price
+      // 3d. Fetch new item's listing (on the requested platform, or the cheapest)
       const newItem = await tx.item.findUnique({
         where: { id: newItemId },
         include: {
           marketplace_prices: {
+            where: { ...NON_QUARANTINED_PRICE, ...(platform && { platform }) },
             orderBy: { total_cost: 'asc' },
             take: 1
           }
@@ -367,7 +395,12 @@ export async function replaceItemAction(
         throw new Error('New item not found')
       }
 
-      const newPrice = newItem.marketplace_prices[0]?.total_cost || 0
+      const listing = newItem.marketplace_prices[0]
+      if (platform && !listing) {
+        throw new Error(`New item is no longer listed on ${platform}`)
+      }
+
+      const newPrice = listing?.total_cost || 0
 
       // 3e. Check budget constraint (new price vs old price)
       const costDifference = Number(newPrice) - Number(oldPrice)
@@ -382,14 +415,15 @@ export async function replaceItemAction(
         where: { id: oldSkin.id }
       })
 
-      // 3g. Create new LoadoutWeaponSkin (executed second)
-      await tx.loadoutWeaponSkin.create({
+      // 3g. Create new LoadoutWeaponSkin (executed second), keeping attached charms
+      const newSkin = await tx.loadoutWeaponSkin.create({
         data: {
           loadout_id: loadoutId,
           item_id: newItemId,
           weapon_type: oldWeaponType,
-          selected_platform: newItem.marketplace_prices[0]?.platform || 'unknown',
-          price: newPrice
+          selected_platform: listing?.platform || 'unknown',
+          price: newPrice,
+          charms: oldSkin.charms ?? undefined
         }
       })
 
@@ -402,6 +436,147 @@ export async function replaceItemAction(
       })
 
       return {
+        newSkinId: newSkin.id,
+        actualCost: Number(updatedLoadout.actual_cost)
+      }
+    })
+
+    // 4. Suggestions for the swapped-in item
+    await storeAlternatives(result.newSkinId)
+
+    // 5. Revalidate path
+    revalidatePath(`/loadouts/${loadoutId}`)
+
+    // 6. Return success
+    return {
+      success: true,
+      actualCost: result.actualCost
+    }
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to replace item'
+    return { success: false, error: errorMessage }
+  }
+}
+
+// ============================================================================
+// Server Action 4: Attach Charm
+// ============================================================================
+
+/**
+ * Attach a charm to a weapon in the loadout
+ *
+ * Replaces the charm already on the weapon (one charm slot per weapon).
+ * The charm price is added to actual_cost and counts toward the "charms"
+ * budget category.
+ *
+ * @param loadoutId - UUID of loadout
+ * @param charmItemId - UUID of charm item (type="keychain")
+ * @param weaponType - Weapon type the charm hangs on
+ * @param pattern - Optional charm pattern seed
+ */
+export async function attachCharmAction(
+  loadoutId: string,
+  charmItemId: string,
+  weaponType: string,
+  pattern?: number
+): Promise<CharmResult> {
+  try {
+    // 1. Authenticate user
+    const session = await getSession()
+    if (!session) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    // 2. Validate inputs
+    if (!loadoutId || !charmItemId || !weaponType) {
+      return { success: false, error: 'Missing required fields' }
+    }
+
+    // 3. Use Prisma transaction for atomicity
+    const result = await prisma.$transaction(async (tx) => {
+      // 3a. Fetch loadout with ownership check
+      const loadout = await tx.loadout.findUnique({
+        where: { id: loadoutId }
+      })
+
+      if (!loadout) {
+        throw new Error('Loadout not found')
+      }
+
+      // 3b. Verify user owns loadout
+      if (loadout.user_id !== session.user.id) {
+        throw new Error('Unauthorized')
+      }
+
+      // 3c. Find the weapon the charm hangs on
+      const skin = await tx.loadoutWeaponSkin.findFirst({
+        where: {
+          loadout_id: loadoutId,
+          weapon_type: weaponType
+        }
+      })
+
+      if (!skin) {
+        throw new Error(`No ${weaponType} skin found in loadout`)
+      }
+
+      // 3d. Fetch charm to get price
+      const charm = await tx.item.findUnique({
+        where: { id: charmItemId },
+        include: {
+          marketplace_prices: {
+            where: NON_QUARANTINED_PRICE,
+            orderBy: { total_cost: 'asc' },
+            take: 1
+          }
+        }
+      })
+
+      if (!charm || charm.type !== 'keychain') {
+        throw new Error('Charm not found')
+      }
+
+      const charmPrice = Number(charm.marketplace_prices[0]?.total_cost || 0)
+
+      // 3e. Check budget constraint (new charm vs charm it replaces)
+      const existingCharms = normalizeStoredCharms(skin.charms)
+      const keptCharms =
+        existingCharms.length >= MAX_CHARM_SLOTS ? existingCharms.slice(0, MAX_CHARM_SLOTS - 1) : existingCharms // Full slots: the last charm is replaced
+      const replacedCost = getCharmsCost(existingCharms) - getCharmsCost(keptCharms)
+      const newActualCost = Number(loadout.actual_cost) - replacedCost + charmPrice
+
+      if (newActualCost > Number(loadout.budget)) {
+        throw new Error(`Exceeds budget ($${(Number(loadout.budget) - Number(loadout.actual_cost)).toFixed(2)} remaining)`)
+      }
+
+      // 3f. Store charm on the weapon
+      const charms: LoadoutCharm[] = [
+        ...keptCharms,
+        {
+          name: toCharmName(charm.name),
+          pattern: pattern ?? null,
+          item_id: charm.id,
+          price: charmPrice,
+          platform: charm.marketplace_prices[0]?.platform || 'unknown'
+        }
+      ]
+
+      await tx.loadoutWeaponSkin.update({
+        where: { id: skin.id },
+        data: { charms: JSON.parse(JSON.stringify(charms)) }
+      })
+
+      // 3g. Update loadout actual_cost
+      const updatedLoadout = await tx.loadout.update({
+        where: { id: loadoutId },
+        data: {
+          actual_cost: newActualCost
+        }
+      })
+
+      return {
+        charms,
         actualCost: Number(updatedLoadout.actual_cost)
       }
     })
@@ -412,11 +587,104 @@ export async function replaceItemAction(
     // 5. Return success
     return {
       success: true,
+      charms: result.charms,
       actualCost: result.actualCost
     }
 
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Failed to replace item'
+    const errorMessage = error instanceof Error ? error.message : 'Failed to attach charm'
+    return { success: false, error: errorMessage }
+  }
+}
+
+// ============================================================================
+// Server Action 5: Detach Charm
+// ============================================================================
+
+/**
+ * Detach the charm from a weapon in the loadout
+ *
+ * Subtracts the price stored at attach time from actual_cost.
+ *
+ * @param loadoutId - UUID of loadout
+ * @param weaponType - Weapon type the charm hangs on
+ */
+export async function detachCharmAction(
+  loadoutId: string,
+  weaponType: string
+): Promise<CharmResult> {
+  try {
+    // 1. Authenticate user
+    const session = await getSession()
+    if (!session) {
+      return { success: false, error: 'Not authenticated' }
+    }
+
+    // 2. Validate inputs
+    if (!loadoutId || !weaponType) {
+      return { success: false, error: 'Missing required fields' }
+    }
+
+    // 3. Use Prisma transaction for atomicity
+    const result = await prisma.$transaction(async (tx) => {
+      // 3a. Fetch loadout with ownership check
+      const loadout = await tx.loadout.findUnique({
+        where: { id: loadoutId }
+      })
+
+      if (!loadout) {
+        throw new Error('Loadout not found')
+      }
+
+      // 3b. Verify user owns loadout
+      if (loadout.user_id !== session.user.id) {
+        throw new Error('Unauthorized')
+      }
+
+      // 3c. Find the weapon and its charm
+      const skin = await tx.loadoutWeaponSkin.findFirst({
+        where: {
+          loadout_id: loadoutId,
+          weapon_type: weaponType
+        }
+      })
+
+      if (!skin || normalizeStoredCharms(skin.charms).length === 0) {
+        throw new Error(`No charm on ${weaponType}`)
+      }
+
+      // 3d. Clear charms
+      await tx.loadoutWeaponSkin.update({
+        where: { id: skin.id },
+        data: { charms: [] }
+      })
+
+      // 3e. Update loadout actual_cost (subtract charm price)
+      const newActualCost = Number(loadout.actual_cost) - getCharmsCost(skin.charms)
+      const updatedLoadout = await tx.loadout.update({
+        where: { id: loadoutId },
+        data: {
+          actual_cost: Math.max(0, newActualCost) // Prevent negative cost
+        }
+      })
+
+      return {
+        actualCost: Number(updatedLoadout.actual_cost)
+      }
+    })
+
+    // 4. Revalidate path
+    revalidatePath(`/loadouts/${loadoutId}`)
+
+    // 5. Return success
+    return {
+      success: true,
+      charms: [],
+      actualCost: result.actualCost
+    }
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to detach charm'
     return { success: false, error: errorMessage }
   }
 }
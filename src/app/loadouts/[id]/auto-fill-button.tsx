@@ -0,0 +1,128 @@
+'use client'
+
+/**
+ * AutoFillButton Client Component
+ *
+ * Fills every empty slot within the budget in one click
+ * (POST /api/loadouts/:id/auto-fill), then refreshes the page and lists the
+ * picks with the reason for each.
+ */
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { useDisplayCurrency } from '@/components/display-currency-provider'
+import type { AutoFillPick, AutoFillQuality, AutoFillUnfilled } from '@/lib/budget-loadout/auto-fill'
+
+interface AutoFillButtonProps {
+  loadoutId: string
+  theme: string | null
+}
+
+interface AutoFillSummary {
+  picks: AutoFillPick[]
+  unfilled: AutoFillUnfilled[]
+  leftover: number
+}
+
+export function AutoFillButton({ loadoutId, theme }: AutoFillButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [quality, setQuality] = useState<AutoFillQuality>('any')
+  const [summary, setSummary] = useState<AutoFillSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { formatPrice } = useDisplayCurrency()
+
+  const handleAutoFill = () => {
+    setError(null)
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(`/api/loadouts/${loadoutId}/auto-fill`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ quality })
+        })
+        const result = await response.json()
+
+        if (!response.ok || !result.success) {
+          setError(result.error?.message || 'Unable to auto-fill loadout. Please try again.')
+          return
+        }
+
+        setSummary(result.data)
+        router.refresh()
+      } catch (err) {
+        console.error('Error auto-filling loadout:', err)
+        setError('An unexpected error occurred. Please try again.')
+      }
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Auto-Fill</h2>
+          <p className="text-sm text-gray-600">
+            Pick the best-looking item for every empty slot within your budget
+            {theme ? `, favoring ${theme} skins` : ''}.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={quality}
+            onChange={(e) => setQuality(e.target.value as AutoFillQuality)}
+            aria-label="Preferred quality"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="any">Any quality</option>
+            <option value="normal">Prefer normal</option>
+            <option value="stattrak">Prefer StatTrak™</option>
+          </select>
+          <button
+            onClick={handleAutoFill}
+            disabled={isPending}
+            className={`
+              px-4 py-2 rounded-md font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors
+              ${isPending ? 'opacity-50 cursor-not-allowed' : ''}
+            `}
+          >
+            {isPending ? 'Filling...' : 'Auto-Fill'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      {summary && (
+        <div className="mt-4 border-t pt-4">
+          {summary.picks.length === 0 && summary.unfilled.length === 0 ? (
+            <p className="text-sm text-gray-600">Every slot is already filled.</p>
+          ) : (
+            <ul className="space-y-2">
+              {summary.picks.map(pick => (
+                <li key={pick.slot} className="text-sm">
+                  <span className="font-medium text-gray-900">{pick.name}</span>{' '}
+                  <span className="text-gray-500">
+                    {formatPrice(pick.price)} on {pick.platform}
+                  </span>
+                  <p className="text-xs text-gray-500">{pick.explanation}</p>
+                </li>
+              ))}
+              {summary.unfilled.map(slot => (
+                <li key={slot.slot} className="text-sm text-amber-700">
+                  {slot.slot}: {slot.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-3 text-sm text-gray-600">Leftover budget: {formatPrice(summary.leftover)}</p>
+        </div>
+      )}
+    </div>
+  )
+}
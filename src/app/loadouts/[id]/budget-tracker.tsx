@@ -11,8 +11,11 @@
  * - Display category-level budgets with progress bars
  * - Real-time updates as items added/removed
  * - Visual indicators (green/yellow/red based on budget usage)
+ * - Amounts (stored in USD) rendered in the visitor's display currency
  */
 
+import { useDisplayCurrency } from '@/components/display-currency-provider'
+
 interface CustomAllocation {
   weapon_skins: number
   knife: number
@@ -47,6 +50,7 @@ export function BudgetTracker({
   allocation,
   selectedItems
 }: BudgetTrackerProps) {
+  const { formatPrice } = useDisplayCurrency()
   const spent = selectedItems.reduce((sum, item) => sum + item.price, 0)
   const remaining = totalBudget - spent
   const spentPercentage = (spent / totalBudget) * 100
@@ -77,18 +81,18 @@ export function BudgetTracker({
       <div className="space-y-3 mb-6">
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600">Total Budget</span>
-          <span className="text-sm font-bold">${totalBudget.toFixed(2)}</span>
+          <span className="text-sm font-bold">{formatPrice(totalBudget)}</span>
         </div>
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600">Spent</span>
           <span className={`text-sm font-bold ${getSpentColor(spentPercentage)}`}>
-            ${spent.toFixed(2)}
+            {formatPrice(spent)}
           </span>
         </div>
         <div className="flex justify-between items-center">
           <span className="text-sm text-gray-600">Remaining</span>
           <span className={`text-sm font-bold ${getRemainingColor(spentPercentage)}`}>
-            ${remaining.toFixed(2)}
+            {formatPrice(remaining)}
           </span>
         </div>
 
@@ -127,10 +131,10 @@ export function BudgetTracker({
 
                 <div className="flex justify-between items-center text-xs">
                   <span className={getSpentColor(categoryPercentage)}>
-                    ${category.spent.toFixed(2)} / ${category.allocated.toFixed(2)}
+                    {formatPrice(category.spent)} / {formatPrice(category.allocated)}
                   </span>
                   <span className={getRemainingColor(categoryPercentage)}>
-                    ${remaining.toFixed(2)} left
+                    {formatPrice(remaining)} left
                   </span>
                 </div>
 
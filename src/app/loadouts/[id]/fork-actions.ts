@@ -0,0 +1,213 @@
+'use server'
+
+/**
+ * Fork Server Actions
+ *
+ * Responsibilities:
+ * - Copy a public loadout (or one of your own) into a new private loadout
+ * - Deep-copy LoadoutWeaponSkin rows, re-priced against current listings
+ *   (attached charms included)
+ * - Record the parent link (Loadout.forked_from_id) and the parent's price
+ *   per skin (LoadoutWeaponSkin.forked_price)
+ * - Increment Loadout.copies when another user forks
+ * - Authenticate inside the action (not middleware)
+ *
+ * Pricing rules: src/lib/budget-loadout/loadout-fork.ts
+ */
+
+import { getSession } from '@/lib/auth/session'
+import { prisma } from '@/lib/prisma'
+import { NON_QUARANTINED_PRICE } from '@/lib/price/price-quarantine-service'
+import { revalidatePath } from 'next/cache'
+import { normalizeStoredCharms, toCharmItemName } from '@/lib/charms/charm-attachments'
+import {
+  repriceForkedCharms,
+  repriceForkedSkin,
+  toForkName,
+  type ForkPriceStatus
+} from '@/lib/budget-loadout/loadout-fork'
+
+interface ForkLoadoutResult {
+  success: boolean
+  error?: string
+  loadoutId?: string // The new fork
+  actualCost?: number
+  priceChanges?: Array<{
+    weaponType: string
+    itemName: string
+    forkedPrice: number
+    price: number
+    status: ForkPriceStatus
+  }>
+}
+
+/**
+ * Fork a loadout into the current user's account
+ *
+ * @param loadoutId - UUID of the loadout to fork
+ */
+export async function forkLoadoutAction(loadoutId: string): Promise<ForkLoadoutResult> {
+  try {
+    // 1. Authenticate user
+    const session = await getSession()
+    if (!session) {
+      return { success: false, error: 'You must be signed in to fork loadouts' }
+    }
+
+    // 2. Validate inputs
+    if (!loadoutId) {
+      return { success: false, error: 'Missing required fields' }
+    }
+
+    // 3. Copy inside a transaction so a fork is never half-created
+    const result = await prisma.$transaction(async (tx) => {
+      const source = await tx.loadout.findUnique({
+        where: { id: loadoutId },
+        include: {
+          weapon_skins: {
+            include: {
+              item: {
+                select: {
+                  name: true,
+                  marketplace_prices: {
+                    where: NON_QUARANTINED_PRICE,
+                    orderBy: { total_cost: 'asc' },
+                    take: 1,
+                    select: { total_cost: true, platform: true }
+                  }
+                }
+              }
+            }
+          }
+        }
+      })
+
+      if (!source) {
+        throw new Error('Loadout not found')
+      }
+
+      const isOwner = source.user_id === session.user.id
+      if (!source.is_public && !isOwner) {
+        throw new Error('Only public loadouts can be forked')
+      }
+
+      // 3a. Re-price every skin and attached charm against current listings
+      const charmItemIds = source.weapon_skins.flatMap(skin =>
+        normalizeStoredCharms(skin.charms).flatMap(charm => (charm.item_id ? [charm.item_id] : []))
+      )
+      const charmItems = charmItemIds.length > 0
+        ? await tx.item.findMany({
+            where: { id: { in: Array.from(new Set(charmItemIds)) } },
+            select: {
+              id: true,
+              marketplace_prices: {
+                where: NON_QUARANTINED_PRICE,
+                orderBy: { total_cost: 'asc' },
+                take: 1,
+                select: { total_cost: true, platform: true }
+              }
+            }
+          })
+        : []
+      const cheapestCharms = new Map(
+        charmItems.flatMap(item => (item.marketplace_prices[0] ? [[item.id, item.marketplace_prices[0]] as const] : []))
+      )
+
+      const skins = source.weapon_skins.map(skin => ({
+        skin,
+        pricing: repriceForkedSkin(
+          { price: Number(skin.price), platform: skin.selected_platform },
+          skin.item.marketplace_prices[0]
+        ),
+        charms: repriceForkedCharms(skin.charms, cheapestCharms)
+      }))
+
+      const actualCost = Math.round(
+        skins.reduce(
+          (sum, { pricing, charms }) =>
+            sum + pricing.price + charms.reduce((charmSum, charm) => charmSum + charm.pricing.price, 0),
+          0
+        ) * 100
+      ) / 100
+
+      // 3b. Create the private fork with its skins
+      const fork = await tx.loadout.create({
+        data: {
+          user_id: session.user.id,
+          name: toForkName(source.name),
+          description: source.description,
+          theme: source.theme,
+          budget: source.budget,
+          actual_cost: actualCost,
+          custom_allocation: source.custom_allocation ?? undefined,
+          is_public: false,
+          forked_from_id: source.id,
+          weapon_skins: {
+            create: skins.map(({ skin, pricing, charms }) => ({
+              item_id: skin.item_id,
+              weapon_type: skin.weapon_type,
+              wear: skin.wear,
+              float_value: skin.float_value,
+              quality: skin.quality,
+              selected_platform: pricing.platform,
+              price: pricing.price,
+              forked_price: pricing.forkedPrice,
+              stickers: skin.stickers ?? undefined,
+              charms: charms.length > 0
+                ? JSON.parse(JSON.stringify(charms.map(({ charm }) => charm)))
+                : skin.charms ?? undefined,
+              alternatives: skin.alternatives ?? undefined
+            }))
+          }
+        }
+      })
+
+      // 3c. Count forks by other users on the original
+      if (!isOwner) {
+        await tx.loadout.update({
+          where: { id: source.id },
+          data: { copies: { increment: 1 } }
+        })
+      }
+
+      return {
+        forkId: fork.id,
+        sourceSlug: source.slug,
+        actualCost,
+        priceChanges: skins
+          .flatMap(({ skin, pricing, charms }) => [
+            { weaponType: skin.weapon_type, itemName: skin.item.name, pricing },
+            ...charms.map(({ charm, pricing }) => ({
+              weaponType: skin.weapon_type,
+              itemName: toCharmItemName(charm.name),
+              pricing
+            }))
+          ])
+          .filter(({ pricing }) => pricing.status !== 'unchanged')
+          .map(({ weaponType, itemName, pricing }) => ({
+            weaponType,
+            itemName,
+            forkedPrice: pricing.forkedPrice,
+            price: pricing.price,
+            status: pricing.status
+          }))
+      }
+    })
+
+    // 4. Revalidate the original (fork count and tree)
+    revalidatePath(`/loadouts/${loadoutId}`)
+    if (result.sourceSlug) {
+      revalidatePath(`/loadouts/${result.sourceSlug}`)
+    }
+
+    return {
+      success: true,
+      loadoutId: result.forkId,
+      actualCost: result.actualCost,
+      priceChanges: result.priceChanges
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to fork loadout'
+    return { success: false, error: errorMessage }
+  }
+}
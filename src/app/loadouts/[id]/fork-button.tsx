@@ -0,0 +1,68 @@
+'use client'
+
+/**
+ * ForkButton Client Component
+ *
+ * Copies the loadout into the viewer's account (forkLoadoutAction) and opens
+ * the new fork. Signed-out viewers are sent to sign in.
+ */
+
+import { useState, useTransition } from 'react'
+import { useRouter } from 'next/navigation'
+import { forkLoadoutAction } from './fork-actions'
+
+interface ForkButtonProps {
+  loadoutId: string
+  userId: string | null
+  forkCount: number
+}
+
+export function ForkButton({ loadoutId, userId, forkCount }: ForkButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFork = () => {
+    setError(null)
+
+    if (!userId) {
+      window.location.href = '/auth/signin'
+      return
+    }
+
+    startTransition(async () => {
+      const result = await forkLoadoutAction(loadoutId)
+
+      if (result.success && result.loadoutId) {
+        router.push(`/loadouts/${result.loadoutId}`)
+      } else {
+        setError('Unable to fork loadout. Please try again.')
+      }
+    })
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <button
+        onClick={handleFork}
+        disabled={isPending}
+        title={userId ? 'Copy this loadout into your account' : 'Sign in to fork'}
+        className={`
+          flex items-center gap-2 px-4 py-2 rounded-md font-medium transition-colors
+          bg-white text-gray-700 border border-gray-300 hover:bg-gray-50
+          ${isPending ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
+        `}
+        aria-label="Fork loadout"
+      >
+        <span>{isPending ? 'Forking...' : 'Fork'}</span>
+        <span className="font-bold">{forkCount.toLocaleString()}</span>
+      </button>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+/**
+ * ForkTree Component
+ *
+ * Nested list of the loadouts forked from this one
+ * (fetchForkTree in src/lib/budget-loadout/loadout-fork-service.ts).
+ */
+
+import Link from 'next/link'
+import { countForks, type ForkTreeNode } from '@/lib/budget-loadout/loadout-fork'
+
+interface ForkTreeProps {
+  tree: ForkTreeNode
+}
+
+function ForkList({ forks }: { forks: ForkTreeNode[] }) {
+  return (
+    <ul className="space-y-2 pl-4 border-l border-gray-200">
+      {forks.map(fork => (
+        <li key={fork.id}>
+          <Link
+            href={`/loadouts/${fork.is_public && fork.slug ? fork.slug : fork.id}`}
+            className="text-sm font-medium text-blue-600 hover:underline"
+          >
+            {fork.name}
+          </Link>
+          <span className="ml-2 text-xs text-gray-500">
+            by {fork.creator}
+            {!fork.is_public && ' (private)'}
+          </span>
+          {fork.forks.length > 0 && (
+            <div className="mt-2">
+              <ForkList forks={fork.forks} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function ForkTree({ tree }: ForkTreeProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+        Forks ({countForks(tree)})
+      </h2>
+      <ForkList forks={tree.forks} />
+    </div>
+  )
+}
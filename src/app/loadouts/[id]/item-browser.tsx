@@ -9,9 +9,12 @@
  * Displays items from database in filterable, paginated grid.
  * Items fetched in Server Component and passed as props.
  * Iteration 4: Loading states, error handling, optimistic UI
+ * Theme filter: Item.color_families vs THEME_COLOR_FAMILIES
  */
 
 import { useState, useTransition } from 'react'
+import { useDisplayCurrency } from '@/components/display-currency-provider'
+import { isOnTheme, THEME_COLOR_FAMILIES } from '@/lib/colors/color-palette'
 
 interface MarketplacePrice {
   id: string
@@ -28,6 +31,7 @@ interface Item {
   quality: string
   rarity: string | null
   image_url: string
+  color_families?: string[]
   marketplace_prices: MarketplacePrice[]
 }
 
@@ -39,6 +43,10 @@ export interface ItemBrowserProps {
   onItemSelect: (loadoutId: string, itemId: string, weaponType: string) => Promise<any>
   items: Item[]
   loadoutId: string
+  /** Charms category: weapon types in the loadout a charm can be attached to */
+  attachTargets?: string[]
+  /** Loadout.theme; preselects the theme filter and badges on-theme items */
+  theme?: string | null
 }
 
 export function ItemBrowser({
@@ -48,16 +56,26 @@ export function ItemBrowser({
   selectedItems,
   onItemSelect,
   items,
-  loadoutId
+  loadoutId,
+  attachTargets,
+  theme
 }: ItemBrowserProps) {
   const [weaponFilter, setWeaponFilter] = useState<string>('all')
   const [wearFilter, setWearFilter] = useState<string>('all')
   const [qualityFilter, setQualityFilter] = useState<string>('all')
+  // Start on the loadout's theme when some items match it
+  const [themeFilter, setThemeFilter] = useState<string>(() =>
+    theme && items.some(item => isOnTheme(item.color_families, theme)) ? theme.trim().toLowerCase() : 'all'
+  )
   const [searchQuery, setSearchQuery] = useState('')
   const [currentPage, setCurrentPage] = useState(1)
   const [isPending, startTransition] = useTransition()
   const [pendingItemId, setPendingItemId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [attachTarget, setAttachTarget] = useState<string>(attachTargets?.[0] ?? '')
+  const isCharmBrowser = attachTargets !== undefined
+  const noAttachTarget = isCharmBrowser && !attachTarget
+  const { formatPrice } = useDisplayCurrency()
   const itemsPerPage = 20
 
   // Get unique weapon types from items
@@ -70,6 +88,7 @@ export function ItemBrowser({
     if (weaponFilter !== 'all' && item.weapon_type !== weaponFilter) return false
     if (wearFilter !== 'all' && item.wear !== wearFilter) return false
     if (qualityFilter !== 'all' && item.quality !== qualityFilter) return false
+    if (themeFilter !== 'all' && !isOnTheme(item.color_families, themeFilter)) return false
     if (searchQuery && !item.display_name.toLowerCase().includes(searchQuery.toLowerCase())) return false
     return true
   })
@@ -107,7 +126,7 @@ export function ItemBrowser({
       {/* Header */}
       <h2 className="text-xl font-semibold text-gray-900 mb-4">Browse Items</h2>
       <p className="text-sm text-gray-600 mb-4">
-        Budget: ${categoryBudget.toFixed(2)} | Remaining: ${remainingBudget.toFixed(2)}
+        Budget: {formatPrice(categoryBudget)} | Remaining: {formatPrice(remainingBudget)}
       </p>
 
       {/* Error Alert */}
@@ -147,6 +166,26 @@ export function ItemBrowser({
           />
         </div>
 
+        {/* Charm target weapon */}
+        {isCharmBrowser && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Attach To</label>
+            <select
+              value={attachTarget}
+              onChange={(e) => setAttachTarget(e.target.value)}
+              disabled={attachTargets.length === 0}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+            >
+              {attachTargets.length === 0 && <option value="">Add a weapon skin first</option>}
+              {attachTargets.map(weaponType => (
+                <option key={weaponType} value={weaponType}>
+                  {weaponType}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Weapon Type */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Weapon</label>
@@ -201,6 +240,26 @@ export function ItemBrowser({
             <option value="stattrak">StatTrak™</option>
           </select>
         </div>
+
+        {/* Theme */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Theme</label>
+          <select
+            value={themeFilter}
+            onChange={(e) => {
+              setThemeFilter(e.target.value)
+              setCurrentPage(1)
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="all">Any Color</option>
+            {Object.keys(THEME_COLOR_FAMILIES).map(themeName => (
+              <option key={themeName} value={themeName}>
+                {themeName.charAt(0).toUpperCase() + themeName.slice(1)}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Items Grid */}
@@ -212,6 +271,7 @@ export function ItemBrowser({
               setWeaponFilter('all')
               setWearFilter('all')
               setQualityFilter('all')
+              setThemeFilter('all')
               setSearchQuery('')
             }}
             className="mt-2 text-sm text-blue-600 hover:text-blue-700"
@@ -227,6 +287,7 @@ export function ItemBrowser({
               : 0
             const isOverBudget = bestPrice > remainingBudget
             const isSelected = selectedItems.includes(item.id)
+            const matchesTheme = isOnTheme(item.color_families, theme)
 
             return (
               <div
@@ -248,18 +309,21 @@ export function ItemBrowser({
                 {item.quality !== 'normal' && (
                   <p className="text-xs text-purple-600 font-medium">StatTrak™</p>
                 )}
+                {matchesTheme && (
+                  <p className="text-xs text-amber-600 font-medium">On theme</p>
+                )}
                 {bestPrice > 0 ? (
-                  <p className="text-sm font-bold text-green-600 mt-2">${bestPrice.toFixed(2)}</p>
+                  <p className="text-sm font-bold text-green-600 mt-2">{formatPrice(bestPrice)}</p>
                 ) : (
                   <p className="text-sm font-bold text-gray-400 mt-2">No price</p>
                 )}
 
                 <button
-                  onClick={() => handleItemSelect(item.id, item.weapon_type || '')}
-                  disabled={isOverBudget || isSelected || bestPrice === 0 || pendingItemId === item.id}
+                  onClick={() => handleItemSelect(item.id, isCharmBrowser ? attachTarget : item.weapon_type || '')}
+                  disabled={isOverBudget || isSelected || bestPrice === 0 || noAttachTarget || pendingItemId === item.id}
                   className={`
                     w-full mt-2 px-3 py-1 text-xs font-medium rounded flex items-center justify-center gap-1
-                    ${isOverBudget || bestPrice === 0
+                    ${isOverBudget || bestPrice === 0 || noAttachTarget
                       ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
                       : isSelected
                       ? 'bg-green-100 text-green-700'
@@ -283,6 +347,10 @@ export function ItemBrowser({
                     ? 'Over Budget'
                     : isSelected
                     ? 'Selected'
+                    : noAttachTarget
+                    ? 'No Weapon'
+                    : isCharmBrowser
+                    ? `Attach to ${attachTarget}`
                     : 'Add to Loadout'}
                 </button>
               </div>
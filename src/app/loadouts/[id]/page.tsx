@@ -14,6 +14,10 @@
  * - Calculate category budgets from custom_allocation
  * - Render client components (ItemBrowser, BudgetTracker, SelectedItemsList)
  * - Show edit controls for owner, read-only for others
+ * - Fork button, "forked from" link and fork tree
+ * - Swap suggestions per slot (LoadoutWeaponSkin.alternatives)
+ * - On-theme items listed first in the item browser (Loadout.theme)
+ * - One-click auto-fill of empty slots (owner only)
  * - Handle 404 (loadout not found or private accessed by slug)
  */
 
@@ -21,14 +25,32 @@ import { Metadata } from 'next'
 import { notFound } from 'next/navigation'
 import { getSession } from '@/lib/auth/session'
 import { prisma } from '@/lib/prisma'
+import { getDisplayCurrency } from '@/lib/currency/get-display-currency'
+import { formatPrice } from '@/lib/currency/display-currency'
+import { getOgImageVersion } from '@/lib/budget-loadout/og-image'
 import { ItemBrowser } from './item-browser'
 import { BudgetTracker } from './budget-tracker'
 import { SelectedItemsList } from './selected-items-list'
 import { UpvoteButton } from './upvote-button'
 import { ShareButtons } from './share-buttons'
-import { addItemToLoadoutAction, removeItemFromLoadoutAction, replaceItemAction } from './actions'
+import { ForkButton } from './fork-button'
+import { ForkTree } from './fork-tree'
+import { AutoFillButton } from './auto-fill-button'
+import {
+  addItemToLoadoutAction,
+  attachCharmAction,
+  detachCharmAction,
+  removeItemFromLoadoutAction,
+  replaceItemAction
+} from './actions'
+import { getCharmsCost, normalizeStoredCharms } from '@/lib/charms/charm-attachments'
+import { getThemeColorFamilies } from '@/lib/colors/color-palette'
 import { checkUserUpvotedAction } from './upvote-actions'
 import { trackLoadoutViewAction } from './view-tracking-actions'
+import { fetchForkTree } from '@/lib/budget-loadout/loadout-fork-service'
+import { FORK_PRICE_CHANGE_THRESHOLD } from '@/lib/budget-loadout/loadout-fork'
+import { normalizeStoredAlternatives } from '@/lib/budget-loadout/skin-alternatives'
+import { NON_QUARANTINED_PRICE } from '@/lib/price/price-quarantine-service'
 
 interface PageProps {
   params: { id: string }
@@ -92,7 +114,7 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
         siteName: 'CSLoadout.gg',
         images: [
           {
-            url: `/api/og-image/${loadout.id}`,
+            url: `/api/og-image/${loadout.id}?v=${getOgImageVersion(loadout.updated_at)}`, // Cache-busted on edit
             width: 1200,
             height: 630,
             alt: `${loadout.name} - CSLoadout.gg`
@@ -158,6 +180,7 @@ export const revalidate = 300 // 5 minutes in seconds
 export default async function LoadoutDetailPage({ params, searchParams }: PageProps) {
   // Optional authentication (public loadouts don't require auth)
   const session = await getSession()
+  const displayCurrency = await getDisplayCurrency()
 
   // Detect UUID vs slug
   const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(params.id)
@@ -168,11 +191,15 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
       ? { id: params.id }
       : { slug: params.id, is_public: true }, // Slug access requires is_public
     include: {
+      forked_from: {
+        select: { id: true, name: true, slug: true, is_public: true }
+      },
       weapon_skins: {
         include: {
           item: {
             include: {
               marketplace_prices: {
+                where: NON_QUARANTINED_PRICE,
                 orderBy: {
                   total_cost: 'asc' // Cheapest first
                 }
@@ -236,6 +263,8 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
     const category = getCategoryFromWeaponType(lwsk.weapon_type)
     const price = lwsk.item.marketplace_prices[0]?.total_cost || 0
     acc[category] = (acc[category] || 0) + Number(price)
+    // Charms count toward the charms category, not the weapon they hang on
+    acc.charms = (acc.charms || 0) + getCharmsCost(lwsk.charms)
     return acc
   }, {} as Record<string, number>)
 
@@ -243,30 +272,65 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
   const currentCategory = (searchParams.category || 'weapon_skins') as keyof typeof categoryBudgets
 
   // Transform selected items for client component
-  const selectedItems = loadout.weapon_skins.map(lwsk => ({
-    id: lwsk.id,
-    item_id: lwsk.item_id,
-    weapon_type: lwsk.weapon_type,
-    category: getCategoryFromWeaponType(lwsk.weapon_type),
-    item: {
-      name: lwsk.item.name,
-      display_name: lwsk.item.display_name,
-      image_url: lwsk.item.image_url,
-      quality: lwsk.item.quality,
-      wear: lwsk.item.wear,
-      rarity: lwsk.item.rarity
-    },
-    price: Number(lwsk.item.marketplace_prices[0]?.total_cost || 0)
-  }))
+  const selectedItems = loadout.weapon_skins.map(lwsk => {
+    const price = Number(lwsk.item.marketplace_prices[0]?.total_cost || 0)
+    const forkedPrice = lwsk.forked_price === null ? null : Number(lwsk.forked_price)
+
+    return {
+      id: lwsk.id,
+      item_id: lwsk.item_id,
+      weapon_type: lwsk.weapon_type,
+      category: getCategoryFromWeaponType(lwsk.weapon_type),
+      item: {
+        name: lwsk.item.name,
+        display_name: lwsk.item.display_name,
+        image_url: lwsk.item.image_url,
+        quality: lwsk.item.quality,
+        wear: lwsk.item.wear,
+        rarity: lwsk.item.rarity
+      },
+      price,
+      // Forks: the original's price, only when it differs from today's
+      forkedPrice: forkedPrice !== null && Math.abs(price - forkedPrice) >= FORK_PRICE_CHANGE_THRESHOLD ? forkedPrice : null,
+      charms: normalizeStoredCharms(lwsk.charms).map(charm => ({
+        name: charm.name,
+        pattern: charm.pattern,
+        price: charm.price
+      })),
+      alternatives: normalizeStoredAlternatives(lwsk.alternatives)
+    }
+  })
+
+  // Attached charms as budget entries in the charms category
+  const charmEntries = selectedItems.flatMap(item =>
+    item.charms.map((charm, index) => ({
+      id: `${item.id}:charm:${index}`,
+      category: 'charms',
+      price: charm.price
+    }))
+  )
+
+  // Weapons a charm can hang on
+  const charmTargets = selectedItems
+    .filter(item => item.category === 'weapon_skins')
+    .map(item => item.weapon_type)
 
   // Fetch items for current category with marketplace prices
-  const categoryItems = await fetchItemsForCategory(currentCategory, categoryBudgets[currentCategory])
+  const categoryItems = await fetchItemsForCategory(currentCategory, categoryBudgets[currentCategory], loadout.theme)
 
   // Check if user has upvoted this loadout (Phase 7d)
   const userUpvoted = session?.user?.id
     ? await checkUserUpvotedAction(loadout.id, session.user.id)
     : false
 
+  // Loadouts forked from this one
+  const forkTree = await fetchForkTree(loadout.id, session?.user?.id ?? null)
+
+  // Parent link, hidden when the parent is private to this viewer
+  const forkedFrom = loadout.forked_from && (loadout.forked_from.is_public || isOwner)
+    ? loadout.forked_from
+    : null
+
   // Track view for public loadouts (Phase 7e)
   // Non-blocking: track view in background, don't wait for result
   if (loadout.is_public) {
@@ -292,6 +356,17 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
           {loadout.description && (
             <p className="mt-2 text-gray-600">{loadout.description}</p>
           )}
+          {forkedFrom && (
+            <p className="mt-2 text-sm text-gray-500">
+              Forked from{' '}
+              <a
+                href={`/loadouts/${forkedFrom.is_public && forkedFrom.slug ? forkedFrom.slug : forkedFrom.id}`}
+                className="text-blue-600 hover:underline"
+              >
+                {forkedFrom.name}
+              </a>
+            </p>
+          )}
 
           {/* Stats Row - Phase 7d & 7e */}
           {loadout.is_public && (
@@ -305,6 +380,13 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
                 initialCount={loadout.upvotes}
               />
 
+              {/* Fork Button */}
+              <ForkButton
+                loadoutId={loadout.id}
+                userId={session?.user?.id || null}
+                forkCount={loadout.copies}
+              />
+
               {/* View Count - Phase 7e */}
               <div className="flex items-center gap-2 text-gray-600">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -336,19 +418,22 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
           <div className="grid grid-cols-3 gap-6">
             <div>
               <p className="text-sm text-gray-600">Total Budget</p>
-              <p className="text-2xl font-bold text-gray-900">${totalBudget.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-gray-900">{formatPrice(totalBudget, displayCurrency)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-600">Spent</p>
-              <p className="text-2xl font-bold text-blue-600">${spent.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-blue-600">{formatPrice(spent, displayCurrency)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-600">Remaining</p>
-              <p className="text-2xl font-bold text-green-600">${remaining.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-green-600">{formatPrice(remaining, displayCurrency)}</p>
             </div>
           </div>
         </div>
 
+        {/* Auto-Fill - Owner only */}
+        {isOwner && <AutoFillButton loadoutId={loadout.id} theme={loadout.theme} />}
+
         {/* Category Tabs */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
           <div className="border-b border-gray-200">
@@ -376,7 +461,7 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
                     <div className="flex items-center gap-2">
                       <span>{formatCategoryName(category)}</span>
                       <span className="text-xs text-gray-500">
-                        {allocation[category].toFixed(0)}% (${budget.toFixed(2)})
+                        {allocation[category].toFixed(0)}% ({formatPrice(budget, displayCurrency)})
                       </span>
                     </div>
                   </a>
@@ -396,9 +481,11 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
                 categoryBudget={categoryBudgets[currentCategory]}
                 remainingBudget={categoryBudgets[currentCategory] - (categorySpent[currentCategory] || 0)}
                 selectedItems={selectedItems.map(item => item.item_id)}
-                onItemSelect={addItemToLoadoutAction}
+                onItemSelect={currentCategory === 'charms' ? attachCharmAction : addItemToLoadoutAction}
                 items={categoryItems}
                 loadoutId={params.id}
+                attachTargets={currentCategory === 'charms' ? charmTargets : undefined}
+                theme={loadout.theme}
               />
             </div>
           )}
@@ -409,15 +496,19 @@ export default async function LoadoutDetailPage({ params, searchParams }: PagePr
             <BudgetTracker
               totalBudget={totalBudget}
               allocation={allocation}
-              selectedItems={selectedItems}
+              selectedItems={[...selectedItems, ...charmEntries]}
             />
 
             {/* Selected Items List */}
             <SelectedItemsList
               selectedItems={selectedItems}
               onRemove={isOwner ? async (id: string, weaponType: string) => removeItemFromLoadoutAction(params.id, weaponType) : async () => {}}
-              onChange={isOwner ? async (oldId: string, weaponType: string, newItemId: string) => replaceItemAction(params.id, weaponType, newItemId) : async () => {}}
+              onChange={isOwner ? async (oldId: string, weaponType: string, newItemId: string, platform?: string) => replaceItemAction(params.id, weaponType, newItemId, platform) : async () => {}}
+              onDetachCharm={isOwner ? async (weaponType: string) => detachCharmAction(params.id, weaponType) : undefined}
             />
+
+            {/* Fork Tree */}
+            {forkTree && forkTree.forks.length > 0 && <ForkTree tree={forkTree} />}
           </div>
         </div>
       </div>
@@ -440,7 +531,7 @@ function getCategoryFromWeaponType(weaponType: string): string {
 /**
  * Helper: Fetch items for category with marketplace prices
  */
-async function fetchItemsForCategory(category: string, maxBudget: number) {
+async function fetchItemsForCategory(category: string, maxBudget: number, theme: string | null) {
   // Map category to Item filters
   const where: any = {}
 
@@ -453,7 +544,7 @@ async function fetchItemsForCategory(category: string, maxBudget: number) {
   } else if (category === 'music_kit') {
     where.weapon_type = 'Music Kit'
   } else if (category === 'charms') {
-    where.weapon_type = 'Charm'
+    where.type = 'keychain' // Imported by importKeychains(), no weapon_type
   } else if (category === 'weapon_skins') {
     // Weapon skins: exclude special categories
     where.weapon_type = {
@@ -462,22 +553,39 @@ async function fetchItemsForCategory(category: string, maxBudget: number) {
     }
   }
 
+  const include = {
+    marketplace_prices: {
+      where: NON_QUARANTINED_PRICE,
+      orderBy: { total_cost: 'asc' as const },
+      take: 3 // Get top 3 cheapest prices
+    }
+  }
+  const orderBy = [
+    { rarity: 'desc' as const },
+    { name: 'asc' as const }
+  ]
+
   // Fetch items with marketplace prices
   const items = await prisma.item.findMany({
     where,
-    include: {
-      marketplace_prices: {
-        orderBy: { total_cost: 'asc' },
-        take: 3 // Get top 3 cheapest prices
-      }
-    },
-    orderBy: [
-      { rarity: 'desc' },
-      { name: 'asc' }
-    ],
+    include,
+    orderBy,
     take: 200 // Limit to 200 items per category for performance
   })
 
+  // On-theme items first, so the 200-item limit doesn't hide them
+  const themeFamilies = getThemeColorFamilies(theme)
+  if (themeFamilies.length > 0) {
+    const onTheme = await prisma.item.findMany({
+      where: { ...where, color_families: { hasSome: themeFamilies } },
+      include,
+      orderBy,
+      take: 100
+    })
+    const onThemeIds = new Set(onTheme.map(item => item.id))
+    items.splice(0, items.length, ...onTheme, ...items.filter(item => !onThemeIds.has(item.id)))
+  }
+
   // Filter items within budget (at least have one price <= maxBudget * 1.5)
   // Allow 150% of budget to show near-budget options
   const affordableItems = items.filter(item => {
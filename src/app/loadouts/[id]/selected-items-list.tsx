@@ -10,10 +10,16 @@
  * - Display list of selected items
  * - Group by category
  * - Show Remove/Change buttons
+ * - Show attached charms with a Detach button
+ * - Flag forked items whose price changed since the original
+ * - Offer one-click swaps to stored alternatives (cheaper look-alike, other
+ *   wear, StatTrak™ variant, cheaper platform) through onChange
  * - Real-time updates with optimistic UI
  */
 
 import { useState } from 'react'
+import { useDisplayCurrency } from '@/components/display-currency-provider'
+import type { AlternativeKind, SkinAlternative } from '@/lib/budget-loadout/skin-alternatives'
 
 interface SelectedItem {
   id: string
@@ -29,20 +35,31 @@ interface SelectedItem {
     rarity: string | null
   }
   price: number
+  forkedPrice?: number | null // Price in the original loadout, set when it changed
+  charms?: Array<{
+    name: string
+    pattern: number | null
+    price: number
+  }>
+  alternatives?: SkinAlternative[]
 }
 
 export interface SelectedItemsListProps {
   selectedItems: SelectedItem[]
   onRemove: (id: string, weaponType: string) => Promise<any>
-  onChange: (oldId: string, weaponType: string, newItemId: string) => Promise<any>
+  onChange: (oldId: string, weaponType: string, newItemId: string, platform?: string) => Promise<any>
+  onDetachCharm?: (weaponType: string) => Promise<any>
 }
 
 export function SelectedItemsList({
   selectedItems,
   onRemove,
-  onChange
+  onChange,
+  onDetachCharm
 }: SelectedItemsListProps) {
   const [removingId, setRemovingId] = useState<string | null>(null)
+  const [swapError, setSwapError] = useState<{ id: string; message: string } | null>(null)
+  const { formatPrice } = useDisplayCurrency()
 
   // Group items by category
   const groupedItems = selectedItems.reduce((acc, item) => {
@@ -53,8 +70,11 @@ export function SelectedItemsList({
     return acc
   }, {} as Record<string, SelectedItem[]>)
 
-  // Calculate total cost
-  const totalCost = selectedItems.reduce((sum, item) => sum + item.price, 0)
+  // Calculate total cost (weapons plus attached charms)
+  const totalCost = selectedItems.reduce(
+    (sum, item) => sum + item.price + (item.charms ?? []).reduce((charmSum, charm) => charmSum + charm.price, 0),
+    0
+  )
 
   const handleRemove = async (id: string, weaponType: string) => {
     setRemovingId(id)
@@ -67,6 +87,35 @@ export function SelectedItemsList({
     }
   }
 
+  const handleSwap = async (id: string, weaponType: string, alternative: SkinAlternative) => {
+    setRemovingId(id)
+    setSwapError(null)
+    try {
+      // cheaper_platform swaps keep the item and move it to the alternative's marketplace
+      const result = await onChange(id, weaponType, alternative.item_id, alternative.platform)
+      if (result && result.success === false) {
+        setSwapError({ id, message: result.error || 'Unable to swap item. Please try again.' })
+      }
+    } catch (error) {
+      console.error('Failed to swap item:', error)
+      setSwapError({ id, message: 'An unexpected error occurred. Please try again.' })
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const handleDetachCharm = async (id: string, weaponType: string) => {
+    if (!onDetachCharm) return
+    setRemovingId(id)
+    try {
+      await onDetachCharm(weaponType)
+    } catch (error) {
+      console.error('Failed to detach charm:', error)
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
   if (selectedItems.length === 0) {
     return (
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -99,7 +148,7 @@ export function SelectedItemsList({
           Selected Items ({selectedItems.length})
         </h2>
         <span className="text-sm font-bold text-blue-600">
-          ${totalCost.toFixed(2)}
+          {formatPrice(totalCost)}
         </span>
       </div>
 
@@ -148,11 +197,69 @@ export function SelectedItemsList({
                         </p>
                       )}
                       <p className="text-sm font-bold text-green-600 mt-1">
-                        ${item.price.toFixed(2)}
+                        {formatPrice(item.price)}
                       </p>
+                      {item.forkedPrice != null && (
+                        <p className="text-xs text-amber-600 mt-0.5">
+                          Price {item.price > item.forkedPrice ? 'up' : 'down'} since fork (was {formatPrice(item.forkedPrice)})
+                        </p>
+                      )}
                     </div>
                   </div>
 
+                  {/* Attached Charms */}
+                  {item.charms?.map((charm) => (
+                    <div key={charm.name} className="flex items-center justify-between mt-2 text-xs text-gray-600">
+                      <span className="truncate">
+                        Charm: {charm.name}
+                        {charm.pattern !== null && ` #${charm.pattern}`} ({formatPrice(charm.price)})
+                      </span>
+                      {onDetachCharm && (
+                        <button
+                          onClick={() => handleDetachCharm(item.id, item.weapon_type)}
+                          disabled={removingId === item.id}
+                          className="ml-2 text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Detach
+                        </button>
+                      )}
+                    </div>
+                  ))}
+
+                  {/* Swap Suggestions */}
+                  {item.alternatives && item.alternatives.length > 0 && (
+                    <div className="mt-2 space-y-1" aria-label={`Alternatives for ${item.weapon_type}`}>
+                      {item.alternatives.map((alternative) => (
+                        <div
+                          key={`${alternative.kind}:${alternative.item_id}:${alternative.platform}`}
+                          className="flex items-center justify-between text-xs text-gray-600"
+                        >
+                          <span className="truncate">
+                            {formatAlternativeKind(alternative.kind)}
+                            {alternative.kind !== 'cheaper_platform' && `: ${alternative.name}`}
+                            {alternative.kind === 'cheaper_platform' && ` on ${alternative.platform}`}
+                          </span>
+                          <button
+                            onClick={() => handleSwap(item.id, item.weapon_type, alternative)}
+                            disabled={removingId === item.id}
+                            className={`ml-2 shrink-0 font-medium disabled:opacity-50 ${
+                              alternative.savings >= 0 ? 'text-green-700 hover:text-green-900' : 'text-blue-700 hover:text-blue-900'
+                            }`}
+                          >
+                            {alternative.savings >= 0
+                              ? `Swap (save ${formatPrice(alternative.savings)})`
+                              : `Upgrade (+${formatPrice(-alternative.savings)})`}
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {swapError?.id === item.id && (
+                    <p className="mt-1 text-xs text-red-600" role="alert">
+                      {swapError.message}
+                    </p>
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex gap-2 mt-3">
                     <button
@@ -185,7 +292,7 @@ export function SelectedItemsList({
       <div className="mt-6 pt-4 border-t">
         <div className="flex justify-between items-center">
           <span className="text-sm font-medium text-gray-700">Total</span>
-          <span className="text-lg font-bold text-gray-900">${totalCost.toFixed(2)}</span>
+          <span className="text-lg font-bold text-gray-900">{formatPrice(totalCost)}</span>
         </div>
       </div>
     </div>
@@ -207,6 +314,19 @@ function formatCategoryName(category: string): string {
   return names[category] || category
 }
 
+/**
+ * Helper: Format alternative kind for display
+ */
+function formatAlternativeKind(kind: AlternativeKind): string {
+  const names: Record<AlternativeKind, string> = {
+    cheaper_platform: 'Same item',
+    lookalike: 'Look-alike',
+    wear: 'Other wear',
+    stattrak: 'StatTrak™ toggle'
+  }
+  return names[kind]
+}
+
 /**
  * Helper: Format wear for display
  */
@@ -0,0 +1,168 @@
+'use server'
+
+/**
+ * Server Actions for the Loadout Builder
+ *
+ * Responsibilities:
+ * - Save the builder's slots as a Loadout with one LoadoutWeaponSkin per slot
+ * - Re-price every item at its cheapest current listing (client prices are
+ *   only a preview)
+ * - Reject items that don't belong in their slot and totals over budget
+ * - Publish through togglePublishAction when asked (slug generation)
+ * - Authenticate inside the action (not middleware)
+ *
+ * Slot mapping: src/lib/budget-loadout/builder-slots.ts
+ */
+
+import { getSession } from '@/lib/auth/session'
+import { prisma } from '@/lib/prisma'
+import { NON_QUARANTINED_PRICE } from '@/lib/price/price-quarantine-service'
+import { revalidatePath } from 'next/cache'
+import { refreshSkinAlternatives } from '@/lib/budget-loadout/skin-alternatives-service'
+import {
+  getBuilderSlotConfig,
+  getSavedWeaponType,
+  isBuilderSlot,
+  itemFitsSlot,
+  type BuilderSlot
+} from '@/lib/budget-loadout/builder-slots'
+import { togglePublishAction } from '../[id]/publish-actions'
+
+interface SaveBuilderLoadoutInput {
+  name: string
+  budget: number
+  isPublic: boolean
+  items: Array<{ slot: BuilderSlot; itemId: string }>
+}
+
+interface SaveBuilderLoadoutResult {
+  success: boolean
+  error?: string
+  loadoutId?: string
+  actualCost?: number
+}
+
+/**
+ * Save the builder as a new loadout
+ *
+ * @param input - Name, budget, visibility and the item picked for each slot
+ */
+export async function saveBuilderLoadoutAction(input: SaveBuilderLoadoutInput): Promise<SaveBuilderLoadoutResult> {
+  try {
+    // 1. Authenticate user
+    const session = await getSession()
+    if (!session) {
+      return { success: false, error: 'You must be signed in to save loadouts' }
+    }
+
+    // 2. Validate inputs (same limits as the create form)
+    const name = input.name?.trim() ?? ''
+    if (name.length < 3) {
+      return { success: false, error: 'Name must be at least 3 characters' }
+    }
+    if (name.length > 100) {
+      return { success: false, error: 'Name must be 100 characters or less' }
+    }
+    if (!Number.isFinite(input.budget) || input.budget < 10) {
+      return { success: false, error: 'Minimum budget is $10' }
+    }
+    if (input.budget > 100000) {
+      return { success: false, error: 'Maximum budget is $100,000' }
+    }
+    if (input.items.length === 0) {
+      return { success: false, error: 'Add at least one item' }
+    }
+    if (input.items.some(({ slot, itemId }) => !isBuilderSlot(slot) || !itemId)) {
+      return { success: false, error: 'Invalid slot' }
+    }
+    if (new Set(input.items.map(({ slot }) => slot)).size !== input.items.length) {
+      return { success: false, error: 'Each slot holds one item' }
+    }
+
+    // 3. Price and create inside a transaction so a loadout is never half-saved
+    const result = await prisma.$transaction(async (tx) => {
+      const items = await tx.item.findMany({
+        where: { id: { in: input.items.map(({ itemId }) => itemId) } },
+        select: {
+          id: true,
+          type: true,
+          weapon_type: true,
+          marketplace_prices: {
+            where: NON_QUARANTINED_PRICE,
+            orderBy: { total_cost: 'asc' },
+            take: 1,
+            select: { total_cost: true, platform: true }
+          }
+        }
+      })
+      const itemsById = new Map(items.map(item => [item.id, item]))
+
+      // 3a. Every item must exist, fit its slot and be listed
+      const skins = input.items.map(({ slot, itemId }) => {
+        const item = itemsById.get(itemId)
+        if (!item) {
+          throw new Error('Item not found')
+        }
+        if (!itemFitsSlot(slot, item)) {
+          throw new Error(`Item does not fit the ${getBuilderSlotConfig(slot).label} slot`)
+        }
+        const cheapest = item.marketplace_prices[0]
+        if (!cheapest) {
+          throw new Error(`No listings for the ${getBuilderSlotConfig(slot).label}`)
+        }
+
+        return {
+          item_id: item.id,
+          weapon_type: getSavedWeaponType(slot, item) ?? slot,
+          selected_platform: cheapest.platform,
+          price: cheapest.total_cost
+        }
+      })
+
+      // 3b. Check budget constraint at current prices
+      const actualCost = Math.round(skins.reduce((sum, skin) => sum + Number(skin.price), 0) * 100) / 100
+      if (actualCost > input.budget) {
+        throw new Error(`Exceeds budget by $${(actualCost - input.budget).toFixed(2)} at current prices`)
+      }
+
+      // 3c. Create the private loadout with its skins
+      const loadout = await tx.loadout.create({
+        data: {
+          user_id: session.user.id,
+          name,
+          budget: input.budget,
+          actual_cost: actualCost,
+          is_public: false,
+          weapon_skins: { create: skins }
+        },
+        include: { weapon_skins: { select: { id: true } } }
+      })
+
+      return { loadoutId: loadout.id, skinIds: loadout.weapon_skins.map(skin => skin.id), actualCost }
+    })
+
+    // 4. Suggest cheaper/upgrade swaps; a failure only delays them to the next price refresh
+    for (const id of result.skinIds) {
+      try {
+        await refreshSkinAlternatives(id)
+      } catch (error) {
+        console.error('Failed to compute alternatives:', error)
+      }
+    }
+
+    // 5. Publish (generates the public slug); the loadout stays saved as private on failure
+    if (input.isPublic) {
+      const published = await togglePublishAction(result.loadoutId, session.user.id)
+      if (!published.success) {
+        console.error('Failed to publish builder loadout:', published.error)
+      }
+    }
+
+    revalidatePath('/loadouts')
+
+    return { success: true, loadoutId: result.loadoutId, actualCost: result.actualCost }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to save loadout'
+    return { success: false, error: errorMessage }
+  }
+}
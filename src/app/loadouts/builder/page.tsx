@@ -1,137 +1,20 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { File as Rifle, Crosshair, Wrench, Hand, Search, Trash2, Plus, Check } from "lucide-react"
+import { File as Rifle, Crosshair, Wrench, Hand, User, Search, Trash2, Plus, Check } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { useDisplayCurrency } from "@/components/display-currency-provider"
+import type { SearchResponse, SearchResultItem } from "@/types/search"
+import { BUILDER_SLOTS, buildSlotSearchParams, itemFitsSlot, type BuilderSlot } from "@/lib/budget-loadout/builder-slots"
+import { saveBuilderLoadoutAction } from "./actions"
 
-// Mock data for items
-const MOCK_ITEMS = {
-  primary: [
-    {
-      id: "ak47-redline",
-      name: "AK-47 | Redline",
-      price: 42.5,
-      rarity: "classified",
-      marketplace: "Steam",
-      image: "/ak-47-redline-cs2-weapon-skin.jpg",
-    },
-    {
-      id: "m4a4-howl",
-      name: "M4A4 | Howl",
-      price: 2500.0,
-      rarity: "contraband",
-      marketplace: "Steam",
-      image: "/m4a4-howl-cs2-weapon-skin.jpg",
-    },
-    {
-      id: "awp-asiimov",
-      name: "AWP | Asiimov",
-      price: 89.0,
-      rarity: "covert",
-      marketplace: "Buff",
-      image: "/awp-asiimov-cs2-sniper-skin.jpg",
-    },
-    {
-      id: "ak47-case",
-      name: "AK-47 | Case Hardened",
-      price: 150.0,
-      rarity: "classified",
-      marketplace: "Steam",
-      image: "/ak-47-case-hardened-cs2.jpg",
-    },
-  ],
-  secondary: [
-    {
-      id: "deagle-blaze",
-      name: "Desert Eagle | Blaze",
-      price: 425.0,
-      rarity: "restricted",
-      marketplace: "Steam",
-      image: "/desert-eagle-blaze-cs2.jpg",
-    },
-    {
-      id: "usp-orion",
-      name: "USP-S | Orion",
-      price: 8.5,
-      rarity: "classified",
-      marketplace: "Buff",
-      image: "/usp-s-orion-cs2-pistol.jpg",
-    },
-    {
-      id: "glock-fade",
-      name: "Glock-18 | Fade",
-      price: 320.0,
-      rarity: "restricted",
-      marketplace: "Steam",
-      image: "/glock-18-fade-cs2.jpg",
-    },
-  ],
-  knife: [
-    {
-      id: "karambit-fade",
-      name: "Karambit | Fade",
-      price: 1200.0,
-      rarity: "covert",
-      marketplace: "Steam",
-      image: "/karambit-fade-cs2-knife.jpg",
-    },
-    {
-      id: "butterfly-tiger",
-      name: "Butterfly | Tiger Tooth",
-      price: 850.0,
-      rarity: "covert",
-      marketplace: "Buff",
-      image: "/butterfly-tiger-tooth-cs2.jpg",
-    },
-    {
-      id: "bayonet-doppler",
-      name: "Bayonet | Doppler",
-      price: 350.0,
-      rarity: "covert",
-      marketplace: "Steam",
-      image: "/bayonet-doppler-cs2.jpg",
-    },
-  ],
-  gloves: [
-    {
-      id: "gloves-crimson",
-      name: "Specialist Gloves | Crimson",
-      price: 450.0,
-      rarity: "covert",
-      marketplace: "Steam",
-      image: "/specialist-gloves-crimson-cs2.jpg",
-    },
-    {
-      id: "gloves-fade",
-      name: "Sport Gloves | Superconductor",
-      price: 180.0,
-      rarity: "covert",
-      marketplace: "Buff",
-      image: "/sport-gloves-superconductor-cs2.jpg",
-    },
-  ],
-}
-
-type SlotType = "primary" | "secondary" | "knife" | "gloves"
-
-interface Item {
-  id: string
-  name: string
-  price: number
-  rarity: string
-  marketplace: string
-  image: string
-}
+type LoadoutItems = Partial<Record<BuilderSlot, SearchResultItem>>
 
-interface LoadoutItem {
-  slot: SlotType
-  item: Item
-  marketplace: string
-  price: number
-}
+const SEARCH_DEBOUNCE_MS = 300
 
 const rarityColors: Record<string, string> = {
   consumer: "text-gray-400",
@@ -148,49 +31,111 @@ const slotIcons = {
   secondary: Crosshair,
   knife: Wrench,
   gloves: Hand,
-}
-
-const slotLabels = {
-  primary: "Primary Weapon",
-  secondary: "Secondary Weapon",
-  knife: "Knife",
-  gloves: "Gloves",
+  agents: User,
 }
 
 export default function LoadoutBuilder() {
+  const router = useRouter()
+  const { formatPrice } = useDisplayCurrency()
   const [budget, setBudget] = useState(100.0)
-  const [loadoutItems, setLoadoutItems] = useState<LoadoutItem[]>([])
-  const [selectedSlot, setSelectedSlot] = useState<SlotType | null>(null)
+  const [loadoutItems, setLoadoutItems] = useState<LoadoutItems>({})
+  const [activeSlot, setActiveSlot] = useState<BuilderSlot>("primary")
   const [searchQuery, setSearchQuery] = useState("")
+  const [results, setResults] = useState<SearchResultItem[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const [draggedItem, setDraggedItem] = useState<SearchResultItem | null>(null)
+  const [dropTarget, setDropTarget] = useState<BuilderSlot | null>(null)
   const [saveDialogOpen, setSaveDialogOpen] = useState(false)
   const [loadoutName, setLoadoutName] = useState("")
+  const [isPublic, setIsPublic] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [isSaving, startSaving] = useTransition()
 
-  const totalCost = loadoutItems.reduce((sum, item) => sum + item.price, 0)
+  const filledSlots = BUILDER_SLOTS.filter((config) => loadoutItems[config.slot])
+  const totalCost = filledSlots.reduce((sum, config) => sum + (loadoutItems[config.slot]?.lowestPrice ?? 0), 0)
   const remaining = budget - totalCost
-  const percentSpent = (totalCost / budget) * 100
+  const percentSpent = budget > 0 ? (totalCost / budget) * 100 : 0
+
+  // Most an item may cost in a slot: what's left plus what the slot's current item frees up
+  const slotPriceMax = (slot: BuilderSlot) => remaining + (loadoutItems[slot]?.lowestPrice ?? 0)
+  const activePriceMax = slotPriceMax(activeSlot)
+
+  // Live search for the active slot
+  useEffect(() => {
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      setIsSearching(true)
+      setSearchError(null)
+      try {
+        const params = buildSlotSearchParams(activeSlot, searchQuery, Math.max(activePriceMax, 0.01))
+        const response = await fetch(`/api/search?${params}`, { signal: controller.signal })
+        if (!response.ok) {
+          throw new Error(`Search failed (${response.status})`)
+        }
+        const data: SearchResponse = await response.json()
+        setResults(data.items.filter((item) => item.lowestPrice !== undefined))
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.error("Error searching items:", error)
+        setSearchError("Unable to load items. Please try again.")
+        setResults([])
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [activeSlot, searchQuery, activePriceMax])
+
+  const addItem = (slot: BuilderSlot, item: SearchResultItem) => {
+    if (!itemFitsSlot(slot, item)) return
+    setLoadoutItems((prev) => ({ ...prev, [slot]: item }))
+  }
 
-  const addItem = (slot: SlotType, item: Item) => {
+  const removeItem = (slot: BuilderSlot) => {
     setLoadoutItems((prev) => {
-      const filtered = prev.filter((li) => li.slot !== slot)
-      return [...filtered, { slot, item, marketplace: item.marketplace, price: item.price }]
+      const next = { ...prev }
+      delete next[slot]
+      return next
     })
-    setSelectedSlot(null)
-    setSearchQuery("")
   }
 
-  const removeItem = (slot: SlotType) => {
-    setLoadoutItems((prev) => prev.filter((li) => li.slot !== slot))
+  const selectSlot = (slot: BuilderSlot) => {
+    setActiveSlot(slot)
+    setSearchQuery("")
   }
 
-  const getSlotItem = (slot: SlotType) => {
-    return loadoutItems.find((li) => li.slot === slot)
+  // Drag a result onto a slot to fill it, or onto a filled slot to replace its item
+  const handleDrop = (slot: BuilderSlot) => {
+    if (draggedItem) addItem(slot, draggedItem)
+    setDraggedItem(null)
+    setDropTarget(null)
   }
 
-  const filteredItems = selectedSlot
-    ? MOCK_ITEMS[selectedSlot].filter(
-        (item) => item.name.toLowerCase().includes(searchQuery.toLowerCase()) && item.price <= remaining,
-      )
-    : []
+  const handleSave = () => {
+    setSaveError(null)
+
+    startSaving(async () => {
+      const result = await saveBuilderLoadoutAction({
+        name: loadoutName,
+        budget,
+        isPublic,
+        items: filledSlots.map((config) => ({ slot: config.slot, itemId: loadoutItems[config.slot]!.id })),
+      })
+
+      if (!result.success || !result.loadoutId) {
+        setSaveError(result.error || "Unable to save loadout. Please try again.")
+        return
+      }
+
+      setSaveDialogOpen(false)
+      router.push(`/loadouts/${result.loadoutId}`)
+    })
+  }
 
   const presets = [
     { name: "Budget Starter", amount: 50 },
@@ -198,6 +143,8 @@ export default function LoadoutBuilder() {
     { name: "Collector's Dream", amount: 5000 },
   ]
 
+  const activeLabel = BUILDER_SLOTS.find((config) => config.slot === activeSlot)?.label
+
   return (
     <div className="min-h-screen bg-cs2-darker text-cs2-light">
       {/* Sticky Header */}
@@ -224,12 +171,12 @@ export default function LoadoutBuilder() {
                 <div className="flex items-end justify-between mb-2 text-sm">
                   <div>
                     <span className="text-cs2-light/60">Spent: </span>
-                    <span className="text-cs2-orange font-semibold">${totalCost.toFixed(2)}</span>
+                    <span className="text-cs2-orange font-semibold">{formatPrice(totalCost)}</span>
                   </div>
                   <div>
                     <span className="text-cs2-light/60">Remaining: </span>
                     <span className={cn("font-semibold", remaining >= 0 ? "text-green-400" : "text-red-400")}>
-                      ${Math.abs(remaining).toFixed(2)}
+                      {formatPrice(Math.abs(remaining))}
                     </span>
                   </div>
                 </div>
@@ -244,6 +191,7 @@ export default function LoadoutBuilder() {
 
             <Button
               onClick={() => setSaveDialogOpen(true)}
+              disabled={filledSlots.length === 0 || remaining < 0}
               className="bg-cs2-orange hover:bg-cs2-orange/80 text-white font-semibold"
             >
               Save Loadout
@@ -271,22 +219,47 @@ export default function LoadoutBuilder() {
       <div className="container mx-auto px-4 py-8">
         <div className="mb-8">
           <h1 className="text-4xl font-bold text-cs2-light mb-2">Budget Loadout Builder</h1>
-          <p className="text-cs2-light/60">Create your perfect CS2 loadout within your budget</p>
+          <p className="text-cs2-light/60">
+            Create your perfect CS2 loadout within your budget. Drag an item onto a slot to add or replace it.
+          </p>
         </div>
 
-        {/* Weapon Slots Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          {(Object.keys(slotLabels) as SlotType[]).map((slot) => {
-            const slotItem = getSlotItem(slot)
+        {/* Slots Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-8">
+          {BUILDER_SLOTS.map(({ slot, label }) => {
+            const slotItem = loadoutItems[slot]
             const Icon = slotIcons[slot]
+            const accepts = draggedItem !== null && itemFitsSlot(slot, draggedItem)
 
             return (
-              <div key={slot}>
+              <div
+                key={slot}
+                onDragOver={(e) => {
+                  if (!accepts) return
+                  e.preventDefault()
+                  setDropTarget(slot)
+                }}
+                onDragLeave={() => setDropTarget((current) => (current === slot ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  handleDrop(slot)
+                }}
+                className={cn(
+                  "rounded-lg transition-all",
+                  accepts && "ring-2 ring-cs2-blue/50",
+                  dropTarget === slot && "ring-cs2-orange",
+                )}
+              >
                 {slotItem ? (
                   // Filled State
-                  <div className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-4 hover:border-cs2-blue/50 transition-colors group">
+                  <div
+                    className={cn(
+                      "bg-cs2-dark border rounded-lg p-4 hover:border-cs2-blue/50 transition-colors group",
+                      activeSlot === slot ? "border-cs2-blue" : "border-cs2-blue/20",
+                    )}
+                  >
                     <div className="flex items-center justify-between mb-3">
-                      <span className="text-sm text-cs2-light/60">{slotLabels[slot]}</span>
+                      <span className="text-sm text-cs2-light/60">{label}</span>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -299,24 +272,24 @@ export default function LoadoutBuilder() {
 
                     <div className="aspect-square bg-cs2-darker rounded-lg mb-3 overflow-hidden flex items-center justify-center">
                       <img
-                        src={slotItem.item.image || "/placeholder.svg"}
-                        alt={slotItem.item.name}
+                        src={slotItem.image_url || "/placeholder.svg"}
+                        alt={slotItem.display_name}
                         className="w-full h-full object-cover"
                       />
                     </div>
 
                     <div className="space-y-2">
-                      <h3 className={cn("font-semibold text-sm", rarityColors[slotItem.item.rarity])}>
-                        {slotItem.item.name}
+                      <h3 className={cn("font-semibold text-sm", rarityColors[slotItem.rarity ?? ""])}>
+                        {slotItem.display_name}
                       </h3>
                       <div className="flex items-center justify-between">
-                        <span className="text-xs text-cs2-light/50">{slotItem.marketplace}</span>
-                        <span className="text-cs2-orange font-bold">${slotItem.price.toFixed(2)}</span>
+                        <span className="text-xs text-cs2-light/50">{slotItem.lowestPricePlatform}</span>
+                        <span className="text-cs2-orange font-bold">{formatPrice(slotItem.lowestPrice ?? 0)}</span>
                       </div>
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => setSelectedSlot(slot)}
+                        onClick={() => selectSlot(slot)}
                         className="w-full border-cs2-blue/30 hover:border-cs2-blue hover:bg-cs2-blue/10"
                       >
                         Change
@@ -326,12 +299,15 @@ export default function LoadoutBuilder() {
                 ) : (
                   // Empty State
                   <button
-                    onClick={() => setSelectedSlot(slot)}
-                    className="bg-cs2-dark border-2 border-dashed border-cs2-blue/40 rounded-lg p-8 hover:border-cs2-blue/70 hover:bg-cs2-dark/80 transition-all group h-full min-h-[320px] flex flex-col items-center justify-center"
+                    onClick={() => selectSlot(slot)}
+                    className={cn(
+                      "w-full bg-cs2-dark border-2 border-dashed rounded-lg p-8 hover:border-cs2-blue/70 hover:bg-cs2-dark/80 transition-all group h-full min-h-[320px] flex flex-col items-center justify-center",
+                      activeSlot === slot ? "border-cs2-blue/70" : "border-cs2-blue/40",
+                    )}
                   >
                     <Icon className="h-12 w-12 text-cs2-blue/40 mb-4 group-hover:text-cs2-blue/70 transition-colors" />
                     <span className="text-cs2-light/60 group-hover:text-cs2-light transition-colors">
-                      + Add {slotLabels[slot]}
+                      + Add {label}
                     </span>
                   </button>
                 )}
@@ -341,32 +317,48 @@ export default function LoadoutBuilder() {
         </div>
 
         {/* Summary */}
-        <div className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-6">
+        <div className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-6 mb-8">
           <div className="flex items-center justify-between flex-wrap gap-4">
             <div>
               <h3 className="text-2xl font-bold text-cs2-light mb-1">
-                Total Cost: <span className="text-cs2-orange">${totalCost.toFixed(2)}</span>
+                Total Cost: <span className="text-cs2-orange">{formatPrice(totalCost)}</span>
               </h3>
-              <p className="text-cs2-light/60">Slots Filled: {loadoutItems.length} of 4</p>
+              <p className="text-cs2-light/60">
+                Slots Filled: {filledSlots.length} of {BUILDER_SLOTS.length}
+              </p>
             </div>
             {remaining < 0 && (
               <div className="bg-red-500/10 border border-red-500/30 rounded-lg px-4 py-2">
-                <span className="text-red-400 font-semibold">Over Budget: ${Math.abs(remaining).toFixed(2)}</span>
+                <span className="text-red-400 font-semibold">Over Budget: {formatPrice(Math.abs(remaining))}</span>
               </div>
             )}
           </div>
         </div>
-      </div>
 
-      {/* Item Picker Modal */}
-      <Dialog open={selectedSlot !== null} onOpenChange={() => setSelectedSlot(null)}>
-        <DialogContent className="bg-cs2-dark border-cs2-blue/30 text-cs2-light max-w-4xl max-h-[80vh] overflow-hidden flex flex-col">
-          <DialogHeader>
-            <DialogTitle className="text-2xl">Select {selectedSlot && slotLabels[selectedSlot]}</DialogTitle>
-          </DialogHeader>
+        {/* Item Browser */}
+        <div className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-6">
+          <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+            <h2 className="text-2xl font-bold text-cs2-light">Select {activeLabel}</h2>
+            <div className="flex gap-2 flex-wrap">
+              {BUILDER_SLOTS.map(({ slot, label }) => (
+                <Button
+                  key={slot}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectSlot(slot)}
+                  className={cn(
+                    "border-cs2-blue/30 hover:border-cs2-blue/50 hover:bg-cs2-blue/10 text-xs",
+                    activeSlot === slot ? "bg-cs2-blue/20 text-cs2-light" : "text-cs2-light/80",
+                  )}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
 
           {/* Search */}
-          <div className="relative">
+          <div className="relative mb-4">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-cs2-light/40" />
             <Input
               placeholder="Search items..."
@@ -376,57 +368,76 @@ export default function LoadoutBuilder() {
             />
           </div>
 
-          {/* Items Grid */}
-          <div className="overflow-y-auto flex-1 -mx-6 px-6">
-            {remaining < 0 && (
-              <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4">
-                <p className="text-red-400 text-sm">You're over budget. Remove some items to add more.</p>
-              </div>
-            )}
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              {filteredItems.map((item) => {
-                const canAfford = item.price <= remaining
-                return (
-                  <div
-                    key={item.id}
-                    className={cn(
-                      "bg-cs2-darker border border-cs2-blue/20 rounded-lg p-3 transition-all",
-                      canAfford ? "hover:border-cs2-blue/50" : "opacity-40",
-                    )}
-                  >
-                    <div className="aspect-square bg-cs2-dark rounded-lg mb-2 overflow-hidden flex items-center justify-center">
-                      <img
-                        src={item.image || "/placeholder.svg"}
-                        alt={item.name}
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
+          {remaining < 0 && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-4">
+              <p className="text-red-400 text-sm">You&apos;re over budget. Remove some items to add more.</p>
+            </div>
+          )}
+          {searchError && (
+            <p className="text-red-400 text-sm mb-4" role="alert">
+              {searchError}
+            </p>
+          )}
+          {!isSearching && !searchError && results.length === 0 && (
+            <p className="text-cs2-light/60 text-sm">No listed items fit your remaining budget.</p>
+          )}
 
-                    <h4 className={cn("text-sm font-semibold mb-1 truncate", rarityColors[item.rarity])}>
-                      {item.name}
-                    </h4>
+          {/* Items Grid */}
+          <div className={cn("grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4", isSearching && "opacity-60")}>
+            {results.map((item) => {
+              const price = item.lowestPrice ?? 0
+              const canAfford = price <= activePriceMax
+              return (
+                <div
+                  key={item.id}
+                  draggable={canAfford}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "copy"
+                    e.dataTransfer.setData("text/plain", item.id)
+                    setDraggedItem(item)
+                  }}
+                  onDragEnd={() => {
+                    setDraggedItem(null)
+                    setDropTarget(null)
+                  }}
+                  className={cn(
+                    "bg-cs2-darker border border-cs2-blue/20 rounded-lg p-3 transition-all",
+                    canAfford ? "hover:border-cs2-blue/50 cursor-grab" : "opacity-40",
+                  )}
+                >
+                  <div className="aspect-square bg-cs2-dark rounded-lg mb-2 overflow-hidden flex items-center justify-center">
+                    <img
+                      src={item.image_url || "/placeholder.svg"}
+                      alt={item.display_name}
+                      className="w-full h-full object-cover"
+                      draggable={false}
+                    />
+                  </div>
 
-                    <div className="flex items-center justify-between mb-2">
-                      <span className="text-xs text-cs2-light/50">{item.marketplace}</span>
-                      <span className="text-cs2-orange font-bold text-sm">${item.price.toFixed(2)}</span>
-                    </div>
+                  <h4 className={cn("text-sm font-semibold mb-1 truncate", rarityColors[item.rarity ?? ""])}>
+                    {item.display_name}
+                  </h4>
 
-                    <Button
-                      onClick={() => addItem(selectedSlot!, item)}
-                      disabled={!canAfford}
-                      className="w-full bg-cs2-blue hover:bg-cs2-blue/80 disabled:opacity-50 disabled:cursor-not-allowed text-white"
-                      size="sm"
-                    >
-                      <Plus className="h-4 w-4 mr-1" />
-                      Add
-                    </Button>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs text-cs2-light/50">{item.lowestPricePlatform}</span>
+                    <span className="text-cs2-orange font-bold text-sm">{formatPrice(price)}</span>
                   </div>
-                )
-              })}
-            </div>
+
+                  <Button
+                    onClick={() => addItem(activeSlot, item)}
+                    disabled={!canAfford}
+                    className="w-full bg-cs2-blue hover:bg-cs2-blue/80 disabled:opacity-50 disabled:cursor-not-allowed text-white"
+                    size="sm"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    {loadoutItems[activeSlot] ? "Replace" : "Add"}
+                  </Button>
+                </div>
+              )
+            })}
           </div>
-        </DialogContent>
-      </Dialog>
+        </div>
+      </div>
 
       {/* Save Loadout Modal */}
       <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
@@ -447,7 +458,13 @@ export default function LoadoutBuilder() {
             </div>
 
             <div className="flex items-center gap-2">
-              <input type="checkbox" id="public" className="rounded" />
+              <input
+                type="checkbox"
+                id="public"
+                className="rounded"
+                checked={isPublic}
+                onChange={(e) => setIsPublic(e.target.checked)}
+              />
               <label htmlFor="public" className="text-sm text-cs2-light/80">
                 Make public (share in gallery)
               </label>
@@ -456,24 +473,27 @@ export default function LoadoutBuilder() {
             <div className="bg-cs2-darker border border-cs2-blue/20 rounded-lg p-4">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm text-cs2-light/60">Total Cost</span>
-                <span className="text-cs2-orange font-bold">${totalCost.toFixed(2)}</span>
+                <span className="text-cs2-orange font-bold">{formatPrice(totalCost)}</span>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-cs2-light/60">Items</span>
-                <span className="text-cs2-light">{loadoutItems.length} selected</span>
+                <span className="text-cs2-light">{filledSlots.length} selected</span>
               </div>
             </div>
 
+            {saveError && (
+              <p className="text-red-400 text-sm" role="alert">
+                {saveError}
+              </p>
+            )}
+
             <Button
               className="w-full bg-cs2-orange hover:bg-cs2-orange/80 text-white font-semibold"
-              onClick={() => {
-                // Save logic would go here
-                setSaveDialogOpen(false)
-                setLoadoutName("")
-              }}
+              onClick={handleSave}
+              disabled={isSaving || loadoutName.trim().length < 3}
             >
               <Check className="h-4 w-4 mr-2" />
-              Save Loadout
+              {isSaving ? "Saving..." : "Save Loadout"}
             </Button>
           </div>
         </DialogContent>
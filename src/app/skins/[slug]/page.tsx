@@ -19,6 +19,7 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { ChevronLeft, ExternalLink } from 'lucide-react';
 import { Breadcrumb } from '@/components/breadcrumb';
+import PriceHistoryChart from '@/components/PriceHistoryChart';
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic';
@@ -179,6 +180,11 @@ export default async function SkinDetailPage({
     max: Math.max(...statTrakPrices),
   } : null;
 
+  // Chart the cheapest priced variant (most traded, best trend signal)
+  const chartVariant = [...skin.variants]
+    .filter(v => v.priceRange)
+    .sort((a, b) => a.priceRange!.min - b.priceRange!.min)[0];
+
   return (
     <main className="min-h-screen bg-cs2-darker text-cs2-light">
       <div className="container mx-auto px-4 py-8">
@@ -301,6 +307,13 @@ export default async function SkinDetailPage({
           </div>
         </div>
 
+        {/* Price History Section */}
+        {chartVariant && (
+          <section className="mb-8">
+            <PriceHistoryChart itemId={chartVariant.id} />
+          </section>
+        )}
+
         {/* Variants Section */}
         <section>
           <h2 className="text-2xl font-semibold mb-4">
@@ -0,0 +1,158 @@
+/**
+ * Sticker Detail Page (/stickers/[id])
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Display applied stickers on item
+ *
+ * Implementation:
+ * - React Server Component (async, server-side data fetching)
+ * - Fetches from GET /api/stickers/[id]
+ * - Lists public inventories and public loadouts that apply the sticker
+ */
+
+import Link from "next/link"
+import Image from "next/image"
+import { ChevronLeft } from "lucide-react"
+import { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import type { StickerUsage } from '@/lib/stickers/sticker-service'
+
+interface StickerDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Fetch sticker usage from API
+ * Server-side fetch with error handling
+ */
+async function fetchStickerUsage(id: string): Promise<StickerUsage | null> {
+  try {
+    const baseUrl = process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const response = await fetch(`${baseUrl}/api/stickers/${id}`, {
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      if (response.status !== 404) {
+        console.error('[Sticker Detail] API error:', response.status);
+      }
+      return null;
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('[Sticker Detail] Fetch failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Generate metadata for SEO
+ */
+export async function generateMetadata({ params }: StickerDetailPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const usage = await fetchStickerUsage(id);
+
+  if (!usage) {
+    return {
+      title: 'Sticker Not Found | csloadout.gg',
+    };
+  }
+
+  return {
+    title: `${usage.sticker.display_name} | csloadout.gg`,
+    description: `See which inventories and loadouts use ${usage.sticker.display_name}`,
+  };
+}
+
+export default async function StickerDetailPage({ params }: StickerDetailPageProps) {
+  const { id } = await params;
+  const usage = await fetchStickerUsage(id);
+
+  if (!usage) {
+    notFound();
+  }
+
+  const { sticker, inventories, loadouts } = usage;
+
+  return (
+    <div className="min-h-screen bg-cs2-darker text-cs2-light">
+      <div className="container mx-auto px-4 py-8">
+        <Link
+          href={`/items/${sticker.id}`}
+          className="inline-flex items-center gap-2 text-cs2-blue hover:text-cs2-blue/80 mb-6 transition-colors"
+        >
+          <ChevronLeft className="h-5 w-5" />
+          Back to Item
+        </Link>
+
+        <div className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-8 flex items-center gap-8 mb-8">
+          <div className="w-32 h-32 relative shrink-0 bg-cs2-darker/50 rounded-lg">
+            <Image
+              src={sticker.image_url || "/placeholder.svg"}
+              alt={sticker.display_name}
+              fill
+              sizes="128px"
+              className="object-contain p-2"
+            />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold mb-2">{sticker.name}</h1>
+            {sticker.rarity && (
+              <span className="text-sm uppercase text-cs2-light/70">{sticker.rarity}</span>
+            )}
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-8">
+          {/* Inventories */}
+          <section className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4">In Inventories ({inventories.length})</h2>
+            {inventories.length === 0 ? (
+              <p className="text-cs2-light/70">No public inventory has this sticker applied yet.</p>
+            ) : (
+              <ul className="divide-y divide-cs2-blue/10">
+                {inventories.map((entry) => (
+                  <li key={entry.inventoryItemId} className="py-3 flex justify-between gap-4 text-sm">
+                    <span>
+                      <span className="font-medium">{entry.marketHashName}</span>
+                      <span className="block text-cs2-light/60">{entry.owner.personaName}</span>
+                    </span>
+                    <span className="text-right text-cs2-light/70">
+                      {entry.position !== null && <span className="block">Slot {entry.position}</span>}
+                      {entry.wear !== null && <span className="block">Wear {(entry.wear * 100).toFixed(0)}%</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Loadouts */}
+          <section className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-6">
+            <h2 className="text-xl font-semibold mb-4">In Loadouts ({loadouts.length})</h2>
+            {loadouts.length === 0 ? (
+              <p className="text-cs2-light/70">No public loadout uses this sticker yet.</p>
+            ) : (
+              <ul className="divide-y divide-cs2-blue/10">
+                {loadouts.map((entry) => (
+                  <li key={`${entry.loadoutId}:${entry.weaponType}`} className="py-3 flex justify-between gap-4 text-sm">
+                    <span>
+                      <Link href={`/loadouts/${entry.loadoutId}`} className="font-medium text-cs2-blue hover:underline">
+                        {entry.name}
+                      </Link>
+                      <span className="block text-cs2-light/60">{entry.skinName}</span>
+                    </span>
+                    {entry.position !== null && (
+                      <span className="text-cs2-light/70">Slot {entry.position}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+/**
+ * Trade-Up Calculator Page - /trade-up
+ *
+ * Implementation:
+ *   - Server Component shell with SEO metadata
+ *   - TradeUpCalculator client component drives POST /api/trade-up
+ *     and POST /api/trade-up/suggest
+ */
+
+import { Metadata } from 'next';
+import { TradeUpCalculator } from '@/components/trade-up-calculator';
+
+export const metadata: Metadata = {
+  title: 'CS2 Trade-Up Calculator | csloadout.gg',
+  description:
+    'Calculate CS2 trade-up contract outcomes, output floats, expected value and profit after fees from live marketplace prices.',
+};
+
+export default function TradeUpPage() {
+  return (
+    <main className="min-h-screen bg-gray-950 text-white">
+      <div className="container mx-auto px-4 py-8">
+        <header className="mb-8">
+          <h1 className="text-4xl font-bold mb-2">Trade-Up Calculator</h1>
+          <p className="text-gray-400 text-lg">
+            Pick 10 skins of the same rarity to see every possible output, its float and
+            whether the contract pays off after fees.
+          </p>
+        </header>
+
+        <TradeUpCalculator />
+      </div>
+    </main>
+  );
+}
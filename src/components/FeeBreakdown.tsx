@@ -12,6 +12,7 @@
  * - Warning icon for high fees
  * - Decimal precision (2 decimal places)
  * - Edge case handling (fees under $0.01)
+ * - Amounts rendered in the visitor's display currency
  *
  * Critical Gotchas Addressed:
  * - Currency formatting to 2 decimal places
@@ -23,6 +24,7 @@
 
 import React, { useState } from 'react';
 import type { FeeBreakdown as FeeBreakdownType } from '@/types/fees';
+import { useDisplayCurrency } from '@/components/display-currency-provider';
 
 interface FeeBreakdownProps {
   breakdown: FeeBreakdownType;
@@ -31,10 +33,8 @@ interface FeeBreakdownProps {
 export default function FeeBreakdown({ breakdown }: FeeBreakdownProps) {
   const [showTooltip, setShowTooltip] = useState(false);
 
-  // Helper function to format currency
-  const formatCurrency = (amount: number): string => {
-    return `$${amount.toFixed(2)}`;
-  };
+  // Breakdown amounts are USD; format in the display currency
+  const { formatPrice: formatCurrency } = useDisplayCurrency();
 
   // Determine badge color and label based on fee percentage
   const getFeePercent = (): number => {
@@ -9,7 +9,8 @@
  * Tests: __tests__/InventoryValueDisplay.test.tsx (17 test scenarios)
  *
  * Component Responsibilities:
- * - Display total inventory value in USD with thousands separators
+ * - Display total inventory value in the display currency with thousands separators
+ * - Break down base skin value vs applied-sticker premium (by sticker rarity)
  * - Show item count
  * - Display last sync timestamp in user's timezone
  * - Show sync status (success, private, rate_limited, error)
@@ -22,12 +23,16 @@
 'use client'
 
 import React, { useMemo } from 'react'
+import { useDisplayCurrency } from '@/components/display-currency-provider'
+import type { StickerValuationSummary } from '@/lib/stickers/sticker-valuation'
 
 export type SyncStatus = 'success' | 'private' | 'rate_limited' | 'error'
 
 export interface InventoryValueDisplayProps {
-  /** Total inventory value in USD */
+  /** Total inventory value in USD (base skin prices) */
   totalValue?: number
+  /** Applied-sticker premium breakdown from GET /api/inventory; added to the total */
+  stickerValuation?: StickerValuationSummary
   /** Number of items in inventory */
   itemCount?: number
   /** Last sync timestamp */
@@ -42,6 +47,7 @@ export interface InventoryValueDisplayProps {
 
 export default function InventoryValueDisplay({
   totalValue,
+  stickerValuation,
   itemCount,
   lastSynced,
   syncStatus = 'success',
@@ -61,14 +67,10 @@ export default function InventoryValueDisplay({
     return { isRefreshDisabled: disabled, minutesRemaining: remaining }
   }, [lastSynced])
 
-  // Format total value with thousands separators
-  const formattedValue = useMemo(() => {
-    if (totalValue === undefined) return '$0.00'
-    return `$${totalValue.toLocaleString('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    })}`
-  }, [totalValue])
+  // Format total value with thousands separators in the display currency
+  const { formatPrice } = useDisplayCurrency()
+  const stickerPremium = stickerValuation?.stickerPremium ?? 0
+  const formattedValue = formatPrice((totalValue ?? 0) + stickerPremium, { grouping: true })
 
   // Format last synced time in user's timezone
   const formattedLastSynced = useMemo(() => {
@@ -126,6 +128,35 @@ export default function InventoryValueDisplay({
         <div className="text-sm text-cs2-light/60 mt-1">{itemCount} items</div>
       </div>
 
+      {/* Sticker Premium Breakdown */}
+      {stickerValuation && stickerValuation.stickerCount > 0 && (
+        <div className="mb-4 pb-4 border-b border-cs2-blue/10 text-sm" data-testid="sticker-premium-breakdown">
+          <div className="flex justify-between text-cs2-light/70">
+            <span>Base skin value</span>
+            <span>{formatPrice(totalValue ?? 0, { grouping: true })}</span>
+          </div>
+          <div className="flex justify-between text-cs2-light/70">
+            <span>
+              Sticker premium ({stickerValuation.stickerCount} stickers
+              {stickerValuation.pricedStickerCount < stickerValuation.stickerCount &&
+                `, ${stickerValuation.pricedStickerCount} priced`}
+              )
+            </span>
+            <span className="text-green-500">+{formatPrice(stickerPremium, { grouping: true })}</span>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs text-cs2-light/50">
+            {stickerValuation.byRarity.map((tier) => (
+              <li key={tier.rarity} className="flex justify-between">
+                <span>
+                  {tier.label} × {tier.count}
+                </span>
+                <span>+{formatPrice(tier.premium)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Sync Status */}
       <div className="flex items-center justify-between mb-4 pb-4 border-b border-cs2-blue/10">
         <div className="flex items-center gap-2">
@@ -14,6 +14,7 @@
  *   - "Buy on {Platform}" links open in new tab
  *   - Show savings message
  *   - Display data freshness indicator
+ *   - Render amounts in the visitor's display currency
  */
 
 'use client';
@@ -23,6 +24,7 @@ import type { AggregatedPrices } from '../types/price';
 import { PLATFORM_NAMES } from '../types/price';
 import FeeBreakdown from './FeeBreakdown';
 import { transformPriceDataToFeeBreakdown } from '../lib/price-to-fee-breakdown';
+import { useDisplayCurrency } from './display-currency-provider';
 
 export interface PriceComparisonTableProps {
   prices: AggregatedPrices;
@@ -53,6 +55,7 @@ function formatRelativeTime(date: Date): string {
 
 export default function PriceComparisonTable({ prices }: PriceComparisonTableProps) {
   const { allPrices, lowestPrice, savings, updatedAt, itemName } = prices;
+  const { formatPrice } = useDisplayCurrency();
 
   // Empty state
   if (!allPrices || allPrices.length === 0) {
@@ -127,7 +130,7 @@ export default function PriceComparisonTable({ prices }: PriceComparisonTablePro
 
                   {/* Base Price */}
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    ${priceData.price.toFixed(2)}
+                    {formatPrice(priceData.price)}
                   </td>
 
                   {/* Fees - FeeBreakdown Component */}
@@ -137,7 +140,7 @@ export default function PriceComparisonTable({ prices }: PriceComparisonTablePro
 
                   {/* Total Cost */}
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900">
-                    ${priceData.totalCost.toFixed(2)}
+                    {formatPrice(priceData.totalCost)}
                   </td>
 
                   {/* Action */}
@@ -167,7 +170,7 @@ export default function PriceComparisonTable({ prices }: PriceComparisonTablePro
       {/* Savings Message */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <p className="text-sm text-blue-900">
-          <span className="font-semibold">Save ${savings.toFixed(2)}</span>
+          <span className="font-semibold">Save {formatPrice(savings)}</span>
           {' '}by buying on {PLATFORM_NAMES[lowestPrice.platform]}
         </p>
       </div>
@@ -0,0 +1,160 @@
+/**
+ * PriceHistoryChart Component
+ *
+ * Line chart of daily closing prices with a 30/90/365 day range toggle.
+ * BDD Reference: features/04-price-aggregation.feature
+ *   - Scenario: "View 30-day price history chart"
+ *
+ * Requirements:
+ *   - Fetch points from GET /api/items/:id/prices/history
+ *   - Show change over the selected window
+ *   - Empty state when no history has been recorded yet
+ *   - Prices in the visitor's display currency
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useDisplayCurrency } from '@/components/display-currency-provider';
+import type { Platform, PriceHistory, PriceHistoryRange } from '../types/price';
+import { PLATFORM_NAMES, PRICE_HISTORY_RANGES } from '../types/price';
+
+export interface PriceHistoryChartProps {
+  itemId: string;
+  platform?: Platform;
+  initialDays?: PriceHistoryRange;
+}
+
+const chartConfig = {
+  close: {
+    label: 'Price',
+    color: 'var(--cs2-blue)',
+  },
+} satisfies ChartConfig;
+
+export default function PriceHistoryChart({
+  itemId,
+  platform = 'steam',
+  initialDays = 30,
+}: PriceHistoryChartProps) {
+  const { formatPrice } = useDisplayCurrency();
+  const [days, setDays] = useState<PriceHistoryRange>(initialDays);
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/items/${itemId}/prices/history?platform=${platform}&days=${days}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Failed to load price history: ${res.status}`);
+        return (await res.json()) as PriceHistory;
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setHistory(data);
+          setError(null);
+        }
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemId, platform, days]);
+
+  const points = history?.dataPoints ?? [];
+  const first = points[0]?.close;
+  const last = points[points.length - 1]?.close;
+  const changePercent =
+    first !== undefined && last !== undefined && first > 0
+      ? ((last - first) / first) * 100
+      : null;
+
+  return (
+    <div className="bg-cs2-dark border border-cs2-blue/20 rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold">Price History</h2>
+          <p className="text-sm text-cs2-light/60">{PLATFORM_NAMES[platform]}</p>
+        </div>
+
+        <div className="flex items-center gap-4">
+          {changePercent !== null && (
+            <span
+              className={`text-sm font-semibold ${changePercent >= 0 ? 'text-green-500' : 'text-red-500'}`}
+              data-testid="price-history-change"
+            >
+              {changePercent >= 0 ? '+' : ''}
+              {changePercent.toFixed(1)}%
+            </span>
+          )}
+
+          <div className="flex gap-1" role="group" aria-label="History range">
+            {PRICE_HISTORY_RANGES.map((range) => (
+              <button
+                key={range}
+                type="button"
+                onClick={() => setDays(range)}
+                aria-pressed={days === range}
+                className={`px-3 py-1 rounded text-sm transition-colors ${
+                  days === range
+                    ? 'bg-cs2-blue text-white'
+                    : 'bg-cs2-darker/50 text-cs2-light/70 hover:text-cs2-light'
+                }`}
+              >
+                {range}D
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : points.length === 0 ? (
+        <p className="text-sm text-cs2-light/50">
+          {history ? 'No price history recorded yet' : 'Loading price history...'}
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-64 w-full">
+          <LineChart data={points} margin={{ left: 8, right: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} />
+            <YAxis
+              tickLine={false}
+              axisLine={false}
+              width={56}
+              tickFormatter={(value: number) => formatPrice(value)}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  formatter={(value) => (
+                    <div className="flex flex-1 items-center justify-between leading-none">
+                      <span className="text-muted-foreground">{chartConfig.close.label}</span>
+                      <span className="text-foreground font-mono font-medium tabular-nums">
+                        {formatPrice(Number(value))}
+                      </span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <Line
+              type="monotone"
+              dataKey="close"
+              stroke="var(--color-close)"
+              strokeWidth={2}
+              dot={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import React, { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useDisplayCurrency } from "@/components/display-currency-provider"
+import { CURRENCY_SYMBOLS, DISPLAY_CURRENCIES } from "@/lib/currency/display-currency"
+
+/**
+ * Header dropdown for the display currency
+ * Saves the choice, then refreshes so Server Components re-render prices
+ */
+export function CurrencySelector() {
+  const router = useRouter()
+  const { currency } = useDisplayCurrency()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch("/api/user/display-currency", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currency: event.target.value }),
+      })
+      if (response.ok) {
+        router.refresh()
+      }
+    } catch (error) {
+      console.error("Failed to change display currency:", error)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <select
+      value={currency}
+      onChange={handleChange}
+      disabled={isSaving}
+      aria-label="Display currency"
+      className="bg-transparent text-sm text-cs2-light border border-cs2-blue/30 rounded-lg px-2 py-1.5 hover:bg-cs2-blue/10 focus:outline-none focus:ring-1 focus:ring-cs2-blue disabled:opacity-50"
+    >
+      {DISPLAY_CURRENCIES.map((code) => (
+        <option key={code} value={code} className="bg-cs2-dark">
+          {CURRENCY_SYMBOLS[code]} {code}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import React, { createContext, useContext } from "react"
+import {
+  USD_DISPLAY,
+  formatPrice,
+  type DisplayCurrency,
+  type FormatPriceOptions,
+} from "@/lib/currency/display-currency"
+
+const DisplayCurrencyContext = createContext<DisplayCurrency>(USD_DISPLAY)
+
+interface DisplayCurrencyProviderProps {
+  value: DisplayCurrency
+  children: React.ReactNode
+}
+
+/**
+ * Makes the visitor's display currency (resolved server-side in the root
+ * layout) available to client components
+ */
+export function DisplayCurrencyProvider({ value, children }: DisplayCurrencyProviderProps) {
+  return <DisplayCurrencyContext.Provider value={value}>{children}</DisplayCurrencyContext.Provider>
+}
+
+/**
+ * Display currency plus a formatter bound to it
+ * Outside a provider (e.g. component tests) prices render in USD
+ */
+export function useDisplayCurrency() {
+  const display = useContext(DisplayCurrencyContext)
+
+  return {
+    ...display,
+    formatPrice: (amountUSD: number, options?: FormatPriceOptions) =>
+      formatPrice(amountUSD, display, options),
+  }
+}
@@ -6,6 +6,7 @@ import { usePathname } from "next/navigation"
 import { Menu, Search, User, ShoppingBag } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { UserMenu } from "@/components/user-menu"
+import { CurrencySelector } from "@/components/currency-selector"
 import { cn } from "@/lib/utils"
 import type { Session } from "@/lib/auth/session"
 
@@ -69,6 +70,9 @@ export function HeaderNav({ session }: HeaderNavProps) {
               <Search className="h-5 w-5" />
             </Button>
 
+            {/* Display currency */}
+            <CurrencySelector />
+
             {/* User/Auth */}
             {session ? (
               <UserMenu
@@ -62,6 +62,24 @@ export function InventoryItemCard({ item }: InventoryItemCardProps) {
         <div className="space-y-0.5">
           <h3 className={cn("text-sm font-medium line-clamp-2", rarityColors[item.item.rarity] || rarityColors.default)}>{name}</h3>
           {wear && <p className="text-xs text-gray-400">{wear}</p>}
+          {item.float && (
+            <p className="text-xs text-gray-400">
+              <span className="font-mono">{item.float.value.toFixed(6)}</span>
+              <span className="ml-1">(top {item.float.percentile.toFixed(1)}%)</span>
+              {item.float.tags.includes("best_in_bracket") && (
+                <span className="ml-1 text-cs2-orange">Best float</span>
+              )}
+              {!item.float.tags.includes("best_in_bracket") && item.float.tags.includes("low_float") && (
+                <span className="ml-1 text-cs2-orange">Low float</span>
+              )}
+            </p>
+          )}
+          {item.pattern && (
+            <p className="text-xs text-gray-400">
+              <span>Pattern #{item.pattern.seed}</span>
+              {item.pattern.tier && <span className="ml-1 text-cs2-orange">{item.pattern.tier}</span>}
+            </p>
+          )}
         </div>
         <div className="space-y-1">
           <p className="text-cs2-light text-lg font-bold">${item.marketValue.toFixed(2)}</p>
@@ -0,0 +1,369 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useDisplayCurrency } from "@/components/display-currency-provider"
+
+/**
+ * Trade-up contract calculator
+ * Pick 10 input skins with floats, then POST /api/trade-up for every possible
+ * output; each output can ask /api/trade-up/suggest for the cheapest inputs
+ * that land it in a target wear
+ */
+
+const INPUT_COUNT = 10
+
+const WEARS: Array<{ value: string; label: string }> = [
+  { value: "factory_new", label: "Factory New" },
+  { value: "minimal_wear", label: "Minimal Wear" },
+  { value: "field_tested", label: "Field-Tested" },
+  { value: "well_worn", label: "Well-Worn" },
+  { value: "battle_scarred", label: "Battle-Scarred" },
+]
+
+const WEAR_LABELS = Object.fromEntries(WEARS.map((wear) => [wear.value, wear.label]))
+
+interface SearchItem {
+  id: string
+  display_name: string
+  rarity: string | null
+  quality: string
+  wear: string
+}
+
+interface SelectedInput {
+  key: number
+  item: SearchItem
+  float: string
+}
+
+interface TradeUpOutcome {
+  baseName: string
+  itemId: string | null
+  probability: number
+  floatValue: number
+  wear: string
+  price: number | null
+  netValue: number
+}
+
+interface TradeUpResponse {
+  inputCost: number
+  grossExpectedValue: number
+  expectedValue: number
+  expectedProfit: number
+  roi: number
+  profitProbability: number
+  priceCoverage: number
+  outcomes: TradeUpOutcome[]
+}
+
+interface TradeUpSuggestion {
+  target: string
+  targetWear: string
+  targetProbability: number
+  input: { name: string; wear: string; price: number }
+  quantity: number
+  maxInputFloat: number
+  totalCost: number
+}
+
+export function TradeUpCalculator() {
+  const { formatPrice } = useDisplayCurrency()
+  const [query, setQuery] = useState("")
+  const [searchResults, setSearchResults] = useState<SearchItem[]>([])
+  const [inputs, setInputs] = useState<SelectedInput[]>([])
+  const [nextKey, setNextKey] = useState(0)
+  const [result, setResult] = useState<TradeUpResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isCalculating, setIsCalculating] = useState(false)
+  const [suggestWear, setSuggestWear] = useState<Record<string, string>>({})
+  const [suggestion, setSuggestion] = useState<{ outcome: string; data: TradeUpSuggestion | null } | null>(null)
+
+  // Debounced skin search
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < 2) {
+      setSearchResults([])
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: trimmed, type: "skin", pageSize: "10" })
+        const response = await fetch(`/api/items?${params}`)
+        if (response.ok) {
+          const data = await response.json()
+          setSearchResults(data.items)
+        }
+      } catch (searchError) {
+        console.error("Trade-up item search failed:", searchError)
+      }
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [query])
+
+  const addInput = (item: SearchItem, copies = 1) => {
+    const count = Math.min(copies, INPUT_COUNT - inputs.length)
+    if (count <= 0) return
+
+    setInputs([
+      ...inputs,
+      ...Array.from({ length: count }, (_, i) => ({ key: nextKey + i, item, float: "" })),
+    ])
+    setNextKey(nextKey + count)
+    setResult(null)
+  }
+
+  const updateFloat = (key: number, float: string) => {
+    setInputs(inputs.map((input) => (input.key === key ? { ...input, float } : input)))
+  }
+
+  const removeInput = (key: number) => {
+    setInputs(inputs.filter((input) => input.key !== key))
+    setResult(null)
+  }
+
+  const calculate = async () => {
+    setIsCalculating(true)
+    setError(null)
+    setSuggestion(null)
+    try {
+      const response = await fetch("/api/trade-up", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          inputs: inputs.map((input) => ({ itemId: input.item.id, float: Number(input.float) })),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error ?? "Failed to calculate trade-up")
+        setResult(null)
+        return
+      }
+      setResult(data)
+    } catch (calculateError) {
+      console.error("Trade-up calculation failed:", calculateError)
+      setError("Failed to calculate trade-up")
+    } finally {
+      setIsCalculating(false)
+    }
+  }
+
+  const suggest = async (outcome: TradeUpOutcome) => {
+    if (!outcome.itemId) return
+    const targetWear = suggestWear[outcome.baseName] ?? outcome.wear
+    setError(null)
+    try {
+      const response = await fetch("/api/trade-up/suggest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ outputItemId: outcome.itemId, targetWear }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error ?? "Failed to suggest inputs")
+        return
+      }
+      setSuggestion({ outcome: outcome.baseName, data: data.suggestion })
+    } catch (suggestError) {
+      console.error("Trade-up suggestion failed:", suggestError)
+      setError("Failed to suggest inputs")
+    }
+  }
+
+  const floatsValid = inputs.every((input) => input.float !== "" && !Number.isNaN(Number(input.float)))
+
+  return (
+    <div className="space-y-8">
+      {/* Input picker */}
+      <section className="grid gap-6 lg:grid-cols-2">
+        <div className="bg-gray-900 rounded-lg p-4">
+          <h2 className="text-lg font-semibold mb-3">Find input skins</h2>
+          <Input
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            placeholder="Search skins, e.g. P250 | Sand Dune"
+            aria-label="Search skins"
+          />
+          <ul className="mt-3 divide-y divide-gray-800">
+            {searchResults.map((item) => (
+              <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                <span>
+                  {item.display_name}
+                  {item.rarity && <span className="ml-2 text-xs capitalize text-gray-500">{item.rarity}</span>}
+                </span>
+                <span className="flex gap-2">
+                  <Button size="sm" variant="outline" disabled={inputs.length >= INPUT_COUNT} onClick={() => addInput(item)}>
+                    Add
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={inputs.length >= INPUT_COUNT}
+                    onClick={() => addInput(item, INPUT_COUNT)}
+                  >
+                    Fill
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-gray-900 rounded-lg p-4">
+          <h2 className="text-lg font-semibold mb-3">
+            Inputs ({inputs.length}/{INPUT_COUNT})
+          </h2>
+          {inputs.length === 0 ? (
+            <p className="text-sm text-gray-400">Add 10 skins of the same rarity.</p>
+          ) : (
+            <ul className="space-y-2">
+              {inputs.map((input) => (
+                <li key={input.key} className="flex items-center gap-2 text-sm">
+                  <span className="flex-1 truncate">{input.item.display_name}</span>
+                  <Input
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    max="1"
+                    value={input.float}
+                    onChange={(event) => updateFloat(input.key, event.target.value)}
+                    placeholder="Float"
+                    aria-label={`Float for ${input.item.display_name}`}
+                    className="w-28"
+                  />
+                  <Button size="sm" variant="ghost" onClick={() => removeInput(input.key)}>
+                    Remove
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Button
+            className="mt-4 w-full"
+            disabled={inputs.length !== INPUT_COUNT || !floatsValid || isCalculating}
+            onClick={calculate}
+          >
+            {isCalculating ? "Calculating..." : "Calculate trade-up"}
+          </Button>
+        </div>
+      </section>
+
+      {error && (
+        <div role="alert" className="bg-red-900/20 border border-red-500 rounded-lg p-4 text-red-300">
+          {error}
+        </div>
+      )}
+
+      {/* Results */}
+      {result && (
+        <section className="space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <div className="bg-gray-900 px-4 py-2 rounded-lg">
+              <div className="text-gray-400 text-xs mb-1">Input Cost</div>
+              <div className="font-bold text-lg">{formatPrice(result.inputCost)}</div>
+            </div>
+            <div className="bg-gray-900 px-4 py-2 rounded-lg">
+              <div className="text-gray-400 text-xs mb-1">Expected Value</div>
+              <div className="text-green-500 font-bold text-lg">{formatPrice(result.expectedValue)}</div>
+              <div className="text-gray-500 text-xs">after fees ({formatPrice(result.grossExpectedValue)} before)</div>
+            </div>
+            <div className="bg-gray-900 px-4 py-2 rounded-lg">
+              <div className="text-gray-400 text-xs mb-1">Expected Profit</div>
+              <div className={`font-bold text-lg ${result.expectedProfit >= 0 ? "text-green-500" : "text-red-500"}`}>
+                {result.expectedProfit >= 0 ? "+" : "-"}
+                {formatPrice(Math.abs(result.expectedProfit))} ({result.roi.toFixed(1)}%)
+              </div>
+            </div>
+            <div className="bg-gray-900 px-4 py-2 rounded-lg">
+              <div className="text-gray-400 text-xs mb-1">Chance of Profit</div>
+              <div className="font-bold text-lg">{result.profitProbability.toFixed(1)}%</div>
+            </div>
+          </div>
+
+          {result.priceCoverage < 100 && (
+            <p className="text-xs text-gray-500">
+              Prices available for {result.priceCoverage.toFixed(1)}% of outcomes; unpriced outcomes count as{" "}
+              {formatPrice(0)}.
+            </p>
+          )}
+
+          <div className="bg-gray-900 rounded-lg p-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 text-xs">
+                  <th className="py-1 font-normal">Output</th>
+                  <th className="py-1 font-normal text-right">Odds</th>
+                  <th className="py-1 font-normal text-right">Float</th>
+                  <th className="py-1 font-normal">Wear</th>
+                  <th className="py-1 font-normal text-right">Net Value</th>
+                  <th className="py-1 font-normal text-right">Cheapest inputs for</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.outcomes.map((outcome) => (
+                  <tr key={outcome.baseName} className="border-t border-gray-800">
+                    <td className="py-2">{outcome.baseName}</td>
+                    <td className="py-2 text-right">{outcome.probability.toFixed(2)}%</td>
+                    <td className="py-2 text-right font-mono">{outcome.floatValue.toFixed(6)}</td>
+                    <td className="py-2">{WEAR_LABELS[outcome.wear] ?? outcome.wear}</td>
+                    <td
+                      className={`py-2 text-right ${
+                        outcome.netValue >= result.inputCost ? "text-green-500" : "text-gray-300"
+                      }`}
+                    >
+                      {outcome.price !== null ? formatPrice(outcome.netValue) : "No listings"}
+                    </td>
+                    <td className="py-2 text-right">
+                      <span className="inline-flex gap-2">
+                        <select
+                          value={suggestWear[outcome.baseName] ?? outcome.wear}
+                          onChange={(event) =>
+                            setSuggestWear({ ...suggestWear, [outcome.baseName]: event.target.value })
+                          }
+                          aria-label={`Target wear for ${outcome.baseName}`}
+                          className="bg-gray-950 border border-gray-700 rounded px-1 text-xs"
+                        >
+                          {WEARS.map((wear) => (
+                            <option key={wear.value} value={wear.value}>
+                              {wear.label}
+                            </option>
+                          ))}
+                        </select>
+                        <Button size="sm" variant="outline" disabled={!outcome.itemId} onClick={() => suggest(outcome)}>
+                          Suggest
+                        </Button>
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {suggestion && (
+            <div className="bg-gray-900 rounded-lg p-4 text-sm">
+              {suggestion.data ? (
+                <p>
+                  Buy {suggestion.data.quantity}× <strong>{suggestion.data.input.name}</strong> (
+                  {WEAR_LABELS[suggestion.data.input.wear] ?? suggestion.data.input.wear}) at float ≤{" "}
+                  <span className="font-mono">{suggestion.data.maxInputFloat.toFixed(6)}</span> for about{" "}
+                  {formatPrice(suggestion.data.totalCost)}: {suggestion.data.targetProbability.toFixed(1)}% chance of{" "}
+                  {suggestion.data.target} in {WEAR_LABELS[suggestion.data.targetWear]} or better.
+                </p>
+              ) : (
+                <p className="text-gray-400">
+                  No priced inputs can land {suggestion.outcome} in that wear.
+                </p>
+              )}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
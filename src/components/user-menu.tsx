@@ -11,7 +11,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Button } from "@/components/ui/button"
-import { User, Package, Crosshair, Bell, LogOut } from "lucide-react"
+import { User, Package, Crosshair, Bell, KeyRound, LogOut } from "lucide-react"
 
 interface UserMenuProps {
   personaName: string
@@ -77,6 +77,12 @@ export function UserMenu({ personaName, avatar, steamId }: UserMenuProps) {
             <span>Price Alerts</span>
           </Link>
         </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/account/api-keys" className="flex items-center cursor-pointer">
+            <KeyRound className="mr-2 h-4 w-4" />
+            <span>API Keys</span>
+          </Link>
+        </DropdownMenuItem>
         <DropdownMenuSeparator />
         <DropdownMenuItem
           onClick={handleSignOut}
@@ -0,0 +1,218 @@
+/**
+ * Price Alert Digest Email Template
+ *
+ * BDD: features/09-price-alerts-phase1.feature (Phase 1e: Email Notifications)
+ * Requirements:
+ * - One email for every alert triggered since the last hourly/daily digest
+ * - Each item shows the trigger summary, the current lowest price and a listing link
+ * - Per-alert unsubscribe links plus "Manage your alerts"
+ * - Prices rendered in the recipient's display currency
+ *
+ * Sent by src/lib/alerts/alert-digest.ts
+ */
+
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text
+} from '@react-email/components'
+import * as React from 'react'
+import { formatPrice, USD_DISPLAY, type DisplayCurrency } from '../lib/currency/display-currency'
+import { summarizeAlertTrigger } from '../lib/alerts/alert-conditions'
+import type { DigestEntry, DigestFrequency } from '../lib/alerts/alert-digest'
+
+export interface PriceAlertDigestEntry extends DigestEntry {
+  unsubscribeUrl: string
+}
+
+export interface PriceAlertDigestEmailProps {
+  frequency: DigestFrequency
+  entries: PriceAlertDigestEntry[]
+  manageAlertsUrl: string
+  displayCurrency?: DisplayCurrency // Recipient's preference (default USD)
+}
+
+export const PriceAlertDigestEmail = ({
+  frequency = 'daily',
+  entries = [],
+  manageAlertsUrl = 'https://csloadout.gg/alerts',
+  displayCurrency = USD_DISPLAY
+}: PriceAlertDigestEmailProps) => {
+  const format = (amount: number) => formatPrice(amount, displayCurrency)
+  const period = frequency === 'hourly' ? 'the last hour' : 'the last 24 hours'
+  const countLabel = `${entries.length} price alert${entries.length === 1 ? '' : 's'}`
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{`${countLabel} triggered in ${period}`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={h1}>🔔 Your Price Alert Digest</Heading>
+
+          <Text style={text}>
+            {countLabel} triggered in {period}:
+          </Text>
+
+          {entries.map(entry => (
+            <Section key={entry.alertId} style={alertBox}>
+              <Heading as="h2" style={itemTitle}>
+                {entry.itemName}
+              </Heading>
+              <Text style={summaryText}>
+                {entry.details
+                  ? summarizeAlertTrigger(entry.itemName, entry.triggeredPrice, entry.details, format)
+                  : `${entry.itemName} triggered at ${format(entry.triggeredPrice)}`}
+                {entry.triggerCount > 1 && ` (triggered ${entry.triggerCount} times)`}
+              </Text>
+              <Text style={priceText}>
+                {entry.currentPrice !== null ? (
+                  <>
+                    Current lowest price: <span style={newPrice}>{format(entry.currentPrice)}</span>
+                    {entry.currentPlatform && <> on <strong>{entry.currentPlatform}</strong></>}
+                  </>
+                ) : (
+                  <span style={mutedPrice}>No current listings</span>
+                )}
+              </Text>
+              <Text style={linkRow}>
+                {entry.listingUrl && (
+                  <>
+                    <Link href={entry.listingUrl} style={link}>
+                      View Listing &rarr;
+                    </Link>
+                    {' · '}
+                  </>
+                )}
+                <Link href={entry.unsubscribeUrl} style={unsubscribeLink}>
+                  Unsubscribe from this alert
+                </Link>
+              </Text>
+            </Section>
+          ))}
+
+          <Hr style={hr} />
+
+          <Text style={footer}>
+            <strong>CS Loadout Price Alerts</strong>
+            <br />
+            You receive alerts as {frequency === 'hourly' ? 'an hourly' : 'a daily'} digest.
+            <br />
+            <Link href={manageAlertsUrl} style={link}>
+              Manage your alerts
+            </Link>
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export default PriceAlertDigestEmail
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif'
+}
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+  maxWidth: '600px'
+}
+
+const h1 = {
+  color: '#1d1c1d',
+  fontSize: '32px',
+  fontWeight: '700',
+  margin: '30px 0',
+  padding: '0',
+  lineHeight: '40px',
+  textAlign: 'center' as const
+}
+
+const text = {
+  color: '#484848',
+  fontSize: '16px',
+  lineHeight: '26px',
+  margin: '16px 20px'
+}
+
+const alertBox = {
+  backgroundColor: '#f8f9fa',
+  border: '2px solid #e3e8ef',
+  borderRadius: '8px',
+  margin: '16px 20px',
+  padding: '20px'
+}
+
+const itemTitle = {
+  color: '#1d1c1d',
+  fontSize: '20px',
+  fontWeight: '600',
+  margin: '0 0 8px 0',
+  lineHeight: '28px'
+}
+
+const summaryText = {
+  color: '#484848',
+  fontSize: '15px',
+  lineHeight: '22px',
+  margin: '8px 0'
+}
+
+const priceText = {
+  color: '#484848',
+  fontSize: '16px',
+  lineHeight: '24px',
+  margin: '8px 0'
+}
+
+const mutedPrice = {
+  color: '#666'
+}
+
+const newPrice = {
+  color: '#059669',
+  fontWeight: '700'
+}
+
+const linkRow = {
+  fontSize: '14px',
+  margin: '12px 0 0 0'
+}
+
+const hr = {
+  borderColor: '#e6ebf1',
+  margin: '32px 20px'
+}
+
+const link = {
+  color: '#5865f2',
+  textDecoration: 'underline'
+}
+
+const footer = {
+  color: '#8898aa',
+  fontSize: '14px',
+  lineHeight: '22px',
+  margin: '16px 20px',
+  textAlign: 'center' as const
+}
+
+const unsubscribeLink = {
+  color: '#8898aa',
+  fontSize: '12px',
+  textDecoration: 'underline'
+}
@@ -4,9 +4,11 @@
  * BDD: features/09-price-alerts-phase1.feature (Phase 1e: Email Notifications)
  * Requirements from line 149-151:
  * - Show target price vs triggered price
+ * - Type-specific wording for every alert type (src/lib/alerts/alert-conditions.ts)
  * - Include marketplace link to buy
  * - Include "Manage your alerts" link
  * - GDPR-compliant unsubscribe footer
+ * - Prices rendered in the recipient's display currency
  *
  * Built with React Email for type-safe, component-based email templates
  */
@@ -25,15 +27,138 @@ import {
   Text
 } from '@react-email/components'
 import * as React from 'react'
+import { formatPrice, USD_DISPLAY, type DisplayCurrency } from '../lib/currency/display-currency'
+import type { AlertTriggerDetails } from '../lib/alerts/alert-conditions'
 
 export interface PriceAlertEmailProps {
   itemName: string
-  targetPrice: number
+  targetPrice?: number
   triggeredPrice: number
   platform: string
   listingUrl: string
   manageAlertsUrl: string
   unsubscribeUrl: string
+  displayCurrency?: DisplayCurrency // Recipient's preference (default USD)
+  details?: AlertTriggerDetails // Alert type (default: price below targetPrice)
+}
+
+interface AlertCopy {
+  preview: string
+  heading: string
+  intro: string
+  summary: React.ReactNode
+  repeatNote: string
+}
+
+/**
+ * Wording for each alert type
+ */
+function getAlertCopy(
+  itemName: string,
+  triggeredPrice: number,
+  details: AlertTriggerDetails,
+  format: (amountUSD: number) => string
+): AlertCopy {
+  switch (details.type) {
+    case 'price_below': {
+      const savings = details.targetPrice - triggeredPrice
+      const savingsPercent = ((savings / details.targetPrice) * 100).toFixed(1)
+      return {
+        preview: `${itemName} dropped to ${format(triggeredPrice)} - ${savingsPercent}% below your target!`,
+        heading: '🔔 Price Alert Triggered!',
+        intro: 'Great news! The item you\'re watching has dropped to your target price:',
+        summary: (
+          <>
+            <Text style={priceComparison}>
+              <span style={oldPrice}>Your target: {format(details.targetPrice)}</span>
+              <br />
+              <span style={newPrice}>Current price: {format(triggeredPrice)}</span>
+            </Text>
+            {savings > 0 && (
+              <Text style={savingsStyle}>
+                💰 You&apos;re saving {format(savings)} ({savingsPercent}%)
+              </Text>
+            )}
+          </>
+        ),
+        repeatNote: 'This alert will trigger again if the price drops further (after 15 min cooldown)'
+      }
+    }
+
+    case 'price_above':
+      return {
+        preview: `${itemName} rose to ${format(triggeredPrice)} - above your ${format(details.targetPrice)} sell target`,
+        heading: '📈 Sell Target Reached!',
+        intro: 'The item you\'re watching is now selling above your target price:',
+        summary: (
+          <Text style={priceComparison}>
+            <span style={mutedPrice}>Your sell target: {format(details.targetPrice)}</span>
+            <br />
+            <span style={newPrice}>Current price: {format(triggeredPrice)}</span>
+          </Text>
+        ),
+        repeatNote: 'This alert will trigger again while the price stays above your target (after 15 min cooldown)'
+      }
+
+    case 'percent_drop':
+      return {
+        preview: `${itemName} dropped ${details.dropPercent.toFixed(1)}% in ${details.windowHours}h to ${format(triggeredPrice)}`,
+        heading: '📉 Price Drop Alert!',
+        intro: `The price fell at least ${details.thresholdPercent}% within ${details.windowHours} hours:`,
+        summary: (
+          <>
+            <Text style={priceComparison}>
+              <span style={oldPrice}>{details.windowHours}h high: {format(details.referencePrice)}</span>
+              <br />
+              <span style={newPrice}>Current price: {format(triggeredPrice)}</span>
+            </Text>
+            <Text style={savingsStyle}>📉 Down {details.dropPercent.toFixed(1)}%</Text>
+          </>
+        ),
+        repeatNote: 'This alert will trigger again if the drop persists (after 15 min cooldown)'
+      }
+
+    case 'platform_spread':
+      return {
+        preview: `${itemName} has a ${details.spreadPercent.toFixed(1)}% price spread across marketplaces`,
+        heading: '⚖️ Marketplace Spread Alert!',
+        intro: `Prices across marketplaces differ by more than ${details.thresholdPercent}%:`,
+        summary: (
+          <>
+            <Text style={priceComparison}>
+              <span style={newPrice}>Cheapest: {format(triggeredPrice)}</span>
+              <br />
+              <span style={mutedPrice}>
+                Most expensive: {format(details.highPrice)} on {details.highPlatform}
+              </span>
+            </Text>
+            <Text style={savingsStyle}>
+              ⚖️ Spread: {details.spreadPercent.toFixed(1)}% ({format(details.highPrice - triggeredPrice)})
+            </Text>
+          </>
+        ),
+        repeatNote: 'This alert will trigger again while the spread stays above your threshold (after 15 min cooldown)'
+      }
+
+    case 'float_range':
+      return {
+        preview: `${itemName} with float ${details.floatValue.toFixed(4)} listed at ${format(triggeredPrice)}`,
+        heading: '🎯 Float Match Found!',
+        intro: 'A listing in your float range is at or below your target price:',
+        summary: (
+          <Text style={priceComparison}>
+            <span style={mutedPrice}>
+              Float {details.floatValue.toFixed(6)} (your range {details.floatMin}–{details.floatMax})
+            </span>
+            <br />
+            <span style={mutedPrice}>Your target: {format(details.targetPrice)}</span>
+            <br />
+            <span style={newPrice}>Listed at: {format(triggeredPrice)}</span>
+          </Text>
+        ),
+        repeatNote: 'This alert will trigger again for new matching listings (after 15 min cooldown)'
+      }
+  }
 }
 
 export const PriceAlertEmail = ({
@@ -43,39 +168,32 @@ export const PriceAlertEmail = ({
   platform = 'CSFloat',
   listingUrl = 'https://csfloat.com/item/12345',
   manageAlertsUrl = 'https://csloadout.gg/alerts',
-  unsubscribeUrl = 'https://csloadout.gg/api/unsubscribe?alert=xxx&token=xxx'
+  unsubscribeUrl = 'https://csloadout.gg/api/unsubscribe?alert=xxx&token=xxx',
+  displayCurrency = USD_DISPLAY,
+  details
 }: PriceAlertEmailProps) => {
-  const savings = targetPrice - triggeredPrice
-  const savingsPercent = ((savings / targetPrice) * 100).toFixed(1)
+  const copy = getAlertCopy(
+    itemName,
+    triggeredPrice,
+    details ?? { type: 'price_below', targetPrice },
+    amount => formatPrice(amount, displayCurrency)
+  )
 
   return (
     <Html>
       <Head />
-      <Preview>
-        {itemName} dropped to ${triggeredPrice.toFixed(2)} - {savingsPercent}% below your target!
-      </Preview>
+      <Preview>{copy.preview}</Preview>
       <Body style={main}>
         <Container style={container}>
-          <Heading style={h1}>🔔 Price Alert Triggered!</Heading>
+          <Heading style={h1}>{copy.heading}</Heading>
 
-          <Text style={text}>
-            Great news! The item you're watching has dropped to your target price:
-          </Text>
+          <Text style={text}>{copy.intro}</Text>
 
           <Section style={alertBox}>
             <Heading as="h2" style={itemTitle}>
               {itemName}
             </Heading>
-            <Text style={priceComparison}>
-              <span style={oldPrice}>Your target: ${targetPrice.toFixed(2)}</span>
-              <br />
-              <span style={newPrice}>Current price: ${triggeredPrice.toFixed(2)}</span>
-            </Text>
-            {savings > 0 && (
-              <Text style={savingsStyle}>
-                💰 You're saving ${savings.toFixed(2)} ({savingsPercent}%)
-              </Text>
-            )}
+            {copy.summary}
             <Text style={platformText}>
               Available on: <strong>{platform}</strong>
             </Text>
@@ -95,7 +213,7 @@ export const PriceAlertEmail = ({
           <Text style={text}>
             • Click the button above to view the listing before it's gone
             <br />
-            • This alert will trigger again if the price drops further (after 15 min cooldown)
+            • {copy.repeatNote}
             <br />
             • <Link href={manageAlertsUrl} style={link}>Manage your alerts</Link> to adjust or pause notifications
           </Text>
@@ -184,6 +302,10 @@ const oldPrice = {
   textDecoration: 'line-through'
 }
 
+const mutedPrice = {
+  color: '#666'
+}
+
 const newPrice = {
   color: '#059669',
   fontWeight: '700',
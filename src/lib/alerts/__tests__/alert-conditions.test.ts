@@ -0,0 +1,161 @@
+/**
+ * Price Alert Condition Tests
+ *
+ * BDD: features/09-price-alerts-phase1.feature (Phase 1d: Alert Triggering Logic)
+ *
+ * Critical Gotchas Applied:
+ * - platform narrows every type except platform_spread
+ * - float_range only matches listings that expose a float
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type { PrismaClient } from '@prisma/client'
+import {
+  clearUnusedConditionFields,
+  evaluateAlertCondition,
+  loadWindowHighPrices,
+  summarizeAlertTrigger,
+  validateAlertCondition,
+  windowHighKey,
+  type AlertCondition,
+  type AlertPriceSnapshot,
+} from '../alert-conditions'
+
+const BASE_CONDITION: AlertCondition = {
+  type: 'price_below',
+  targetPrice: null,
+  platform: null,
+  dropPercent: null,
+  windowHours: null,
+  spreadPercent: null,
+  floatMin: null,
+  floatMax: null,
+}
+
+const PRICES: AlertPriceSnapshot[] = [
+  { platform: 'csfloat', totalCost: 8.0, listingUrl: 'https://csfloat.com/item/1', floatValue: 0.16 },
+  { platform: 'steam', totalCost: 11.5, listingUrl: null, floatValue: null },
+  { platform: 'buff163', totalCost: 9.2, listingUrl: null, floatValue: null },
+]
+
+const format = (amount: number) => `$${amount.toFixed(2)}`
+
+describe('Price Alert Conditions', () => {
+  it('should trigger price_below on the cheapest platform', () => {
+    const result = evaluateAlertCondition({ ...BASE_CONDITION, targetPrice: 8.5 }, PRICES)
+
+    expect(result).toMatchObject({ triggeredPrice: 8.0, platform: 'csfloat' })
+    expect(evaluateAlertCondition({ ...BASE_CONDITION, targetPrice: 7.99 }, PRICES)).toBeNull()
+  })
+
+  it('should honor the platform filter', () => {
+    const result = evaluateAlertCondition({ ...BASE_CONDITION, targetPrice: 10, platform: 'steam' }, PRICES)
+
+    expect(result).toBeNull()
+  })
+
+  it('should trigger price_above on the most expensive platform for sellers', () => {
+    const result = evaluateAlertCondition({ ...BASE_CONDITION, type: 'price_above', targetPrice: 11 }, PRICES)
+
+    expect(result).toMatchObject({ triggeredPrice: 11.5, platform: 'steam' })
+    expect(result?.details).toEqual({ type: 'price_above', targetPrice: 11 })
+  })
+
+  it('should trigger percent_drop against the same platform\'s window high', () => {
+    const condition: AlertCondition = { ...BASE_CONDITION, type: 'percent_drop', dropPercent: 20, windowHours: 24 }
+
+    expect(evaluateAlertCondition(condition, PRICES, { csfloat: 10, steam: 11.5, buff163: 9.2 })).toMatchObject({
+      triggeredPrice: 8.0,
+      platform: 'csfloat',
+      details: { type: 'percent_drop', referencePrice: 10, dropPercent: 20 },
+    })
+    expect(evaluateAlertCondition(condition, PRICES, { csfloat: 9.5 })).toBeNull()
+    expect(evaluateAlertCondition(condition, PRICES, null)).toBeNull()
+  })
+
+  it('should not treat a steady cross-platform spread as a percent_drop', () => {
+    const condition: AlertCondition = { ...BASE_CONDITION, type: 'percent_drop', dropPercent: 20, windowHours: 24 }
+
+    // Steam has sat 43.75% above CSFloat all window; neither price moved
+    expect(evaluateAlertCondition(condition, PRICES, { csfloat: 8.0, steam: 11.5, buff163: 9.2 })).toBeNull()
+  })
+
+  it('should trigger platform_spread across platforms even with a platform filter', () => {
+    const condition: AlertCondition = { ...BASE_CONDITION, type: 'platform_spread', spreadPercent: 40, platform: 'csfloat' }
+
+    expect(evaluateAlertCondition(condition, PRICES)).toMatchObject({
+      platform: 'csfloat',
+      details: { type: 'platform_spread', highPlatform: 'steam', highPrice: 11.5, spreadPercent: 43.75 },
+    })
+    expect(evaluateAlertCondition({ ...condition, spreadPercent: 50 }, PRICES)).toBeNull()
+  })
+
+  it('should only match float_range listings with a float inside the range', () => {
+    const condition: AlertCondition = {
+      ...BASE_CONDITION,
+      type: 'float_range',
+      targetPrice: 10,
+      floatMin: 0.15,
+      floatMax: 0.18,
+    }
+
+    expect(evaluateAlertCondition(condition, PRICES)).toMatchObject({
+      triggeredPrice: 8.0,
+      details: { type: 'float_range', floatValue: 0.16 },
+    })
+    expect(evaluateAlertCondition({ ...condition, floatMax: 0.155 }, PRICES)).toBeNull()
+  })
+
+  it('should validate the fields each type requires', () => {
+    expect(validateAlertCondition({ ...BASE_CONDITION, targetPrice: 0 })).toBe('Target price must be greater than $0')
+    expect(validateAlertCondition({ ...BASE_CONDITION, type: 'percent_drop', dropPercent: 10 })).toContain('Time window')
+    expect(validateAlertCondition({ ...BASE_CONDITION, type: 'platform_spread', spreadPercent: 15 })).toBeNull()
+    expect(
+      validateAlertCondition({ ...BASE_CONDITION, type: 'float_range', targetPrice: 5, floatMin: 0.2, floatMax: 0.1 })
+    ).toContain('Float range')
+  })
+
+  it('should reject fields that belong to another alert type', () => {
+    const percentDrop: AlertCondition = { ...BASE_CONDITION, type: 'percent_drop', dropPercent: 10, windowHours: 24 }
+
+    expect(validateAlertCondition({ ...percentDrop, floatMin: 0, floatMax: 0.07 })).toBe(
+      'Float range does not apply to this alert type'
+    )
+    expect(validateAlertCondition({ ...percentDrop, targetPrice: 5 })).toContain('Target price')
+    expect(validateAlertCondition(clearUnusedConditionFields({ ...percentDrop, targetPrice: 5, floatMin: 0 }))).toBeNull()
+  })
+
+  it('should keep the original subject wording for price_below alerts', () => {
+    expect(
+      summarizeAlertTrigger('AK-47 | Redline', 7.95, { type: 'price_below', targetPrice: 8 }, format)
+    ).toBe('AK-47 | Redline is now $7.95')
+  })
+
+  it('should load window highs with one query per window length', async () => {
+    const queries: Array<{ item_id: { in: string[] } }> = []
+    const client = {
+      marketplacePriceHistory: {
+        groupBy: async ({ where }: { where: { item_id: { in: string[] } } }) => {
+          queries.push(where)
+          return where.item_id.in.map(itemId => ({ item_id: itemId, platform: 'csfloat', _max: { total_cost: 10 } }))
+        }
+      }
+    } as unknown as PrismaClient
+
+    const highs = await loadWindowHighPrices(
+      [
+        { itemId: 'item-1', windowHours: 24 },
+        { itemId: 'item-2', windowHours: 24 },
+        { itemId: 'item-1', windowHours: 1 },
+      ],
+      new Date('2026-01-01T00:00:00Z'),
+      client
+    )
+
+    expect(queries.map(where => where.item_id.in)).toEqual([['item-1', 'item-2'], ['item-1']])
+    expect(highs.get(windowHighKey('item-2', 24))).toEqual({ csfloat: 10 })
+    expect(highs.get(windowHighKey('item-2', 1))).toBeUndefined()
+  })
+})
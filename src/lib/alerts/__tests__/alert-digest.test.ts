@@ -0,0 +1,155 @@
+/**
+ * Price Alert Digest Tests
+ *
+ * BDD: features/09-price-alerts-phase1.feature (Phase 1e: Email Notifications)
+ *
+ * Critical Gotchas Applied:
+ * - An alert triggered several times is listed once, with its latest trigger
+ * - Cron drift must not push an hourly digest to the following run
+ * - A failed send must leave its triggers for the next run
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals'
+import type { PrismaClient } from '@prisma/client'
+import { emailService } from '../../email/email-service'
+import {
+  buildDigestEntries,
+  getDigestWindowStart,
+  isDigestDue,
+  sendAlertDigests,
+  type PendingDigestTrigger
+} from '../alert-digest'
+
+function createTrigger(overrides: Partial<PendingDigestTrigger> & { id: string }): PendingDigestTrigger {
+  return {
+    alert_id: 'alert-1',
+    triggered_at: new Date('2026-01-01T10:00:00Z'),
+    triggered_price: '7.95',
+    platform: 'csfloat',
+    listing_url: 'https://csfloat.com/item/1',
+    details: null,
+    alert: {
+      alert_type: 'price_below',
+      target_price: '8.00',
+      item: {
+        display_name: 'AK-47 | Redline (Field-Tested)',
+        marketplace_prices: [{ platform: 'buff163', total_cost: 7.5, listing_url: 'https://buff.163.com/goods/1' }]
+      }
+    },
+    ...overrides
+  }
+}
+
+/**
+ * In-memory stand-in for the queries sendAlertDigests makes for one hourly user
+ */
+function fakeDigestClient(triggers: Array<PendingDigestTrigger & { email_sent: boolean }>) {
+  const user = {
+    id: 'user-1',
+    email: 'trader@example.com',
+    alert_delivery: 'hourly',
+    alert_delivery_changed_at: null,
+    last_digest_sent_at: null as Date | null,
+    display_currency: 'USD'
+  }
+
+  const client = {
+    user: {
+      findMany: async () => [user],
+      update: async ({ data }: { data: { last_digest_sent_at: Date } }) => Object.assign(user, data)
+    },
+    alertTrigger: {
+      findMany: async ({ where }: { where: { triggered_at: { gt?: Date; lte: Date } } }) =>
+        triggers.filter(
+          trigger =>
+            !trigger.email_sent &&
+            (!where.triggered_at.gt || trigger.triggered_at > where.triggered_at.gt) &&
+            trigger.triggered_at <= where.triggered_at.lte
+        ),
+      updateMany: async ({ where }: { where: { id: { in: string[] } } }) => {
+        triggers.forEach(trigger => {
+          if (where.id.in.includes(trigger.id)) trigger.email_sent = true
+        })
+      }
+    }
+  }
+
+  return { user, client: client as unknown as PrismaClient }
+}
+
+describe('Price Alert Digests', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should send hourly digests despite a few minutes of cron drift', () => {
+    const now = new Date('2026-01-01T12:00:00Z')
+
+    expect(isDigestDue('hourly', null, now)).toBe(true)
+    expect(isDigestDue('hourly', new Date('2026-01-01T11:02:00Z'), now)).toBe(true)
+    expect(isDigestDue('hourly', new Date('2026-01-01T11:30:00Z'), now)).toBe(false)
+    expect(isDigestDue('daily', new Date('2026-01-01T00:00:00Z'), now)).toBe(false)
+  })
+
+  it('should only collect triggers since the last digest or the switch to digests', () => {
+    const lastSent = new Date('2026-01-01T11:00:00Z')
+    const switched = new Date('2026-01-01T09:00:00Z')
+
+    expect(getDigestWindowStart(null, null)).toBeNull()
+    expect(getDigestWindowStart(null, switched)).toEqual(switched) // First digest after switching
+    expect(getDigestWindowStart(lastSent, switched)).toEqual(lastSent)
+    expect(getDigestWindowStart(switched, lastSent)).toEqual(lastSent) // Switched back after an instant period
+  })
+
+  it('should list each alert once with its latest trigger and the current lowest price', () => {
+    const entries = buildDigestEntries([
+      createTrigger({ id: 't1', triggered_at: new Date('2026-01-01T10:00:00Z'), triggered_price: '7.95' }),
+      createTrigger({ id: 't2', triggered_at: new Date('2026-01-01T11:00:00Z'), triggered_price: '7.80' })
+    ])
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({
+      alertId: 'alert-1',
+      triggerCount: 2,
+      triggeredPrice: 7.8,
+      details: { type: 'price_below', targetPrice: 8 },
+      currentPrice: 7.5,
+      currentPlatform: 'buff163',
+      listingUrl: 'https://buff.163.com/goods/1'
+    })
+  })
+
+  it('should order alerts by most recent trigger and keep stored details', () => {
+    const entries = buildDigestEntries([
+      createTrigger({ id: 't1', triggered_at: new Date('2026-01-01T09:00:00Z') }),
+      createTrigger({
+        id: 't2',
+        alert_id: 'alert-2',
+        triggered_at: new Date('2026-01-01T11:00:00Z'),
+        details: { type: 'price_above', targetPrice: 20 }
+      })
+    ])
+
+    expect(entries.map(entry => entry.alertId)).toEqual(['alert-2', 'alert-1'])
+    expect(entries[0].details).toEqual({ type: 'price_above', targetPrice: 20 })
+  })
+
+  it('should include the triggers of a failed digest in the next one', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const send = jest
+      .spyOn(emailService, 'sendAlertDigestEmail')
+      .mockResolvedValueOnce({ success: false, error: 'SMTP timeout' })
+      .mockResolvedValueOnce({ success: true })
+    const { user, client } = fakeDigestClient([{ ...createTrigger({ id: 't1' }), email_sent: false }])
+
+    const failed = await sendAlertDigests({ now: new Date('2026-01-01T10:30:00Z'), client })
+    const retried = await sendAlertDigests({ now: new Date('2026-01-01T10:35:00Z'), client })
+
+    expect(failed).toMatchObject({ digestsSent: 0, digestsFailed: 1 })
+    expect(retried).toMatchObject({ digestsSent: 1, triggersIncluded: 1 })
+    expect(send.mock.calls[1][0].entries.map(entry => entry.alertId)).toEqual(['alert-1'])
+    expect(user.last_digest_sent_at).toEqual(new Date('2026-01-01T10:35:00Z'))
+  })
+})
@@ -0,0 +1,466 @@
+/**
+ * Price Alert Conditions
+ *
+ * BDD: features/09-price-alerts-phase1.feature (Phase 1d: Alert Triggering Logic)
+ *
+ * Alert types evaluated by /api/cron/check-price-alerts:
+ * - price_below:     cheapest price <= target_price (original alert behavior)
+ * - percent_drop:    a platform's price is drop_percent% below the highest price
+ *                    seen on that same platform in the last window_hours
+ *                    (price_history)
+ * - price_above:     highest price >= target_price (sellers: best place to sell)
+ * - platform_spread: most expensive platform is spread_percent% above the cheapest
+ * - float_range:     a listing with float_min <= float <= float_max is at or
+ *                    below target_price
+ *
+ * Every evaluation returns type-specific `details`, stored on AlertTrigger and
+ * used for the email/push wording.
+ *
+ * Critical Gotchas:
+ * - Callers must pass non-quarantined prices only; a single outlier listing
+ *   would otherwise fake a drop, a spread or a seller-side spike
+ * - `platform` narrows every type except platform_spread, which compares platforms
+ * - percent_drop compares each platform with its own window high; a steady
+ *   gap between marketplaces is not a drop
+ * - Only marketplaces that expose listing floats (CSFloat) can satisfy float_range;
+ *   callers add every stored float listing (loadFloatListingPrices), since the
+ *   cheapest listing rarely has the wanted float
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service'
+
+export type AlertType = 'price_below' | 'percent_drop' | 'price_above' | 'platform_spread' | 'float_range'
+
+export const ALERT_TYPES: AlertType[] = [
+  'price_below',
+  'percent_drop',
+  'price_above',
+  'platform_spread',
+  'float_range'
+]
+
+/**
+ * Bounds for the windowed percentage drop
+ */
+export const MIN_WINDOW_HOURS = 1
+export const MAX_WINDOW_HOURS = 24 * 30
+
+/**
+ * Alert condition with Prisma Decimals already converted to numbers
+ */
+export interface AlertCondition {
+  type: AlertType
+  targetPrice: number | null
+  platform: string | null
+  dropPercent: number | null
+  windowHours: number | null
+  spreadPercent: number | null
+  floatMin: number | null
+  floatMax: number | null
+}
+
+/**
+ * Current (non-quarantined) price on one platform
+ */
+export interface AlertPriceSnapshot {
+  platform: string
+  totalCost: number
+  listingUrl: string | null
+  floatValue: number | null
+}
+
+export type AlertTriggerDetails =
+  | { type: 'price_below'; targetPrice: number }
+  | { type: 'price_above'; targetPrice: number }
+  | {
+      type: 'percent_drop'
+      referencePrice: number // Highest price in the window on the triggering platform
+      dropPercent: number // Actual drop
+      thresholdPercent: number
+      windowHours: number
+    }
+  | {
+      type: 'platform_spread'
+      highPlatform: string
+      highPrice: number
+      spreadPercent: number // Actual spread
+      thresholdPercent: number
+    }
+  | { type: 'float_range'; targetPrice: number; floatValue: number; floatMin: number; floatMax: number }
+
+export interface AlertEvaluation {
+  triggeredPrice: number
+  platform: string
+  listingUrl: string | null
+  details: AlertTriggerDetails
+}
+
+interface PriceAlertRow {
+  alert_type: string
+  target_price: unknown // Prisma Decimal
+  platform: string | null
+  drop_percent: unknown
+  window_hours: number | null
+  spread_percent: unknown
+  float_min: unknown
+  float_max: unknown
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value)
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function isAlertType(value: unknown): value is AlertType {
+  return typeof value === 'string' && ALERT_TYPES.includes(value as AlertType)
+}
+
+/**
+ * Alert types compared against target_price
+ */
+export function usesTargetPrice(type: AlertType): boolean {
+  return type === 'price_below' || type === 'price_above' || type === 'float_range'
+}
+
+type ConditionField = 'targetPrice' | 'dropPercent' | 'windowHours' | 'spreadPercent' | 'floatMin' | 'floatMax'
+
+/**
+ * Type-specific fields each alert type reads (platform applies to every type)
+ */
+const CONDITION_FIELDS: Record<AlertType, ConditionField[]> = {
+  price_below: ['targetPrice'],
+  price_above: ['targetPrice'],
+  percent_drop: ['dropPercent', 'windowHours'],
+  platform_spread: ['spreadPercent'],
+  float_range: ['targetPrice', 'floatMin', 'floatMax']
+}
+
+const CONDITION_FIELD_LABELS: Record<ConditionField, string> = {
+  targetPrice: 'Target price',
+  dropPercent: 'Drop percentage',
+  windowHours: 'Time window',
+  spreadPercent: 'Spread percentage',
+  floatMin: 'Float range',
+  floatMax: 'Float range'
+}
+
+/**
+ * Copy of a condition with the fields its type does not read cleared
+ */
+export function clearUnusedConditionFields(condition: AlertCondition): AlertCondition {
+  const cleared = { ...condition }
+  for (const field of Object.keys(CONDITION_FIELD_LABELS) as ConditionField[]) {
+    if (!CONDITION_FIELDS[condition.type].includes(field)) cleared[field] = null
+  }
+  return cleared
+}
+
+/**
+ * Build an AlertCondition from a price_alerts row
+ */
+export function toAlertCondition(alert: PriceAlertRow): AlertCondition {
+  return {
+    type: isAlertType(alert.alert_type) ? alert.alert_type : 'price_below',
+    targetPrice: toNumberOrNull(alert.target_price),
+    platform: alert.platform,
+    dropPercent: toNumberOrNull(alert.drop_percent),
+    windowHours: alert.window_hours,
+    spreadPercent: toNumberOrNull(alert.spread_percent),
+    floatMin: toNumberOrNull(alert.float_min),
+    floatMax: toNumberOrNull(alert.float_max)
+  }
+}
+
+/**
+ * Validate the fields each alert type requires, and reject fields of other types
+ *
+ * @returns Error message, or null when the condition is valid
+ */
+export function validateAlertCondition(condition: AlertCondition): string | null {
+  for (const field of Object.keys(CONDITION_FIELD_LABELS) as ConditionField[]) {
+    if (condition[field] !== null && !CONDITION_FIELDS[condition.type].includes(field)) {
+      return `${CONDITION_FIELD_LABELS[field]} does not apply to this alert type`
+    }
+  }
+
+  switch (condition.type) {
+    case 'price_below':
+    case 'price_above':
+      if (condition.targetPrice === null || !(condition.targetPrice > 0)) {
+        return 'Target price must be greater than $0'
+      }
+      return null
+
+    case 'percent_drop':
+      if (condition.dropPercent === null || !(condition.dropPercent > 0 && condition.dropPercent < 100)) {
+        return 'Drop percentage must be between 0% and 100%'
+      }
+      if (
+        condition.windowHours === null ||
+        !Number.isInteger(condition.windowHours) ||
+        condition.windowHours < MIN_WINDOW_HOURS ||
+        condition.windowHours > MAX_WINDOW_HOURS
+      ) {
+        return `Time window must be between ${MIN_WINDOW_HOURS} and ${MAX_WINDOW_HOURS} hours`
+      }
+      return null
+
+    case 'platform_spread':
+      if (condition.spreadPercent === null || !(condition.spreadPercent > 0)) {
+        return 'Spread percentage must be greater than 0%'
+      }
+      return null
+
+    case 'float_range':
+      if (condition.targetPrice === null || !(condition.targetPrice > 0)) {
+        return 'Target price must be greater than $0'
+      }
+      if (
+        condition.floatMin === null ||
+        condition.floatMax === null ||
+        condition.floatMin < 0 ||
+        condition.floatMax > 1 ||
+        condition.floatMin >= condition.floatMax
+      ) {
+        return 'Float range must satisfy 0 <= min < max <= 1'
+      }
+      return null
+  }
+}
+
+function cheapest(prices: AlertPriceSnapshot[]): AlertPriceSnapshot | undefined {
+  return prices.reduce<AlertPriceSnapshot | undefined>(
+    (best, price) => (!best || price.totalCost < best.totalCost ? price : best),
+    undefined
+  )
+}
+
+function mostExpensive(prices: AlertPriceSnapshot[]): AlertPriceSnapshot | undefined {
+  return prices.reduce<AlertPriceSnapshot | undefined>(
+    (best, price) => (!best || price.totalCost > best.totalCost ? price : best),
+    undefined
+  )
+}
+
+function triggerAt(price: AlertPriceSnapshot, details: AlertTriggerDetails): AlertEvaluation {
+  return {
+    triggeredPrice: price.totalCost,
+    platform: price.platform,
+    listingUrl: price.listingUrl,
+    details
+  }
+}
+
+/**
+ * Evaluate an alert against the item's current prices
+ *
+ * @param condition - Alert condition
+ * @param prices - Current non-quarantined prices for the item
+ * @param windowHighPrices - Highest price in the alert's window per platform (percent_drop only)
+ * @returns Trigger evaluation, or null when the condition is not met
+ */
+export function evaluateAlertCondition(
+  condition: AlertCondition,
+  prices: AlertPriceSnapshot[],
+  windowHighPrices: Record<string, number> | null = null
+): AlertEvaluation | null {
+  const candidates =
+    condition.platform && condition.type !== 'platform_spread'
+      ? prices.filter(price => price.platform === condition.platform)
+      : prices
+
+  switch (condition.type) {
+    case 'price_below': {
+      const lowest = cheapest(candidates)
+      if (!lowest || condition.targetPrice === null || lowest.totalCost > condition.targetPrice) return null
+      return triggerAt(lowest, { type: 'price_below', targetPrice: condition.targetPrice })
+    }
+
+    case 'price_above': {
+      const highest = mostExpensive(candidates)
+      if (!highest || condition.targetPrice === null || highest.totalCost < condition.targetPrice) return null
+      return triggerAt(highest, { type: 'price_above', targetPrice: condition.targetPrice })
+    }
+
+    case 'percent_drop': {
+      if (condition.dropPercent === null || !windowHighPrices) return null
+
+      // Largest drop of any platform against its own window high
+      let best: { price: AlertPriceSnapshot; referencePrice: number; dropPercent: number } | null = null
+      for (const price of candidates) {
+        const referencePrice = windowHighPrices[price.platform]
+        if (!referencePrice || referencePrice <= 0) continue
+
+        const dropPercent = ((referencePrice - price.totalCost) / referencePrice) * 100
+        if (!best || dropPercent > best.dropPercent) {
+          best = { price, referencePrice, dropPercent }
+        }
+      }
+      if (!best || best.dropPercent < condition.dropPercent) return null
+
+      return triggerAt(best.price, {
+        type: 'percent_drop',
+        referencePrice: best.referencePrice,
+        dropPercent: round2(best.dropPercent),
+        thresholdPercent: condition.dropPercent,
+        windowHours: condition.windowHours ?? 0
+      })
+    }
+
+    case 'platform_spread': {
+      const lowest = cheapest(candidates)
+      const highest = mostExpensive(candidates)
+      if (!lowest || !highest || condition.spreadPercent === null || lowest.totalCost <= 0) return null
+      if (lowest.platform === highest.platform) return null
+
+      const spreadPercent = ((highest.totalCost - lowest.totalCost) / lowest.totalCost) * 100
+      if (spreadPercent < condition.spreadPercent) return null
+
+      return triggerAt(lowest, {
+        type: 'platform_spread',
+        highPlatform: highest.platform,
+        highPrice: highest.totalCost,
+        spreadPercent: round2(spreadPercent),
+        thresholdPercent: condition.spreadPercent
+      })
+    }
+
+    case 'float_range': {
+      const { floatMin, floatMax, targetPrice } = condition
+      if (floatMin === null || floatMax === null || targetPrice === null) return null
+
+      const match = cheapest(
+        candidates.filter(
+          price =>
+            price.floatValue !== null &&
+            price.floatValue >= floatMin &&
+            price.floatValue <= floatMax &&
+            price.totalCost <= targetPrice
+        )
+      )
+      if (!match || match.floatValue === null) return null
+
+      return triggerAt(match, {
+        type: 'float_range',
+        targetPrice,
+        floatValue: match.floatValue,
+        floatMin,
+        floatMax
+      })
+    }
+  }
+}
+
+/**
+ * Key of loadWindowHighPrices() results
+ */
+export function windowHighKey(itemId: string, windowHours: number): string {
+  return `${itemId}:${windowHours}`
+}
+
+/**
+ * Highest non-quarantined price recorded within each window, per platform
+ * Reference prices for percent_drop alerts, loaded for every alert at once:
+ * one grouped query per distinct window length
+ *
+ * @param windows - Item and window length of each percent_drop alert
+ * @param now - End of the windows
+ * @param client - Prisma client
+ * @returns Window high keyed by platform, per windowHighKey(itemId, windowHours)
+ */
+export async function loadWindowHighPrices(
+  windows: Array<{ itemId: string; windowHours: number }>,
+  now: Date,
+  client: PrismaClient = prisma
+): Promise<Map<string, Record<string, number>>> {
+  const itemIdsByWindow = new Map<number, Set<string>>()
+  for (const { itemId, windowHours } of windows) {
+    itemIdsByWindow.set(windowHours, (itemIdsByWindow.get(windowHours) ?? new Set()).add(itemId))
+  }
+
+  const highs = new Map<string, Record<string, number>>()
+  for (const [windowHours, itemIds] of itemIdsByWindow) {
+    const rows = await client.marketplacePriceHistory.groupBy({
+      by: ['item_id', 'platform'],
+      where: {
+        item_id: { in: Array.from(itemIds) },
+        ...NON_QUARANTINED_PRICE,
+        recorded_at: { gte: new Date(now.getTime() - windowHours * 60 * 60 * 1000), lte: now }
+      },
+      _max: { total_cost: true }
+    })
+
+    for (const row of rows) {
+      if (row._max.total_cost === null) continue
+      const key = windowHighKey(row.item_id, windowHours)
+      highs.set(key, { ...highs.get(key), [row.platform]: Number(row._max.total_cost) })
+    }
+  }
+  return highs
+}
+
+/**
+ * Stored listings with a known float, as price snapshots, for every item at once
+ * Candidates for float_range alerts beyond each platform's cheapest listing;
+ * callers drop listings on platforms whose current price is quarantined
+ *
+ * @param itemIds - Items with float_range alerts
+ * @param client - Prisma client
+ * @returns Listings per item, cheapest first
+ */
+export async function loadFloatListingPrices(
+  itemIds: string[],
+  client: PrismaClient = prisma
+): Promise<Map<string, AlertPriceSnapshot[]>> {
+  const listings = await client.marketplaceFloatListing.findMany({
+    where: { item_id: { in: itemIds } },
+    orderBy: { total_cost: 'asc' }
+  })
+
+  const byItem = new Map<string, AlertPriceSnapshot[]>()
+  for (const listing of listings) {
+    byItem.set(listing.item_id, [
+      ...(byItem.get(listing.item_id) ?? []),
+      {
+        platform: listing.platform,
+        totalCost: listing.total_cost,
+        listingUrl: listing.listing_url,
+        floatValue: listing.float_value
+      }
+    ])
+  }
+  return byItem
+}
+
+/**
+ * One-line trigger summary for email subjects and push notifications
+ *
+ * @param itemName - Item display name
+ * @param triggeredPrice - Price that triggered the alert (USD)
+ * @param details - Trigger details from evaluateAlertCondition()
+ * @param formatPrice - Formats a USD amount for the recipient
+ */
+export function summarizeAlertTrigger(
+  itemName: string,
+  triggeredPrice: number,
+  details: AlertTriggerDetails,
+  formatPrice: (amountUSD: number) => string
+): string {
+  switch (details.type) {
+    case 'price_below':
+      return `${itemName} is now ${formatPrice(triggeredPrice)}`
+    case 'price_above':
+      return `${itemName} rose to ${formatPrice(triggeredPrice)}`
+    case 'percent_drop':
+      return `${itemName} dropped ${details.dropPercent.toFixed(1)}% in ${details.windowHours}h to ${formatPrice(triggeredPrice)}`
+    case 'platform_spread':
+      return `${itemName} has a ${details.spreadPercent.toFixed(1)}% price spread across marketplaces`
+    case 'float_range':
+      return `${itemName} with float ${details.floatValue.toFixed(4)} listed at ${formatPrice(triggeredPrice)}`
+  }
+}
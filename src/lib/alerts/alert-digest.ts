@@ -0,0 +1,287 @@
+/**
+ * Price Alert Digests
+ *
+ * BDD: features/09-price-alerts-phase1.feature (Phase 1e: Email Notifications)
+ *
+ * Users choose how triggered alerts reach their inbox (User.alert_delivery):
+ * - instant: one email per trigger, sent by /api/cron/check-price-alerts
+ * - hourly / daily: check-price-alerts only records the AlertTrigger
+ *   (email_sent = false); /api/cron/send-alert-digests collects every pending
+ *   trigger into one email and marks them all email_sent
+ *
+ * Critical Gotchas:
+ * - An alert can trigger several times inside one digest window (15 min
+ *   cooldown). The digest lists it once, with its latest trigger, but marks
+ *   EVERY included trigger as sent.
+ * - Cron runs drift by a few minutes; SCHEDULE_SLACK_MS keeps an hourly
+ *   digest from being pushed to the following run.
+ * - Only a sent digest advances last_digest_sent_at; after a failed send the
+ *   next run collects the same triggers again, so none are lost.
+ * - A digest only collects triggers recorded after the previous digest (or
+ *   after the user switched to digests); older unsent triggers, e.g. failed
+ *   instant emails, are never swept into it.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { emailService } from '../email/email-service'
+import { loadDisplayCurrency } from '../currency/get-display-currency'
+import { resolveDisplayCurrencyCode, type DisplayCurrency } from '../currency/display-currency'
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service'
+import { toAlertCondition, type AlertTriggerDetails } from './alert-conditions'
+
+export type AlertDelivery = 'instant' | 'hourly' | 'daily'
+export type DigestFrequency = Exclude<AlertDelivery, 'instant'>
+
+export const ALERT_DELIVERY_MODES: AlertDelivery[] = ['instant', 'hourly', 'daily']
+
+/**
+ * Minimum time between two digests
+ */
+export const DIGEST_INTERVAL_MS: Record<DigestFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000
+}
+
+const SCHEDULE_SLACK_MS = 5 * 60 * 1000
+
+/**
+ * One alert in a digest email
+ */
+export interface DigestEntry {
+  alertId: string
+  itemName: string
+  triggerCount: number // Triggers in this digest window
+  lastTriggeredAt: Date
+  triggeredPrice: number // Price at the latest trigger
+  details: AlertTriggerDetails | null
+  currentPrice: number | null // Lowest non-quarantined price now
+  currentPlatform: string | null
+  listingUrl: string | null
+}
+
+export interface DigestRunResult {
+  usersChecked: number
+  digestsSent: number
+  digestsFailed: number
+  triggersIncluded: number
+}
+
+/**
+ * Pending trigger with the data the digest renders
+ */
+export interface PendingDigestTrigger {
+  id: string
+  alert_id: string
+  triggered_at: Date
+  triggered_price: unknown // Prisma Decimal
+  platform: string
+  listing_url: string | null
+  details: unknown // Prisma Json
+  alert: {
+    alert_type: string
+    target_price: unknown
+    item: {
+      display_name: string
+      marketplace_prices: Array<{ platform: string; total_cost: number; listing_url: string | null }>
+    }
+  }
+}
+
+export function isAlertDelivery(value: unknown): value is AlertDelivery {
+  return typeof value === 'string' && ALERT_DELIVERY_MODES.includes(value as AlertDelivery)
+}
+
+/**
+ * Whether a user's next digest is due
+ *
+ * @param frequency - hourly or daily
+ * @param lastSentAt - User.last_digest_sent_at (null = never sent)
+ * @param now - Current time
+ */
+export function isDigestDue(frequency: DigestFrequency, lastSentAt: Date | null, now: Date): boolean {
+  if (!lastSentAt) return true
+  return now.getTime() - lastSentAt.getTime() >= DIGEST_INTERVAL_MS[frequency] - SCHEDULE_SLACK_MS
+}
+
+/**
+ * Lower bound (exclusive) for the triggers a digest collects
+ *
+ * @param lastSentAt - User.last_digest_sent_at (null = never sent)
+ * @param deliveryChangedAt - User.alert_delivery_changed_at (null = never changed)
+ * @returns The later of the two, or null when neither is set
+ */
+export function getDigestWindowStart(lastSentAt: Date | null, deliveryChangedAt: Date | null): Date | null {
+  if (!lastSentAt || !deliveryChangedAt) return lastSentAt ?? deliveryChangedAt
+  return lastSentAt > deliveryChangedAt ? lastSentAt : deliveryChangedAt
+}
+
+/**
+ * Trigger details saved by the checker, or price_below details for triggers
+ * recorded before alert types existed
+ */
+function triggerDetails(trigger: PendingDigestTrigger): AlertTriggerDetails | null {
+  if (trigger.details && typeof trigger.details === 'object') {
+    return trigger.details as AlertTriggerDetails
+  }
+
+  const condition = toAlertCondition({
+    alert_type: trigger.alert.alert_type,
+    target_price: trigger.alert.target_price,
+    platform: null,
+    drop_percent: null,
+    window_hours: null,
+    spread_percent: null,
+    float_min: null,
+    float_max: null
+  })
+  return condition.type === 'price_below' && condition.targetPrice !== null
+    ? { type: 'price_below', targetPrice: condition.targetPrice }
+    : null
+}
+
+/**
+ * Group pending triggers into one entry per alert, most recent first
+ */
+export function buildDigestEntries(triggers: PendingDigestTrigger[]): DigestEntry[] {
+  const entries = new Map<string, DigestEntry>()
+
+  for (const trigger of triggers) {
+    const existing = entries.get(trigger.alert_id)
+
+    if (existing) {
+      existing.triggerCount++
+      if (trigger.triggered_at <= existing.lastTriggeredAt) continue
+    }
+
+    const [current] = trigger.alert.item.marketplace_prices
+
+    entries.set(trigger.alert_id, {
+      alertId: trigger.alert_id,
+      itemName: trigger.alert.item.display_name,
+      triggerCount: existing?.triggerCount ?? 1,
+      lastTriggeredAt: trigger.triggered_at,
+      triggeredPrice: Number(trigger.triggered_price),
+      details: triggerDetails(trigger),
+      currentPrice: current ? current.total_cost : null,
+      currentPlatform: current?.platform ?? null,
+      listingUrl: current?.listing_url ?? trigger.listing_url
+    })
+  }
+
+  return Array.from(entries.values()).sort(
+    (a, b) => b.lastTriggeredAt.getTime() - a.lastTriggeredAt.getTime()
+  )
+}
+
+/**
+ * Send every due hourly/daily digest
+ *
+ * @param options.now - Reference time (tests)
+ * @param options.client - Prisma client
+ */
+export async function sendAlertDigests(
+  options: { now?: Date; client?: PrismaClient } = {}
+): Promise<DigestRunResult> {
+  const now = options.now ?? new Date()
+  const client = options.client ?? prisma
+  const result: DigestRunResult = { usersChecked: 0, digestsSent: 0, digestsFailed: 0, triggersIncluded: 0 }
+
+  const users = await client.user.findMany({
+    where: {
+      alert_delivery: { in: ['hourly', 'daily'] },
+      email: { not: null },
+      price_alerts: { some: { notify_email: true, triggers: { some: { email_sent: false } } } }
+    },
+    select: {
+      id: true,
+      email: true,
+      alert_delivery: true,
+      alert_delivery_changed_at: true,
+      last_digest_sent_at: true,
+      display_currency: true
+    }
+  })
+
+  // Rates are looked up once per display currency
+  const displayCurrencies = new Map<string, Promise<DisplayCurrency>>()
+
+  for (const user of users) {
+    const frequency = user.alert_delivery as DigestFrequency
+    if (!user.email || !isDigestDue(frequency, user.last_digest_sent_at, now)) continue
+    result.usersChecked++
+
+    try {
+      const windowStart = getDigestWindowStart(user.last_digest_sent_at, user.alert_delivery_changed_at)
+      const triggers = await client.alertTrigger.findMany({
+        where: {
+          email_sent: false,
+          triggered_at: { ...(windowStart && { gt: windowStart }), lte: now },
+          alert: { user_id: user.id, notify_email: true }
+        },
+        orderBy: { triggered_at: 'desc' },
+        select: {
+          id: true,
+          alert_id: true,
+          triggered_at: true,
+          triggered_price: true,
+          platform: true,
+          listing_url: true,
+          details: true,
+          alert: {
+            select: {
+              alert_type: true,
+              target_price: true,
+              item: {
+                select: {
+                  display_name: true,
+                  marketplace_prices: {
+                    where: NON_QUARANTINED_PRICE,
+                    orderBy: { total_cost: 'asc' },
+                    take: 1,
+                    select: { platform: true, total_cost: true, listing_url: true }
+                  }
+                }
+              }
+            }
+          }
+        }
+      })
+      if (triggers.length === 0) continue
+
+      const currency = resolveDisplayCurrencyCode(user.display_currency)
+      if (!displayCurrencies.has(currency)) {
+        displayCurrencies.set(currency, loadDisplayCurrency(currency))
+      }
+
+      const emailResult = await emailService.sendAlertDigestEmail({
+        to: user.email,
+        frequency,
+        entries: buildDigestEntries(triggers),
+        displayCurrency: await displayCurrencies.get(currency)!
+      })
+
+      if (!emailResult.success) {
+        console.error(`[AlertDigest] Failed to send ${frequency} digest to user ${user.id}:`, emailResult.error)
+        result.digestsFailed++
+        continue
+      }
+
+      await client.alertTrigger.updateMany({
+        where: { id: { in: triggers.map(trigger => trigger.id) } },
+        data: { email_sent: true, email_sent_at: now }
+      })
+      await client.user.update({
+        where: { id: user.id },
+        data: { last_digest_sent_at: now }
+      })
+      result.digestsSent++
+      result.triggersIncluded += triggers.length
+    } catch (error) {
+      console.error(`[AlertDigest] Digest for user ${user.id} failed:`, error)
+      result.digestsFailed++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,69 @@
+/**
+ * API v1 Contract and OpenAPI Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { API_V1_SCHEMAS, toApiItem, toApiPagination } from '../contracts'
+import { API_V1_ROUTES, buildOpenApiDocument } from '../openapi'
+import { t } from '../schema'
+
+describe('API v1 OpenAPI document', () => {
+  it('should build JSON schemas with every object property required', () => {
+    const schema = t.object({ id: t.string(undefined, 'uuid'), price: t.nullable(t.number()) })
+
+    expect(schema.json).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string', format: 'uuid' }, price: { type: 'number', nullable: true } },
+      required: ['id', 'price'],
+    })
+  })
+
+  it('should publish every route and reference only known schemas', () => {
+    const document = buildOpenApiDocument()
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) ?? []
+
+    expect(Object.keys(document.paths)).toEqual(API_V1_ROUTES.map((route) => route.path))
+    expect(refs.length).toBeGreaterThan(0)
+    for (const ref of refs) {
+      expect(API_V1_SCHEMAS).toHaveProperty(ref.split('/').pop()!)
+    }
+  })
+
+  it('should document rate limit headers and the 429 response', () => {
+    const operation = buildOpenApiDocument().paths['/items']!.get as {
+      responses: Record<string, { headers: Record<string, unknown> }>
+    }
+
+    expect(Object.keys(operation.responses['200'].headers)).toEqual([
+      'X-RateLimit-Limit',
+      'X-RateLimit-Remaining',
+      'X-RateLimit-Reset',
+    ])
+    expect(operation.responses['429'].headers).toHaveProperty('Retry-After')
+  })
+
+  it('should map item rows to the ApiItem contract', () => {
+    const item = toApiItem({
+      id: 'item-1',
+      name: 'StatTrak™ AK-47 | Redline (Field-Tested)',
+      display_name: 'AK-47 | Redline',
+      type: 'skin',
+      rarity: 'rarity_legendary_weapon', // Importer id
+      quality: 'stattrak',
+      wear: 'field_tested',
+      weapon_type: 'AK-47',
+      image_url: 'https://example.com/redline.png',
+      marketplace_prices: [{ total_cost: 42.5, platform: 'csfloat' }],
+    })
+
+    expect(Object.keys(item).sort()).toEqual([...API_V1_SCHEMAS.Item.json.required!].sort())
+    expect(item).toMatchObject({ rarity: 'classified', quality: 'stattrak', lowestPrice: 42.5, lowestPricePlatform: 'csfloat' })
+    expect(toApiItem({ ...item, display_name: '', weapon_type: null, image_url: '', marketplace_prices: [] })).toMatchObject({
+      lowestPrice: null,
+      lowestPricePlatform: null,
+    })
+    expect(toApiPagination(2, 50, 101)).toEqual({ page: 2, pageSize: 50, total: 101, totalPages: 3 })
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * API Key and Rate Limit Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { API_KEY_PREFIX, generateApiKey, getApiKeyPrefix, getPresentedApiKey, hashApiKey } from '../api-keys'
+import { buildRateLimitResult, getWindowStart, rateLimitHeaders } from '../rate-limit'
+
+describe('API keys', () => {
+  it('should generate prefixed keys and store a stable hash', () => {
+    const key = generateApiKey()
+
+    expect(key).toMatch(new RegExp(`^${API_KEY_PREFIX}[0-9a-f]{48}$`))
+    expect(generateApiKey()).not.toBe(key)
+    expect(hashApiKey(key)).toHaveLength(64)
+    expect(hashApiKey(key)).toBe(hashApiKey(key))
+    expect(getApiKeyPrefix(key)).toBe(key.slice(0, 12))
+  })
+
+  it('should read the key from Authorization or X-API-Key', () => {
+    expect(getPresentedApiKey(new Headers({ Authorization: 'Bearer csl_abc' }))).toBe('csl_abc')
+    expect(getPresentedApiKey(new Headers({ 'X-API-Key': 'csl_def' }))).toBe('csl_def')
+    expect(getPresentedApiKey(new Headers({ Authorization: 'Basic dXNlcg==' }))).toBeNull()
+  })
+})
+
+describe('Rate limiting', () => {
+  const now = new Date('2026-03-01T12:00:42.500Z')
+  const windowStart = getWindowStart(now)
+
+  it('should use fixed one-minute windows', () => {
+    expect(windowStart.toISOString()).toBe('2026-03-01T12:00:00.000Z')
+  })
+
+  it('should allow requests up to the limit', () => {
+    const result = buildRateLimitResult(60, 60, windowStart)
+
+    expect(result).toEqual({ allowed: true, limit: 60, remaining: 0, resetAt: new Date('2026-03-01T12:01:00.000Z') })
+    expect(rateLimitHeaders(result, now)).toEqual({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': String(Date.parse('2026-03-01T12:01:00.000Z') / 1000),
+    })
+  })
+
+  it('should reject past the limit with Retry-After', () => {
+    const result = buildRateLimitResult(61, 60, windowStart)
+
+    expect(result.allowed).toBe(false)
+    expect(result.remaining).toBe(0)
+    expect(rateLimitHeaders(result, now)['Retry-After']).toBe('18')
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * API Key Service
+ *
+ * Creates, lists, revokes and authenticates ApiKey rows
+ * (src/lib/api-v1/api-keys.ts).
+ *
+ * Rate limit windows: one upsert per request increments the key's current
+ * ApiRateLimitWindow and returns the new count (src/lib/api-v1/rate-limit.ts).
+ *
+ * Critical Gotchas:
+ * - Revoked keys are kept (revoked_at set) so usage history stays attributable
+ * - last_used_at is updated at most once a minute per key to avoid a write
+ *   on every request
+ * - Old rate limit windows are deleted when a key opens a new one (count === 1)
+ */
+
+import type { ApiKey, PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import {
+  API_KEY_PREFIX,
+  ApiKeyError,
+  DEFAULT_RATE_LIMIT_PER_MINUTE,
+  MAX_API_KEYS_PER_USER,
+  generateApiKey,
+  getApiKeyPrefix,
+  hashApiKey,
+  type ApiKeySummary,
+} from './api-keys'
+import { buildRateLimitResult, getWindowStart, type RateLimitResult } from './rate-limit'
+
+const LAST_USED_RESOLUTION_MS = 60_000
+
+function toSummary(key: ApiKey): ApiKeySummary {
+  return {
+    id: key.id,
+    name: key.name,
+    keyPrefix: key.key_prefix,
+    rateLimitPerMinute: key.rate_limit_per_minute,
+    lastUsedAt: key.last_used_at,
+    revokedAt: key.revoked_at,
+    createdAt: key.created_at,
+  }
+}
+
+/**
+ * Create a key for a user
+ *
+ * @returns The plaintext key (only available here) and its summary
+ */
+export async function createApiKey(
+  userId: string,
+  name: string,
+  client: PrismaClient = prisma
+): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const trimmedName = name.trim()
+  if (trimmedName.length === 0 || trimmedName.length > 100) {
+    throw new ApiKeyError('Key name must be 1-100 characters', 'INVALID_INPUT')
+  }
+
+  const activeCount = await client.apiKey.count({ where: { user_id: userId, revoked_at: null } })
+  if (activeCount >= MAX_API_KEYS_PER_USER) {
+    throw new ApiKeyError(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys`, 'LIMIT_REACHED')
+  }
+
+  const key = generateApiKey()
+  const apiKey = await client.apiKey.create({
+    data: {
+      user_id: userId,
+      name: trimmedName,
+      key_prefix: getApiKeyPrefix(key),
+      key_hash: hashApiKey(key),
+      rate_limit_per_minute: DEFAULT_RATE_LIMIT_PER_MINUTE,
+    },
+  })
+
+  return { key, apiKey: toSummary(apiKey) }
+}
+
+/**
+ * List a user's keys, newest first
+ */
+export async function listApiKeys(userId: string, client: PrismaClient = prisma): Promise<ApiKeySummary[]> {
+  const keys = await client.apiKey.findMany({
+    where: { user_id: userId },
+    orderBy: { created_at: 'desc' },
+  })
+  return keys.map(toSummary)
+}
+
+/**
+ * Revoke one of a user's keys
+ */
+export async function revokeApiKey(userId: string, keyId: string, client: PrismaClient = prisma): Promise<void> {
+  const result = await client.apiKey.updateMany({
+    where: { id: keyId, user_id: userId, revoked_at: null },
+    data: { revoked_at: new Date() },
+  })
+
+  if (result.count === 0) {
+    throw new ApiKeyError('API key not found', 'NOT_FOUND')
+  }
+}
+
+/**
+ * Resolve a presented key to an active ApiKey row
+ *
+ * @returns The key, or null if unknown or revoked
+ */
+export async function authenticateApiKey(key: string, client: PrismaClient = prisma): Promise<ApiKey | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null
+
+  const apiKey = await client.apiKey.findUnique({ where: { key_hash: hashApiKey(key) } })
+  if (!apiKey || apiKey.revoked_at) return null
+
+  const now = new Date()
+  if (!apiKey.last_used_at || now.getTime() - apiKey.last_used_at.getTime() > LAST_USED_RESOLUTION_MS) {
+    await client.apiKey.update({ where: { id: apiKey.id }, data: { last_used_at: now } })
+  }
+
+  return apiKey
+}
+
+/**
+ * Count a request against a key's current window
+ */
+export async function consumeRateLimit(
+  apiKey: { id: string; rate_limit_per_minute: number },
+  now: Date = new Date(),
+  client: PrismaClient = prisma
+): Promise<RateLimitResult> {
+  const windowStart = getWindowStart(now)
+
+  const rows = await client.$queryRaw<Array<{ request_count: number }>>`
+    INSERT INTO api_rate_limit_windows (api_key_id, window_start, request_count)
+    VALUES (${apiKey.id}, ${windowStart}, 1)
+    ON CONFLICT (api_key_id, window_start)
+    DO UPDATE SET request_count = api_rate_limit_windows.request_count + 1
+    RETURNING request_count
+  `
+  const requestCount = Number(rows[0]?.request_count ?? 1)
+
+  if (requestCount === 1) {
+    await client.apiRateLimitWindow.deleteMany({
+      where: { api_key_id: apiKey.id, window_start: { lt: windowStart } },
+    })
+  }
+
+  return buildRateLimitResult(requestCount, apiKey.rate_limit_per_minute, windowStart)
+}
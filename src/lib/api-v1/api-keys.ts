@@ -0,0 +1,68 @@
+/**
+ * API Keys
+ *
+ * Per-user tokens for /api/v1. A key is shown once at creation; only its
+ * SHA-256 hash is stored, plus a short prefix so users can tell keys apart.
+ *
+ * Key format: "csl_" + 48 hex chars (24 random bytes)
+ *
+ * Keys are accepted as `Authorization: Bearer csl_...` or `X-API-Key: csl_...`.
+ * Database access lives in ./api-key-service.ts.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+
+export const API_KEY_PREFIX = 'csl_'
+export const MAX_API_KEYS_PER_USER = 10
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60
+
+const KEY_PREFIX_LENGTH = 12
+
+/**
+ * Error raised for invalid API key requests
+ */
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public code: 'INVALID_INPUT' | 'LIMIT_REACHED' | 'NOT_FOUND'
+  ) {
+    super(message)
+    this.name = 'ApiKeyError'
+  }
+}
+
+/**
+ * Key metadata safe to show in the account UI (never the hash)
+ */
+export interface ApiKeySummary {
+  id: string
+  name: string
+  keyPrefix: string
+  rateLimitPerMinute: number
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString('hex')}`
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+export function getApiKeyPrefix(key: string): string {
+  return key.slice(0, KEY_PREFIX_LENGTH)
+}
+
+/**
+ * Read the presented key from Authorization or X-API-Key
+ */
+export function getPresentedApiKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization')
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || null
+  }
+  return headers.get('x-api-key')?.trim() || null
+}
@@ -0,0 +1,166 @@
+/**
+ * Public API v1 Response Contracts
+ *
+ * Stable response shapes for /api/v1. Internal routes (/api/items,
+ * /api/search, /api/cases/[slug]) follow the UI and change with it; v1
+ * handlers map their data through the functions here instead.
+ *
+ * Changing a contract is a breaking change: add fields, never rename or
+ * remove them within v1.
+ */
+
+import { t, type Infer } from './schema'
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service'
+import { normalizeRarity, RARITY_TIERS } from '../normalize'
+
+export const ApiItemSchema = t.object(
+  {
+    id: t.string('Item UUID', 'uuid'),
+    name: t.string('Market hash name, e.g. "StatTrak™ AK-47 | Redline (Field-Tested)"'),
+    displayName: t.string(),
+    type: t.string('skin, sticker, case, agent, keychain, ...'),
+    rarity: t.nullable(t.enum(RARITY_TIERS, 'Weapon grade (sticker and agent grades map to the same tier)')),
+    quality: t.enum(['normal', 'stattrak', 'souvenir'] as const),
+    wear: t.string('factory_new, minimal_wear, field_tested, well_worn, battle_scarred or none'),
+    weaponType: t.nullable(t.string()),
+    imageUrl: t.string(undefined, 'uri'),
+    lowestPrice: t.nullable(t.number('Cheapest listing in USD, including fees')),
+    lowestPricePlatform: t.nullable(t.string()),
+  },
+  'Catalogue item'
+)
+
+export const ApiPaginationSchema = t.object({
+  page: t.integer(),
+  pageSize: t.integer(),
+  total: t.integer(),
+  totalPages: t.integer(),
+})
+
+export const ApiItemListSchema = t.object({
+  data: t.array(ApiItemSchema),
+  pagination: ApiPaginationSchema,
+})
+
+export const ApiItemResponseSchema = t.object({
+  data: ApiItemSchema,
+})
+
+export const ApiCaseSchema = t.object(
+  {
+    id: t.string(undefined, 'uuid'),
+    name: t.string(),
+    slug: t.string(),
+    description: t.nullable(t.string()),
+    imageUrl: t.string(undefined, 'uri'),
+    keyPrice: t.number('USD'),
+    releaseDate: t.string(undefined, 'date-time'),
+    expectedValue: t.number('Per opening, net of seller fees (USD)'),
+    roi: t.number('Percentage'),
+    probabilityValid: t.boolean('Drop probabilities sum to 100%'),
+    items: t.array(
+      t.object({
+        id: t.string(undefined, 'uuid'),
+        name: t.string(),
+        rarity: t.nullable(t.enum(RARITY_TIERS, 'Weapon grade (sticker and agent grades map to the same tier)')),
+        dropProbability: t.number('Percentage'),
+        isSpecialItem: t.boolean('Knife or gloves'),
+        lowestPrice: t.nullable(t.number('USD')),
+      })
+    ),
+  },
+  'Case with contents and expected value'
+)
+
+export const ApiCaseResponseSchema = t.object({
+  data: ApiCaseSchema,
+})
+
+export const ApiErrorSchema = t.object({
+  error: t.object({
+    code: t.string('Machine-readable code, e.g. RATE_LIMITED'),
+    message: t.string(),
+  }),
+})
+
+/**
+ * Named schemas published under components.schemas
+ */
+export const API_V1_SCHEMAS = {
+  Item: ApiItemSchema,
+  ItemList: ApiItemListSchema,
+  ItemResponse: ApiItemResponseSchema,
+  Case: ApiCaseSchema,
+  CaseResponse: ApiCaseResponseSchema,
+  Error: ApiErrorSchema,
+}
+
+export type ApiV1SchemaName = keyof typeof API_V1_SCHEMAS
+
+export type ApiItem = Infer<typeof ApiItemSchema>
+export type ApiItemList = Infer<typeof ApiItemListSchema>
+export type ApiItemResponse = Infer<typeof ApiItemResponseSchema>
+export type ApiCase = Infer<typeof ApiCaseSchema>
+export type ApiCaseResponse = Infer<typeof ApiCaseResponseSchema>
+export type ApiError = Infer<typeof ApiErrorSchema>
+
+function toQuality(value: string): ApiItem['quality'] {
+  return value === 'stattrak' || value === 'souvenir' ? value : 'normal'
+}
+
+/**
+ * Item fields needed for toApiItem (Prisma select)
+ */
+export const API_ITEM_SELECT = {
+  id: true,
+  name: true,
+  display_name: true,
+  type: true,
+  rarity: true,
+  quality: true,
+  wear: true,
+  weapon_type: true,
+  image_url: true,
+  marketplace_prices: {
+    where: NON_QUARANTINED_PRICE,
+    orderBy: { total_cost: 'asc' as const },
+    take: 1,
+    select: { total_cost: true, platform: true },
+  },
+}
+
+/**
+ * Item row (selected with API_ITEM_SELECT) → ApiItem
+ */
+export function toApiItem(item: {
+  id: string
+  name: string
+  display_name: string
+  type: string
+  rarity: string | null
+  quality: string
+  wear: string
+  weapon_type: string | null
+  image_url: string
+  marketplace_prices: Array<{ total_cost: number; platform: string }>
+}): ApiItem {
+  const cheapest = item.marketplace_prices[0]
+
+  return {
+    id: item.id,
+    name: item.name,
+    displayName: item.display_name,
+    type: item.type,
+    rarity: normalizeRarity(item.rarity),
+    quality: toQuality(item.quality),
+    wear: item.wear,
+    weaponType: item.weapon_type,
+    imageUrl: item.image_url,
+    lowestPrice: cheapest ? cheapest.total_cost : null,
+    lowestPricePlatform: cheapest ? cheapest.platform : null,
+  }
+}
+
+export function toApiPagination(page: number, pageSize: number, total: number): Infer<typeof ApiPaginationSchema> {
+  return { page, pageSize, total, totalPages: Math.ceil(total / pageSize) }
+}
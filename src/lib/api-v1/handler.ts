@@ -0,0 +1,62 @@
+/**
+ * /api/v1 Request Wrapper
+ *
+ * Authenticates the API key, applies its rate limit and adds the
+ * X-RateLimit-* headers to every response, including errors.
+ *
+ * Errors use the ApiError envelope: { error: { code, message } }.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { ApiKey } from '@prisma/client'
+import { getPresentedApiKey } from './api-keys'
+import { authenticateApiKey, consumeRateLimit } from './api-key-service'
+import type { ApiError } from './contracts'
+import { rateLimitHeaders } from './rate-limit'
+
+export type ApiV1Handler<P> = (
+  request: NextRequest,
+  context: { params: P; apiKey: ApiKey }
+) => Promise<NextResponse>
+
+export function apiError(status: number, code: string, message: string, headers?: Record<string, string>) {
+  return NextResponse.json<ApiError>({ error: { code, message } }, { status, headers })
+}
+
+/**
+ * Wrap a v1 route handler with key auth and rate limiting
+ */
+export function withApiKey<P = Record<string, never>>(handler: ApiV1Handler<P>) {
+  return async (request: NextRequest, { params }: { params: P }) => {
+    const presentedKey = getPresentedApiKey(request.headers)
+    if (!presentedKey) {
+      return apiError(401, 'UNAUTHORIZED', 'Missing API key. Send it as "Authorization: Bearer <key>".')
+    }
+
+    // Key lookup and rate limiting hit the database; failures there are 500s in the v1 envelope too
+    let headers: Record<string, string> = {}
+    let response: NextResponse
+    try {
+      const apiKey = await authenticateApiKey(presentedKey)
+      if (!apiKey) {
+        return apiError(401, 'UNAUTHORIZED', 'Invalid or revoked API key')
+      }
+
+      const rateLimit = await consumeRateLimit(apiKey)
+      headers = rateLimitHeaders(rateLimit)
+      if (!rateLimit.allowed) {
+        return apiError(429, 'RATE_LIMITED', `Rate limit of ${rateLimit.limit} requests per minute exceeded`, headers)
+      }
+
+      response = await handler(request, { params, apiKey })
+    } catch (error) {
+      console.error(`[API v1 ${request.nextUrl.pathname}] Error:`, error)
+      response = apiError(500, 'INTERNAL_ERROR', 'Internal server error')
+    }
+
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value)
+    }
+    return response
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * OpenAPI Document for /api/v1
+ *
+ * Built from API_V1_ROUTES and the contract schemas in ./contracts, which are
+ * the same definitions the route handlers are typed against. Served at
+ * GET /api/v1/openapi.json.
+ *
+ * Add new endpoints to API_V1_ROUTES when adding a route under src/app/api/v1.
+ */
+
+import { API_V1_SCHEMAS, type ApiV1SchemaName } from './contracts'
+import type { JsonSchema } from './schema'
+
+export const API_V1_VERSION = '1.0.0'
+
+export interface ApiV1Parameter {
+  name: string
+  in: 'query' | 'path'
+  description: string
+  required?: boolean
+  schema: JsonSchema
+}
+
+export interface ApiV1Route {
+  method: 'get'
+  path: string // OpenAPI path template, e.g. /items/{id}
+  operationId: string
+  summary: string
+  parameters: ApiV1Parameter[]
+  response: ApiV1SchemaName
+  notFound?: boolean // Documents a 404 response
+}
+
+export const API_V1_ROUTES: ApiV1Route[] = [
+  {
+    method: 'get',
+    path: '/items',
+    operationId: 'listItems',
+    summary: 'List catalogue items with their cheapest current listing',
+    parameters: [
+      { name: 'q', in: 'query', description: 'Case-insensitive name search', schema: { type: 'string' } },
+      { name: 'type', in: 'query', description: 'Item type, e.g. skin or sticker', schema: { type: 'string' } },
+      { name: 'rarity', in: 'query', description: 'Weapon grade, e.g. covert', schema: { type: 'string' } },
+      { name: 'weaponType', in: 'query', description: 'Weapon, e.g. AK-47', schema: { type: 'string' } },
+      { name: 'page', in: 'query', description: 'Page number (default 1)', schema: { type: 'integer' } },
+      { name: 'pageSize', in: 'query', description: 'Items per page (default 50, max 100)', schema: { type: 'integer' } },
+    ],
+    response: 'ItemList',
+  },
+  {
+    method: 'get',
+    path: '/items/{id}',
+    operationId: 'getItem',
+    summary: 'Get one item',
+    parameters: [{ name: 'id', in: 'path', description: 'Item UUID', required: true, schema: { type: 'string' } }],
+    response: 'ItemResponse',
+    notFound: true,
+  },
+  {
+    method: 'get',
+    path: '/cases/{slug}',
+    operationId: 'getCase',
+    summary: 'Get a case with its contents and expected value per opening',
+    parameters: [{ name: 'slug', in: 'path', description: 'Case slug', required: true, schema: { type: 'string' } }],
+    response: 'CaseResponse',
+    notFound: true,
+  },
+]
+
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': { description: 'Requests allowed per minute', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Unix time (seconds) when the window resets', schema: { type: 'integer' } },
+}
+
+function schemaRef(name: ApiV1SchemaName): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` }
+}
+
+function jsonResponse(description: string, name: ApiV1SchemaName, headers: Record<string, unknown> = RATE_LIMIT_HEADERS) {
+  return { description, headers, content: { 'application/json': { schema: schemaRef(name) } } }
+}
+
+export function buildOpenApiDocument(serverUrl = '/api/v1') {
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const route of API_V1_ROUTES) {
+    const responses: Record<string, unknown> = {
+      '200': jsonResponse('Success', route.response),
+      '401': jsonResponse('Missing, invalid or revoked API key', 'Error', {}),
+      '429': jsonResponse('Rate limit exceeded', 'Error', {
+        ...RATE_LIMIT_HEADERS,
+        'Retry-After': { description: 'Seconds until the window resets', schema: { type: 'integer' } },
+      }),
+    }
+    if (route.notFound) {
+      responses['404'] = jsonResponse('Not found', 'Error')
+    }
+
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: {
+        operationId: route.operationId,
+        summary: route.summary,
+        parameters: route.parameters,
+        responses,
+      },
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'csloadout.gg API',
+      version: API_V1_VERSION,
+      description:
+        'Stable public API. Create an API key from your account and send it as "Authorization: Bearer <key>".',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: Object.fromEntries(Object.entries(API_V1_SCHEMAS).map(([name, schema]) => [name, schema.json])),
+    },
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * API Key Rate Limiting
+ *
+ * Fixed one-minute windows per key, counted in ApiRateLimitWindow so limits
+ * hold across serverless instances (consumeRateLimit in ./api-key-service.ts).
+ *
+ * Headers on every /api/v1 response:
+ * - X-RateLimit-Limit: requests allowed per window
+ * - X-RateLimit-Remaining: requests left in the current window
+ * - X-RateLimit-Reset: Unix seconds when the window resets
+ * - Retry-After: seconds to wait (429 responses only)
+ *
+ * Critical Gotchas:
+ * - Rejected requests still count, so a client hammering past the limit
+ *   stays limited until the window ends
+ */
+
+export const RATE_LIMIT_WINDOW_MS = 60_000
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: Date
+}
+
+/**
+ * Start of the window containing `now`
+ */
+export function getWindowStart(now: Date): Date {
+  return new Date(Math.floor(now.getTime() / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS)
+}
+
+export function buildRateLimitResult(requestCount: number, limit: number, windowStart: Date): RateLimitResult {
+  return {
+    allowed: requestCount <= limit,
+    limit,
+    remaining: Math.max(0, limit - requestCount),
+    resetAt: new Date(windowStart.getTime() + RATE_LIMIT_WINDOW_MS),
+  }
+}
+
+export function rateLimitHeaders(result: RateLimitResult, now: Date = new Date()): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt.getTime() / 1000)),
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((result.resetAt.getTime() - now.getTime()) / 1000)))
+  }
+
+  return headers
+}
@@ -0,0 +1,57 @@
+/**
+ * Response Schema Builder
+ *
+ * Describes /api/v1 response contracts once and derives both the TypeScript
+ * type (Infer<typeof schema>) and the OpenAPI schema (schema.json) from the
+ * same definition, so the published document cannot drift from the handlers.
+ *
+ * Critical Gotchas:
+ * - Every object property is required; absent values are null, never
+ *   missing, so script consumers can rely on the keys
+ * - Only the OpenAPI 3.0 subset the contracts need is supported
+ */
+
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  format?: string
+  description?: string
+  nullable?: boolean
+  enum?: readonly string[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  $ref?: string
+}
+
+/**
+ * Schema node; `type` is a compile-time marker only
+ */
+export interface Schema<T> {
+  readonly json: JsonSchema
+  readonly type: T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+function schema<T>(json: JsonSchema): Schema<T> {
+  return { json } as Schema<T>
+}
+
+export const t = {
+  string: (description?: string, format?: string) => schema<string>({ type: 'string', format, description }),
+  number: (description?: string) => schema<number>({ type: 'number', description }),
+  integer: (description?: string) => schema<number>({ type: 'integer', description }),
+  boolean: (description?: string) => schema<boolean>({ type: 'boolean', description }),
+  enum: <V extends string>(values: readonly V[], description?: string) =>
+    schema<V>({ type: 'string', enum: values, description }),
+  nullable: <T>(inner: Schema<T>) => schema<T | null>({ ...inner.json, nullable: true }),
+  array: <T>(items: Schema<T>, description?: string) =>
+    schema<T[]>({ type: 'array', items: items.json, description }),
+  object: <P extends Record<string, Schema<unknown>>>(properties: P, description?: string) =>
+    schema<{ [K in keyof P]: Infer<P[K]> }>({
+      type: 'object',
+      description,
+      properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, value.json])),
+      required: Object.keys(properties),
+    }),
+}
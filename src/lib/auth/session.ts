@@ -21,6 +21,7 @@ export interface SessionUser {
   avatar: string;
   hasCS2Game: boolean;
   lastLogin: Date;
+  displayCurrency: string; // Preferred currency for rendering prices
 }
 
 export interface Session {
@@ -81,6 +82,7 @@ export const getSession = cache(async (): Promise<Session | null> => {
       avatar: session.user.avatar,
       hasCS2Game: session.user.has_cs2_game,
       lastLogin: session.user.last_login,
+      displayCurrency: session.user.display_currency,
     },
     sessionToken: session.session_token,
     expires: session.expires,
@@ -163,6 +165,7 @@ export async function getSessionFromRequest(request: Request): Promise<Session |
       avatar: session.user.avatar,
       hasCS2Game: session.user.has_cs2_game,
       lastLogin: session.user.last_login,
+      displayCurrency: session.user.display_currency,
     },
     sessionToken: session.session_token,
     expires: session.expires,
@@ -0,0 +1,132 @@
+/**
+ * Loadout Auto-Fill Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { autoFillSlots, getAutoFillSlot, getSavedSkinSlot, scoreAutoFillCandidate, type AutoFillCandidate } from '../auto-fill'
+
+function candidate(overrides: Partial<AutoFillCandidate> & { id: string; weapon_type: string | null; price: number }): AutoFillCandidate {
+  return {
+    name: overrides.id,
+    type: 'skin',
+    rarity: 'rarity_rare_weapon',
+    quality: 'normal',
+    wear: 'field_tested',
+    color_families: ['gray'],
+    platform: 'csfloat',
+    ...overrides,
+  }
+}
+
+const slots = [
+  { slot: 'AK-47', category: 'weapon_skins', budget: 20 },
+  { slot: 'Glock-18', category: 'weapon_skins', budget: 5 },
+  { slot: 'Agent', category: 'agents', budget: 1 },
+]
+
+describe('getAutoFillSlot', () => {
+  it('slots knives, gloves and agents by item type and weapons by weapon type', () => {
+    // Importer-shaped rows: knife/glove model as weapon_type, none for agents
+    expect(getAutoFillSlot({ type: 'knife', weapon_type: 'Karambit' })).toBe('Knife')
+    expect(getAutoFillSlot({ type: 'gloves', weapon_type: 'Sport Gloves' })).toBe('Gloves')
+    expect(getAutoFillSlot({ type: 'agent', weapon_type: null })).toBe('Agent')
+    expect(getAutoFillSlot({ type: 'skin', weapon_type: 'AK-47' })).toBe('AK-47')
+    expect(getAutoFillSlot({ type: 'sticker', weapon_type: null })).toBeNull()
+  })
+
+  it('reads older saved agent rows into the agent slot', () => {
+    expect(getSavedSkinSlot('Agent CT')).toBe('Agent')
+    expect(getSavedSkinSlot('Knife')).toBe('Knife')
+  })
+})
+
+describe('scoreAutoFillCandidate', () => {
+  it('ranks on-theme above rarity and rarity above wear', () => {
+    const red = candidate({ id: 'red', weapon_type: 'AK-47', price: 1, color_families: ['red'], rarity: 'rarity_rare_weapon' })
+    const covert = candidate({ id: 'covert', weapon_type: 'AK-47', price: 1, rarity: 'rarity_ancient_weapon', wear: 'battle_scarred' })
+    const factoryNew = candidate({ id: 'fn', weapon_type: 'AK-47', price: 1, rarity: 'rarity_legendary_weapon', wear: 'factory_new' })
+
+    expect(scoreAutoFillCandidate(red, { theme: 'red' })).toBeGreaterThan(scoreAutoFillCandidate(covert, { theme: 'red' }))
+    expect(scoreAutoFillCandidate(covert, {})).toBeGreaterThan(scoreAutoFillCandidate(factoryNew, {}))
+  })
+
+  it('scores souvenirs as off-quality unless nothing else fits', () => {
+    const souvenir = candidate({ id: 'souvenir', weapon_type: 'AK-47', price: 1, quality: 'souvenir' })
+    const normal = candidate({ id: 'normal', weapon_type: 'AK-47', price: 1 })
+
+    expect(scoreAutoFillCandidate(normal, {})).toBeGreaterThan(scoreAutoFillCandidate(souvenir, {}))
+  })
+})
+
+describe('autoFillSlots', () => {
+  it('picks the best item within each slot budget and explains it', () => {
+    const result = autoFillSlots(26, 0, slots, [
+      candidate({ id: 'ak-cheap', weapon_type: 'AK-47', price: 3 }),
+      candidate({ id: 'ak-red', weapon_type: 'AK-47', price: 18, color_families: ['red', 'gray'] }),
+      candidate({ id: 'ak-too-much', weapon_type: 'AK-47', price: 40, color_families: ['red'], rarity: 'rarity_ancient_weapon' }),
+      candidate({ id: 'glock', weapon_type: 'Glock-18', price: 2 }),
+      candidate({ id: 'agent', type: 'agent', weapon_type: null, price: 0.9 }),
+    ], { theme: 'red' })
+
+    expect(result.picks.map((pick) => pick.itemId)).toEqual(['ak-red', 'glock', 'agent'])
+    expect(result.picks[0]).toMatchObject({ onTheme: true, weaponType: 'AK-47', platform: 'csfloat' })
+    expect(result.picks[0].explanation).toBe('Best match within its $20.00 budget.')
+    expect(result.picks[1].explanation).toContain('no red item was affordable')
+    expect(result.picks[2].weaponType).toBe('Agent')
+    expect(result.cost).toBe(20.9)
+    expect(result.leftover).toBe(5.1)
+    expect(result.unfilled).toEqual([])
+  })
+
+  it('fills slots that nothing fits from leftover budget', () => {
+    const result = autoFillSlots(26, 0, slots, [
+      candidate({ id: 'ak', weapon_type: 'AK-47', price: 10 }),
+      candidate({ id: 'glock', weapon_type: 'Glock-18', price: 2 }),
+      candidate({ id: 'agent', type: 'agent', weapon_type: null, price: 4 }),
+    ])
+
+    const agent = result.picks.find((pick) => pick.slot === 'Agent')
+    expect(agent?.itemId).toBe('agent')
+    expect(agent?.explanation).toContain('filled from leftover budget')
+    expect(result.leftover).toBe(10)
+  })
+
+  it('spends leftover budget on upgrades, largest slot first', () => {
+    const result = autoFillSlots(26, 0, slots, [
+      candidate({ id: 'ak', weapon_type: 'AK-47', price: 10 }),
+      candidate({ id: 'ak-covert', weapon_type: 'AK-47', price: 24, rarity: 'rarity_ancient_weapon' }),
+      candidate({ id: 'glock', weapon_type: 'Glock-18', price: 1 }),
+      candidate({ id: 'glock-fn', weapon_type: 'Glock-18', price: 6, wear: 'factory_new' }),
+    ])
+
+    expect(result.picks.map((pick) => pick.itemId)).toEqual(['ak-covert', 'glock'])
+    expect(result.picks[0].explanation).toContain('upgraded from ak with $14.00 of leftover budget')
+    expect(result.unfilled).toEqual([{ slot: 'Agent', category: 'agents', budget: 1, reason: 'No listed items' }])
+    expect(result.cost + result.leftover).toBe(26)
+  })
+
+  it('never goes over budget when committed spend leaves less than the allocations', () => {
+    const result = autoFillSlots(26, 20, slots, [
+      candidate({ id: 'ak', weapon_type: 'AK-47', price: 5 }),
+      candidate({ id: 'glock', weapon_type: 'Glock-18', price: 2 }),
+    ])
+
+    expect(result.picks.map((pick) => pick.itemId)).toEqual(['ak'])
+    expect(result.unfilled.map((slot) => slot.reason)).toEqual([
+      'No listed item fits the remaining budget',
+      'No listed items',
+    ])
+    expect(result.leftover).toBe(1)
+  })
+
+  it('notes when the preferred quality was not affordable', () => {
+    const result = autoFillSlots(20, 0, [slots[0]], [
+      candidate({ id: 'ak', weapon_type: 'AK-47', price: 10 }),
+      candidate({ id: 'ak-st', weapon_type: 'AK-47', price: 30, quality: 'stattrak' }),
+    ], { quality: 'stattrak' })
+
+    expect(result.picks[0].explanation).toContain('no StatTrak™ item was affordable')
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Loadout Builder Slot Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildSlotSearchParams, findSlotForItem, getSavedWeaponType, itemFitsSlot } from '../builder-slots'
+
+const ak = { type: 'skin', weapon_type: 'AK-47' }
+const glock = { type: 'skin', weapon_type: 'Glock-18' }
+const karambit = { type: 'knife', weapon_type: 'Karambit' }
+const sportGloves = { type: 'gloves', weapon_type: 'Sport Gloves' }
+const agent = { type: 'agent', weapon_type: null }
+
+describe('itemFitsSlot', () => {
+  it('places guns by weapon type, and knives, gloves and agents by item type', () => {
+    expect(itemFitsSlot('primary', ak)).toBe(true)
+    expect(itemFitsSlot('primary', glock)).toBe(false)
+    expect(itemFitsSlot('secondary', glock)).toBe(true)
+    expect(itemFitsSlot('knife', karambit)).toBe(true)
+    expect(itemFitsSlot('gloves', sportGloves)).toBe(true)
+    expect(itemFitsSlot('knife', { type: 'skin', weapon_type: 'Karambit' })).toBe(false)
+    expect(itemFitsSlot('agents', agent)).toBe(true)
+    expect(itemFitsSlot('primary', agent)).toBe(false)
+  })
+
+  it('finds the slot an item belongs in', () => {
+    expect(findSlotForItem(karambit)).toBe('knife')
+    expect(findSlotForItem(agent)).toBe('agents')
+    expect(findSlotForItem({ type: 'music_kit', weapon_type: null })).toBeNull()
+  })
+})
+
+describe('getSavedWeaponType', () => {
+  it('saves knives, gloves and agents under the loadout page categories', () => {
+    expect(getSavedWeaponType('primary', ak)).toBe('AK-47')
+    expect(getSavedWeaponType('knife', karambit)).toBe('Knife')
+    expect(getSavedWeaponType('gloves', sportGloves)).toBe('Gloves')
+    expect(getSavedWeaponType('agents', agent)).toBe('Agent')
+  })
+})
+
+describe('buildSlotSearchParams', () => {
+  it('filters by the slot and the most it can cost', () => {
+    const params = buildSlotSearchParams('secondary', ' fade ', 42.5)
+
+    expect(params.get('query')).toBe('fade')
+    expect(params.get('sortBy')).toBe('relevance')
+    expect(params.get('weaponType')?.split(',')).toContain('Glock-18')
+    expect(params.get('priceMax')).toBe('42.50')
+    expect(params.has('type')).toBe(false)
+  })
+
+  it('searches knives and gloves by item type', () => {
+    expect(buildSlotSearchParams('knife', '').get('type')).toBe('knife')
+    expect(buildSlotSearchParams('gloves', '').get('type')).toBe('gloves')
+    expect(buildSlotSearchParams('gloves', '').has('weaponType')).toBe(false)
+  })
+
+  it('searches agents by item type and lists the priciest first without a query', () => {
+    const params = buildSlotSearchParams('agents', '')
+
+    expect(params.get('type')).toBe('agent')
+    expect(params.get('sortBy')).toBe('price_desc')
+    expect(params.has('weaponType')).toBe(false)
+    expect(params.has('priceMax')).toBe(false)
+  })
+})
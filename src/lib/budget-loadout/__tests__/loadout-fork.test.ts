@@ -0,0 +1,73 @@
+/**
+ * Loadout Fork Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  buildForkTree,
+  countForks,
+  repriceForkedCharms,
+  repriceForkedSkin,
+  toForkName,
+  type ForkTreeRow
+} from '../loadout-fork'
+
+function row(id: string, forkedFromId: string | null, isPublic = true): ForkTreeRow {
+  return { id, name: `Loadout ${id}`, slug: null, is_public: isPublic, forked_from_id: forkedFromId, creator: 'player' }
+}
+
+describe('Loadout Forking', () => {
+  it('should name forks without stacking suffixes', () => {
+    expect(toForkName('Red Dragon')).toBe('Red Dragon (fork)')
+    expect(toForkName('Red Dragon (fork)')).toBe('Red Dragon (fork)')
+    expect(toForkName('x'.repeat(300))).toHaveLength(255)
+  })
+
+  it('should re-price skins and flag price changes', () => {
+    const parent = { price: 10, platform: 'steam' }
+
+    expect(repriceForkedSkin(parent, { total_cost: 12.5, platform: 'csfloat' })).toEqual({
+      price: 12.5,
+      platform: 'csfloat',
+      forkedPrice: 10,
+      priceChange: 2.5,
+      status: 'increased',
+    })
+    expect(repriceForkedSkin(parent, { total_cost: 8, platform: 'steam' }).status).toBe('decreased')
+    expect(repriceForkedSkin(parent, { total_cost: 10.004, platform: 'steam' }).status).toBe('unchanged')
+  })
+
+  it('should keep the parent price when nothing is listed', () => {
+    expect(repriceForkedSkin({ price: 10, platform: 'steam' }, undefined)).toEqual({
+      price: 10,
+      platform: 'steam',
+      forkedPrice: 10,
+      priceChange: 0,
+      status: 'unavailable',
+    })
+  })
+
+  it('should re-price attached charms by their charm item', () => {
+    const charms = [{ name: "Lil' Squirt", pattern: 12, item_id: 'charm-1', price: 3, platform: 'steam' }]
+
+    const [repriced] = repriceForkedCharms(charms, new Map([['charm-1', { total_cost: 4.25, platform: 'csfloat' }]]))
+
+    expect(repriced.charm).toEqual({ name: "Lil' Squirt", pattern: 12, item_id: 'charm-1', price: 4.25, platform: 'csfloat' })
+    expect(repriced.pricing).toMatchObject({ forkedPrice: 3, priceChange: 1.25, status: 'increased' })
+    expect(repriceForkedCharms(charms, new Map())[0].pricing.status).toBe('unavailable')
+  })
+
+  it('should build the fork tree and lift public forks of private ones', () => {
+    const rows = [row('root', null), row('a', 'root'), row('b', 'root', false), row('c', 'b'), row('d', 'a')]
+
+    const tree = buildForkTree('root', rows)!
+
+    expect(tree.forks.map((fork) => fork.id)).toEqual(['a', 'c'])
+    expect(tree.forks[0].forks.map((fork) => fork.id)).toEqual(['d'])
+    expect(countForks(tree)).toBe(3)
+    expect(countForks(buildForkTree('root', rows, () => true)!)).toBe(4)
+    expect(buildForkTree('missing', rows)).toBeNull()
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Feature 08 Phase 7f: Loadout OpenGraph Image Data Tests
+ *
+ * BDD Reference: features/08-budget-loadout-builder-phase7.feature
+ *
+ * Tests the view model behind /api/og-image/[id]:
+ * - Weapon grid ordering and overflow
+ * - Total cost vs budget from LoadoutWeaponSkin rows
+ * - Creator attribution and updated_at cache version
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildLoadoutOgImageData, OG_IMAGE_MAX_WEAPONS } from '../og-image'
+
+function createLoadoutRow(weaponCount: number, overrides: { creator_name?: string | null } = {}) {
+  return {
+    id: 'loadout-123',
+    name: 'Red Dragon Budget',
+    budget: '150.00',
+    creator_name: overrides.creator_name ?? null,
+    updated_at: new Date('2025-11-01T12:00:00Z'),
+    user: { persona_name: 'TestPlayer' },
+    weapon_skins: Array.from({ length: weaponCount }, (_, i) => ({
+      weapon_type: `weapon-${i}`,
+      price: (10 + i).toFixed(2),
+      item: { display_name: `Skin ${i}`, image_url: `https://cdn.example/skin-${i}.png` },
+    })),
+  }
+}
+
+describe('Feature 08 Phase 7f - Loadout OG Image Data', () => {
+  it('should total the weapon skin prices against the budget', () => {
+    const data = buildLoadoutOgImageData(createLoadoutRow(3))
+
+    expect(data.totalCost).toBe(33)
+    expect(data.budget).toBe(150)
+    expect(data.budgetUsedPercent).toBe(22)
+  })
+
+  it('should lead with the most expensive weapons and summarize the overflow', () => {
+    const data = buildLoadoutOgImageData(createLoadoutRow(OG_IMAGE_MAX_WEAPONS + 2))
+
+    expect(data.weapons).toHaveLength(OG_IMAGE_MAX_WEAPONS)
+    expect(data.weapons[0].name).toBe(`Skin ${OG_IMAGE_MAX_WEAPONS + 1}`)
+    expect(data.hiddenWeaponCount).toBe(2)
+  })
+
+  it('should credit the creator name over the Steam persona', () => {
+    expect(buildLoadoutOgImageData(createLoadoutRow(1)).creator).toBe('TestPlayer')
+    expect(buildLoadoutOgImageData(createLoadoutRow(1, { creator_name: 'ohnePixel' })).creator).toBe('ohnePixel')
+  })
+
+  it('should version the image by updated_at', () => {
+    expect(buildLoadoutOgImageData(createLoadoutRow(1)).version).toBe(
+      String(new Date('2025-11-01T12:00:00Z').getTime())
+    )
+  })
+})
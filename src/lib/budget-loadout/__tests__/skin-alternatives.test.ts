@@ -0,0 +1,98 @@
+/**
+ * Loadout Slot Alternatives Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  generateSkinAlternatives,
+  getReferencePrice,
+  normalizeStoredAlternatives,
+  type AlternativeCandidate,
+  type AlternativeSlot,
+} from '../skin-alternatives'
+
+function candidate(overrides: Partial<AlternativeCandidate> & { id: string; name: string }): AlternativeCandidate {
+  return {
+    rarity: 'classified',
+    quality: 'normal',
+    wear: 'field_tested',
+    collection_id: 'phoenix',
+    price: null,
+    platform: 'csfloat',
+    ...overrides,
+  }
+}
+
+const redline = candidate({ id: 'redline-ft', name: 'AK-47 | Redline (Field-Tested)', price: 30 })
+
+const slot: AlternativeSlot = {
+  item: redline,
+  selectedPlatform: 'steam',
+  listings: [
+    { platform: 'steam', total_cost: 32 },
+    { platform: 'csfloat', total_cost: 30 },
+  ],
+}
+
+const candidates = [
+  redline,
+  candidate({ id: 'redline-mw', name: 'AK-47 | Redline (Minimal Wear)', wear: 'minimal_wear', price: 80 }),
+  candidate({ id: 'redline-ww', name: 'AK-47 | Redline (Well-Worn)', wear: 'well_worn', price: 25 }),
+  candidate({ id: 'redline-st', name: 'StatTrak™ AK-47 | Redline (Field-Tested)', quality: 'stattrak', price: 70 }),
+  candidate({ id: 'frontside', name: 'AK-47 | Frontside Misty (Field-Tested)', collection_id: 'winter', price: 20 }),
+  candidate({ id: 'jaguar', name: 'AK-47 | Jaguar (Field-Tested)', price: 15 }),
+  candidate({ id: 'unlisted', name: 'AK-47 | Point Disarray (Field-Tested)', price: null, platform: null }),
+  candidate({ id: 'vulcan', name: 'AK-47 | Vulcan (Field-Tested)', rarity: 'covert', price: 10 }),
+]
+
+describe('Slot Alternatives', () => {
+  it('should measure savings against the selected platform price', () => {
+    expect(getReferencePrice(slot)).toBe(32)
+    expect(getReferencePrice({ ...slot, selectedPlatform: 'buff163' })).toBe(30)
+    expect(getReferencePrice({ ...slot, listings: [] })).toBeNull()
+  })
+
+  it('should suggest every kind of alternative ranked by savings', () => {
+    const alternatives = generateSkinAlternatives(slot, candidates)
+
+    expect(alternatives.map((alternative) => [alternative.kind, alternative.item_id, alternative.savings])).toEqual([
+      ['lookalike', 'jaguar', 17],
+      ['lookalike', 'frontside', 12],
+      ['wear', 'redline-ww', 7],
+      ['cheaper_platform', 'redline-ft', 2],
+      ['stattrak', 'redline-st', -38],
+      ['wear', 'redline-mw', -48],
+    ])
+    expect(alternatives[3]).toMatchObject({ platform: 'csfloat', price: 30 })
+  })
+
+  it('should rank same-collection look-alikes first and skip other tiers and unlisted items', () => {
+    const alternatives = generateSkinAlternatives(slot, candidates, { maxLookalikes: 1, maxWears: 0, maxAlternatives: 6 })
+    const itemIds = alternatives.map((alternative) => alternative.item_id)
+
+    expect(itemIds).toContain('jaguar')
+    expect(itemIds).not.toContain('frontside')
+    expect(itemIds).not.toContain('vulcan')
+    expect(itemIds).not.toContain('unlisted')
+  })
+
+  it('should suggest nothing for an unlisted slot item', () => {
+    expect(generateSkinAlternatives({ ...slot, listings: [] }, candidates)).toEqual([])
+  })
+
+  it('should read stored alternatives', () => {
+    expect(
+      normalizeStoredAlternatives([
+        { kind: 'wear', item_id: 'redline-ww', name: 'AK-47 | Redline (Well-Worn)', price: 25, platform: 'csfloat', savings: 7 },
+        { item_id: 'legacy', price: 12, platform: 'steam' },
+        { item_id: 'broken' },
+      ])
+    ).toEqual([
+      { kind: 'wear', item_id: 'redline-ww', name: 'AK-47 | Redline (Well-Worn)', price: 25, platform: 'csfloat', savings: 7 },
+      { kind: 'lookalike', item_id: 'legacy', name: '', price: 12, platform: 'steam', savings: 0 },
+    ])
+    expect(normalizeStoredAlternatives(null)).toEqual([])
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Theme-Aware Weapon Allocation Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { applyThemePreference } from '../theme-allocation'
+import type { WeaponAllocation } from '../budget-allocator'
+
+function weapon(weaponType: string, budgetWeight: number, allocatedBudget: number): WeaponAllocation {
+  return { weaponType, budgetWeight, allocatedBudget, isEssential: true }
+}
+
+const allocations = [weapon('AK-47', 0.5, 20), weapon('AWP', 0.3, 12), weapon('Glock-18', 0.2, 8)]
+
+function total(result: WeaponAllocation[]): number {
+  return Math.round(result.reduce((sum, allocation) => sum + allocation.allocatedBudget, 0) * 100) / 100
+}
+
+describe('applyThemePreference', () => {
+  it('moves slack to weapons that fall short of an on-theme skin', () => {
+    const result = applyThemePreference(
+      allocations,
+      new Map([
+        ['AK-47', 10],
+        ['AWP', 15],
+        ['Glock-18', 2],
+      ])
+    )
+
+    expect(result.allocations.map((allocation) => allocation.allocatedBudget)).toEqual([18.12, 15, 6.88])
+    expect(total(result.allocations)).toBe(40)
+    expect(result.weapons.every((fit) => fit.onTheme)).toBe(true)
+  })
+
+  it('leaves weapons without on-theme skins untouched', () => {
+    const result = applyThemePreference(allocations, new Map([['AWP', 14]]))
+
+    expect(result.allocations.map((allocation) => allocation.allocatedBudget)).toEqual([20, 12, 8])
+    expect(result.weapons).toEqual([
+      { weaponType: 'AK-47', cheapestOnTheme: null, onTheme: false },
+      { weaponType: 'AWP', cheapestOnTheme: 14, onTheme: false },
+      { weaponType: 'Glock-18', cheapestOnTheme: null, onTheme: false },
+    ])
+  })
+
+  it('skips shortfalls that the slack cannot cover and never drops donors below their own skin', () => {
+    const result = applyThemePreference(
+      allocations,
+      new Map([
+        ['AK-47', 19],
+        ['AWP', 30],
+        ['Glock-18', 3],
+      ])
+    )
+
+    expect(result.allocations.map((allocation) => allocation.allocatedBudget)).toEqual([20, 12, 8])
+    expect(result.weapons.map((fit) => fit.onTheme)).toEqual([true, false, true])
+  })
+})
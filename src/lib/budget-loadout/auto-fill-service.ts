@@ -0,0 +1,224 @@
+/**
+ * Loadout Auto-Fill Service
+ *
+ * Allocates a loadout's budget (allocateBudget), picks an item for every
+ * open slot (auto-fill.ts) and stores the picks as LoadoutWeaponSkin rows.
+ * Used by POST /api/loadouts/:id/auto-fill.
+ *
+ * Existing skins are kept and their cost is taken off the budget, unless
+ * replaceExisting is set; replaced skins keep their attached charms.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { allocateBudget } from './budget-allocator'
+import type { CustomAllocation } from './custom-allocation-validator'
+import { refreshSkinAlternatives } from './skin-alternatives-service'
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service'
+import {
+  AutoFillError,
+  autoFillSlots,
+  getAutoFillSlot,
+  getSavedSkinSlot,
+  ITEM_TYPE_SLOTS,
+  type AutoFillCandidate,
+  type AutoFillPreferences,
+  type AutoFillResult,
+  type AutoFillSlot,
+} from './auto-fill'
+
+/**
+ * Single-slot categories and the slot (getAutoFillSlot) they fill
+ */
+const CATEGORY_SLOTS: Record<string, string> = {
+  knife: 'Knife',
+  gloves: 'Gloves',
+  agents: 'Agent',
+  music_kit: 'Music Kit', // Matched by weapon_type; music kits are not imported yet
+}
+
+export interface AutoFillOptions extends AutoFillPreferences {
+  replaceExisting?: boolean
+  dryRun?: boolean // Return the picks without saving them
+}
+
+export interface AutoFillLoadoutResult extends AutoFillResult {
+  loadoutId: string
+  budget: number
+  actualCost: number // After the picks
+  theme: string | null
+  kept: string[] // Weapon types of existing skins left in place
+  dryRun: boolean
+}
+
+/**
+ * Slots from the budget allocation; zero-budget slots are skipped
+ */
+async function getAllocatedSlots(
+  budget: number,
+  customAllocation: CustomAllocation | null,
+  theme: string | null
+): Promise<AutoFillSlot[]> {
+  const allocation = await allocateBudget(budget, customAllocation ? 'custom' : 'balance', customAllocation, false, theme)
+
+  const weaponSlots = allocation.weaponAllocations.map((weapon) => ({
+    slot: weapon.weaponType,
+    category: 'weapon_skins',
+    budget: weapon.allocatedBudget,
+  }))
+  const categorySlots = allocation.categoryAllocations
+    .filter((category) => category.category in CATEGORY_SLOTS)
+    .map((category) => ({
+      slot: CATEGORY_SLOTS[category.category],
+      category: category.category,
+      budget: category.allocatedBudget,
+    }))
+
+  return [...weaponSlots, ...categorySlots].filter((slot) => slot.budget > 0)
+}
+
+async function fetchCandidates(
+  slots: AutoFillSlot[],
+  maxPrice: number,
+  client: PrismaClient
+): Promise<AutoFillCandidate[]> {
+  const slotKeys = new Set(slots.map((slot) => slot.slot))
+  const itemTypes = Object.keys(ITEM_TYPE_SLOTS).filter((type) => slotKeys.has(ITEM_TYPE_SLOTS[type]))
+  const itemTypeSlots = new Set(Object.values(ITEM_TYPE_SLOTS))
+  const weaponTypes = Array.from(slotKeys).filter((slot) => !itemTypeSlots.has(slot))
+
+  const rows = await client.item.findMany({
+    where: {
+      OR: [{ weapon_type: { in: weaponTypes } }, { type: { in: itemTypes } }],
+      marketplace_prices: { some: { ...NON_QUARANTINED_PRICE, total_cost: { lte: maxPrice } } },
+    },
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      weapon_type: true,
+      rarity: true,
+      quality: true,
+      wear: true,
+      color_families: true,
+      marketplace_prices: {
+        where: NON_QUARANTINED_PRICE,
+        orderBy: { total_cost: 'asc' },
+        take: 1,
+        select: { total_cost: true, platform: true },
+      },
+    },
+  })
+
+  return rows.flatMap((row) => {
+    const cheapest = row.marketplace_prices[0]
+    const slot = getAutoFillSlot(row)
+    if (!slot || !slotKeys.has(slot) || !cheapest) return []
+    return [{ ...row, price: cheapest.total_cost, platform: cheapest.platform }]
+  })
+}
+
+/**
+ * Fill a loadout's open slots within its budget
+ *
+ * @param loadoutId - Loadout to fill
+ * @param userId - Must own the loadout
+ */
+export async function autoFillLoadout(
+  loadoutId: string,
+  userId: string,
+  options: AutoFillOptions = {},
+  client: PrismaClient = prisma
+): Promise<AutoFillLoadoutResult> {
+  const loadout = await client.loadout.findUnique({
+    where: { id: loadoutId },
+    include: { weapon_skins: { select: { id: true, weapon_type: true, price: true, charms: true } } },
+  })
+
+  if (!loadout) {
+    throw new AutoFillError('Loadout not found', 'NOT_FOUND')
+  }
+  if (loadout.user_id !== userId) {
+    throw new AutoFillError('Forbidden - not your loadout', 'FORBIDDEN')
+  }
+
+  const budget = Number(loadout.budget)
+  const theme = options.theme !== undefined ? options.theme : loadout.theme
+  const allocatedSlots = await getAllocatedSlots(budget, loadout.custom_allocation as CustomAllocation | null, theme)
+
+  // Existing skins either keep their slot or are replaced
+  const slotKeys = new Set(allocatedSlots.map((slot) => slot.slot))
+  const existing = loadout.weapon_skins.filter((skin) => slotKeys.has(getSavedSkinSlot(skin.weapon_type)))
+  const existingCost = existing.reduce((sum, skin) => sum + Number(skin.price), 0)
+  const candidates = await fetchCandidates(allocatedSlots, budget - Number(loadout.actual_cost) + existingCost, client)
+
+  let kept = options.replaceExisting ? [] : existing
+  let replaced = existing.filter((skin) => !kept.includes(skin))
+  let committed: number
+  let result: AutoFillResult
+
+  // A replaced skin whose slot ends up unfilled stays; fill again with its cost committed
+  for (;;) {
+    const keptSlots = new Set(kept.map((skin) => getSavedSkinSlot(skin.weapon_type)))
+    const openSlots = allocatedSlots.filter((slot) => !keptSlots.has(slot.slot))
+    committed = Number(loadout.actual_cost) - replaced.reduce((sum, skin) => sum + Number(skin.price), 0)
+    result = autoFillSlots(budget, committed, openSlots, candidates, { theme, quality: options.quality })
+
+    const unfilledSlots = new Set(result.unfilled.map((slot) => slot.slot))
+    const stays = replaced.filter((skin) => unfilledSlots.has(getSavedSkinSlot(skin.weapon_type)))
+    if (stays.length === 0) break
+
+    kept = [...kept, ...stays]
+    replaced = replaced.filter((skin) => !stays.includes(skin))
+  }
+
+  const actualCost = Math.round((committed + result.cost) * 100) / 100
+  const response: AutoFillLoadoutResult = {
+    ...result,
+    loadoutId,
+    budget,
+    actualCost,
+    theme,
+    kept: kept.map((skin) => skin.weapon_type),
+    dryRun: options.dryRun ?? false,
+  }
+  if (options.dryRun || result.picks.length === 0) return response
+
+  const replacedBySlot = new Map(replaced.map((skin) => [getSavedSkinSlot(skin.weapon_type), skin]))
+  const createdIds = await client.$transaction(async (tx) => {
+    const ids: string[] = []
+
+    for (const pick of result.picks) {
+      const previous = replacedBySlot.get(pick.slot)
+      if (previous) {
+        await tx.loadoutWeaponSkin.delete({ where: { id: previous.id } })
+      }
+
+      const skin = await tx.loadoutWeaponSkin.create({
+        data: {
+          loadout_id: loadoutId,
+          item_id: pick.itemId,
+          weapon_type: pick.weaponType,
+          selected_platform: pick.platform,
+          price: pick.price,
+          charms: previous?.charms ?? undefined,
+        },
+      })
+      ids.push(skin.id)
+    }
+
+    await tx.loadout.update({ where: { id: loadoutId }, data: { actual_cost: actualCost } })
+    return ids
+  })
+
+  // Swap suggestions for the new skins; a failure only delays them to the next price refresh
+  for (const id of createdIds) {
+    try {
+      await refreshSkinAlternatives(id, client)
+    } catch (error) {
+      console.error('Failed to compute alternatives:', error)
+    }
+  }
+
+  return response
+}
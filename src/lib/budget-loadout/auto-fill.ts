@@ -0,0 +1,311 @@
+/**
+ * Loadout Auto-Fill
+ *
+ * Picks a concrete item (and so wear and quality) and a platform for every
+ * open slot of a loadout, using the per-slot budgets from allocateBudget
+ * (src/lib/budget-loadout/budget-allocator.ts). Run by
+ * POST /api/loadouts/:id/auto-fill (auto-fill-service.ts).
+ *
+ * Greedy, largest slot budget first:
+ * 1. Each slot takes the best-looking item within its own budget
+ * 2. Slots nothing fit take the best item the leftover budget allows,
+ *    keeping enough for the cheapest item of every other empty slot
+ * 3. Leftover budget upgrades slots, highest priority first
+ *
+ * "Best-looking" is the item score: on-theme colors first (Loadout.theme,
+ * Item.color_families), then the preferred quality, rarity and wear; ties
+ * go to the cheaper item so more budget is left for upgrades.
+ *
+ * Critical Gotchas:
+ * - Slots are keyed by getAutoFillSlot(): knives, gloves and agents by
+ *   Item.type (the importer stores the model name as their weapon_type, and
+ *   null for agents), everything else by Item.weapon_type
+ * - Amounts are compared in whole cents
+ * - Charms are not auto-filled (they hang on weapons, see charm-attachments)
+ */
+
+import { getRarityRank } from '../normalize'
+import { isOnTheme } from '../colors/color-palette'
+
+export type AutoFillQuality = 'any' | 'normal' | 'stattrak'
+
+export const AUTO_FILL_QUALITIES: AutoFillQuality[] = ['any', 'normal', 'stattrak']
+
+export class AutoFillError extends Error {
+  constructor(message: string, public code: 'NOT_FOUND' | 'FORBIDDEN') {
+    super(message)
+    this.name = 'AutoFillError'
+  }
+}
+
+/**
+ * Slot to fill; `slot` is getAutoFillSlot() of the items that fill it
+ */
+export interface AutoFillSlot {
+  slot: string
+  category: string // weapon_skins, knife, gloves, agents, music_kit
+  budget: number
+}
+
+/**
+ * Item with its cheapest listing
+ */
+export interface AutoFillCandidate {
+  id: string
+  name: string
+  type: string // skin, knife, gloves, agent
+  weapon_type: string | null
+  rarity: string | null
+  quality: string // normal, stattrak, souvenir
+  wear: string // factory_new ... battle_scarred, none
+  color_families: string[]
+  price: number
+  platform: string
+}
+
+export interface AutoFillPreferences {
+  theme?: string | null // Loadout.theme by default
+  quality?: AutoFillQuality
+}
+
+export interface AutoFillPick {
+  slot: string
+  category: string
+  weaponType: string // LoadoutWeaponSkin.weapon_type: the slot key
+  itemId: string
+  name: string
+  quality: string
+  wear: string
+  rarity: string | null
+  platform: string
+  price: number
+  budget: number // Slot budget from the allocation
+  onTheme: boolean
+  explanation: string
+}
+
+export interface AutoFillUnfilled {
+  slot: string
+  category: string
+  budget: number
+  reason: string
+}
+
+export interface AutoFillResult {
+  picks: AutoFillPick[] // Largest slot budget first
+  unfilled: AutoFillUnfilled[]
+  cost: number // Sum of picks
+  leftover: number // Budget left after picks and committed spend
+}
+
+export interface AutoFillConfig {
+  themeWeight: number
+  qualityWeight: number
+  rarityWeight: number
+  wearWeight: number
+}
+
+/**
+ * Score weights; each outweighs everything below it combined
+ */
+export const DEFAULT_AUTO_FILL_CONFIG: AutoFillConfig = {
+  themeWeight: 100,
+  qualityWeight: 40,
+  rarityWeight: 5,
+  wearWeight: 1,
+}
+
+const WEAR_RANK: Record<string, number> = {
+  factory_new: 5,
+  minimal_wear: 4,
+  field_tested: 3,
+  well_worn: 2,
+  battle_scarred: 1,
+  none: 3,
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100)
+}
+
+function formatUsd(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`
+}
+
+/**
+ * Slots filled by Item.type, with the slot key (also the saved
+ * LoadoutWeaponSkin.weapon_type the loadout page files them under)
+ */
+export const ITEM_TYPE_SLOTS: Record<string, string> = {
+  knife: 'Knife',
+  gloves: 'Gloves',
+  agent: 'Agent',
+}
+
+/**
+ * Slot key for an item, null when it fills no slot
+ */
+export function getAutoFillSlot(item: { type: string; weapon_type: string | null }): string | null {
+  return ITEM_TYPE_SLOTS[item.type] ?? item.weapon_type
+}
+
+/**
+ * Slot key for a saved LoadoutWeaponSkin.weapon_type; agent rows may be saved
+ * as "Agent CT" / "Agent T"
+ */
+export function getSavedSkinSlot(weaponType: string): string {
+  return weaponType.startsWith('Agent') ? 'Agent' : weaponType
+}
+
+function matchesQuality(candidate: AutoFillCandidate, quality: AutoFillQuality): boolean {
+  return quality === 'any' ? candidate.quality !== 'souvenir' : candidate.quality === quality
+}
+
+/**
+ * How good an item looks for the preferences (higher is better)
+ */
+export function scoreAutoFillCandidate(
+  candidate: AutoFillCandidate,
+  preferences: AutoFillPreferences,
+  config: AutoFillConfig = DEFAULT_AUTO_FILL_CONFIG
+): number {
+  return (
+    (isOnTheme(candidate.color_families, preferences.theme) ? config.themeWeight : 0) +
+    (matchesQuality(candidate, preferences.quality ?? 'any') ? config.qualityWeight : 0) +
+    getRarityRank(candidate.rarity) * config.rarityWeight + // Item.rarity holds ByMykel ids
+    (WEAR_RANK[candidate.wear] ?? 0) * config.wearWeight
+  )
+}
+
+interface SlotState {
+  slot: AutoFillSlot
+  candidates: Array<{ candidate: AutoFillCandidate; cents: number; score: number }> // Best first
+  pick: { candidate: AutoFillCandidate; cents: number; score: number } | null
+  reasons: string[]
+}
+
+/**
+ * Fill open slots within the budget
+ *
+ * @param totalBudget - Loadout.budget
+ * @param committed - Already spent outside the open slots (kept skins, charms)
+ * @param slots - Open slots with their allocated budgets
+ * @param candidates - Listed items for the slots
+ */
+export function autoFillSlots(
+  totalBudget: number,
+  committed: number,
+  slots: AutoFillSlot[],
+  candidates: AutoFillCandidate[],
+  preferences: AutoFillPreferences = {},
+  config: AutoFillConfig = DEFAULT_AUTO_FILL_CONFIG
+): AutoFillResult {
+  const quality = preferences.quality ?? 'any'
+  const states: SlotState[] = [...slots]
+    .sort((a, b) => b.budget - a.budget)
+    .map((slot) => ({
+      slot,
+      candidates: candidates
+        .filter((candidate) => getAutoFillSlot(candidate) === slot.slot)
+        .map((candidate) => ({
+          candidate,
+          cents: toCents(candidate.price),
+          score: scoreAutoFillCandidate(candidate, preferences, config),
+        }))
+        .sort((a, b) => b.score - a.score || a.cents - b.cents),
+      pick: null,
+      reasons: [],
+    }))
+
+  let pool = toCents(totalBudget) - toCents(committed)
+
+  // 1. Best item within each slot's own budget
+  for (const state of states) {
+    const budget = toCents(state.slot.budget)
+    state.pick = state.candidates.find((option) => option.cents <= Math.min(budget, pool)) ?? null
+    if (state.pick) {
+      pool -= state.pick.cents
+      state.reasons.push(`Best match within its ${formatUsd(budget)} budget`)
+    }
+  }
+
+  // 2. Empty slots from the leftover, reserving the cheapest item of later empty slots
+  const cheapest = (state: SlotState) => Math.min(...state.candidates.map((option) => option.cents))
+  states.forEach((state, index) => {
+    if (state.pick || state.candidates.length === 0) return
+
+    const reserve = states
+      .slice(index + 1)
+      .filter((other) => !other.pick && other.candidates.length > 0)
+      .reduce((sum, other) => sum + cheapest(other), 0)
+    state.pick = state.candidates.find((option) => option.cents <= pool - reserve) ?? null
+    if (state.pick) {
+      pool -= state.pick.cents
+      state.reasons.push(
+        `Nothing listed within its ${formatUsd(toCents(state.slot.budget))} budget, filled from leftover budget`
+      )
+    }
+  })
+
+  // 3. Upgrade with what's left, largest slot budget first
+  for (const state of states) {
+    const current = state.pick
+    if (!current) continue
+
+    const upgrade = state.candidates.find(
+      (option) => option.score > current.score && option.cents - current.cents <= pool
+    )
+    if (upgrade) {
+      pool -= upgrade.cents - current.cents
+      state.pick = upgrade
+      state.reasons.push(`upgraded from ${current.candidate.name} with ${formatUsd(upgrade.cents - current.cents)} of leftover budget`)
+    }
+  }
+
+  const picks: AutoFillPick[] = []
+  const unfilled: AutoFillUnfilled[] = []
+
+  for (const state of states) {
+    const { slot, pick } = state
+    if (!pick) {
+      unfilled.push({
+        slot: slot.slot,
+        category: slot.category,
+        budget: slot.budget,
+        reason: state.candidates.length === 0 ? 'No listed items' : 'No listed item fits the remaining budget',
+      })
+      continue
+    }
+
+    const onTheme = isOnTheme(pick.candidate.color_families, preferences.theme)
+    if (preferences.theme && !onTheme) {
+      state.reasons.push(`no ${preferences.theme} item was affordable`)
+    }
+    if (quality !== 'any' && !matchesQuality(pick.candidate, quality)) {
+      state.reasons.push(`no ${quality === 'stattrak' ? 'StatTrak™' : 'normal'} item was affordable`)
+    }
+
+    picks.push({
+      slot: slot.slot,
+      category: slot.category,
+      weaponType: slot.slot,
+      itemId: pick.candidate.id,
+      name: pick.candidate.name,
+      quality: pick.candidate.quality,
+      wear: pick.candidate.wear,
+      rarity: pick.candidate.rarity,
+      platform: pick.candidate.platform,
+      price: pick.cents / 100,
+      budget: slot.budget,
+      onTheme,
+      explanation: `${state.reasons.join('; ')}.`,
+    })
+  }
+
+  return {
+    picks,
+    unfilled,
+    cost: picks.reduce((sum, pick) => sum + toCents(pick.price), 0) / 100,
+    leftover: pool / 100,
+  }
+}
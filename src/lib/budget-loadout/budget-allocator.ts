@@ -4,6 +4,7 @@
  *
  * Distributes budget across cosmetic categories based on preset modes or custom percentages.
  * Within weapon_skins category, further distributes among 10 weapons based on usage priorities.
+ * The charms category is split the same way (one charm slot per weapon).
  *
  * Critical Requirements:
  * - Total allocations must equal input budget (±$0.01 tolerance)
@@ -12,6 +13,8 @@
  * - Weapon budget weights must sum to 1.00
  * - Handle edge cases: small budgets ($10), large budgets ($10,000)
  * - Execute in <50ms without per-weapon database queries
+ * - With a color theme, shift weapon budget toward on-theme skins
+ *   (theme-allocation.ts; one grouped price query)
  *
  * Float Optimization Gotcha:
  * - JavaScript floating point arithmetic can cause precision errors
@@ -19,8 +22,10 @@
  * - Adjust final category to ensure exact total (distribute rounding error)
  */
 
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, type WeaponUsagePriority } from '@prisma/client'
 import { getPresetAllocation, type CustomAllocation } from './custom-allocation-validator'
+import { applyThemePreference, type ThemeAllocation } from './theme-allocation'
+import { getThemeColorFamilies } from '../colors/color-palette'
 
 const prisma = new PrismaClient()
 
@@ -51,8 +56,10 @@ export interface AllocationResult {
   totalBudget: number
   categoryAllocations: CategoryAllocation[]
   weaponAllocations: WeaponAllocation[]
+  charmAllocations: WeaponAllocation[] // Charm budget per weapon; empty when charms get 0%
   allocationMode: string // "preset:balance" or "custom"
   floatGuidance?: FloatGuidance
+  themeAllocation?: ThemeAllocation // Only when the theme maps to colors
 }
 
 export type PrioritizeMode = 'balance' | 'price' | 'quality' | 'color_match'
@@ -69,7 +76,8 @@ export async function allocateBudget(
   totalBudget: number,
   mode: PrioritizeMode | 'custom',
   customAllocation?: CustomAllocation | null,
-  enableFloatOptimization?: boolean
+  enableFloatOptimization?: boolean,
+  theme?: string | null
 ): Promise<AllocationResult> {
   // Validate input
   if (totalBudget <= 0) {
@@ -90,7 +98,21 @@ export async function allocateBudget(
   // Calculate weapon allocations (within weapon_skins category)
   const weaponSkinsCategory = categoryAllocations.find((c) => c.category === 'weapon_skins')
   const weaponSkinsBudget = weaponSkinsCategory?.allocatedBudget || 0
-  const weaponAllocations = await calculateWeaponAllocations(weaponSkinsBudget)
+  const weaponPriorities = await fetchWeaponPriorities()
+  let weaponAllocations = calculateWeaponAllocations(weaponSkinsBudget, weaponPriorities)
+
+  // Prefer on-theme skins (Loadout.theme)
+  const themeFamilies = getThemeColorFamilies(theme)
+  let themeAllocation: ThemeAllocation | undefined
+  if (theme && themeFamilies.length > 0) {
+    const themed = applyThemePreference(weaponAllocations, await fetchCheapestOnThemePrices(themeFamilies))
+    weaponAllocations = themed.allocations
+    themeAllocation = { theme, families: themeFamilies, weapons: themed.weapons }
+  }
+
+  // Calculate charm allocations (charms hang on weapons, so they follow weapon priorities)
+  const charmsBudget = categoryAllocations.find((c) => c.category === 'charms')?.allocatedBudget || 0
+  const charmAllocations = charmsBudget > 0 ? calculateWeaponAllocations(charmsBudget, weaponPriorities) : []
 
   // Generate float optimization guidance
   const floatGuidance = enableFloatOptimization
@@ -101,8 +123,10 @@ export async function allocateBudget(
     totalBudget,
     categoryAllocations,
     weaponAllocations,
+    charmAllocations,
     allocationMode,
     floatGuidance,
+    themeAllocation,
   }
 }
 
@@ -152,12 +176,9 @@ function calculateCategoryAllocations(
 // ============================================================================
 
 /**
- * Distribute weapon_skins budget among 10 weapons based on usage priorities
- * BDD Scenario: "Distribute weapon_skins budget among 10 weapons"
+ * Fetch weapon usage priorities (budget weights must sum to 1.00)
  */
-async function calculateWeaponAllocations(
-  weaponSkinsBudget: number
-): Promise<WeaponAllocation[]> {
+async function fetchWeaponPriorities(): Promise<WeaponUsagePriority[]> {
   // Fetch weapon priorities from database (cached via Prisma)
   const weaponPriorities = await prisma.weaponUsagePriority.findMany({
     orderBy: { budget_weight: 'desc' },
@@ -178,13 +199,25 @@ async function calculateWeaponAllocations(
     )
   }
 
+  return weaponPriorities
+}
+
+/**
+ * Distribute a category budget among 10 weapons based on usage priorities
+ * BDD Scenario: "Distribute weapon_skins budget among 10 weapons"
+ * Used for weapon_skins and charms
+ */
+function calculateWeaponAllocations(
+  categoryBudget: number,
+  weaponPriorities: WeaponUsagePriority[]
+): WeaponAllocation[] {
   const allocations: WeaponAllocation[] = []
   let totalAllocated = 0
 
   // Calculate each weapon allocation
   for (const weapon of weaponPriorities) {
     const budgetWeight = weapon.budget_weight.toNumber()
-    const allocatedBudget = roundToTwoDecimals(weaponSkinsBudget * budgetWeight)
+    const allocatedBudget = roundToTwoDecimals(categoryBudget * budgetWeight)
 
     allocations.push({
       weaponType: weapon.weapon_type,
@@ -197,7 +230,7 @@ async function calculateWeaponAllocations(
   }
 
   // Adjust final weapon to ensure exact total (distribute rounding error)
-  const roundingError = roundToTwoDecimals(weaponSkinsBudget - totalAllocated)
+  const roundingError = roundToTwoDecimals(categoryBudget - totalAllocated)
   if (Math.abs(roundingError) > 0.01 && allocations.length > 0) {
     const lastAllocation = allocations[allocations.length - 1]
     lastAllocation.allocatedBudget = roundToTwoDecimals(
@@ -208,6 +241,24 @@ async function calculateWeaponAllocations(
   return allocations
 }
 
+/**
+ * Cheapest on-theme skin per weapon type (Item.color_families overlaps the
+ * theme's families)
+ */
+async function fetchCheapestOnThemePrices(families: string[]): Promise<Map<string, number>> {
+  const rows = await prisma.$queryRaw<Array<{ weapon_type: string; price: number }>>`
+    SELECT i.weapon_type, MIN(mp.total_cost) AS price
+    FROM "Item" i
+    JOIN "MarketplacePrice" mp ON mp.item_id = i.id
+    WHERE i.weapon_type IS NOT NULL
+      AND i.color_families && ${families}::text[]
+      AND mp.quarantined = false
+    GROUP BY i.weapon_type
+  `
+
+  return new Map(rows.map((row) => [row.weapon_type, Number(row.price)]))
+}
+
 // ============================================================================
 // Float Optimization Guidance
 // ============================================================================
@@ -281,6 +332,7 @@ export async function allocateBudgetForLoadout(loadoutId: string): Promise<Alloc
     loadout.budget.toNumber(),
     mode,
     customAllocation,
-    true // Enable float optimization by default
+    true, // Enable float optimization by default
+    loadout.theme
   )
 }
@@ -0,0 +1,139 @@
+/**
+ * Loadout Builder Slots
+ *
+ * Slots of the quick builder (src/app/loadouts/builder) and how each maps to
+ * a cosmetic category (CosmeticCategory.id, Loadout.custom_allocation key),
+ * to /api/search filters and to the LoadoutWeaponSkin row it is saved as.
+ *
+ * Critical Gotchas:
+ * - Knives and gloves are imported with their model as weapon_type
+ *   ("Karambit", "Sport Gloves"); they are found by Item.type ("knife",
+ *   "gloves") and saved as "Knife" / "Gloves" so the loadout page files them
+ *   under the right category
+ * - Agents have no weapon_type; they are found by Item.type and saved as
+ *   "Agent"
+ */
+
+export type BuilderSlot = 'primary' | 'secondary' | 'knife' | 'gloves' | 'agents'
+
+export interface BuilderSlotConfig {
+  slot: BuilderSlot
+  label: string
+  category: 'weapon_skins' | 'knife' | 'gloves' | 'agents' // Loadout.custom_allocation key
+  cosmeticCategoryIds: string[] // CosmeticCategory.id
+  weaponTypes?: string[] // /api/search weaponType filter
+  itemTypes?: string[] // /api/search type filter
+  savedWeaponType?: string // LoadoutWeaponSkin.weapon_type; the item's weapon_type when unset
+}
+
+/**
+ * Item fields needed to place it in a slot (SearchResultItem)
+ */
+export interface BuilderItem {
+  type: string
+  weapon_type: string | null
+}
+
+const PRIMARY_WEAPONS = [
+  'AK-47', 'M4A4', 'M4A1-S', 'AWP', 'AUG', 'SG 553', 'FAMAS', 'Galil AR', 'SSG 08', 'SCAR-20', 'G3SG1',
+  'MP9', 'MAC-10', 'MP7', 'MP5-SD', 'UMP-45', 'P90', 'PP-Bizon',
+  'Nova', 'XM1014', 'MAG-7', 'Sawed-Off', 'M249', 'Negev',
+]
+
+const SECONDARY_WEAPONS = [
+  'Glock-18', 'USP-S', 'P2000', 'P250', 'Desert Eagle', 'Five-SeveN', 'Tec-9', 'CZ75-Auto', 'Dual Berettas',
+  'R8 Revolver',
+]
+
+export const BUILDER_SLOTS: BuilderSlotConfig[] = [
+  {
+    slot: 'primary',
+    label: 'Primary Weapon',
+    category: 'weapon_skins',
+    cosmeticCategoryIds: ['weapon_skins'],
+    weaponTypes: PRIMARY_WEAPONS,
+  },
+  {
+    slot: 'secondary',
+    label: 'Secondary Weapon',
+    category: 'weapon_skins',
+    cosmeticCategoryIds: ['weapon_skins'],
+    weaponTypes: SECONDARY_WEAPONS,
+  },
+  {
+    slot: 'knife',
+    label: 'Knife',
+    category: 'knife',
+    cosmeticCategoryIds: ['knife'],
+    itemTypes: ['knife'],
+    savedWeaponType: 'Knife',
+  },
+  {
+    slot: 'gloves',
+    label: 'Gloves',
+    category: 'gloves',
+    cosmeticCategoryIds: ['gloves'],
+    itemTypes: ['gloves'],
+    savedWeaponType: 'Gloves',
+  },
+  {
+    slot: 'agents',
+    label: 'Agent',
+    category: 'agents',
+    cosmeticCategoryIds: ['agent_ct', 'agent_t'],
+    itemTypes: ['agent'],
+    savedWeaponType: 'Agent',
+  },
+]
+
+export function getBuilderSlotConfig(slot: BuilderSlot): BuilderSlotConfig {
+  const config = BUILDER_SLOTS.find((candidate) => candidate.slot === slot)
+  if (!config) {
+    throw new Error(`Unknown builder slot: ${slot}`)
+  }
+  return config
+}
+
+export function isBuilderSlot(value: unknown): value is BuilderSlot {
+  return BUILDER_SLOTS.some((config) => config.slot === value)
+}
+
+/**
+ * Whether an item belongs in a slot
+ */
+export function itemFitsSlot(slot: BuilderSlot, item: BuilderItem): boolean {
+  const config = getBuilderSlotConfig(slot)
+  if (config.itemTypes) return config.itemTypes.includes(item.type)
+  return item.weapon_type !== null && (config.weaponTypes ?? []).includes(item.weapon_type)
+}
+
+/**
+ * First slot an item belongs in, null if none
+ */
+export function findSlotForItem(item: BuilderItem): BuilderSlot | null {
+  return BUILDER_SLOTS.find((config) => itemFitsSlot(config.slot, item))?.slot ?? null
+}
+
+/**
+ * LoadoutWeaponSkin.weapon_type for an item saved in a slot
+ */
+export function getSavedWeaponType(slot: BuilderSlot, item: BuilderItem): string | null {
+  return getBuilderSlotConfig(slot).savedWeaponType ?? item.weapon_type
+}
+
+/**
+ * /api/search query for a slot
+ *
+ * @param priceMax - Most the slot can cost (remaining budget plus the slot's current item)
+ */
+export function buildSlotSearchParams(slot: BuilderSlot, query: string, priceMax?: number): URLSearchParams {
+  const config = getBuilderSlotConfig(slot)
+  const params = new URLSearchParams({ limit: '24', sortBy: query.trim() ? 'relevance' : 'price_desc' })
+
+  if (query.trim()) params.set('query', query.trim())
+  if (config.weaponTypes) params.set('weaponType', config.weaponTypes.join(','))
+  if (config.itemTypes) params.set('type', config.itemTypes.join(','))
+  if (priceMax !== undefined && priceMax > 0) params.set('priceMax', priceMax.toFixed(2))
+
+  return params
+}
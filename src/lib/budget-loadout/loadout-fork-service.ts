@@ -0,0 +1,62 @@
+/**
+ * Loadout Fork Service
+ *
+ * Loads fork trees for the loadout detail page (src/lib/budget-loadout/loadout-fork.ts).
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { buildForkTree, type ForkTreeNode, type ForkTreeRow } from './loadout-fork'
+
+/**
+ * Levels of forks loaded below a loadout
+ */
+export const MAX_FORK_TREE_DEPTH = 5
+
+/**
+ * Fork tree below a loadout, one query per level
+ *
+ * @param viewerId - Signed-in user; their own private forks are included
+ */
+export async function fetchForkTree(
+  loadoutId: string,
+  viewerId: string | null,
+  client: PrismaClient = prisma
+): Promise<ForkTreeNode | null> {
+  const select = {
+    id: true,
+    name: true,
+    slug: true,
+    is_public: true,
+    forked_from_id: true,
+    user_id: true,
+    user: { select: { persona_name: true } },
+  }
+
+  const root = await client.loadout.findUnique({ where: { id: loadoutId }, select })
+  if (!root) return null
+
+  const loaded = [root]
+  let parentIds = [root.id]
+  for (let depth = 0; depth < MAX_FORK_TREE_DEPTH && parentIds.length > 0; depth++) {
+    const level = await client.loadout.findMany({
+      where: { forked_from_id: { in: parentIds } },
+      select,
+      orderBy: { created_at: 'asc' },
+    })
+    loaded.push(...level)
+    parentIds = level.map((row) => row.id)
+  }
+
+  const ownerById = new Map(loaded.map((row) => [row.id, row.user_id]))
+  const rows: ForkTreeRow[] = loaded.map((row) => ({
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    is_public: row.is_public,
+    forked_from_id: row.forked_from_id,
+    creator: row.user.persona_name,
+  }))
+
+  return buildForkTree(loadoutId, rows, (row) => row.is_public || (viewerId !== null && ownerById.get(row.id) === viewerId))
+}
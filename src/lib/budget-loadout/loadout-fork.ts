@@ -0,0 +1,159 @@
+/**
+ * Loadout Forking
+ *
+ * A fork deep-copies a loadout's LoadoutWeaponSkin rows into a new private
+ * loadout for the forking user (src/app/loadouts/[id]/fork-actions.ts).
+ * Every skin is re-priced against the current cheapest MarketplacePrice;
+ * the parent's price is kept in LoadoutWeaponSkin.forked_price so the
+ * builder can flag items whose price changed.
+ *
+ * Fork links: Loadout.forked_from_id points at the parent, Loadout.copies
+ * counts forks by other users.
+ *
+ * Critical Gotchas:
+ * - Skins with no current listing keep the parent's price and platform
+ *   (status "unavailable") so the fork stays complete
+ * - Charms are re-priced like skins, by their charm Item; stickers are copied
+ *   as-is. Charm prices count toward actual_cost
+ */
+
+import { normalizeStoredCharms, type LoadoutCharm } from '../charms/charm-attachments'
+
+export const FORK_NAME_SUFFIX = ' (fork)'
+
+/**
+ * Minimum difference (USD) reported as a price change
+ */
+export const FORK_PRICE_CHANGE_THRESHOLD = 0.01
+
+export type ForkPriceStatus = 'unchanged' | 'increased' | 'decreased' | 'unavailable'
+
+export interface ForkedSkinPrice {
+  price: number
+  platform: string
+  forkedPrice: number // Price in the parent loadout
+  priceChange: number // price - forkedPrice
+  status: ForkPriceStatus
+}
+
+/**
+ * Node of a fork tree; `forks` are the loadout's direct children
+ */
+export interface ForkTreeNode {
+  id: string
+  name: string
+  slug: string | null
+  is_public: boolean
+  creator: string
+  forks: ForkTreeNode[]
+}
+
+export interface ForkTreeRow {
+  id: string
+  name: string
+  slug: string | null
+  is_public: boolean
+  forked_from_id: string | null
+  creator: string
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Name for a new fork: "Red Dragon" -> "Red Dragon (fork)"
+ */
+export function toForkName(name: string, maxLength = 255): string {
+  const base = name.endsWith(FORK_NAME_SUFFIX) ? name.slice(0, -FORK_NAME_SUFFIX.length) : name
+  return `${base.slice(0, maxLength - FORK_NAME_SUFFIX.length)}${FORK_NAME_SUFFIX}`
+}
+
+/**
+ * Re-price a parent skin against the cheapest current listing
+ *
+ * @param parent - Price and platform stored on the parent's LoadoutWeaponSkin
+ * @param cheapest - Cheapest non-quarantined listing, undefined if none
+ */
+export function repriceForkedSkin(
+  parent: { price: number; platform: string },
+  cheapest: { total_cost: number; platform: string } | undefined
+): ForkedSkinPrice {
+  if (!cheapest) {
+    return { price: parent.price, platform: parent.platform, forkedPrice: parent.price, priceChange: 0, status: 'unavailable' }
+  }
+
+  const price = round2(cheapest.total_cost)
+  const priceChange = round2(price - parent.price)
+  const status: ForkPriceStatus =
+    Math.abs(priceChange) < FORK_PRICE_CHANGE_THRESHOLD ? 'unchanged' : priceChange > 0 ? 'increased' : 'decreased'
+
+  return { price, platform: cheapest.platform, forkedPrice: parent.price, priceChange, status }
+}
+
+/**
+ * Re-price a parent skin's attached charms against their cheapest listings
+ *
+ * @param charms - LoadoutWeaponSkin.charms of the parent
+ * @param cheapestByItemId - Cheapest non-quarantined listing per charm Item
+ */
+export function repriceForkedCharms(
+  charms: unknown,
+  cheapestByItemId: Map<string, { total_cost: number; platform: string }>
+): Array<{ charm: LoadoutCharm; pricing: ForkedSkinPrice }> {
+  return normalizeStoredCharms(charms).map((charm) => {
+    const pricing = repriceForkedSkin(
+      { price: charm.price, platform: charm.platform },
+      charm.item_id ? cheapestByItemId.get(charm.item_id) : undefined
+    )
+    return { charm: { ...charm, price: pricing.price, platform: pricing.platform }, pricing }
+  })
+}
+
+/**
+ * Build the fork tree below `rootId` from flat loadout rows
+ *
+ * Private forks are left out unless `viewerCanSee` accepts them; their
+ * public descendants are still shown under the nearest visible ancestor.
+ */
+export function buildForkTree(
+  rootId: string,
+  rows: ForkTreeRow[],
+  viewerCanSee: (row: ForkTreeRow) => boolean = (row) => row.is_public
+): ForkTreeNode | null {
+  const root = rows.find((row) => row.id === rootId)
+  if (!root) return null
+
+  const childrenByParent = new Map<string, ForkTreeRow[]>()
+  for (const row of rows) {
+    if (!row.forked_from_id) continue
+    const children = childrenByParent.get(row.forked_from_id) ?? []
+    children.push(row)
+    childrenByParent.set(row.forked_from_id, children)
+  }
+
+  const visited = new Set<string>([root.id])
+
+  function visibleForks(parentId: string): ForkTreeNode[] {
+    return (childrenByParent.get(parentId) ?? []).flatMap((row) => {
+      if (visited.has(row.id)) return [] // Guard against cycles in bad data
+      visited.add(row.id)
+
+      const forks = visibleForks(row.id)
+      return viewerCanSee(row) ? [toNode(row, forks)] : forks
+    })
+  }
+
+  function toNode(row: ForkTreeRow, forks: ForkTreeNode[]): ForkTreeNode {
+    return { id: row.id, name: row.name, slug: row.slug, is_public: row.is_public, creator: row.creator, forks }
+  }
+
+  return toNode(root, visibleForks(root.id))
+}
+
+/**
+ * Number of loadouts in a tree, excluding the root
+ */
+export function countForks(node: ForkTreeNode): number {
+  return node.forks.reduce((sum, fork) => sum + 1 + countForks(fork), 0)
+}
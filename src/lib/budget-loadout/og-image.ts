@@ -0,0 +1,132 @@
+/**
+ * Loadout OpenGraph Image Data
+ * BDD Reference: features/08-budget-loadout-builder-phase7.feature (Phase 7f: Social sharing)
+ *
+ * Builds the view model rendered by /api/og-image/[id] into a 1200x630 PNG:
+ * weapon icon grid, loadout name, total cost vs budget and creator.
+ *
+ * Critical Gotchas:
+ * - Only public loadouts get a generated image. Private loadouts (and unknown
+ *   ids) fall back to the static image so nothing leaks through a shared link.
+ * - Images are cached by Loadout.updated_at. Item add/remove/replace all update
+ *   the loadout row, so the version changes whenever the weapon grid does.
+ * - Total cost is summed from the LoadoutWeaponSkin rows rather than read from
+ *   Loadout.actual_cost, so the image always matches the grid it shows.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+
+/**
+ * Image dimensions recommended by OpenGraph and Twitter large cards
+ */
+export const OG_IMAGE_WIDTH = 1200
+export const OG_IMAGE_HEIGHT = 630
+
+/**
+ * Weapon tiles shown in the grid (2 rows of 5); the rest are summarized as "+N more"
+ */
+export const OG_IMAGE_MAX_WEAPONS = 10
+
+export interface OgWeaponTile {
+  weaponType: string
+  name: string
+  imageUrl: string
+  price: number
+}
+
+export interface LoadoutOgImageData {
+  id: string
+  name: string
+  creator: string
+  weapons: OgWeaponTile[]
+  hiddenWeaponCount: number
+  totalCost: number
+  budget: number
+  budgetUsedPercent: number
+  version: string // Cache key derived from updated_at
+}
+
+interface LoadoutOgImageRow {
+  id: string
+  name: string
+  budget: unknown // Prisma Decimal
+  creator_name: string | null
+  updated_at: Date
+  user: { persona_name: string }
+  weapon_skins: Array<{
+    weapon_type: string
+    price: unknown // Prisma Decimal
+    item: { display_name: string; image_url: string }
+  }>
+}
+
+/**
+ * Cache version for a loadout image
+ */
+export function getOgImageVersion(updatedAt: Date): string {
+  return String(updatedAt.getTime())
+}
+
+/**
+ * Shape a loadout row into the image view model
+ * Most expensive weapons are shown first so the grid leads with the highlights
+ */
+export function buildLoadoutOgImageData(loadout: LoadoutOgImageRow): LoadoutOgImageData {
+  const tiles = loadout.weapon_skins
+    .map(skin => ({
+      weaponType: skin.weapon_type,
+      name: skin.item.display_name,
+      imageUrl: skin.item.image_url,
+      price: Number(skin.price),
+    }))
+    .sort((a, b) => b.price - a.price || a.weaponType.localeCompare(b.weaponType))
+
+  const totalCost = Math.round(tiles.reduce((sum, tile) => sum + tile.price, 0) * 100) / 100
+  const budget = Number(loadout.budget)
+
+  return {
+    id: loadout.id,
+    name: loadout.name,
+    creator: loadout.creator_name || loadout.user.persona_name,
+    weapons: tiles.slice(0, OG_IMAGE_MAX_WEAPONS),
+    hiddenWeaponCount: Math.max(0, tiles.length - OG_IMAGE_MAX_WEAPONS),
+    totalCost,
+    budget,
+    budgetUsedPercent: budget > 0 ? Math.round((totalCost / budget) * 100) : 0,
+    version: getOgImageVersion(loadout.updated_at),
+  }
+}
+
+/**
+ * Load a public loadout's image data
+ *
+ * @param id - Loadout UUID
+ * @param client - Prisma client
+ * @returns Image data, or null when the loadout is missing or private
+ */
+export async function loadLoadoutOgImageData(
+  id: string,
+  client: PrismaClient = prisma
+): Promise<LoadoutOgImageData | null> {
+  const loadout = await client.loadout.findFirst({
+    where: { id, is_public: true },
+    select: {
+      id: true,
+      name: true,
+      budget: true,
+      creator_name: true,
+      updated_at: true,
+      user: { select: { persona_name: true } },
+      weapon_skins: {
+        select: {
+          weapon_type: true,
+          price: true,
+          item: { select: { display_name: true, image_url: true } },
+        },
+      },
+    },
+  })
+
+  return loadout ? buildLoadoutOgImageData(loadout) : null
+}
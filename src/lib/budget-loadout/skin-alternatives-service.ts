@@ -0,0 +1,180 @@
+/**
+ * Slot Alternatives Service
+ *
+ * Computes and stores LoadoutWeaponSkin.alternatives
+ * (src/lib/budget-loadout/skin-alternatives.ts).
+ *
+ * Refreshed:
+ * - for one slot when an item is added or replaced (loadout actions)
+ * - for stale slots (prices for the weapon changed since), after the
+ *   scheduled price refresh (/api/cron/refresh-prices)
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service'
+import { generateSkinAlternatives, type AlternativeCandidate, type SkinAlternative } from './skin-alternatives'
+
+/**
+ * Slots recomputed per run at most
+ */
+export const DEFAULT_STALE_ALTERNATIVES_LIMIT = 500
+
+export interface AlternativesRefreshOptions {
+  deadline?: number // Epoch ms; stop starting new slots after this
+  limit?: number
+  now?: () => number
+}
+
+export interface AlternativesRefreshResult {
+  stale: number // Stale slots found (up to limit)
+  refreshed: number
+}
+
+const CANDIDATE_SELECT = {
+  id: true,
+  name: true,
+  rarity: true,
+  quality: true,
+  wear: true,
+  collection_id: true,
+  marketplace_prices: {
+    where: NON_QUARANTINED_PRICE,
+    orderBy: { total_cost: 'asc' as const },
+    take: 1,
+    select: { total_cost: true, platform: true },
+  },
+} satisfies Prisma.ItemSelect
+
+type CandidateRow = Prisma.ItemGetPayload<{ select: typeof CANDIDATE_SELECT }>
+
+function toCandidate(row: CandidateRow): AlternativeCandidate {
+  const cheapest = row.marketplace_prices[0]
+  return {
+    id: row.id,
+    name: row.name,
+    rarity: row.rarity,
+    quality: row.quality,
+    wear: row.wear,
+    collection_id: row.collection_id,
+    price: cheapest?.total_cost ?? null,
+    platform: cheapest?.platform ?? null,
+  }
+}
+
+/**
+ * Priced items for one weapon (Item.weapon_type)
+ */
+async function fetchCandidates(weaponType: string | null, client: PrismaClient): Promise<AlternativeCandidate[]> {
+  if (!weaponType) return []
+
+  const rows = await client.item.findMany({
+    where: { weapon_type: weaponType, marketplace_prices: { some: NON_QUARANTINED_PRICE } },
+    select: CANDIDATE_SELECT,
+  })
+  return rows.map(toCandidate)
+}
+
+async function computeAlternatives(
+  skin: { item_id: string; selected_platform: string },
+  candidatesByWeapon: Map<string | null, AlternativeCandidate[]>,
+  client: PrismaClient
+): Promise<SkinAlternative[]> {
+  const item = await client.item.findUnique({
+    where: { id: skin.item_id },
+    select: {
+      ...CANDIDATE_SELECT,
+      weapon_type: true,
+      marketplace_prices: {
+        where: NON_QUARANTINED_PRICE,
+        select: { total_cost: true, platform: true },
+      },
+    },
+  })
+  if (!item) return []
+
+  if (!candidatesByWeapon.has(item.weapon_type)) {
+    candidatesByWeapon.set(item.weapon_type, await fetchCandidates(item.weapon_type, client))
+  }
+
+  const cheapest = [...item.marketplace_prices].sort((a, b) => a.total_cost - b.total_cost)[0]
+  return generateSkinAlternatives(
+    {
+      item: toCandidate({ ...item, marketplace_prices: cheapest ? [cheapest] : [] }),
+      selectedPlatform: skin.selected_platform,
+      listings: item.marketplace_prices,
+    },
+    candidatesByWeapon.get(item.weapon_type) ?? []
+  )
+}
+
+/**
+ * Recompute and store alternatives for one LoadoutWeaponSkin
+ */
+export async function refreshSkinAlternatives(
+  loadoutWeaponSkinId: string,
+  client: PrismaClient = prisma
+): Promise<SkinAlternative[]> {
+  const skin = await client.loadoutWeaponSkin.findUnique({
+    where: { id: loadoutWeaponSkinId },
+    select: { item_id: true, selected_platform: true },
+  })
+  if (!skin) return []
+
+  const alternatives = await computeAlternatives(skin, new Map(), client)
+  await client.loadoutWeaponSkin.update({
+    where: { id: loadoutWeaponSkinId },
+    data: { alternatives: JSON.parse(JSON.stringify(alternatives)), alternatives_updated_at: new Date() },
+  })
+
+  return alternatives
+}
+
+/**
+ * Recompute alternatives for slots that are missing or stale
+ *
+ * A slot is stale when any listing for its weapon (Item.weapon_type) was
+ * updated after its alternatives were computed; alternatives only ever come
+ * from the slot's own weapon. Oldest first, so slots skipped at the deadline
+ * are picked up by the next run.
+ */
+export async function refreshStaleAlternatives(
+  options: AlternativesRefreshOptions = {},
+  client: PrismaClient = prisma
+): Promise<AlternativesRefreshResult> {
+  const now = options.now ?? Date.now
+  const deadline = options.deadline ?? Number.POSITIVE_INFINITY
+  const limit = options.limit ?? DEFAULT_STALE_ALTERNATIVES_LIMIT
+
+  const stale = await client.$queryRaw<Array<{ id: string; item_id: string; selected_platform: string }>>`
+    SELECT lws.id, lws.item_id, lws.selected_platform
+    FROM loadout_weapon_skins lws
+    JOIN "Item" i ON i.id = lws.item_id
+    WHERE lws.alternatives_updated_at IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM "MarketplacePrice" mp
+        JOIN "Item" c ON c.id = mp.item_id
+        WHERE c.weapon_type = i.weapon_type
+          AND mp.last_updated > lws.alternatives_updated_at
+      )
+    ORDER BY lws.alternatives_updated_at ASC NULLS FIRST
+    LIMIT ${limit}
+  `
+
+  const result: AlternativesRefreshResult = { stale: stale.length, refreshed: 0 }
+  const candidatesByWeapon = new Map<string | null, AlternativeCandidate[]>()
+
+  for (const skin of stale) {
+    if (now() >= deadline) break
+
+    const alternatives = await computeAlternatives(skin, candidatesByWeapon, client)
+    await client.loadoutWeaponSkin.update({
+      where: { id: skin.id },
+      data: { alternatives: JSON.parse(JSON.stringify(alternatives)), alternatives_updated_at: new Date() },
+    })
+    result.refreshed++
+  }
+
+  return result
+}
@@ -0,0 +1,211 @@
+/**
+ * Loadout Slot Alternatives
+ *
+ * Ranked swap suggestions stored in LoadoutWeaponSkin.alternatives and shown
+ * as one-click swaps (replaceItemAction) in the loadout builder.
+ *
+ * Kinds:
+ * - cheaper_platform: same item, cheaper listing on another marketplace
+ * - lookalike: another skin for the same weapon with the same rarity,
+ *   quality and wear that costs less (same collection ranked first)
+ * - wear: the same skin in a different wear (cheaper or upgrade)
+ * - stattrak: the StatTrak™ variant (or the normal one for a StatTrak™ pick)
+ *
+ * Savings are measured against the reference price: the slot item's current
+ * listing on its selected platform, or its cheapest listing if that platform
+ * no longer lists it. Negative savings are upgrades.
+ *
+ * Critical Gotchas:
+ * - Stored savings go stale when prices move; the price refresh cron
+ *   recomputes alternatives for weapon types whose prices changed
+ *   (refreshStaleAlternatives)
+ * - Candidates without any listing are never suggested
+ */
+
+import { getBaseWeaponName } from '../normalize'
+
+export type AlternativeKind = 'cheaper_platform' | 'lookalike' | 'wear' | 'stattrak'
+
+/**
+ * Alternative as stored in LoadoutWeaponSkin.alternatives
+ */
+export interface SkinAlternative {
+  kind: AlternativeKind
+  item_id: string
+  name: string
+  price: number // Cheapest listing (total_cost)
+  platform: string
+  savings: number // Reference price - price (negative = upgrade)
+}
+
+/**
+ * Item with its cheapest listing (null when unlisted)
+ */
+export interface AlternativeCandidate {
+  id: string
+  name: string
+  rarity: string | null
+  quality: string // normal, stattrak, souvenir
+  wear: string // factory_new ... battle_scarred, none
+  collection_id: string | null
+  price: number | null
+  platform: string | null
+}
+
+export interface AlternativeSlot {
+  item: AlternativeCandidate
+  selectedPlatform: string
+  listings: Array<{ platform: string; total_cost: number }> // Non-quarantined listings of the slot item
+}
+
+export interface SkinAlternativesConfig {
+  maxLookalikes: number
+  maxWears: number
+  maxAlternatives: number
+}
+
+export const DEFAULT_SKIN_ALTERNATIVES_CONFIG: SkinAlternativesConfig = {
+  maxLookalikes: 2,
+  maxWears: 2,
+  maxAlternatives: 6,
+}
+
+const KIND_ORDER: Record<AlternativeKind, number> = {
+  cheaper_platform: 1,
+  lookalike: 2,
+  wear: 3,
+  stattrak: 4,
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Price the slot is measured against (see module comment)
+ */
+export function getReferencePrice(slot: AlternativeSlot): number | null {
+  const selected = slot.listings.find((listing) => listing.platform === slot.selectedPlatform)
+  if (selected) return selected.total_cost
+
+  return slot.listings.length > 0 ? Math.min(...slot.listings.map((listing) => listing.total_cost)) : null
+}
+
+type ListedCandidate = AlternativeCandidate & { price: number; platform: string }
+
+function toAlternative(
+  kind: AlternativeKind,
+  candidate: ListedCandidate,
+  referencePrice: number
+): SkinAlternative {
+  return {
+    kind,
+    item_id: candidate.id,
+    name: candidate.name,
+    price: round2(candidate.price),
+    platform: candidate.platform,
+    savings: round2(referencePrice - candidate.price),
+  }
+}
+
+function isListed(candidate: AlternativeCandidate): candidate is ListedCandidate {
+  return candidate.price !== null && candidate.platform !== null
+}
+
+/**
+ * Rank alternatives for a loadout slot
+ *
+ * @param slot - The slot's item, selected platform and current listings
+ * @param candidates - Items for the same weapon (Item.weapon_type) with cheapest listings
+ * @returns Alternatives by savings (largest first), at most config.maxAlternatives
+ */
+export function generateSkinAlternatives(
+  slot: AlternativeSlot,
+  candidates: AlternativeCandidate[],
+  config: SkinAlternativesConfig = DEFAULT_SKIN_ALTERNATIVES_CONFIG
+): SkinAlternative[] {
+  const referencePrice = getReferencePrice(slot)
+  if (referencePrice === null) return []
+
+  const current = slot.item
+  const baseName = getBaseWeaponName(current.name)
+  const listed = candidates.filter(isListed).filter((candidate) => candidate.id !== current.id)
+  const sameSkin = listed.filter((candidate) => getBaseWeaponName(candidate.name) === baseName)
+  const alternatives: SkinAlternative[] = []
+
+  // Same item on a cheaper marketplace
+  const cheapestElsewhere = slot.listings
+    .filter((listing) => listing.platform !== slot.selectedPlatform && listing.total_cost < referencePrice)
+    .sort((a, b) => a.total_cost - b.total_cost)[0]
+  if (cheapestElsewhere) {
+    alternatives.push(
+      toAlternative(
+        'cheaper_platform',
+        { ...current, price: cheapestElsewhere.total_cost, platform: cheapestElsewhere.platform },
+        referencePrice
+      )
+    )
+  }
+
+  // Cheaper skins of the same tier, same collection first, then closest in price
+  listed
+    .filter(
+      (candidate) =>
+        getBaseWeaponName(candidate.name) !== baseName &&
+        candidate.rarity === current.rarity &&
+        candidate.quality === current.quality &&
+        candidate.wear === current.wear &&
+        candidate.price < referencePrice
+    )
+    .sort((a, b) => {
+      const aSameCollection = current.collection_id !== null && a.collection_id === current.collection_id ? 0 : 1
+      const bSameCollection = current.collection_id !== null && b.collection_id === current.collection_id ? 0 : 1
+      return aSameCollection - bSameCollection || b.price - a.price
+    })
+    .slice(0, config.maxLookalikes)
+    .forEach((candidate) => alternatives.push(toAlternative('lookalike', candidate, referencePrice)))
+
+  // Same skin in other wears, closest in price first
+  sameSkin
+    .filter((candidate) => candidate.quality === current.quality && candidate.wear !== current.wear)
+    .sort((a, b) => Math.abs(a.price - referencePrice) - Math.abs(b.price - referencePrice))
+    .slice(0, config.maxWears)
+    .forEach((candidate) => alternatives.push(toAlternative('wear', candidate, referencePrice)))
+
+  // StatTrak™ toggle in the same wear
+  const toggledQuality = current.quality === 'stattrak' ? 'normal' : current.quality === 'normal' ? 'stattrak' : null
+  const statTrakVariant = sameSkin.find(
+    (candidate) => candidate.quality === toggledQuality && candidate.wear === current.wear
+  )
+  if (statTrakVariant) {
+    alternatives.push(toAlternative('stattrak', statTrakVariant, referencePrice))
+  }
+
+  return alternatives
+    .sort((a, b) => b.savings - a.savings || KIND_ORDER[a.kind] - KIND_ORDER[b.kind])
+    .slice(0, config.maxAlternatives)
+}
+
+/**
+ * Read a LoadoutWeaponSkin.alternatives JSON column
+ */
+export function normalizeStoredAlternatives(value: unknown): SkinAlternative[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        typeof entry === 'object' &&
+        entry !== null &&
+        typeof (entry as { item_id?: unknown }).item_id === 'string' &&
+        typeof (entry as { price?: unknown }).price === 'number'
+    )
+    .map((entry) => ({
+      kind: typeof entry.kind === 'string' && entry.kind in KIND_ORDER ? (entry.kind as AlternativeKind) : 'lookalike',
+      item_id: entry.item_id as string,
+      name: typeof entry.name === 'string' ? entry.name : '',
+      price: entry.price as number,
+      platform: typeof entry.platform === 'string' ? entry.platform : 'unknown',
+      savings: typeof entry.savings === 'number' ? entry.savings : 0,
+    }))
+}
@@ -0,0 +1,94 @@
+/**
+ * Theme-Aware Weapon Allocation
+ *
+ * Shifts weapon_skins budget so more weapons can afford an on-theme skin
+ * (Item.color_families matching the loadout theme, see
+ * src/lib/colors/color-palette.ts). Used by allocateBudget when the loadout
+ * has a color theme.
+ *
+ * Greedy, by weapon priority (budget weight): a weapon whose allocation is
+ * below its cheapest on-theme skin takes the shortfall from the slack of
+ * weapons that can already afford theirs (proportionally to slack). Weapons
+ * are only topped up when the whole shortfall can be covered, and donors
+ * never drop below their own cheapest on-theme skin.
+ *
+ * Critical Gotchas:
+ * - Totals are unchanged; amounts are moved in whole cents
+ * - Weapons without any on-theme skin keep their allocation and give
+ *   nothing away (they still need an off-theme skin)
+ */
+
+import type { WeaponAllocation } from './budget-allocator'
+
+export interface ThemeWeaponFit {
+  weaponType: string
+  cheapestOnTheme: number | null // Cheapest on-theme skin, null if none is listed
+  onTheme: boolean // Allocation covers cheapestOnTheme
+}
+
+export interface ThemeAllocation {
+  theme: string
+  families: string[]
+  weapons: ThemeWeaponFit[]
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100)
+}
+
+/**
+ * Rebalance weapon allocations toward on-theme skins
+ *
+ * @param allocations - Weapon allocations (weapon_skins or charms)
+ * @param cheapestOnTheme - Cheapest on-theme price per weapon type
+ */
+export function applyThemePreference(
+  allocations: WeaponAllocation[],
+  cheapestOnTheme: Map<string, number>
+): { allocations: WeaponAllocation[]; weapons: ThemeWeaponFit[] } {
+  const cents = allocations.map((allocation) => toCents(allocation.allocatedBudget))
+  const needs = allocations.map((allocation) => {
+    const price = cheapestOnTheme.get(allocation.weaponType)
+    return price === undefined ? null : toCents(price)
+  })
+
+  const slack = (index: number) => {
+    const need = needs[index]
+    return need === null ? 0 : Math.max(0, cents[index] - need)
+  }
+
+  const shortOrder = allocations
+    .map((allocation, index) => ({ index, budgetWeight: allocation.budgetWeight }))
+    .filter(({ index }) => needs[index] !== null && (needs[index] as number) > cents[index])
+    .sort((a, b) => b.budgetWeight - a.budgetWeight)
+
+  for (const { index } of shortOrder) {
+    const shortfall = (needs[index] as number) - cents[index]
+    const donors = allocations.map((_, donor) => donor).filter((donor) => donor !== index && slack(donor) > 0)
+    const available = donors.reduce((sum, donor) => sum + slack(donor), 0)
+    if (available < shortfall) continue
+
+    // Take proportionally to slack, then leftover cents from the largest slack
+    let remaining = shortfall
+    for (const donor of donors) {
+      const take = Math.floor((shortfall * slack(donor)) / available)
+      cents[donor] -= take
+      remaining -= take
+    }
+    while (remaining > 0) {
+      const donor = donors.reduce((best, candidate) => (slack(candidate) > slack(best) ? candidate : best))
+      cents[donor] -= 1
+      remaining -= 1
+    }
+    cents[index] += shortfall
+  }
+
+  return {
+    allocations: allocations.map((allocation, index) => ({ ...allocation, allocatedBudget: cents[index] / 100 })),
+    weapons: allocations.map((allocation, index) => ({
+      weaponType: allocation.weaponType,
+      cheapestOnTheme: needs[index] === null ? null : (needs[index] as number) / 100,
+      onTheme: needs[index] !== null && (needs[index] as number) <= cents[index],
+    })),
+  }
+}
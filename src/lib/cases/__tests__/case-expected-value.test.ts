@@ -0,0 +1,86 @@
+/**
+ * Case Expected Value Calculator Tests
+ *
+ * BDD Reference: features/02-relational-browsing.feature
+ *   - Calculate expected value
+ *
+ * Critical Gotchas Applied:
+ * - Skin odds are the mean of variant rows (importer repeats them per variant)
+ * - Unpriced wear/quality outcomes are renormalized away within the skin
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateCaseValuation,
+  getWearProbabilities,
+  type CaseValuationVariant,
+} from '../case-expected-value';
+
+function variant(overrides: Partial<CaseValuationVariant>): CaseValuationVariant {
+  return {
+    baseName: 'MP9 | Setting Sun',
+    rarity: 'milspec',
+    isSpecialItem: false,
+    quality: 'normal',
+    wear: 'none',
+    wearMin: null,
+    wearMax: null,
+    dropProbability: 80,
+    price: 0.5,
+    sellerFeePercent: null,
+    ...overrides,
+  };
+}
+
+describe('Case Expected Value', () => {
+  it('should split the float range across wear brackets', () => {
+    const probabilities = getWearProbabilities(0, 0.15);
+
+    expect(probabilities.factory_new).toBeCloseTo(0.07 / 0.15);
+    expect(probabilities.minimal_wear).toBeCloseTo(0.08 / 0.15);
+    expect(probabilities.field_tested).toBeUndefined();
+  });
+
+  it('should weight skins by odds and net out seller fees', () => {
+    const valuation = calculateCaseValuation(2.5, [
+      variant({ dropProbability: 80, price: 0.5 }),
+      variant({ baseName: 'AK-47 | Asiimov', rarity: 'rarity_ancient_weapon', dropProbability: 20, price: 50, sellerFeePercent: 10 }),
+    ]);
+
+    // 0.8 × 0.50 + 0.2 × 45.00
+    expect(valuation.expectedValue).toBeCloseTo(9.4);
+    expect(valuation.grossExpectedValue).toBeCloseTo(10.4);
+    expect(valuation.expectedProfit).toBeCloseTo(6.9);
+    expect(valuation.roi).toBeCloseTo(276);
+    expect(valuation.breakEvenProbability).toBeCloseTo(20);
+    expect(valuation.tiers.find((tier) => tier.rarity === 'covert')).toMatchObject({
+      probability: 20,
+      averageValue: 45,
+      contribution: 9,
+    });
+  });
+
+  it('should apply StatTrak odds and use the mean of repeated variant odds', () => {
+    const valuation = calculateCaseValuation(2.5, [
+      variant({ quality: 'normal', price: 1 }),
+      variant({ quality: 'stattrak', price: 11 }),
+    ]);
+
+    // 90% normal at $1 + 10% StatTrak at $11, one skin holding all the odds
+    expect(valuation.expectedValue).toBeCloseTo(2);
+    expect(valuation.tiers[0].probability).toBe(100);
+  });
+
+  it('should count skins without prices as $0 and report coverage', () => {
+    const valuation = calculateCaseValuation(2.5, [
+      variant({ dropProbability: 50, price: 4 }),
+      variant({ baseName: 'Glock-18 | Unpriced', dropProbability: 50, price: null }),
+    ]);
+
+    expect(valuation.expectedValue).toBeCloseTo(2);
+    expect(valuation.priceCoverage).toBe(50);
+    expect(valuation.standardDeviation).toBeCloseTo(2);
+  });
+});
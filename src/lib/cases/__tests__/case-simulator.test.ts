@@ -0,0 +1,66 @@
+/**
+ * Case Opening Simulator Tests
+ *
+ * BDD Reference: features/02-relational-browsing.feature
+ *   - Calculate expected value
+ *
+ * Critical Gotchas Applied:
+ * - Same seed + options + outcomes reproduce the same result
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { CaseSimulationError, normalizeSeed, simulateCaseOpenings } from '../case-simulator';
+import type { CaseOutcome } from '../case-expected-value';
+
+const OUTCOMES: CaseOutcome[] = [
+  { name: 'MP9 | Setting Sun', baseName: 'MP9 | Setting Sun', rarity: 'rarity_rare_weapon', probability: 0.9, grossValue: 0.2, netValue: 0.2, priced: true },
+  { name: 'AK-47 | Asiimov', baseName: 'AK-47 | Asiimov', rarity: 'rarity_ancient_weapon', probability: 0.1, grossValue: 30, netValue: 27, priced: true },
+];
+
+describe('Case Opening Simulator', () => {
+  it('should reproduce results for the same seed', () => {
+    const first = simulateCaseOpenings(2.5, OUTCOMES, { openings: 50, trials: 200, seed: 42 });
+    const second = simulateCaseOpenings(2.5, OUTCOMES, { openings: 50, trials: 200, seed: 42 });
+    const other = simulateCaseOpenings(2.5, OUTCOMES, { openings: 50, trials: 200, seed: 43 });
+
+    expect(second).toEqual(first);
+    expect(other.averageProfit).not.toBe(first.averageProfit);
+  });
+
+  it('should converge on the analytic expected profit', () => {
+    const result = simulateCaseOpenings(2.5, OUTCOMES, { openings: 100, trials: 2000, seed: 7 });
+
+    // 100 × (0.9 × 0.20 + 0.1 × 27 - 2.50) = 38
+    expect(result.expectedProfit).toBeCloseTo(38);
+    expect(Math.abs(result.averageProfit - result.expectedProfit)).toBeLessThan(5);
+    expect(result.profitPercentiles.p5).toBeLessThanOrEqual(result.profitPercentiles.p95);
+  });
+
+  it('should report rare-drop odds, losing streaks and the tier distribution', () => {
+    const result = simulateCaseOpenings(2.5, OUTCOMES, { openings: 10, trials: 5000, seed: 1 });
+
+    // 1 - 0.9^10 ≈ 65.13%
+    expect(result.rareDropProbability).toBeGreaterThan(60);
+    expect(result.rareDropProbability).toBeLessThan(70);
+    expect(result.longestLosingStreak.max).toBeLessThanOrEqual(10);
+    expect(result.distribution.reduce((sum, tier) => sum + tier.count, 0)).toBe(50000);
+    expect(result.topDrops[0].name).toBe('AK-47 | Asiimov');
+  });
+
+  it('should reject outcome models that cannot be sampled', () => {
+    const options = { openings: 10, trials: 10, seed: 1 };
+    const unpriced = OUTCOMES.map((outcome) => ({ ...outcome, probability: 0 }));
+
+    expect(() => simulateCaseOpenings(2.5, [], options)).toThrow(CaseSimulationError);
+    expect(() => simulateCaseOpenings(2.5, unpriced, options)).toThrow(CaseSimulationError);
+  });
+
+  it('should accept numeric and string seeds', () => {
+    expect(normalizeSeed(123)).toBe(123);
+    expect(normalizeSeed('my-100-cases')).toBe(normalizeSeed('my-100-cases'));
+    expect(normalizeSeed(-1)).toBeNull();
+    expect(normalizeSeed('')).toBeNull();
+  });
+});
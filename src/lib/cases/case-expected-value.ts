@@ -0,0 +1,310 @@
+/**
+ * Case Expected Value Calculator
+ *
+ * BDD Reference: features/02-relational-browsing.feature
+ *   - Calculate expected value
+ *
+ * Expected value of one case opening, from CaseItem.drop_probability and the
+ * lowest current marketplace price of every variant:
+ * - Skin odds: CaseItem.drop_probability (rarity tier share per skin)
+ * - Wear odds: float is uniform over the skin's [wear_min, wear_max] range,
+ *   split across the standard wear brackets
+ * - StatTrak odds: 10% for skins that have StatTrak variants
+ * - Special items (knives, gloves) form their own pool
+ *
+ * Values are what the user would receive selling the drop: listing price net
+ * of the platform's seller fee. Cost per opening is Case.key_price.
+ *
+ * Critical Gotchas:
+ * - The importer stores the skin's tier share on EVERY wear/StatTrak variant
+ *   row, so the skin probability is the mean of its variant rows, not the sum
+ * - Skin odds are normalized to 100% so bad probability data (see the route's
+ *   probabilityValid) does not inflate or deflate the EV
+ * - Wear/quality outcomes without a price are renormalized away within the
+ *   skin; skins with no priced variant count as $0 and lower priceCoverage
+ */
+
+import { getBaseWeaponName, normalizeRarity, WEAR_FLOAT_RANGES } from '../normalize';
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service';
+
+export const STATTRAK_ODDS = 0.1;
+
+/**
+ * Tier used for special items in the breakdown
+ */
+export const SPECIAL_ITEM_TIER = 'contraband';
+
+/**
+ * One case variant (CaseItem + Item + its cheapest current price)
+ */
+export interface CaseValuationVariant {
+  baseName: string; // Skin name without StatTrak™ prefix and wear
+  rarity: string | null;
+  isSpecialItem: boolean;
+  quality: string; // normal, stattrak, souvenir
+  wear: string; // factory_new ... battle_scarred, none
+  wearMin: number | null;
+  wearMax: number | null;
+  dropProbability: number; // Percentage
+  price: number | null; // Lowest listing price (USD), null = no listing
+  sellerFeePercent: number | null; // Seller fee on the listing's platform
+}
+
+export interface CaseTierBreakdown {
+  rarity: string;
+  skinCount: number;
+  probability: number; // Percentage of openings landing in this tier
+  averageValue: number; // Net value of a drop from this tier
+  contribution: number; // Share of the expected value (USD per opening)
+}
+
+export interface CaseValuation {
+  keyPrice: number;
+  grossExpectedValue: number; // Before seller fees
+  expectedValue: number; // Net of seller fees
+  expectedProfit: number; // expectedValue - keyPrice
+  roi: number; // Percentage
+  breakEvenProbability: number; // Percentage of openings worth >= keyPrice
+  variance: number;
+  standardDeviation: number;
+  priceCoverage: number; // Percentage of skin odds with at least one price
+  tiers: CaseTierBreakdown[];
+}
+
+/**
+ * One possible drop, with its probability per opening
+ */
+export interface CaseOutcome {
+  name: string; // Display name of the drop (quality + skin + wear)
+  baseName: string;
+  rarity: string; // Grade name (SPECIAL_ITEM_TIER for knives/gloves)
+  probability: number; // Fraction of all openings
+  grossValue: number;
+  netValue: number; // After the platform seller fee
+  priced: boolean; // false = skin without any listing, valued at $0
+}
+
+/**
+ * Item fields needed to value a CaseItem (Prisma select)
+ */
+export const CASE_VALUATION_ITEM_SELECT = {
+  name: true,
+  rarity: true,
+  quality: true,
+  wear: true,
+  wear_min: true,
+  wear_max: true,
+  marketplace_prices: {
+    where: NON_QUARANTINED_PRICE,
+    orderBy: { price: 'asc' as const },
+    take: 1,
+    select: { price: true, seller_fee_percent: true },
+  },
+};
+
+interface CaseItemRow {
+  drop_probability: number;
+  is_special_item: boolean;
+  item: {
+    name: string;
+    rarity: string | null;
+    quality: string;
+    wear: string;
+    wear_min: number | null;
+    wear_max: number | null;
+    marketplace_prices: Array<{ price: number; seller_fee_percent: number | null }>;
+  };
+}
+
+const WEAR_LABELS: Record<string, string> = {
+  factory_new: 'Factory New',
+  minimal_wear: 'Minimal Wear',
+  field_tested: 'Field-Tested',
+  well_worn: 'Well-Worn',
+  battle_scarred: 'Battle-Scarred',
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Map a CaseItem row (item selected with CASE_VALUATION_ITEM_SELECT)
+ */
+export function toCaseValuationVariant(caseItem: CaseItemRow): CaseValuationVariant {
+  const price = caseItem.item.marketplace_prices[0];
+
+  return {
+    baseName: getBaseWeaponName(caseItem.item.name),
+    rarity: caseItem.item.rarity,
+    isSpecialItem: caseItem.is_special_item,
+    quality: caseItem.item.quality,
+    wear: caseItem.item.wear,
+    wearMin: caseItem.item.wear_min,
+    wearMax: caseItem.item.wear_max,
+    dropProbability: caseItem.drop_probability,
+    price: price ? price.price : null,
+    sellerFeePercent: price?.seller_fee_percent ?? null,
+  };
+}
+
+/**
+ * Probability of each wear bracket for a skin's float range
+ */
+export function getWearProbabilities(wearMin: number | null, wearMax: number | null): Record<string, number> {
+  const min = wearMin ?? 0;
+  const max = wearMax ?? 1;
+  const span = max - min;
+  const probabilities: Record<string, number> = {};
+
+  for (const [wear, [low, high]] of Object.entries(WEAR_FLOAT_RANGES)) {
+    const overlap = Math.max(0, Math.min(high, max) - Math.max(low, min));
+    if (span > 0 && overlap > 0) {
+      probabilities[wear] = overlap / span;
+    }
+  }
+
+  // Degenerate range (single float value): it falls in exactly one bracket
+  if (span <= 0) {
+    const entry = Object.entries(WEAR_FLOAT_RANGES).find(([, [low, high]]) => min >= low && min < high);
+    probabilities[entry ? entry[0] : 'battle_scarred'] = 1;
+  }
+
+  return probabilities;
+}
+
+/**
+ * Priced outcomes of one skin, with probabilities renormalized over the
+ * priced wear/quality combinations
+ */
+function getSkinOutcomes(
+  variants: CaseValuationVariant[],
+  rarity: string,
+  skinProbability: number
+): CaseOutcome[] {
+  const hasStatTrak = variants.some((variant) => variant.quality === 'stattrak');
+  const reference = variants.find((variant) => variant.wearMin !== null || variant.wearMax !== null) ?? variants[0];
+  const wearProbabilities = getWearProbabilities(reference.wearMin, reference.wearMax);
+
+  const weighted: Array<{ variant: CaseValuationVariant; weight: number }> = [];
+
+  for (const variant of variants) {
+    // Souvenirs only drop from souvenir packages, never from cases
+    if (variant.quality === 'souvenir' || variant.price === null) continue;
+
+    const qualityWeight = hasStatTrak ? (variant.quality === 'stattrak' ? STATTRAK_ODDS : 1 - STATTRAK_ODDS) : 1;
+    const wearWeight = variant.wear === 'none' ? 1 : wearProbabilities[variant.wear] ?? 0;
+    const weight = qualityWeight * wearWeight;
+    if (weight > 0) {
+      weighted.push({ variant, weight });
+    }
+  }
+
+  const baseName = variants[0].baseName;
+  const totalWeight = weighted.reduce((sum, outcome) => sum + outcome.weight, 0);
+
+  if (totalWeight <= 0) {
+    return [{ name: baseName, baseName, rarity, probability: skinProbability, grossValue: 0, netValue: 0, priced: false }];
+  }
+
+  return weighted.map(({ variant, weight }) => {
+    const price = variant.price ?? 0;
+    const prefix = variant.quality === 'stattrak' ? 'StatTrak™ ' : '';
+    const suffix = WEAR_LABELS[variant.wear] ? ` (${WEAR_LABELS[variant.wear]})` : '';
+
+    return {
+      name: `${prefix}${baseName}${suffix}`,
+      baseName,
+      rarity,
+      probability: (skinProbability * weight) / totalWeight,
+      grossValue: price,
+      netValue: price * (1 - (variant.sellerFeePercent ?? 0) / 100),
+      priced: true,
+    };
+  });
+}
+
+/**
+ * Every possible drop of one opening; probabilities sum to 1
+ *
+ * @param variants - Every CaseItem variant with its cheapest current price
+ */
+export function buildCaseOutcomes(variants: CaseValuationVariant[]): CaseOutcome[] {
+  // Group variants into skins
+  const skins = new Map<string, CaseValuationVariant[]>();
+  for (const variant of variants) {
+    const group = skins.get(variant.baseName);
+    if (group) {
+      group.push(variant);
+    } else {
+      skins.set(variant.baseName, [variant]);
+    }
+  }
+
+  const skinOdds = Array.from(skins.values()).map((group) => ({
+    group,
+    rarity: group.some((variant) => variant.isSpecialItem)
+      ? SPECIAL_ITEM_TIER
+      : normalizeRarity(group[0].rarity) ?? group[0].rarity ?? 'unknown',
+    odds: group.reduce((sum, variant) => sum + variant.dropProbability, 0) / group.length,
+  }));
+  const totalOdds = skinOdds.reduce((sum, skin) => sum + skin.odds, 0);
+
+  return skinOdds.flatMap((skin) =>
+    getSkinOutcomes(skin.group, skin.rarity, totalOdds > 0 ? skin.odds / totalOdds : 0)
+  );
+}
+
+/**
+ * Expected value, ROI, break-even odds and variance of opening one case
+ *
+ * @param keyPrice - Case.key_price (USD)
+ * @param variants - Every CaseItem variant with its cheapest current price
+ */
+export function calculateCaseValuation(keyPrice: number, variants: CaseValuationVariant[]): CaseValuation {
+  const outcomes = buildCaseOutcomes(variants);
+
+  const tiers = new Map<string, { skins: Set<string>; probability: number; contribution: number }>();
+  for (const outcome of outcomes) {
+    const tier = tiers.get(outcome.rarity) ?? { skins: new Set<string>(), probability: 0, contribution: 0 };
+    tier.skins.add(outcome.baseName);
+    tier.probability += outcome.probability;
+    tier.contribution += outcome.probability * outcome.netValue;
+    tiers.set(outcome.rarity, tier);
+  }
+
+  const grossExpectedValue = outcomes.reduce((sum, outcome) => sum + outcome.probability * outcome.grossValue, 0);
+  const expectedValue = outcomes.reduce((sum, outcome) => sum + outcome.probability * outcome.netValue, 0);
+  const variance = outcomes.reduce(
+    (sum, outcome) => sum + outcome.probability * (outcome.netValue - expectedValue) ** 2,
+    0
+  );
+
+  const breakEvenProbability = outcomes
+    .filter((outcome) => outcome.netValue >= keyPrice)
+    .reduce((sum, outcome) => sum + outcome.probability, 0);
+  const pricedProbability = outcomes
+    .filter((outcome) => outcome.priced)
+    .reduce((sum, outcome) => sum + outcome.probability, 0);
+
+  const expectedProfit = expectedValue - keyPrice;
+
+  return {
+    keyPrice,
+    grossExpectedValue: round2(grossExpectedValue),
+    expectedValue: round2(expectedValue),
+    expectedProfit: round2(expectedProfit),
+    roi: keyPrice > 0 ? round2((expectedProfit / keyPrice) * 100) : 0,
+    breakEvenProbability: round2(breakEvenProbability * 100),
+    variance: round2(variance),
+    standardDeviation: round2(Math.sqrt(variance)),
+    priceCoverage: round2(pricedProbability * 100),
+    tiers: Array.from(tiers.entries()).map(([rarity, tier]) => ({
+      rarity,
+      skinCount: tier.skins.size,
+      probability: round2(tier.probability * 100),
+      averageValue: tier.probability > 0 ? round2(tier.contribution / tier.probability) : 0,
+      contribution: round2(tier.contribution),
+    })),
+  };
+}
@@ -0,0 +1,249 @@
+/**
+ * Case Opening Simulator
+ *
+ * BDD Reference: features/02-relational-browsing.feature
+ *   - Calculate expected value
+ *
+ * Monte Carlo answer to "what happens if I open N of these": runs `trials`
+ * sessions of `openings` case openings each, drawing from the same outcome
+ * model as the expected value (src/lib/cases/case-expected-value.ts).
+ *
+ * Critical Gotchas:
+ * - Seeded PRNG (mulberry32): the same seed, options and prices reproduce the
+ *   same result, so a seed can be shared. Prices move, so results are only
+ *   reproducible while the underlying prices are unchanged.
+ * - Work is capped at MAX_SIMULATED_OPENINGS (openings × trials) to keep the
+ *   request inside the serverless time limit
+ * - An empty outcome model or all-zero odds cannot be sampled; the simulator
+ *   throws CaseSimulationError instead of returning made-up drops
+ */
+
+import { normalizeRarity } from '../normalize';
+import { SPECIAL_ITEM_TIER, type CaseOutcome } from './case-expected-value';
+
+export const DEFAULT_OPENINGS = 100;
+export const MAX_OPENINGS = 10000;
+export const DEFAULT_TRIALS = 1000;
+export const MAX_TRIALS = 10000;
+export const MAX_SIMULATED_OPENINGS = 1_000_000;
+
+/**
+ * Tiers counted as a "rare drop" (grade names; outcome rarities are normalized)
+ */
+export const RARE_DROP_TIERS = ['covert', SPECIAL_ITEM_TIER];
+
+const TOP_DROP_COUNT = 5;
+
+/**
+ * Error raised when the outcome model cannot be simulated
+ */
+export class CaseSimulationError extends Error {
+  constructor(
+    message: string,
+    public code: 'NO_OUTCOMES'
+  ) {
+    super(message);
+    this.name = 'CaseSimulationError';
+  }
+}
+
+export interface CaseSimulationOptions {
+  openings: number; // Openings per session
+  trials: number; // Simulated sessions
+  seed: number; // Unsigned 32-bit seed
+}
+
+export interface CaseSimulationResult {
+  seed: number;
+  openings: number;
+  trials: number;
+  keyPrice: number;
+  sessionCost: number; // openings × keyPrice
+  expectedProfit: number; // Analytic profit per session
+  averageProfit: number; // Simulated mean profit per session
+  profitPercentiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+  probabilityOfProfit: number; // Percentage of sessions ending in profit
+  longestLosingStreak: { median: number; max: number }; // Openings worth < keyPrice in a row
+  rareDropProbability: number; // Percentage of sessions with >= 1 covert/special item
+  distribution: Array<{ rarity: string; count: number; percent: number }>;
+  topDrops: Array<{ name: string; rarity: string; netValue: number; count: number }>;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * mulberry32 PRNG: fast, 32-bit state, good enough for simulation
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Accept a numeric seed or any string (hashed with FNV-1a)
+ *
+ * @returns Unsigned 32-bit seed, or null when the value is not a valid seed
+ */
+export function normalizeSeed(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value <= 0xffffffff ? value : null;
+  }
+
+  if (typeof value === 'string' && value.trim().length > 0) {
+    let hash = 0x811c9dc5;
+    for (const char of value.trim()) {
+      hash ^= char.codePointAt(0)!;
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+
+  return null;
+}
+
+/**
+ * Nearest-rank percentile of an ascending array
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+/**
+ * Run seeded case-opening sessions
+ *
+ * @param keyPrice - Cost per opening (Case.key_price)
+ * @param outcomes - Outcome model from buildCaseOutcomes()
+ * @param options - Openings per session, sessions, seed
+ * @throws CaseSimulationError when there is no outcome with a positive probability
+ */
+export function simulateCaseOpenings(
+  keyPrice: number,
+  outcomes: CaseOutcome[],
+  options: CaseSimulationOptions
+): CaseSimulationResult {
+  const { openings, trials, seed } = options;
+  const random = createSeededRandom(seed);
+
+  // Cumulative distribution for binary-search sampling
+  const cumulative: number[] = [];
+  let total = 0;
+  for (const outcome of outcomes) {
+    total += outcome.probability;
+    cumulative.push(total);
+  }
+  if (!(total > 0)) {
+    throw new CaseSimulationError('Case has no drop odds to simulate', 'NO_OUTCOMES');
+  }
+
+  const draw = (): number => {
+    const target = random() * total;
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (cumulative[mid] > target) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  };
+
+  const isRareDrop = outcomes.map((outcome) =>
+    RARE_DROP_TIERS.includes(normalizeRarity(outcome.rarity) ?? outcome.rarity)
+  );
+  const outcomeCounts = new Array<number>(outcomes.length).fill(0);
+  const profits: number[] = [];
+  const streaks: number[] = [];
+  let sessionsWithRareDrop = 0;
+
+  for (let trial = 0; trial < trials; trial++) {
+    let value = 0;
+    let streak = 0;
+    let longestStreak = 0;
+    let rareDrop = false;
+
+    for (let opening = 0; opening < openings; opening++) {
+      const index = draw();
+      const outcome = outcomes[index];
+      outcomeCounts[index]++;
+      value += outcome.netValue;
+
+      if (outcome.netValue < keyPrice) {
+        streak++;
+        longestStreak = Math.max(longestStreak, streak);
+      } else {
+        streak = 0;
+      }
+
+      if (isRareDrop[index]) {
+        rareDrop = true;
+      }
+    }
+
+    profits.push(value - openings * keyPrice);
+    streaks.push(longestStreak);
+    if (rareDrop) sessionsWithRareDrop++;
+  }
+
+  profits.sort((a, b) => a - b);
+  streaks.sort((a, b) => a - b);
+
+  const totalOpenings = openings * trials;
+  const tierCounts = new Map<string, number>();
+  outcomes.forEach((outcome, index) => {
+    tierCounts.set(outcome.rarity, (tierCounts.get(outcome.rarity) ?? 0) + outcomeCounts[index]);
+  });
+
+  const expectedValue = outcomes.reduce((sum, outcome) => sum + outcome.probability * outcome.netValue, 0);
+
+  return {
+    seed,
+    openings,
+    trials,
+    keyPrice,
+    sessionCost: round2(openings * keyPrice),
+    expectedProfit: round2(openings * (expectedValue / total - keyPrice)),
+    averageProfit: round2(profits.reduce((sum, profit) => sum + profit, 0) / trials),
+    profitPercentiles: {
+      p5: round2(percentile(profits, 5)),
+      p25: round2(percentile(profits, 25)),
+      p50: round2(percentile(profits, 50)),
+      p75: round2(percentile(profits, 75)),
+      p95: round2(percentile(profits, 95)),
+    },
+    probabilityOfProfit: round2((profits.filter((profit) => profit > 0).length / trials) * 100),
+    longestLosingStreak: {
+      median: percentile(streaks, 50),
+      max: streaks[streaks.length - 1] ?? 0,
+    },
+    rareDropProbability: round2((sessionsWithRareDrop / trials) * 100),
+    distribution: Array.from(tierCounts.entries()).map(([rarity, count]) => ({
+      rarity,
+      count,
+      percent: round2((count / totalOpenings) * 100),
+    })),
+    topDrops: outcomes
+      .map((outcome, index) => ({
+        name: outcome.name,
+        rarity: outcome.rarity,
+        netValue: round2(outcome.netValue),
+        count: outcomeCounts[index],
+      }))
+      .filter((drop) => drop.count > 0)
+      .sort((a, b) => b.netValue - a.netValue)
+      .slice(0, TOP_DROP_COUNT),
+  };
+}
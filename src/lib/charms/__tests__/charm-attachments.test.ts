@@ -0,0 +1,58 @@
+/**
+ * Charm Attachment Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  applyInspectKeychains,
+  getCharmsCost,
+  normalizeStoredCharms,
+  parseCharmDescriptions,
+  toCharmItemName,
+  toCharmName,
+} from '../charm-attachments'
+
+describe('Charm Attachments', () => {
+  it('should parse the charm name from a keychain_info block', () => {
+    const html =
+      '<br><div id="keychain_info" name="keychain_info" title="Charm" style="text-align: center;">' +
+      '<img width=64 height=48 src="https://example.com/charm.png"><br>Charm: Lil&#39; Squirt</center></div>'
+
+    expect(parseCharmDescriptions([html])).toEqual([{ name: "Lil' Squirt", pattern: null }])
+    expect(parseCharmDescriptions(['Charm: Baby Karat CT', 'Charm: Hot Howl'])).toEqual([
+      { name: 'Baby Karat CT', pattern: null },
+    ])
+  })
+
+  it('should take the pattern seed from inspect keychains', () => {
+    const charms = parseCharmDescriptions(["Charm: Lil' Squirt"])
+
+    expect(applyInspectKeychains(charms, [{ slot: 0, stickerId: 36, wear: null, pattern: 12345 }])).toEqual([
+      { name: "Lil' Squirt", pattern: 12345 },
+    ])
+    expect(applyInspectKeychains(charms, [])).toBe(charms)
+  })
+
+  it('should convert between charm names and item names', () => {
+    expect(toCharmItemName("Lil' Squirt")).toBe("Charm | Lil' Squirt")
+    expect(toCharmItemName("Charm | Lil' Squirt")).toBe("Charm | Lil' Squirt")
+    expect(toCharmName("Charm | Lil' Squirt")).toBe("Lil' Squirt")
+  })
+
+  it('should read stored charms and total their prices', () => {
+    const stored = [
+      { name: "Charm | Lil' Squirt", pattern: 7, item_id: 'charm-1', price: 1.25, platform: 'csfloat' },
+      { name: 'Hot Howl', price: 0.5 },
+      'invalid',
+    ]
+
+    expect(normalizeStoredCharms(stored)).toEqual([
+      { name: "Lil' Squirt", pattern: 7, item_id: 'charm-1', price: 1.25, platform: 'csfloat' },
+      { name: 'Hot Howl', pattern: null, item_id: null, price: 0.5, platform: 'unknown' },
+    ])
+    expect(getCharmsCost(stored)).toBe(1.75)
+    expect(getCharmsCost(null)).toBe(0)
+  })
+})
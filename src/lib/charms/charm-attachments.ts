@@ -0,0 +1,113 @@
+/**
+ * Charm Attachments
+ *
+ * Weapon charms (keychains, added Oct 2025) hang from a single slot on a
+ * weapon. Charm `Item` rows are imported by importKeychains() (type="keychain").
+ *
+ * Stored shapes:
+ * - InventoryItem.charms: AppliedCharm[] parsed from Steam descriptions
+ * - LoadoutWeaponSkin.charms: LoadoutCharm[] attached in the loadout builder,
+ *   with the price paid so actual_cost can be reversed on detach
+ *
+ * Steam format seen in inventory descriptions (one keychain_info HTML block):
+ *   '<br><div id="keychain_info" ...><img ...><br>Charm: Lil' Squirt</center></div>'
+ *
+ * Critical Gotchas:
+ * - Item names from the ByMykel import are prefixed: "Charm | Lil' Squirt"
+ * - Descriptions carry no charm pattern; pattern is null unless it comes
+ *   from a masked inspect link (applyInspectKeychains)
+ * - Charm prices count toward actual_cost and the "charms" budget category,
+ *   not the weapon_skins category of the weapon they hang on
+ */
+
+import type { InspectSticker } from '../steam/inspect-link-decoder'
+import { getDescriptionLabelText } from '../steam/description-text'
+
+export const MAX_CHARM_SLOTS = 1
+
+const CHARM_ITEM_PREFIX = 'Charm | '
+
+/**
+ * Charm as stored in InventoryItem.charms
+ */
+export interface AppliedCharm {
+  name: string // "Lil' Squirt"
+  pattern: number | null // Keychain pattern seed
+  item_id: string | null // Charm Item, NULL if not matched
+}
+
+/**
+ * Charm as stored in LoadoutWeaponSkin.charms
+ */
+export interface LoadoutCharm extends AppliedCharm {
+  price: number // Price at time of attachment (added to actual_cost)
+  platform: string
+}
+
+/**
+ * Item.name of a charm: "Lil' Squirt" -> "Charm | Lil' Squirt"
+ */
+export function toCharmItemName(name: string): string {
+  return name.startsWith(CHARM_ITEM_PREFIX) ? name : `${CHARM_ITEM_PREFIX}${name}`
+}
+
+/**
+ * Charm name without the "Charm | " prefix
+ */
+export function toCharmName(itemName: string): string {
+  return itemName.startsWith(CHARM_ITEM_PREFIX) ? itemName.slice(CHARM_ITEM_PREFIX.length) : itemName
+}
+
+/**
+ * Parse Steam charm descriptions into charm names
+ *
+ * @param descriptions - Strings from SteamInventoryClient.extractCharmDescriptions()
+ * @returns Charms, at most MAX_CHARM_SLOTS
+ */
+export function parseCharmDescriptions(descriptions: string[]): Array<Omit<AppliedCharm, 'item_id'>> {
+  return descriptions
+    .map((description) => getDescriptionLabelText(description, 'Charm:'))
+    .filter((name) => name.length > 0)
+    .slice(0, MAX_CHARM_SLOTS)
+    .map((name) => ({ name, pattern: null }))
+}
+
+/**
+ * Add pattern seeds from decoded inspect keychains, matched in slot order
+ */
+export function applyInspectKeychains<T extends { pattern: number | null }>(
+  charms: T[],
+  keychains: InspectSticker[]
+): T[] {
+  if (keychains.length === 0) return charms
+
+  const slots = [...keychains].sort((a, b) => a.slot - b.slot)
+  return charms.map((charm, index) => (slots[index] ? { ...charm, pattern: slots[index].pattern } : charm))
+}
+
+/**
+ * Read a charms JSON column (InventoryItem or LoadoutWeaponSkin)
+ */
+export function normalizeStoredCharms(value: unknown): LoadoutCharm[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        typeof entry === 'object' && entry !== null && typeof (entry as { name?: unknown }).name === 'string'
+    )
+    .map((entry) => ({
+      name: toCharmName(entry.name as string),
+      pattern: typeof entry.pattern === 'number' ? entry.pattern : null,
+      item_id: typeof entry.item_id === 'string' ? entry.item_id : null,
+      price: typeof entry.price === 'number' ? entry.price : 0,
+      platform: typeof entry.platform === 'string' ? entry.platform : 'unknown',
+    }))
+}
+
+/**
+ * Total price of attached charms
+ */
+export function getCharmsCost(charms: unknown): number {
+  return Math.round(normalizeStoredCharms(charms).reduce((sum, charm) => sum + charm.price, 0) * 100) / 100
+}
@@ -0,0 +1,31 @@
+/**
+ * Charm Service
+ *
+ * Resolves charm names (src/lib/charms/charm-attachments.ts) to charm `Item`
+ * rows imported by importKeychains().
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { toCharmItemName, toCharmName } from './charm-attachments'
+
+/**
+ * Map charm names ("Lil' Squirt") to charm Item IDs
+ */
+export async function resolveCharmItemIds(
+  names: string[],
+  client: PrismaClient = prisma
+): Promise<Map<string, string>> {
+  const uniqueNames = Array.from(new Set(names))
+  if (uniqueNames.length === 0) return new Map()
+
+  const items = await client.item.findMany({
+    where: {
+      type: 'keychain',
+      name: { in: uniqueNames.flatMap((name) => [name, toCharmItemName(name)]) },
+    },
+    select: { id: true, name: true },
+  })
+
+  return new Map(items.map((item) => [toCharmName(item.name), item.id]))
+}
@@ -0,0 +1,155 @@
+/**
+ * Item Color Palette Tests
+ *
+ * @jest-environment node
+ */
+
+import { deflateSync } from 'zlib'
+import { describe, it, expect } from '@jest/globals'
+import {
+  classifyColor,
+  extractPalette,
+  getThemeColorFamilies,
+  isOnTheme,
+  normalizeStoredPalette,
+  themeMatchScore,
+  type RgbaImage,
+} from '../color-palette'
+import { decodePng, PngDecodeError } from '../png-decoder'
+
+/**
+ * Image made of horizontal bands: [r, g, b, a, pixel count]
+ */
+function bands(...pixels: Array<[number, number, number, number, number]>): RgbaImage {
+  const data: number[] = []
+  for (const [r, g, b, a, count] of pixels) {
+    for (let i = 0; i < count; i++) data.push(r, g, b, a)
+  }
+  return { width: data.length / 4, height: 1, data: Uint8Array.from(data) }
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  return Buffer.concat([length, Buffer.from(type, 'ascii'), data, Buffer.alloc(4)]) // CRC is not checked
+}
+
+describe('classifyColor', () => {
+  it('classifies chromatic colors by hue', () => {
+    expect(classifyColor(200, 20, 30)).toBe('red')
+    expect(classifyColor(30, 60, 200)).toBe('blue')
+    expect(classifyColor(40, 180, 60)).toBe('green')
+    expect(classifyColor(220, 180, 40)).toBe('gold')
+    expect(classifyColor(140, 40, 200)).toBe('purple')
+  })
+
+  it('classifies low-saturation colors as white, gray or black', () => {
+    expect(classifyColor(245, 245, 245)).toBe('white')
+    expect(classifyColor(120, 124, 128)).toBe('gray')
+    expect(classifyColor(10, 10, 12)).toBe('black')
+  })
+})
+
+describe('extractPalette', () => {
+  it('ignores transparent background and weights colors by opaque share', () => {
+    const image = bands([0, 0, 0, 0, 50], [200, 20, 30, 255, 30], [120, 124, 128, 255, 70])
+    const { palette, families } = extractPalette(image)
+
+    expect(palette.map((color) => color.family)).toEqual(['gray', 'red'])
+    expect(palette[0].weight).toBe(0.7)
+    expect(palette[1].weight).toBe(0.3)
+    expect(palette[1].hex).toBe('#c8141e')
+    expect(families).toEqual(['gray', 'red'])
+  })
+
+  it('leaves out families below the minimum share', () => {
+    const { families } = extractPalette(bands([200, 20, 30, 255, 5], [120, 124, 128, 255, 95]))
+
+    expect(families).toEqual(['gray'])
+  })
+
+  it('returns an empty palette for fully transparent images', () => {
+    expect(extractPalette(bands([0, 0, 0, 0, 10]))).toEqual({ palette: [], families: [] })
+  })
+})
+
+describe('themes', () => {
+  it('maps known themes to color families and ignores unknown ones', () => {
+    expect(getThemeColorFamilies(' Red ')).toEqual(['red'])
+    expect(getThemeColorFamilies('dragon')).toEqual(['red', 'orange', 'gold'])
+    expect(getThemeColorFamilies('cyberpunk')).toEqual([])
+    expect(getThemeColorFamilies(null)).toEqual([])
+  })
+
+  it('matches items by color families', () => {
+    expect(isOnTheme(['gray', 'red'], 'red')).toBe(true)
+    expect(isOnTheme(['gray', 'red'], 'blue')).toBe(false)
+    expect(isOnTheme([], 'red')).toBe(false)
+  })
+
+  it('scores palettes by their share of theme colors', () => {
+    const palette = [
+      { hex: '#7f7f7f', weight: 0.6, family: 'gray' as const },
+      { hex: '#c8141e', weight: 0.3, family: 'red' as const },
+      { hex: '#dcb428', weight: 0.1, family: 'gold' as const },
+    ]
+
+    expect(themeMatchScore(palette, 'red')).toBe(0.3)
+    expect(themeMatchScore(palette, 'dragon')).toBe(0.4)
+    expect(themeMatchScore(palette, 'none')).toBe(0)
+  })
+})
+
+describe('normalizeStoredPalette', () => {
+  it('keeps valid entries and defaults unknown families', () => {
+    expect(
+      normalizeStoredPalette([{ hex: '#c8141e', weight: 0.3, family: 'red' }, { hex: '#000000' }, { hex: '#111111', weight: 0.1, family: 'x' }])
+    ).toEqual([
+      { hex: '#c8141e', weight: 0.3, family: 'red' },
+      { hex: '#111111', weight: 0.1, family: 'gray' },
+    ])
+    expect(normalizeStoredPalette(null)).toEqual([])
+  })
+})
+
+describe('decodePng', () => {
+  function png(colorType: number, rows: number[][], extra: Buffer[] = []): Buffer {
+    const header = Buffer.alloc(13)
+    header.writeUInt32BE(2, 0) // Width
+    header.writeUInt32BE(rows.length, 4) // Height
+    header[8] = 8
+    header[9] = colorType
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk('IHDR', header),
+      ...extra,
+      chunk('IDAT', deflateSync(Buffer.from(rows.flat()))),
+      chunk('IEND', Buffer.alloc(0)),
+    ])
+  }
+
+  it('decodes RGBA scanlines with filters', () => {
+    const image = decodePng(
+      png(6, [
+        [0, 200, 20, 30, 255, 0, 0, 0, 0], // No filter
+        [2, 0, 0, 0, 0, 10, 10, 10, 255], // Up filter
+      ])
+    )
+
+    expect(image.width).toBe(2)
+    expect(image.height).toBe(2)
+    expect(Array.from(image.data)).toEqual([200, 20, 30, 255, 0, 0, 0, 0, 200, 20, 30, 255, 10, 10, 10, 255])
+  })
+
+  it('decodes palette images with transparency', () => {
+    const image = decodePng(
+      png(3, [[0, 0, 1]], [chunk('PLTE', Buffer.from([0, 0, 0, 30, 60, 200])), chunk('tRNS', Buffer.from([0]))])
+    )
+
+    expect(Array.from(image.data)).toEqual([0, 0, 0, 0, 30, 60, 200, 255])
+  })
+
+  it('rejects files that are not PNGs', () => {
+    expect(() => decodePng(Buffer.from('GIF89a'))).toThrow(PngDecodeError)
+  })
+})
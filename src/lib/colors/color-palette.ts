@@ -0,0 +1,285 @@
+/**
+ * Item Color Palettes
+ *
+ * Dominant colors of an item image, stored on Item.palette and
+ * Item.color_families by scripts/extract-item-colors.ts. Used to match
+ * items against a loadout theme ("red", "dragon", ...) in the item browser
+ * and the budget allocator.
+ *
+ * Extraction:
+ * - Transparent pixels (the image background) are ignored
+ * - Pixels are bucketed per channel, then buckets of the same color family
+ *   that are close together are merged into one palette color
+ * - Weights are shares of the opaque pixels, so the palette's weights sum
+ *   to at most 1 (small clusters beyond maxColors are dropped)
+ *
+ * Critical Gotchas:
+ * - Most skins are largely gray/black metal; a skin is "red" when red covers
+ *   MIN_FAMILY_WEIGHT of it, not when red is the largest family
+ * - Themes without a color mapping (free-text themes) match nothing, so no
+ *   theme preference is applied for them
+ */
+
+export type ColorFamily =
+  | 'red'
+  | 'orange'
+  | 'gold'
+  | 'green'
+  | 'teal'
+  | 'blue'
+  | 'purple'
+  | 'pink'
+  | 'brown'
+  | 'white'
+  | 'gray'
+  | 'black'
+
+/**
+ * Palette color as stored in Item.palette
+ */
+export interface PaletteColor {
+  hex: string // #rrggbb
+  weight: number // Share of opaque pixels (0-1)
+  family: ColorFamily
+}
+
+export interface ItemPalette {
+  palette: PaletteColor[] // By weight, largest first
+  families: ColorFamily[] // Families covering >= MIN_FAMILY_WEIGHT, by weight
+}
+
+/**
+ * Decoded image; `data` is RGBA, 4 bytes per pixel
+ */
+export interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8Array | Uint8ClampedArray
+}
+
+export interface PaletteOptions {
+  maxColors: number
+  minAlpha: number // Pixels with lower alpha are background
+  bucketBits: number // Bits kept per channel when bucketing
+  mergeDistance: number // Max RGB distance between merged buckets
+  maxSamples: number // Pixels sampled at most (evenly spaced)
+}
+
+export const DEFAULT_PALETTE_OPTIONS: PaletteOptions = {
+  maxColors: 6,
+  minAlpha: 128,
+  bucketBits: 4,
+  mergeDistance: 48,
+  maxSamples: 40000,
+}
+
+/**
+ * Share of the skin a family must cover to count (Item.color_families)
+ */
+export const MIN_FAMILY_WEIGHT = 0.15
+
+/**
+ * Color families per loadout theme (Loadout.theme)
+ */
+export const THEME_COLOR_FAMILIES: Record<string, ColorFamily[]> = {
+  red: ['red'],
+  blue: ['blue', 'teal'],
+  green: ['green', 'teal'],
+  purple: ['purple', 'pink'],
+  gold: ['gold', 'orange'],
+  dragon: ['red', 'orange', 'gold'],
+}
+
+const FAMILIES: ColorFamily[] = [
+  'red',
+  'orange',
+  'gold',
+  'green',
+  'teal',
+  'blue',
+  'purple',
+  'pink',
+  'brown',
+  'white',
+  'gray',
+  'black',
+]
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`
+}
+
+/**
+ * Color family of an RGB color (0-255 channels)
+ */
+export function classifyColor(r: number, g: number, b: number): ColorFamily {
+  const max = Math.max(r, g, b) / 255
+  const min = Math.min(r, g, b) / 255
+  const lightness = (max + min) / 2
+  const delta = max - min
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1))
+
+  if (lightness < 0.12) return 'black'
+  if (saturation < 0.18 || delta < 0.08) {
+    if (lightness > 0.85) return 'white'
+    return lightness < 0.2 ? 'black' : 'gray'
+  }
+
+  let hue: number
+  if (max === r / 255) {
+    hue = (((g - b) / 255 / delta) % 6) * 60
+  } else if (max === g / 255) {
+    hue = ((b - r) / 255 / delta + 2) * 60
+  } else {
+    hue = ((r - g) / 255 / delta + 4) * 60
+  }
+  if (hue < 0) hue += 360
+
+  if (hue < 15 || hue >= 345) return 'red'
+  if (hue < 40) return lightness < 0.35 ? 'brown' : 'orange'
+  if (hue < 65) return lightness < 0.3 ? 'brown' : 'gold'
+  if (hue < 165) return 'green'
+  if (hue < 195) return 'teal'
+  if (hue < 255) return 'blue'
+  if (hue < 290) return 'purple'
+  return 'pink'
+}
+
+interface Cluster {
+  r: number // Channel sums
+  g: number
+  b: number
+  count: number
+  family: ColorFamily
+}
+
+/**
+ * Extract the dominant colors of an image
+ */
+export function extractPalette(image: RgbaImage, options: PaletteOptions = DEFAULT_PALETTE_OPTIONS): ItemPalette {
+  const pixelCount = image.width * image.height
+  const step = Math.max(1, Math.floor(pixelCount / options.maxSamples))
+  const shift = 8 - options.bucketBits
+  const buckets = new Map<number, Cluster>()
+  let opaque = 0
+
+  for (let pixel = 0; pixel < pixelCount; pixel += step) {
+    const offset = pixel * 4
+    if (image.data[offset + 3] < options.minAlpha) continue
+
+    const r = image.data[offset]
+    const g = image.data[offset + 1]
+    const b = image.data[offset + 2]
+    const key = ((r >> shift) << (2 * options.bucketBits)) | ((g >> shift) << options.bucketBits) | (b >> shift)
+
+    const bucket = buckets.get(key)
+    if (bucket) {
+      bucket.r += r
+      bucket.g += g
+      bucket.b += b
+      bucket.count++
+    } else {
+      buckets.set(key, { r, g, b, count: 1, family: 'gray' })
+    }
+    opaque++
+  }
+
+  if (opaque === 0) return { palette: [], families: [] }
+
+  // Merge buckets into clusters, largest buckets first
+  const clusters: Cluster[] = []
+  const sortedBuckets = [...buckets.values()].sort((a, b) => b.count - a.count)
+  for (const bucket of sortedBuckets) {
+    const r = bucket.r / bucket.count
+    const g = bucket.g / bucket.count
+    const b = bucket.b / bucket.count
+    const family = classifyColor(r, g, b)
+
+    const cluster = clusters.find((candidate) => {
+      if (candidate.family !== family) return false
+      const dr = candidate.r / candidate.count - r
+      const dg = candidate.g / candidate.count - g
+      const db = candidate.b / candidate.count - b
+      return Math.sqrt(dr * dr + dg * dg + db * db) <= options.mergeDistance
+    })
+
+    if (cluster) {
+      cluster.r += bucket.r
+      cluster.g += bucket.g
+      cluster.b += bucket.b
+      cluster.count += bucket.count
+    } else {
+      clusters.push({ ...bucket, family })
+    }
+  }
+
+  clusters.sort((a, b) => b.count - a.count)
+
+  const familyWeights = new Map<ColorFamily, number>()
+  for (const cluster of clusters) {
+    familyWeights.set(cluster.family, (familyWeights.get(cluster.family) ?? 0) + cluster.count / opaque)
+  }
+
+  return {
+    palette: clusters.slice(0, options.maxColors).map((cluster) => ({
+      hex: toHex(cluster.r / cluster.count, cluster.g / cluster.count, cluster.b / cluster.count),
+      weight: round3(cluster.count / opaque),
+      family: cluster.family,
+    })),
+    families: [...familyWeights.entries()]
+      .filter(([, weight]) => weight >= MIN_FAMILY_WEIGHT)
+      .sort((a, b) => b[1] - a[1])
+      .map(([family]) => family),
+  }
+}
+
+/**
+ * Color families of a theme; empty for themes without a color mapping
+ */
+export function getThemeColorFamilies(theme: string | null | undefined): ColorFamily[] {
+  if (!theme) return []
+  return THEME_COLOR_FAMILIES[theme.trim().toLowerCase()] ?? []
+}
+
+/**
+ * Whether an item (Item.color_families) matches a theme
+ */
+export function isOnTheme(colorFamilies: string[] | null | undefined, theme: string | null | undefined): boolean {
+  const themeFamilies: string[] = getThemeColorFamilies(theme)
+  return (colorFamilies ?? []).some((family) => themeFamilies.includes(family))
+}
+
+/**
+ * Share of an item's palette in a theme's colors (0-1)
+ */
+export function themeMatchScore(palette: PaletteColor[], theme: string | null | undefined): number {
+  const themeFamilies = getThemeColorFamilies(theme)
+  return round3(
+    palette.filter((color) => themeFamilies.includes(color.family)).reduce((sum, color) => sum + color.weight, 0)
+  )
+}
+
+/**
+ * Read an Item.palette JSON column
+ */
+export function normalizeStoredPalette(value: unknown): PaletteColor[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        typeof entry === 'object' &&
+        entry !== null &&
+        typeof (entry as { hex?: unknown }).hex === 'string' &&
+        typeof (entry as { weight?: unknown }).weight === 'number'
+    )
+    .map((entry) => ({
+      hex: entry.hex as string,
+      weight: entry.weight as number,
+      family: FAMILIES.includes(entry.family as ColorFamily) ? (entry.family as ColorFamily) : 'gray',
+    }))
+}
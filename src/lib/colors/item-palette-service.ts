@@ -0,0 +1,135 @@
+/**
+ * Item Palette Service
+ *
+ * Extracts dominant colors from item images and stores them on Item.palette
+ * and Item.color_families (src/lib/colors/color-palette.ts). Run offline by
+ * scripts/extract-item-colors.ts.
+ *
+ * Image source: Item.image_local_path (relative to public/ unless absolute),
+ * then image_url, then image_url_fallback.
+ *
+ * Critical Gotchas:
+ * - Images that can't be decoded are marked as extracted with an empty
+ *   palette so every run doesn't retry them; download failures are not
+ *   marked and are retried next run
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { extractPalette } from './color-palette'
+import { decodePng, PngDecodeError } from './png-decoder'
+
+const BATCH_SIZE = 100
+const IMAGE_FETCH_TIMEOUT_MS = 15000
+
+export interface PaletteExtractionOptions {
+  limit?: number // Items processed at most (default: all pending)
+  force?: boolean // Re-extract items that already have a palette
+  loadImage?: (item: ImageSource) => Promise<Buffer>
+}
+
+export interface PaletteExtractionResult {
+  processed: number
+  extracted: number
+  undecodable: number // Marked with an empty palette
+  failed: number // Download errors, retried next run
+}
+
+export interface ImageSource {
+  image_url: string
+  image_url_fallback: string | null
+  image_local_path: string | null
+}
+
+async function fetchImage(url: string): Promise<Buffer> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} for ${url}`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/**
+ * Read an item image from disk or download it
+ */
+export async function loadItemImage(item: ImageSource): Promise<Buffer> {
+  if (item.image_local_path) {
+    const file = path.isAbsolute(item.image_local_path)
+      ? item.image_local_path
+      : path.join(process.cwd(), 'public', item.image_local_path)
+    try {
+      return await readFile(file)
+    } catch {
+      // Fall through to the remote images
+    }
+  }
+
+  try {
+    return await fetchImage(item.image_url)
+  } catch (error) {
+    if (!item.image_url_fallback) throw error
+    return fetchImage(item.image_url_fallback)
+  }
+}
+
+/**
+ * Extract and store palettes for items without one
+ */
+export async function extractItemPalettes(
+  options: PaletteExtractionOptions = {},
+  client: PrismaClient = prisma
+): Promise<PaletteExtractionResult> {
+  const limit = options.limit ?? Number.POSITIVE_INFINITY
+  const loadImage = options.loadImage ?? loadItemImage
+  const result: PaletteExtractionResult = { processed: 0, extracted: 0, undecodable: 0, failed: 0 }
+  let cursor: string | undefined
+
+  while (result.processed < limit) {
+    const items = await client.item.findMany({
+      where: {
+        ...(options.force ? {} : { palette_extracted_at: null }),
+        ...(cursor ? { id: { gt: cursor } } : {}),
+      },
+      orderBy: { id: 'asc' },
+      take: Math.min(BATCH_SIZE, limit - result.processed),
+      select: { id: true, name: true, image_url: true, image_url_fallback: true, image_local_path: true },
+    })
+    if (items.length === 0) break
+
+    for (const item of items) {
+      cursor = item.id
+      result.processed++
+
+      let image: Buffer
+      try {
+        image = await loadImage(item)
+      } catch (error) {
+        console.warn(`[Palettes] Could not load image for ${item.name}:`, error instanceof Error ? error.message : error)
+        result.failed++
+        continue
+      }
+
+      try {
+        const { palette, families } = extractPalette(decodePng(image))
+        await client.item.update({
+          where: { id: item.id },
+          data: { palette: JSON.parse(JSON.stringify(palette)), color_families: families, palette_extracted_at: new Date() },
+        })
+        result.extracted++
+      } catch (error) {
+        if (!(error instanceof PngDecodeError)) throw error
+
+        console.warn(`[Palettes] Could not decode image for ${item.name}: ${error.message}`)
+        await client.item.update({
+          where: { id: item.id },
+          data: { palette: [], color_families: [], palette_extracted_at: new Date() },
+        })
+        result.undecodable++
+      }
+    }
+  }
+
+  return result
+}
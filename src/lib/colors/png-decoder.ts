@@ -0,0 +1,182 @@
+/**
+ * Minimal PNG Decoder
+ *
+ * Decodes item images (Steam economy images are PNGs) into RGBA pixels for
+ * palette extraction (src/lib/colors/color-palette.ts). Server/script only:
+ * uses Node's zlib.
+ *
+ * Supported: 8-bit grayscale, RGB, palette, grayscale + alpha and RGBA,
+ * non-interlaced, with tRNS transparency for palette images. Other images
+ * throw PngDecodeError('UNSUPPORTED').
+ */
+
+import { inflateSync } from 'zlib'
+import type { RgbaImage } from './color-palette'
+
+export class PngDecodeError extends Error {
+  constructor(message: string, public code: 'NOT_PNG' | 'UNSUPPORTED' | 'CORRUPT') {
+    super(message)
+    this.name = 'PngDecodeError'
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/**
+ * Bytes per pixel by PNG color type (8-bit samples)
+ */
+const CHANNELS: Record<number, number> = {
+  0: 1, // Grayscale
+  2: 3, // RGB
+  3: 1, // Palette index
+  4: 2, // Grayscale + alpha
+  6: 4, // RGBA
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft
+  const distLeft = Math.abs(estimate - left)
+  const distUp = Math.abs(estimate - up)
+  const distUpLeft = Math.abs(estimate - upLeft)
+  if (distLeft <= distUp && distLeft <= distUpLeft) return left
+  return distUp <= distUpLeft ? up : upLeft
+}
+
+/**
+ * Undo per-scanline filters; returns the raw samples
+ */
+function unfilter(data: Buffer, width: number, height: number, bytesPerPixel: number): Uint8Array {
+  const stride = width * bytesPerPixel
+  if (data.length < height * (stride + 1)) {
+    throw new PngDecodeError('Image data is truncated', 'CORRUPT')
+  }
+
+  const out = new Uint8Array(height * stride)
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)]
+    const line = y * (stride + 1) + 1
+    const row = y * stride
+
+    for (let x = 0; x < stride; x++) {
+      const raw = data[line + x]
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0
+      const up = y > 0 ? out[row - stride + x] : 0
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[row - stride + x - bytesPerPixel] : 0
+
+      let value: number
+      switch (filter) {
+        case 0:
+          value = raw
+          break
+        case 1:
+          value = raw + left
+          break
+        case 2:
+          value = raw + up
+          break
+        case 3:
+          value = raw + ((left + up) >> 1)
+          break
+        case 4:
+          value = raw + paeth(left, up, upLeft)
+          break
+        default:
+          throw new PngDecodeError(`Unknown scanline filter ${filter}`, 'CORRUPT')
+      }
+      out[row + x] = value & 0xff
+    }
+  }
+
+  return out
+}
+
+/**
+ * Decode a PNG file into RGBA pixels
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < 8 || PNG_SIGNATURE.some((byte, index) => buffer[index] !== byte)) {
+    throw new PngDecodeError('Not a PNG image', 'NOT_PNG')
+  }
+
+  let width = 0
+  let height = 0
+  let colorType = -1
+  let palette: Buffer | null = null
+  let transparency: Buffer | null = null
+  const idat: Buffer[] = []
+
+  let offset = 8
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString('ascii', offset + 4, offset + 8)
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length)
+    if (chunk.length < length) {
+      throw new PngDecodeError(`Truncated ${type} chunk`, 'CORRUPT')
+    }
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0)
+      height = chunk.readUInt32BE(4)
+      const bitDepth = chunk[8]
+      colorType = chunk[9]
+      const interlace = chunk[12]
+      if (bitDepth !== 8 || !(colorType in CHANNELS) || interlace !== 0) {
+        throw new PngDecodeError(
+          `Unsupported PNG (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`,
+          'UNSUPPORTED'
+        )
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk
+    } else if (type === 'tRNS') {
+      transparency = chunk
+    } else if (type === 'IDAT') {
+      idat.push(chunk)
+    } else if (type === 'IEND') {
+      break
+    }
+
+    offset += 12 + length // Length, type, data, CRC
+  }
+
+  if (width === 0 || height === 0 || idat.length === 0) {
+    throw new PngDecodeError('Missing IHDR or IDAT chunk', 'CORRUPT')
+  }
+  if (colorType === 3 && !palette) {
+    throw new PngDecodeError('Palette image without PLTE chunk', 'CORRUPT')
+  }
+
+  let inflated: Buffer
+  try {
+    inflated = inflateSync(Buffer.concat(idat))
+  } catch {
+    throw new PngDecodeError('Image data does not inflate', 'CORRUPT')
+  }
+
+  const channels = CHANNELS[colorType]
+  const samples = unfilter(inflated, width, height, channels)
+  const data = new Uint8Array(width * height * 4)
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const sample = pixel * channels
+    const target = pixel * 4
+
+    if (colorType === 3 && palette) {
+      const index = samples[sample]
+      data[target] = palette[index * 3] ?? 0
+      data[target + 1] = palette[index * 3 + 1] ?? 0
+      data[target + 2] = palette[index * 3 + 2] ?? 0
+      data[target + 3] = transparency && index < transparency.length ? transparency[index] : 255
+    } else if (colorType === 0 || colorType === 4) {
+      data[target] = data[target + 1] = data[target + 2] = samples[sample]
+      data[target + 3] = colorType === 4 ? samples[sample + 1] : 255
+    } else {
+      data[target] = samples[sample]
+      data[target + 1] = samples[sample + 1]
+      data[target + 2] = samples[sample + 2]
+      data[target + 3] = colorType === 6 ? samples[sample + 3] : 255
+    }
+  }
+
+  return { width, height, data }
+}
@@ -10,11 +10,28 @@
  *   "Currency API Service Discontinuation Risk"
  *   Solution: Multiple API fallbacks + persistent caching
  *
+ * Fallback chain (CurrencyConversionService):
+ *   1. In-memory cache (24h TTL)
+ *   2. Primary API, then secondary API (src/lib/currency/exchange-rate-sources.ts)
+ *   3. Latest rates persisted in exchange_rates (src/lib/currency/exchange-rate-store.ts)
+ * Every fetched rate is persisted, so past prices convert at historical rates
+ * and each conversion reports the rate source and timestamp it used.
+ *
  * Business Constraint:
  *   - Prices will never be negative (enforced with validation)
  */
 
 import { Currency } from '../types/price';
+import {
+  createDefaultExchangeRateSources,
+  ExchangeRateSourceError,
+  type ExchangeRateSnapshot,
+  type ExchangeRateSource,
+} from './currency/exchange-rate-sources';
+import {
+  createPrismaExchangeRateStore,
+  type ExchangeRateStore,
+} from './currency/exchange-rate-store';
 
 /**
  * Supported currencies for conversion
@@ -22,6 +39,17 @@ import { Currency } from '../types/price';
  */
 export const SUPPORTED_CURRENCIES: Currency[] = ['USD', 'EUR', 'CNY', 'RUB', 'GBP', 'BRL'];
 
+/**
+ * Cache TTL for rates fetched from an API
+ */
+export const EXCHANGE_RATE_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Cache TTL for rates loaded from the database fallback
+ * Short so the APIs are retried soon after they recover
+ */
+export const FALLBACK_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+
 /**
  * Exchange rate data structure
  */
@@ -29,6 +57,14 @@ export interface ExchangeRates {
   [currency: string]: number; // Rate to convert TO USD
 }
 
+/**
+ * Where a rate came from (audit trail)
+ */
+export interface RateProvenance {
+  rateSource: string; // "exchangerate-api", "fixer"
+  rateTimestamp: Date; // When the source published/we fetched the rate
+}
+
 /**
  * Exchange rate cache with expiration
  */
@@ -37,6 +73,7 @@ export interface ExchangeRateCache {
   lastUpdated: Date;
   expiresAt: Date;
   source: 'primary' | 'secondary' | 'fallback';
+  provenance?: Record<string, RateProvenance>; // Per-currency source + timestamp
 }
 
 /**
@@ -51,6 +88,8 @@ export interface ConversionResult {
   timestamp: Date;
   displayFormat: string; // "USD" or "USD (from CNY)"
   source?: 'api' | 'cache';
+  rateSource?: string; // Rate source name (omitted for USD)
+  rateTimestamp?: Date; // When the rate was fetched (omitted for USD)
 }
 
 /**
@@ -162,13 +201,15 @@ export function formatDisplay(originalCurrency: Currency): string {
  * @param fromCurrency - Original currency code
  * @param exchangeRate - Exchange rate to USD
  * @param source - Source of exchange rate (for tracking)
+ * @param provenance - Rate source name and timestamp (for auditing)
  * @returns Complete conversion result
  */
 export function convertCurrency(
   amount: number,
   fromCurrency: Currency,
   exchangeRate: number,
-  source: 'api' | 'cache' = 'api'
+  source: 'api' | 'cache' = 'api',
+  provenance?: RateProvenance
 ): ConversionResult {
   const convertedAmount = convert(amount, fromCurrency, exchangeRate);
 
@@ -181,6 +222,7 @@ export function convertCurrency(
     timestamp: new Date(),
     displayFormat: formatDisplay(fromCurrency),
     source,
+    ...provenance,
   };
 }
 
@@ -222,18 +264,19 @@ export function isCacheExpired(cache: ExchangeRateCache): boolean {
 }
 
 /**
- * Create exchange rate cache with 24-hour TTL
+ * Create exchange rate cache (24-hour TTL by default)
  *
  * @param rates - Exchange rates to cache
  * @param source - Source of rates
+ * @param cacheTTL - Time to live in milliseconds
  * @returns Cache object with expiration
  */
 export function createCache(
   rates: ExchangeRates,
-  source: 'primary' | 'secondary' | 'fallback' = 'primary'
+  source: 'primary' | 'secondary' | 'fallback' = 'primary',
+  cacheTTL: number = EXCHANGE_RATE_CACHE_TTL_MS
 ): ExchangeRateCache {
   const now = new Date();
-  const cacheTTL = 24 * 60 * 60 * 1000; // 24 hours
 
   return {
     rates,
@@ -258,12 +301,27 @@ export function getUniqueCurrencies(
   return Array.from(currencySet);
 }
 
+/**
+ * Dependencies for CurrencyConversionService (injectable for tests)
+ */
+export interface CurrencyConversionServiceOptions {
+  sources?: ExchangeRateSource[]; // Tried in order (default: primary + secondary APIs)
+  store?: ExchangeRateStore | null; // Persistence + fallback tier (null disables)
+}
+
 /**
  * Currency conversion service
  * Implements multi-tier fallback strategy
  */
 export class CurrencyConversionService {
   private cache: ExchangeRateCache | null = null;
+  private readonly sources: ExchangeRateSource[];
+  private readonly store: ExchangeRateStore | null;
+
+  constructor(options: CurrencyConversionServiceOptions = {}) {
+    this.sources = options.sources ?? createDefaultExchangeRateSources();
+    this.store = options.store === undefined ? createPrismaExchangeRateStore() : options.store;
+  }
 
   /**
    * Convert amount to USD using cached or fetched rates
@@ -276,32 +334,91 @@ export class CurrencyConversionService {
     amount: number,
     fromCurrency: Currency
   ): Promise<ConversionResult> {
-    // Validate currency
-    if (!isValidCurrencyCode(fromCurrency)) {
-      throw new CurrencyConversionError(
-        `Invalid currency code: ${fromCurrency}`,
-        'INVALID_CURRENCY_CODE',
-        fromCurrency
-      );
+    this.assertSupported(fromCurrency);
+
+    // USD to USD is a no-op
+    if (fromCurrency === 'USD') {
+      return convertCurrency(amount, 'USD', 1.0, 'cache');
     }
 
-    if (!isSupportedCurrency(fromCurrency)) {
+    // Get exchange rate (with fallback strategy)
+    const rate = await this.getExchangeRate(fromCurrency);
+    const source = this.cache?.source === 'fallback' ? 'cache' : 'api';
+
+    return convertCurrency(amount, fromCurrency, rate, source, this.cache?.provenance?.[fromCurrency]);
+  }
+
+  /**
+   * Convert amount to USD at the rate in effect at a past date
+   * Uses the most recent stored rate fetched on or before `at`
+   *
+   * @param amount - Amount in original currency
+   * @param fromCurrency - Original currency code
+   * @param at - Date the price was observed
+   * @returns Conversion result
+   */
+  async convertToUSDAt(
+    amount: number,
+    fromCurrency: Currency,
+    at: Date
+  ): Promise<ConversionResult> {
+    this.assertSupported(fromCurrency);
+
+    if (fromCurrency === 'USD') {
+      return convertCurrency(amount, 'USD', 1.0, 'cache');
+    }
+
+    const [stored] = this.store ? await this.store.getRates([fromCurrency], at) : [];
+    if (!stored) {
       throw new CurrencyConversionError(
-        `Unsupported currency: ${fromCurrency}`,
-        'UNSUPPORTED_CURRENCY',
+        `No exchange rate for ${fromCurrency} on or before ${at.toISOString()}`,
+        'MISSING_HISTORICAL_RATE',
         fromCurrency
       );
     }
 
-    // USD to USD is a no-op
-    if (fromCurrency === 'USD') {
-      return convertCurrency(amount, 'USD', 1.0, 'cache');
+    return convertCurrency(amount, fromCurrency, stored.rate, 'cache', {
+      rateSource: stored.source,
+      rateTimestamp: stored.fetchedAt,
+    });
+  }
+
+  /**
+   * Current rate for one unit of a currency in USD
+   * Used to render USD prices in a user's display currency
+   *
+   * @param currency - Currency code
+   * @returns Rate to USD (1.0 for USD)
+   */
+  async getUSDRate(currency: Currency): Promise<number> {
+    this.assertSupported(currency);
+
+    if (currency === 'USD') {
+      return 1.0;
     }
 
-    // Get exchange rate (with fallback strategy)
-    const rate = await this.getExchangeRate(fromCurrency);
+    return this.getExchangeRate(currency);
+  }
+
+  /**
+   * Validate currency code format and support
+   */
+  private assertSupported(currency: Currency): void {
+    if (!isValidCurrencyCode(currency)) {
+      throw new CurrencyConversionError(
+        `Invalid currency code: ${currency}`,
+        'INVALID_CURRENCY_CODE',
+        currency
+      );
+    }
 
-    return convertCurrency(amount, fromCurrency, rate, 'api');
+    if (!isSupportedCurrency(currency)) {
+      throw new CurrencyConversionError(
+        `Unsupported currency: ${currency}`,
+        'UNSUPPORTED_CURRENCY',
+        currency
+      );
+    }
   }
 
   /**
@@ -313,32 +430,11 @@ export class CurrencyConversionService {
    */
   private async getExchangeRate(currency: Currency): Promise<number> {
     // Check cache first
-    if (this.cache && !isCacheExpired(this.cache)) {
-      const rate = this.cache.rates[currency];
-      if (rate) {
-        return rate;
-      }
+    if (!this.cache || isCacheExpired(this.cache)) {
+      this.cache = await this.loadRates();
     }
 
-    // In real implementation, this would:
-    // 1. Try primary API (exchangerate-api.com)
-    // 2. On failure, try secondary API (fixer.io)
-    // 3. On failure, use cached rates
-    // 4. Log all failures
-
-    // For now, return mock rates (will be replaced with actual API calls)
-    const mockRates: ExchangeRates = {
-      EUR: 1.10,
-      CNY: 0.14,
-      RUB: 0.011,
-      GBP: 1.27,
-      BRL: 0.20,
-    };
-
-    // Update cache
-    this.cache = createCache(mockRates, 'primary');
-
-    const rate = mockRates[currency];
+    const rate = this.cache.rates[currency];
     if (!rate) {
       throw new CurrencyConversionError(
         `No exchange rate available for ${currency}`,
@@ -350,6 +446,108 @@ export class CurrencyConversionService {
     return rate;
   }
 
+  /**
+   * Walk the fallback chain: each API source in order, then stored rates
+   * A source that omits currencies only covers what it returned; later tiers
+   * fill the gaps, and an incomplete set is cached for FALLBACK_CACHE_TTL_MS
+   * so the missing rates are retried within the hour rather than the day
+   *
+   * @throws CurrencyConversionError (RATES_UNAVAILABLE) when every tier fails
+   */
+  private async loadRates(): Promise<ExchangeRateCache> {
+    const currencies = SUPPORTED_CURRENCIES.filter((currency) => currency !== 'USD');
+    const rates: ExchangeRates = {};
+    const provenance: Record<string, RateProvenance> = {};
+    const missing = (): Currency[] => currencies.filter((currency) => rates[currency] === undefined);
+    let lastSourceIndex = -1;
+
+    for (const [index, source] of this.sources.entries()) {
+      const wanted = missing();
+      if (wanted.length === 0) break;
+
+      try {
+        const snapshot = await source.fetchRates(wanted);
+        const entries = (Object.entries(snapshot.rates) as Array<[Currency, number]>).filter(([currency]) =>
+          wanted.includes(currency)
+        );
+
+        if (entries.length === 0) {
+          throw new ExchangeRateSourceError('Response contained no supported currencies', source.name);
+        }
+        entries.forEach(([currency, rate]) => validateExchangeRate(rate, currency));
+
+        await this.persist({ ...snapshot, rates: Object.fromEntries(entries) });
+
+        for (const [currency, rate] of entries) {
+          rates[currency] = rate;
+          provenance[currency] = { rateSource: snapshot.source, rateTimestamp: snapshot.fetchedAt };
+        }
+        lastSourceIndex = index;
+
+        if (entries.length < wanted.length) {
+          console.warn(
+            `[CurrencyConversion] Rate source ${source.name} omitted ${wanted.length - entries.length} currencies, trying next tier`
+          );
+        }
+      } catch (error) {
+        console.warn(
+          `[CurrencyConversion] Rate source ${source.name} failed, trying next tier:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    // Final tier: latest persisted rates for whatever the APIs did not cover
+    let usedStored = false;
+    const stillMissing = missing();
+    if (stillMissing.length > 0 && this.store) {
+      try {
+        const stored = await this.store.getRates(stillMissing);
+
+        if (stored.length > 0) {
+          console.warn(`[CurrencyConversion] Rate APIs incomplete, using ${stored.length} stored rates`);
+
+          for (const row of stored) {
+            rates[row.currency] = row.rate;
+            provenance[row.currency] = { rateSource: row.source, rateTimestamp: row.fetchedAt };
+          }
+          usedStored = true;
+        }
+      } catch (error) {
+        console.error('[CurrencyConversion] Failed to load stored exchange rates:', error);
+      }
+    }
+
+    if (Object.keys(rates).length === 0) {
+      throw new CurrencyConversionError(
+        'All exchange rate sources failed and no stored rates are available',
+        'RATES_UNAVAILABLE'
+      );
+    }
+
+    const complete = !usedStored && missing().length === 0;
+    const cache = createCache(
+      rates,
+      lastSourceIndex === -1 ? 'fallback' : lastSourceIndex === 0 ? 'primary' : 'secondary',
+      complete ? EXCHANGE_RATE_CACHE_TTL_MS : FALLBACK_CACHE_TTL_MS
+    );
+    cache.provenance = provenance;
+    return cache;
+  }
+
+  /**
+   * Persist fetched rates (failures are logged, never fatal)
+   */
+  private async persist(snapshot: ExchangeRateSnapshot): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      await this.store.save(snapshot);
+    } catch (error) {
+      console.error('[CurrencyConversion] Failed to persist exchange rates:', error);
+    }
+  }
+
   /**
    * Convert multiple prices in batch
    *
@@ -0,0 +1,52 @@
+/**
+ * Display Currency Tests
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Critical Gotchas Applied:
+ * - Rates are "1 unit = N USD", so USD amounts are divided by the rate
+ * - USD output matches the previous `$${x.toFixed(2)}` formatting exactly
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  convertFromUSD,
+  formatPrice,
+  isDisplayCurrency,
+  resolveDisplayCurrencyCode,
+  USD_DISPLAY,
+} from '../display-currency';
+
+const EUR_DISPLAY = { currency: 'EUR' as const, usdRate: 1.25 };
+
+describe('Display Currency', () => {
+  describe('resolveDisplayCurrencyCode', () => {
+    it('should prefer the user preference over the cookie', () => {
+      expect(resolveDisplayCurrencyCode('EUR', 'GBP')).toBe('EUR');
+    });
+
+    it('should fall back to the cookie for anonymous visitors', () => {
+      expect(resolveDisplayCurrencyCode(null, 'GBP')).toBe('GBP');
+    });
+
+    it('should ignore unsupported values and default to USD', () => {
+      expect(resolveDisplayCurrencyCode('JPY', 'not-a-currency')).toBe('USD');
+      expect(isDisplayCurrency('JPY')).toBe(false);
+    });
+  });
+
+  describe('formatPrice', () => {
+    it('should keep USD formatting unchanged', () => {
+      expect(formatPrice(7.95)).toBe('$7.95');
+      expect(formatPrice(1234.5, USD_DISPLAY, { grouping: true })).toBe('$1,234.50');
+    });
+
+    it('should convert USD into the display currency', () => {
+      expect(convertFromUSD(10, EUR_DISPLAY)).toBe(8);
+      expect(formatPrice(10, EUR_DISPLAY)).toBe('€8.00');
+      expect(formatPrice(2500, EUR_DISPLAY, { grouping: true })).toBe('€2,000.00');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Display Currency
+ * Feature 04: Multi-Marketplace Price Aggregation
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Prices are stored and compared in USD. The display currency only changes how
+ * amounts are rendered:
+ *   - Signed-in users: User.display_currency
+ *   - Anonymous visitors: the display_currency cookie
+ *   - Otherwise: USD
+ *
+ * Client-safe: no Prisma or rate-source imports. Server code resolves the rate
+ * (see src/lib/currency/get-display-currency.ts) and passes it down.
+ *
+ * Critical Gotchas:
+ * - Rates are "1 unit of currency = N USD", so USD amounts are DIVIDED by the rate
+ * - USD output must stay byte-identical to the previous `$${x.toFixed(2)}`
+ *   formatting (tests and alert emails assert on it)
+ */
+
+import type { Currency } from '../../types/price';
+
+/**
+ * Cookie holding an anonymous visitor's choice (also set for signed-in users)
+ */
+export const DISPLAY_CURRENCY_COOKIE = 'display_currency';
+
+export const DEFAULT_DISPLAY_CURRENCY: Currency = 'USD';
+
+/**
+ * Symbol prefixed to formatted amounts
+ */
+export const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  CNY: '¥',
+  RUB: '₽',
+  BRL: 'R$',
+};
+
+/**
+ * Currencies offered in the selector (same set as SUPPORTED_CURRENCIES)
+ */
+export const DISPLAY_CURRENCIES = Object.keys(CURRENCY_SYMBOLS) as Currency[];
+
+/**
+ * Currency to render in, with the rate needed to get there from USD
+ */
+export interface DisplayCurrency {
+  currency: Currency;
+  usdRate: number; // 1 unit of currency = N USD
+}
+
+export const USD_DISPLAY: DisplayCurrency = { currency: 'USD', usdRate: 1 };
+
+export interface FormatPriceOptions {
+  grouping?: boolean; // Thousands separators (e.g. $1,234.56)
+}
+
+/**
+ * Check a cookie/form value against the supported display currencies
+ */
+export function isDisplayCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && DISPLAY_CURRENCIES.includes(value as Currency);
+}
+
+/**
+ * Pick the display currency: user preference, then cookie, then USD
+ *
+ * @param userPreference - User.display_currency (null for anonymous visitors)
+ * @param cookieValue - display_currency cookie value
+ */
+export function resolveDisplayCurrencyCode(
+  userPreference?: string | null,
+  cookieValue?: string | null
+): Currency {
+  if (isDisplayCurrency(userPreference)) return userPreference;
+  if (isDisplayCurrency(cookieValue)) return cookieValue;
+  return DEFAULT_DISPLAY_CURRENCY;
+}
+
+/**
+ * Convert a USD amount into the display currency
+ */
+export function convertFromUSD(amountUSD: number, display: DisplayCurrency = USD_DISPLAY): number {
+  if (display.currency === 'USD' || display.usdRate <= 0) {
+    return amountUSD;
+  }
+  return amountUSD / display.usdRate;
+}
+
+/**
+ * Format a USD amount in the display currency (2 decimal places)
+ *
+ * @param amountUSD - Amount in USD
+ * @param display - Target currency and rate (default USD)
+ * @param options - Formatting options
+ */
+export function formatPrice(
+  amountUSD: number,
+  display: DisplayCurrency = USD_DISPLAY,
+  options: FormatPriceOptions = {}
+): string {
+  const amount = convertFromUSD(amountUSD, display);
+  const formatted = options.grouping
+    ? amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    : amount.toFixed(2);
+
+  return `${CURRENCY_SYMBOLS[display.currency]}${formatted}`;
+}
@@ -0,0 +1,229 @@
+/**
+ * Exchange Rate Sources
+ * Feature 04: Multi-Marketplace Price Aggregation
+ * BDD Reference: features/04-price-aggregation.feature
+ *   - Scenario: "Handle currency API failures gracefully"
+ *
+ * HTTP-backed sources tried in order by CurrencyConversionService:
+ *   1. Primary: exchangerate-api.com (keyless open endpoint, or v6 API with EXCHANGERATE_API_KEY)
+ *   2. Secondary: fixer.io (requires FIXER_API_KEY, skipped when missing)
+ *
+ * Every source returns rates normalized to "1 unit of currency = N USD",
+ * which is the direction convert() multiplies by.
+ *
+ * Gotcha: Both APIs quote "1 BASE = N currency". exchangerate-api uses USD as
+ * base (invert), fixer's free plan forces EUR as base (cross via USD).
+ */
+
+import type { Currency } from '../../types/price';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Rates fetched from one source at one point in time
+ */
+export interface ExchangeRateSnapshot {
+  rates: Partial<Record<Currency, number>>; // 1 unit of currency in USD
+  source: string; // Source name for audit trail
+  fetchedAt: Date;
+}
+
+export interface ExchangeRateSource {
+  name: string;
+  fetchRates(currencies: Currency[]): Promise<ExchangeRateSnapshot>;
+}
+
+export interface ExchangeRateSourceDependencies {
+  fetchFn?: typeof fetch;
+  now?: () => Date;
+  timeoutMs?: number;
+}
+
+/**
+ * Error raised when a rate source fails or returns unusable data
+ */
+export class ExchangeRateSourceError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ExchangeRateSourceError';
+  }
+}
+
+/**
+ * Pick requested currencies out of a "1 BASE = N currency" table and convert
+ * them to "1 currency = N USD"
+ *
+ * @param quotes - Rates keyed by currency, relative to the base currency
+ * @param usdPerBase - USD value of one unit of the base currency
+ * @param currencies - Currencies to extract
+ */
+export function toUsdRates(
+  quotes: Record<string, number>,
+  usdPerBase: number,
+  currencies: Currency[]
+): Partial<Record<Currency, number>> {
+  const rates: Partial<Record<Currency, number>> = {};
+
+  for (const currency of currencies) {
+    if (currency === 'USD') continue;
+
+    const quote = quotes[currency];
+    if (typeof quote === 'number' && quote > 0) {
+      rates[currency] = usdPerBase / quote;
+    }
+  }
+
+  return rates;
+}
+
+abstract class HttpExchangeRateSource implements ExchangeRateSource {
+  abstract readonly name: string;
+
+  protected readonly fetchFn: typeof fetch;
+  protected readonly now: () => Date;
+  private readonly timeoutMs: number;
+
+  constructor(deps: ExchangeRateSourceDependencies = {}) {
+    this.fetchFn = deps.fetchFn ?? fetch;
+    this.now = deps.now ?? (() => new Date());
+    this.timeoutMs = deps.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  abstract fetchRates(currencies: Currency[]): Promise<ExchangeRateSnapshot>;
+
+  protected async fetchJson<T>(url: string): Promise<T> {
+    const response = await this.fetchFn(url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new ExchangeRateSourceError(
+        `Request failed with status ${response.status}`,
+        this.name,
+        response.status
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
+
+interface ExchangeRateApiResponse {
+  result: 'success' | 'error';
+  'error-type'?: string;
+  rates?: Record<string, number>; // open endpoint
+  conversion_rates?: Record<string, number>; // v6 keyed endpoint
+}
+
+/**
+ * exchangerate-api.com (primary)
+ */
+export class ExchangeRateApiSource extends HttpExchangeRateSource {
+  readonly name = 'exchangerate-api';
+
+  constructor(
+    private readonly apiKey?: string,
+    deps: ExchangeRateSourceDependencies = {}
+  ) {
+    super(deps);
+  }
+
+  async fetchRates(currencies: Currency[]): Promise<ExchangeRateSnapshot> {
+    const url = this.apiKey
+      ? `https://v6.exchangerate-api.com/v6/${this.apiKey}/latest/USD`
+      : 'https://open.er-api.com/v6/latest/USD';
+
+    const data = await this.fetchJson<ExchangeRateApiResponse>(url);
+    const quotes = data.conversion_rates ?? data.rates;
+
+    if (data.result !== 'success' || !quotes) {
+      throw new ExchangeRateSourceError(
+        `API error: ${data['error-type'] ?? 'missing rates'}`,
+        this.name
+      );
+    }
+
+    return {
+      rates: toUsdRates(quotes, 1, currencies),
+      source: this.name,
+      fetchedAt: this.now(),
+    };
+  }
+}
+
+interface FixerResponse {
+  success: boolean;
+  error?: { type?: string; info?: string };
+  base?: string;
+  rates?: Record<string, number>;
+}
+
+/**
+ * fixer.io (secondary)
+ */
+export class FixerSource extends HttpExchangeRateSource {
+  readonly name = 'fixer';
+
+  constructor(
+    private readonly apiKey: string,
+    deps: ExchangeRateSourceDependencies = {}
+  ) {
+    super(deps);
+  }
+
+  async fetchRates(currencies: Currency[]): Promise<ExchangeRateSnapshot> {
+    const symbols = Array.from(new Set<string>(['USD', ...currencies]));
+    const url = new URL('https://data.fixer.io/api/latest');
+    url.searchParams.set('access_key', this.apiKey);
+    url.searchParams.set('symbols', symbols.join(','));
+
+    const data = await this.fetchJson<FixerResponse>(url.toString());
+
+    if (!data.success || !data.rates) {
+      throw new ExchangeRateSourceError(
+        `API error: ${data.error?.type ?? 'missing rates'}`,
+        this.name
+      );
+    }
+
+    // Base is EUR: rates.USD = USD per 1 EUR
+    const usdPerBase = data.base === 'USD' ? 1 : data.rates.USD;
+    if (!usdPerBase || usdPerBase <= 0) {
+      throw new ExchangeRateSourceError('Response is missing the USD cross rate', this.name);
+    }
+
+    const quotes = { ...data.rates, [data.base ?? 'EUR']: 1 };
+
+    return {
+      rates: toUsdRates(quotes, usdPerBase, currencies),
+      source: this.name,
+      fetchedAt: this.now(),
+    };
+  }
+}
+
+/**
+ * Build the primary/secondary source chain from environment variables
+ *
+ * @param env - Environment (defaults to process.env)
+ * @param deps - Injectable fetch/clock
+ */
+export function createDefaultExchangeRateSources(
+  env: Record<string, string | undefined> = process.env,
+  deps: ExchangeRateSourceDependencies = {}
+): ExchangeRateSource[] {
+  const sources: ExchangeRateSource[] = [
+    new ExchangeRateApiSource(env.EXCHANGERATE_API_KEY || undefined, deps),
+  ];
+
+  if (env.FIXER_API_KEY) {
+    sources.push(new FixerSource(env.FIXER_API_KEY, deps));
+  }
+
+  return sources;
+}
@@ -0,0 +1,81 @@
+/**
+ * Exchange Rate Store
+ * Feature 04: Multi-Marketplace Price Aggregation
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Persists every fetched rate in the exchange_rates table. The table is:
+ *   - The last fallback tier when both rate APIs are down
+ *   - The source of historical rates for converting past prices
+ *   - The audit trail for every CNY/RUB/... conversion (rate + source + time)
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { prisma } from '../prisma';
+import type { Currency } from '../../types/price';
+import type { ExchangeRateSnapshot } from './exchange-rate-sources';
+
+/**
+ * One stored rate
+ */
+export interface StoredExchangeRate {
+  currency: Currency;
+  rate: number; // 1 unit of currency in USD
+  source: string;
+  fetchedAt: Date;
+}
+
+export interface ExchangeRateStore {
+  /** Store every rate in a fetched snapshot */
+  save(snapshot: ExchangeRateSnapshot): Promise<void>;
+
+  /**
+   * Most recent rate per currency, optionally as of a past date
+   * Currencies without a stored rate (before `asOf`) are omitted
+   */
+  getRates(currencies: Currency[], asOf?: Date): Promise<StoredExchangeRate[]>;
+}
+
+/**
+ * Prisma-backed store
+ *
+ * @param client - Prisma client (scripts pass their own instance)
+ */
+export function createPrismaExchangeRateStore(client: PrismaClient = prisma): ExchangeRateStore {
+  return {
+    async save(snapshot) {
+      const rows = Object.entries(snapshot.rates).map(([currency, rate]) => ({
+        currency,
+        rate_to_usd: rate as number,
+        source: snapshot.source,
+        fetched_at: snapshot.fetchedAt,
+      }));
+
+      if (rows.length > 0) {
+        await client.exchangeRate.createMany({ data: rows });
+      }
+    },
+
+    async getRates(currencies, asOf) {
+      const rows = await Promise.all(
+        currencies.map((currency) =>
+          client.exchangeRate.findFirst({
+            where: {
+              currency,
+              ...(asOf && { fetched_at: { lte: asOf } }),
+            },
+            orderBy: { fetched_at: 'desc' },
+          })
+        )
+      );
+
+      return rows
+        .filter((row): row is NonNullable<typeof row> => row !== null)
+        .map((row) => ({
+          currency: row.currency as Currency,
+          rate: row.rate_to_usd,
+          source: row.source,
+          fetchedAt: row.fetched_at,
+        }));
+    },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Server-side Display Currency Resolution
+ * Feature 04: Multi-Marketplace Price Aggregation
+ *
+ * Resolves the current visitor's display currency (user preference, then
+ * cookie, then USD) together with its USD rate, for Server Components and
+ * for the DisplayCurrencyProvider in the root layout.
+ *
+ * Critical Gotcha: Rendering must never fail because the rate APIs are down.
+ * When no rate can be loaded, prices fall back to USD.
+ */
+
+import { cookies } from 'next/headers';
+import { cache } from 'react';
+import { getSession } from '../auth/session';
+import { CurrencyConversionService } from '../currency-conversion';
+import type { Currency } from '../../types/price';
+import {
+  DISPLAY_CURRENCY_COOKIE,
+  USD_DISPLAY,
+  resolveDisplayCurrencyCode,
+  type DisplayCurrency,
+} from './display-currency';
+
+// Shared across requests so rates are fetched once per cache TTL
+const currencyService = new CurrencyConversionService();
+
+/**
+ * Look up the USD rate for a display currency, falling back to USD
+ *
+ * @param currency - Display currency code
+ * @param service - Conversion service (defaults to the shared instance)
+ */
+export async function loadDisplayCurrency(
+  currency: Currency,
+  service: CurrencyConversionService = currencyService
+): Promise<DisplayCurrency> {
+  if (currency === 'USD') {
+    return USD_DISPLAY;
+  }
+
+  try {
+    return { currency, usdRate: await service.getUSDRate(currency) };
+  } catch (error) {
+    console.warn(
+      `[DisplayCurrency] No rate for ${currency}, rendering USD:`,
+      error instanceof Error ? error.message : error
+    );
+    return USD_DISPLAY;
+  }
+}
+
+/**
+ * Display currency for the current request
+ * Memoized per render pass like getSession()
+ */
+export const getDisplayCurrency = cache(async (): Promise<DisplayCurrency> => {
+  const session = await getSession();
+  const cookieValue = cookies().get(DISPLAY_CURRENCY_COOKIE)?.value;
+
+  return loadDisplayCurrency(resolveDisplayCurrencyCode(session?.user.displayCurrency, cookieValue));
+});
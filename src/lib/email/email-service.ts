@@ -11,6 +11,7 @@
  *
  * Responsibilities:
  * - Send price alert notification emails
+ * - Send hourly/daily price alert digests (src/lib/alerts/alert-digest.ts)
  * - Check email suppression list before sending
  * - Format email content with React Email templates
  * - Handle Resend API errors gracefully
@@ -25,6 +26,10 @@ import { Resend } from 'resend'
 import { prisma } from '@/lib/prisma'
 import { render } from '@react-email/components'
 import PriceAlertEmail from '@/emails/price-alert'
+import PriceAlertDigestEmail from '@/emails/price-alert-digest'
+import { formatPrice, USD_DISPLAY, type DisplayCurrency } from '@/lib/currency/display-currency'
+import { summarizeAlertTrigger, type AlertTriggerDetails } from '@/lib/alerts/alert-conditions'
+import type { DigestEntry, DigestFrequency } from '@/lib/alerts/alert-digest'
 
 // Lazy-load Resend client to avoid errors during build time
 // when environment variables may not be available
@@ -39,11 +44,20 @@ function getResendClient() {
 export interface ISendPriceAlertEmailParams {
   to: string
   itemName: string
-  targetPrice: number
+  targetPrice?: number // price_below/price_above/float_range alerts
   triggeredPrice: number
   platform: string
   listingUrl: string
   alertId: string
+  displayCurrency?: DisplayCurrency // Recipient's display currency (default USD)
+  details?: AlertTriggerDetails // Alert type context (default: price below targetPrice)
+}
+
+export interface ISendAlertDigestEmailParams {
+  to: string
+  frequency: DigestFrequency
+  entries: DigestEntry[] // One per triggered alert
+  displayCurrency?: DisplayCurrency // Recipient's display currency (default USD)
 }
 
 export interface IEmailResult {
@@ -64,6 +78,8 @@ class EmailService {
   async sendPriceAlertEmail(params: ISendPriceAlertEmailParams): Promise<IEmailResult> {
     try {
       const { to, itemName, targetPrice, triggeredPrice, platform, listingUrl, alertId } = params
+      const displayCurrency = params.displayCurrency ?? USD_DISPLAY
+      const details: AlertTriggerDetails = params.details ?? { type: 'price_below', targetPrice: targetPrice ?? 0 }
 
       // Step 1: Check suppression list
       // BDD Scenario: "Check suppression list before sending email" (line 159)
@@ -90,13 +106,15 @@ class EmailService {
           platform,
           listingUrl,
           manageAlertsUrl: `${process.env.NEXT_PUBLIC_APP_URL}/alerts`,
-          unsubscribeUrl
+          unsubscribeUrl,
+          displayCurrency,
+          details
         })
       )
 
       // Step 3: Format subject line
       // BDD: "email subject should be '🔔 Price Alert: AK-47 Redline is now $7.95'" (line 148)
-      const subject = `🔔 Price Alert: ${itemName} is now $${triggeredPrice.toFixed(2)}`
+      const subject = `🔔 Price Alert: ${summarizeAlertTrigger(itemName, triggeredPrice, details, amount => formatPrice(amount, displayCurrency))}`
 
       // Step 4: Send email via Resend
       const resend = getResendClient()
@@ -132,6 +150,72 @@ class EmailService {
     }
   }
 
+  /**
+   * Send one email listing every alert triggered since the last digest
+   */
+  async sendAlertDigestEmail(params: ISendAlertDigestEmailParams): Promise<IEmailResult> {
+    try {
+      const { to, frequency, entries } = params
+
+      const suppressed = await prisma.emailSuppressionList.findUnique({
+        where: { email: to }
+      })
+
+      if (suppressed) {
+        console.log(`Email suppressed for ${to}: ${suppressed.reason}`)
+        return {
+          success: false,
+          error: `Email address is suppressed: ${suppressed.reason}`
+        }
+      }
+
+      const emailHtml = await render(
+        PriceAlertDigestEmail({
+          frequency,
+          entries: entries.map(entry => ({
+            ...entry,
+            unsubscribeUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/unsubscribe?alert=${entry.alertId}&token=${this.generateUnsubscribeToken(entry.alertId)}`
+          })),
+          manageAlertsUrl: `${process.env.NEXT_PUBLIC_APP_URL}/alerts`,
+          displayCurrency: params.displayCurrency ?? USD_DISPLAY
+        })
+      )
+
+      const subject = `🔔 ${entries.length} price alert${entries.length === 1 ? '' : 's'} triggered ${frequency === 'hourly' ? 'in the last hour' : 'today'}`
+
+      const resend = getResendClient()
+      const { data, error } = await resend.emails.send({
+        from: 'CS Loadout Alerts <alerts@csloadout.gg>',
+        to: [to],
+        subject,
+        html: emailHtml
+      })
+
+      if (error) {
+        console.error('Resend API error:', error)
+        return {
+          success: false,
+          error: error.message || 'Failed to send email'
+        }
+      }
+
+      return {
+        success: true,
+        emailId: data?.id,
+        emailData: {
+          subject,
+          html: emailHtml
+        }
+      }
+    } catch (error) {
+      console.error('Email service error:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
   /**
    * Generate one-click unsubscribe token
    * BDD: "unsubscribe should be one-click (no login required)" (line 156)
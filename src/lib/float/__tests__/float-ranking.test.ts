@@ -0,0 +1,45 @@
+/**
+ * Float Percentile Ranking Tests
+ *
+ * BDD Reference: features/03-search-filters.feature
+ *   - Filter by float value range
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { applyFloatPremium, getFloatBracket, getFloatPremiumMultiplier, rankFloat } from '../float-ranking'
+
+describe('Float Percentile Ranking', () => {
+  it('should clip the wear bracket to the skin float range', () => {
+    expect(getFloatBracket('field_tested', 0, 1)).toEqual([0.15, 0.38])
+    expect(getFloatBracket('minimal_wear', 0, 0.08)).toEqual([0.07, 0.08])
+    expect(getFloatBracket('battle_scarred', 0, 0.4)).toBeNull()
+  })
+
+  it('should rank a float inside its bracket and tag low floats', () => {
+    // (0.1515 - 0.15) / 0.23 = 0.65%
+    expect(rankFloat(0.1515, 'field_tested', 0, 1)).toEqual({
+      wear: 'field_tested',
+      bracket: [0.15, 0.38],
+      percentile: 0.65,
+      tags: ['low_float'],
+    })
+    expect(rankFloat(0.265, 'Field-Tested', 0, 1)?.percentile).toBe(50)
+    expect(rankFloat('0.07500000', 'none', 0, 0.08)?.percentile).toBe(50)
+    expect(rankFloat(null, 'field_tested', 0, 1)).toBeNull()
+  })
+
+  it('should tag the best owned float in the bracket', () => {
+    expect(rankFloat(0.2, 'field_tested', 0, 1, 0.2)?.tags).toEqual(['best_in_bracket'])
+    expect(rankFloat(0.2, 'field_tested', 0, 1, 0.19)?.tags).toEqual([])
+  })
+
+  it('should interpolate the float premium curve', () => {
+    expect(getFloatPremiumMultiplier(0)).toBe(1.5)
+    expect(getFloatPremiumMultiplier(3)).toBeCloseTo(1.175)
+    expect(getFloatPremiumMultiplier(50)).toBe(1)
+    expect(applyFloatPremium(100, rankFloat(0.15, 'field_tested', 0, 1))).toBe(150)
+    expect(applyFloatPremium(100, null)).toBe(100)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Float Ranking Service
+ *
+ * Loads the owned-item data float rankings need (src/lib/float/float-ranking.ts).
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { rankFloat, type FloatRanking } from './float-ranking'
+
+export interface RankableItem {
+  id: string
+  item_id: string | null
+  float_value: unknown
+  wear: string | null
+  item: { wear_min: number | null; wear_max: number | null } | null
+}
+
+/**
+ * Float rankings for owned items (inventory items or loadout weapon skins)
+ *
+ * @param items - Rows with their Item float range
+ * @param client - Prisma client
+ * @returns Row ID → ranking, for rows with a float
+ */
+export async function rankOwnedFloats(
+  items: RankableItem[],
+  client: PrismaClient = prisma
+): Promise<Map<string, FloatRanking>> {
+  const itemIds = Array.from(
+    new Set(
+      items
+        .filter((item) => item.float_value !== null && item.float_value !== undefined)
+        .map((item) => item.item_id)
+        .filter((id): id is string => id !== null)
+    )
+  )
+  if (itemIds.length === 0) return new Map()
+
+  // Best owned float per Item, for the "best_in_bracket" tag
+  const bestFloats = await client.inventoryItem.groupBy({
+    by: ['item_id'],
+    where: { item_id: { in: itemIds }, float_value: { not: null } },
+    _min: { float_value: true },
+  })
+  const bestByItem = new Map(bestFloats.map((row) => [row.item_id, row._min.float_value]))
+
+  const rankings = new Map<string, FloatRanking>()
+  for (const item of items) {
+    const ranking = rankFloat(
+      item.float_value,
+      item.wear,
+      item.item?.wear_min ?? null,
+      item.item?.wear_max ?? null,
+      item.item_id ? bestByItem.get(item.item_id) : undefined
+    )
+    if (ranking) rankings.set(item.id, ranking)
+  }
+
+  return rankings
+}
@@ -0,0 +1,149 @@
+/**
+ * Float Percentile Ranking
+ *
+ * BDD Reference: features/03-search-filters.feature
+ *   - Filter by float value range
+ *
+ * Ranks an owned item's float inside its wear bracket. The bracket is the
+ * standard wear range (e.g. Field-Tested 0.15-0.38) clipped to the skin's own
+ * float range (Item.wear_min/wear_max), so a skin capped at 0.08 has a
+ * Factory New bracket of 0.00-0.07 but a Minimal Wear bracket of 0.07-0.08.
+ *
+ *   percentile = (float - bracket low) / (bracket high - bracket low) × 100
+ *
+ * 0 is the best possible float in the bracket, 100 the worst.
+ *
+ * Critical Gotchas:
+ * - Item rows are per wear; the bracket comes from the stored wear, falling
+ *   back to the float itself when the wear is missing or "none"
+ * - "Best in bracket" compares against every owned copy of the same Item
+ *   tracked in InventoryItem, not against the whole market
+ * - The premium curve is optional: valuations only apply it when asked to
+ */
+
+import { getWearForFloat, WEAR_FLOAT_RANGES } from '../normalize'
+
+/** Percentile at or below which an item is tagged "low_float" */
+export const LOW_FLOAT_PERCENTILE = 5
+
+export type FloatTag = 'low_float' | 'best_in_bracket'
+
+export interface FloatRanking {
+  wear: string
+  bracket: [number, number]
+  percentile: number // 0 = best float in bracket, 100 = worst
+  tags: FloatTag[]
+}
+
+/**
+ * Premium multiplier by percentile; linear between points
+ */
+export interface FloatPremiumConfig {
+  curve: Array<{ percentile: number; multiplier: number }>
+}
+
+export const DEFAULT_FLOAT_PREMIUM_CONFIG: FloatPremiumConfig = {
+  curve: [
+    { percentile: 0, multiplier: 1.5 },
+    { percentile: 1, multiplier: 1.25 },
+    { percentile: LOW_FLOAT_PERCENTILE, multiplier: 1.1 },
+    { percentile: 20, multiplier: 1 },
+    { percentile: 100, multiplier: 1 },
+  ],
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined) return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * Wear bracket of a skin, clipped to its float range
+ *
+ * @returns [low, high], or null when the skin cannot have that wear
+ */
+export function getFloatBracket(
+  wear: string,
+  wearMin: number | null,
+  wearMax: number | null
+): [number, number] | null {
+  const range = WEAR_FLOAT_RANGES[wear]
+  if (!range) return null
+
+  const low = Math.max(range[0], wearMin ?? 0)
+  const high = Math.min(range[1], wearMax ?? 1)
+  return high > low ? [low, high] : null
+}
+
+/**
+ * Rank a float inside its wear bracket
+ *
+ * @param floatValue - Owned item float (Decimal or number)
+ * @param wear - Stored wear (snake_case or display); derived from the float when missing or "none"
+ * @param wearMin - Item.wear_min
+ * @param wearMax - Item.wear_max
+ * @param bestOwnedFloat - Lowest float among owned copies of the same Item
+ * @returns Ranking, or null without a usable float
+ */
+export function rankFloat(
+  floatValue: unknown,
+  wear: string | null,
+  wearMin: number | null,
+  wearMax: number | null,
+  bestOwnedFloat?: unknown
+): FloatRanking | null {
+  const float = toNumber(floatValue)
+  if (float === null) return null
+
+  // Loadouts store display wears ("Field-Tested"), inventories snake_case
+  const wearKey = wear?.toLowerCase().replace(/[\s-]+/g, '_')
+  const bracketWear = wearKey && WEAR_FLOAT_RANGES[wearKey] ? wearKey : getWearForFloat(float)
+  const bracket = getFloatBracket(bracketWear, wearMin, wearMax)
+  if (!bracket) return null
+
+  const [low, high] = bracket
+  const percentile = Math.round(Math.min(100, Math.max(0, ((float - low) / (high - low)) * 100)) * 100) / 100
+
+  const tags: FloatTag[] = []
+  if (percentile <= LOW_FLOAT_PERCENTILE) tags.push('low_float')
+  const best = toNumber(bestOwnedFloat)
+  if (best !== null && float <= best) tags.push('best_in_bracket')
+
+  return { wear: bracketWear, bracket, percentile, tags }
+}
+
+/**
+ * Price multiplier for a float percentile
+ */
+export function getFloatPremiumMultiplier(
+  percentile: number,
+  config: FloatPremiumConfig = DEFAULT_FLOAT_PREMIUM_CONFIG
+): number {
+  const curve = [...config.curve].sort((a, b) => a.percentile - b.percentile)
+  if (curve.length === 0) return 1
+  if (percentile <= curve[0].percentile) return curve[0].multiplier
+
+  for (let i = 1; i < curve.length; i++) {
+    const previous = curve[i - 1]
+    const point = curve[i]
+    if (percentile <= point.percentile) {
+      const t = (percentile - previous.percentile) / (point.percentile - previous.percentile || 1)
+      return previous.multiplier + t * (point.multiplier - previous.multiplier)
+    }
+  }
+
+  return curve[curve.length - 1].multiplier
+}
+
+/**
+ * Base value adjusted by the float premium curve
+ */
+export function applyFloatPremium(
+  baseValue: number,
+  ranking: FloatRanking | null,
+  config: FloatPremiumConfig = DEFAULT_FLOAT_PREMIUM_CONFIG
+): number {
+  if (!ranking) return baseValue
+  return Math.round(baseValue * getFloatPremiumMultiplier(ranking.percentile, config) * 100) / 100
+}
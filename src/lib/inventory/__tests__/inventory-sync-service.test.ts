@@ -60,8 +60,10 @@ describe('InventorySyncService', () => {
         deleteMany: jest.fn(),
       },
       inventoryItem: {
+        findMany: jest.fn(),
         deleteMany: jest.fn(),
         createMany: jest.fn(),
+        updateMany: jest.fn(),
         create: jest.fn(),
       },
       $transaction: jest.fn((callback) => callback(prismaMock)),
@@ -216,6 +218,143 @@ describe('InventorySyncService', () => {
     })
   })
 
+  describe('Incremental Sync', () => {
+    it('should only insert added assets and delete removed ones', async () => {
+      // Arrange - stored inventory synced 7 hours ago (cache expired)
+      prismaMock.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        steam_id: '76561198000000001',
+        last_login: new Date(),
+        inventory: {
+          id: 'inventory-1',
+          last_synced: new Date(Date.now() - 7 * 60 * 60 * 1000),
+          total_items: 2,
+          total_value: 20.67,
+        },
+      })
+
+      prismaMock.inventoryItem.findMany.mockResolvedValue([
+        { steam_asset_id: 'asset-1', item_id: 'item-ak47-redline', current_value: 8.67 },
+        { steam_asset_id: 'asset-traded', item_id: 'item-m4a4-howl', current_value: 12.0 },
+      ])
+
+      prismaMock.item.findMany.mockResolvedValue([
+        {
+          id: 'item-awp-asiimov',
+          display_name: 'AWP | Asiimov (Battle-Scarred)',
+          marketplace_prices: [{ platform: 'csfloat', price: 45.2, total_cost: 45.2 }],
+        },
+      ])
+
+      jest.spyOn(steamClient, 'fetchInventory').mockResolvedValue({
+        success: true,
+        items: [
+          {
+            assetId: 'asset-1',
+            marketHashName: 'AK-47 | Redline (Field-Tested)',
+            isTradable: true,
+            isMarketable: true,
+          },
+          {
+            assetId: 'asset-2',
+            marketHashName: 'AWP | Asiimov (Battle-Scarred)',
+            isTradable: true,
+            isMarketable: true,
+          },
+        ],
+        totalCount: 2,
+      })
+
+      prismaMock.userInventory.upsert.mockResolvedValue({ id: 'inventory-1', user_id: 'user-1' })
+      prismaMock.inventoryItem.deleteMany.mockResolvedValue({ count: 1 })
+      prismaMock.inventoryItem.createMany.mockResolvedValue({ count: 1 })
+
+      // Act
+      const result = await service.syncInventory('user-1', { consentGiven: true })
+
+      // Assert - unchanged asset keeps its stored price, only the new asset is matched
+      expect(result.success).toBe(true)
+      expect(result.itemsAdded).toBe(1)
+      expect(result.itemsRemoved).toBe(1)
+      expect(result.itemsUnchanged).toBe(1)
+      expect(result.totalValue).toBeCloseTo(53.87) // 8.67 stored + 45.20 new
+
+      expect(prismaMock.item.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { display_name: { in: ['AWP | Asiimov (Battle-Scarred)'] } },
+        })
+      )
+      expect(prismaMock.inventoryItem.deleteMany).toHaveBeenCalledWith({
+        where: { inventory_id: 'inventory-1', steam_asset_id: { in: ['asset-traded'] } },
+      })
+      expect(prismaMock.inventoryItem.createMany.mock.calls[0][0].data).toHaveLength(1)
+      expect(prismaMock.inventoryItem.createMany.mock.calls[0][0].data[0].steam_asset_id).toBe('asset-2')
+    })
+
+    it('should backfill decoded float data on unchanged assets stored without it', async () => {
+      // Arrange - asset-1 was stored before its inspect link could be decoded
+      prismaMock.user.findUnique.mockResolvedValue({
+        id: 'user-1',
+        steam_id: '76561198000000001',
+        last_login: new Date(),
+        inventory: {
+          id: 'inventory-1',
+          last_synced: new Date(Date.now() - 7 * 60 * 60 * 1000),
+          total_items: 2,
+          total_value: 20.67,
+        },
+      })
+
+      prismaMock.inventoryItem.findMany.mockResolvedValue([
+        { steam_asset_id: 'asset-1', item_id: 'item-ak47-redline', current_value: 8.67, float_value: null, pattern_seed: null },
+        { steam_asset_id: 'asset-2', item_id: 'item-awp-asiimov', current_value: 12.0, float_value: 0.91, pattern_seed: 12 },
+      ])
+
+      jest.spyOn(steamClient, 'fetchInventory').mockResolvedValue({
+        success: true,
+        items: [
+          {
+            assetId: 'asset-1',
+            marketHashName: 'AK-47 | Redline (Field-Tested)',
+            floatValue: 0.2512,
+            patternSeed: 661,
+            isTradable: true,
+            isMarketable: true,
+          },
+          {
+            assetId: 'asset-2',
+            marketHashName: 'AWP | Asiimov (Battle-Scarred)',
+            floatValue: 0.91,
+            patternSeed: 12,
+            isTradable: true,
+            isMarketable: true,
+          },
+        ],
+        totalCount: 2,
+      })
+
+      prismaMock.userInventory.upsert.mockResolvedValue({ id: 'inventory-1', user_id: 'user-1' })
+      prismaMock.inventoryItem.updateMany.mockResolvedValue({ count: 1 })
+
+      // Act
+      const result = await service.syncInventory('user-1', { consentGiven: true })
+
+      // Assert - only the row missing decoded data is updated, nothing is re-priced
+      expect(result.success).toBe(true)
+      expect(result.itemsUnchanged).toBe(2)
+      expect(result.itemsBackfilled).toBe(1)
+      expect(result.totalValue).toBeCloseTo(20.67)
+
+      expect(prismaMock.item.findMany).not.toHaveBeenCalled()
+      expect(prismaMock.inventoryItem.createMany).not.toHaveBeenCalled()
+      expect(prismaMock.inventoryItem.updateMany).toHaveBeenCalledTimes(1)
+      expect(prismaMock.inventoryItem.updateMany).toHaveBeenCalledWith({
+        where: { inventory_id: 'inventory-1', steam_asset_id: 'asset-1' },
+        data: { float_value: 0.2512, pattern_seed: 661, stickers: undefined, charms: undefined },
+      })
+    })
+  })
+
   describe('Privacy Handling', () => {
     // BDD: Scenario "Handle private inventory gracefully"
     it('should detect private inventory and update sync_status', async () => {
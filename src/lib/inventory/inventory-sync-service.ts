@@ -9,6 +9,8 @@
  * - Orchestrate Steam inventory fetch via SteamInventoryClient
  * - Match Steam items to database items via market_hash_name
  * - Store/update UserInventory and InventoryItem records
+ * - Incremental sync: diff fetched asset IDs against stored InventoryItem rows,
+ *   insert only added assets, delete only removed ones
  * - Calculate total inventory value from marketplace prices
  * - Handle privacy errors (403), rate limits (429), GDPR compliance
  *
@@ -19,12 +21,23 @@
  * - Transaction timeout: 10s for large inventories (default 5s too short)
  * - GDPR: 90-day retention, scheduled_delete timestamps
  * - Cache TTL: 6 hours to prevent rate limiting
+ * - Float, pattern seed and sticker wear come from masked inspect links
+ *   decoded by SteamInventoryClient; unmasked links leave them null
+ * - Unchanged assets are never re-matched or re-priced; they keep their stored
+ *   current_value (refreshing thousands of items per sync hit rate limits)
+ * - Unchanged rows stored before their inspect link could be decoded (null
+ *   float_value/pattern_seed) are backfilled once decoded data is available
  */
 
 import { PrismaClient } from '@prisma/client'
 import { SteamInventoryClient } from '../steam/steam-inventory-client'
 import type { InventorySyncOptions, InventorySyncResult } from './types'
 import type { SteamInventoryItem } from '../steam/types'
+import { applyInspectStickers, parseStickerDescriptions, type AppliedSticker } from '../stickers/sticker-parser'
+import { resolveStickerItemIds } from '../stickers/sticker-service'
+import { applyInspectKeychains, parseCharmDescriptions, type AppliedCharm } from '../charms/charm-attachments'
+import { resolveCharmItemIds } from '../charms/charm-service'
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service'
 
 export class InventorySyncService {
   private readonly CACHE_TTL_HOURS = 6
@@ -92,11 +105,31 @@ export class InventorySyncService {
         return await this.handleSteamApiError(userId, steamResult.error, steamResult.message)
       }
 
-      // Match items to database and calculate value (BEFORE transaction)
-      const matchedItems = await this.matchItemsToDatabase(steamResult.items)
+      // Diff against stored items: only new assets need matching and pricing
+      const storedItems = user.inventory
+        ? await this.prisma.inventoryItem.findMany({
+            where: { inventory_id: user.inventory.id },
+            select: {
+              steam_asset_id: true,
+              item_id: true,
+              current_value: true,
+              float_value: true,
+              pattern_seed: true,
+            },
+          })
+        : []
+      const diff = this.diffAssets(storedItems, steamResult.items)
+      const backfillItems = this.findBackfillItems(diff.unchanged, steamResult.items)
+
+      // Match added items to database and calculate value (BEFORE transaction)
+      const matchedItems = diff.added.length > 0 ? await this.matchItemsToDatabase(diff.added) : []
 
-      // Calculate total value
-      const totalValue = matchedItems.reduce((sum, item) => sum + (item.currentValue || 0), 0)
+      // Calculate total value: stored values for unchanged items + fresh values for added ones
+      const unchangedValue = diff.unchanged.reduce(
+        (sum, item) => sum + (item.current_value ? parseFloat(item.current_value.toString()) : 0),
+        0
+      )
+      const totalValue = unchangedValue + matchedItems.reduce((sum, item) => sum + (item.currentValue || 0), 0)
 
       // Use interactive transaction for database operations
       // BDD: "Transaction rollback if item insertion fails"
@@ -127,12 +160,14 @@ export class InventorySyncService {
             },
           })
 
-          // Delete existing inventory items (will be replaced with fresh data)
-          await tx.inventoryItem.deleteMany({
-            where: { inventory_id: inventory.id },
-          })
+          // Delete items no longer in the Steam inventory (traded, sold, consumed)
+          if (diff.removedAssetIds.length > 0) {
+            await tx.inventoryItem.deleteMany({
+              where: { inventory_id: inventory.id, steam_asset_id: { in: diff.removedAssetIds } },
+            })
+          }
 
-          // Insert inventory items
+          // Insert new inventory items
           // BDD: "Store inventory items with Steam asset IDs"
           if (matchedItems.length > 0) {
             await tx.inventoryItem.createMany({
@@ -143,9 +178,11 @@ export class InventorySyncService {
                 market_hash_name: item.marketHashName,
                 custom_name: item.customName,
                 float_value: item.floatValue,
+                pattern_seed: item.patternSeed,
                 wear: item.wear,
                 quality: item.quality,
                 stickers: item.stickers ? JSON.parse(JSON.stringify(item.stickers)) : undefined,
+                charms: item.charms ? JSON.parse(JSON.stringify(item.charms)) : undefined,
                 can_trade: item.isTradable,
                 trade_hold_until: item.tradeHoldUntil,
                 current_value: item.currentValue,
@@ -158,9 +195,14 @@ export class InventorySyncService {
           return {
             success: true,
             itemsImported: steamResult.totalCount,
-            unmatchedItems: matchedItems.filter((item) => !item.itemId).length,
+            unmatchedItems:
+              diff.unchanged.filter((item) => !item.item_id).length +
+              matchedItems.filter((item) => !item.itemId).length,
             totalValue,
             cached: false,
+            itemsAdded: diff.added.length,
+            itemsRemoved: diff.removedAssetIds.length,
+            itemsUnchanged: diff.unchanged.length,
           }
         },
         {
@@ -168,7 +210,13 @@ export class InventorySyncService {
         }
       )
 
-      return result
+      // Backfill decoded inspect data on unchanged rows (outside the transaction:
+      // it only enriches rows, and a large first backfill must not hit the timeout)
+      if (user.inventory && backfillItems.length > 0) {
+        await this.backfillInspectData(user.inventory.id, backfillItems)
+      }
+
+      return { ...result, itemsBackfilled: backfillItems.length }
     } catch (error) {
       console.error('Inventory sync error:', error)
       return {
@@ -219,6 +267,123 @@ export class InventorySyncService {
     }
   }
 
+  /**
+   * Diff fetched Steam assets against stored InventoryItem rows by asset ID
+   *
+   * Steam asset IDs are stable while an item stays in the inventory and change
+   * when it leaves (trade, market sale), so an ID match means the row is current.
+   */
+  private diffAssets<T extends { steam_asset_id: string }>(
+    storedItems: T[],
+    steamItems: SteamInventoryItem[]
+  ): { added: SteamInventoryItem[]; removedAssetIds: string[]; unchanged: T[] } {
+    const fetchedAssetIds = new Set(steamItems.map((item) => item.assetId))
+    const storedAssetIds = new Set(storedItems.map((item) => item.steam_asset_id))
+
+    return {
+      added: steamItems.filter((item) => !storedAssetIds.has(item.assetId)),
+      removedAssetIds: storedItems
+        .filter((item) => !fetchedAssetIds.has(item.steam_asset_id))
+        .map((item) => item.steam_asset_id),
+      unchanged: storedItems.filter((item) => fetchedAssetIds.has(item.steam_asset_id)),
+    }
+  }
+
+  /**
+   * Fetched items whose stored row predates a decodable inspect link
+   *
+   * Unchanged assets are never re-inserted, so without this a row stored while
+   * its float was unknown would keep float_value/pattern_seed null forever.
+   */
+  private findBackfillItems(
+    storedItems: Array<{ steam_asset_id: string; float_value: unknown; pattern_seed: number | null }>,
+    steamItems: SteamInventoryItem[]
+  ): SteamInventoryItem[] {
+    const storedByAssetId = new Map(storedItems.map((item) => [item.steam_asset_id, item]))
+
+    return steamItems.filter((steamItem) => {
+      const stored = storedByAssetId.get(steamItem.assetId)
+      if (!stored) return false
+      return (
+        (stored.float_value === null && steamItem.floatValue !== undefined) ||
+        (stored.pattern_seed === null && steamItem.patternSeed !== undefined)
+      )
+    })
+  }
+
+  /**
+   * Write decoded float, pattern seed, sticker wear and charm patterns onto
+   * existing rows without re-matching or re-pricing them
+   */
+  private async backfillInspectData(inventoryId: string, steamItems: SteamInventoryItem[]): Promise<void> {
+    const attachments = await this.resolveAttachments(steamItems)
+
+    for (const steamItem of steamItems) {
+      const { stickers, charms } = attachments.get(steamItem.assetId) ?? {}
+
+      await this.prisma.inventoryItem.updateMany({
+        where: { inventory_id: inventoryId, steam_asset_id: steamItem.assetId },
+        data: {
+          float_value: steamItem.floatValue,
+          pattern_seed: steamItem.patternSeed,
+          stickers: stickers ? JSON.parse(JSON.stringify(stickers)) : undefined,
+          charms: charms ? JSON.parse(JSON.stringify(charms)) : undefined,
+        },
+      })
+    }
+  }
+
+  /**
+   * Parse applied stickers and charms and resolve them to their Items
+   *
+   * BDD: "Display applied stickers on item" - stickers resolved to sticker Item IDs
+   */
+  private async resolveAttachments(
+    steamItems: SteamInventoryItem[]
+  ): Promise<Map<string, { stickers?: AppliedSticker[]; charms?: AppliedCharm[] }>> {
+    // Parse applied stickers (slot + wear from masked inspect links) and resolve them to sticker items in one query
+    const parsedStickers = new Map(
+      steamItems
+        .filter((item) => item.stickerDescriptions)
+        .map((item) => [
+          item.assetId,
+          applyInspectStickers(parseStickerDescriptions(item.stickerDescriptions!), item.inspectStickers ?? []),
+        ])
+    )
+    const stickerIds = await resolveStickerItemIds(
+      Array.from(parsedStickers.values()).flatMap((stickers) => stickers.map((sticker) => sticker.name)),
+      this.prisma
+    )
+
+    // Parse charms (pattern from masked inspect links) and resolve them to charm items
+    const parsedCharms = new Map(
+      steamItems
+        .filter((item) => item.charmDescriptions)
+        .map((item) => [
+          item.assetId,
+          applyInspectKeychains(parseCharmDescriptions(item.charmDescriptions!), item.keychains ?? []),
+        ])
+    )
+    const charmIds = await resolveCharmItemIds(
+      Array.from(parsedCharms.values()).flatMap((charms) => charms.map((charm) => charm.name)),
+      this.prisma
+    )
+
+    return new Map(
+      steamItems.map((steamItem) => [
+        steamItem.assetId,
+        {
+          stickers: parsedStickers
+            .get(steamItem.assetId)
+            ?.map((sticker) => ({ ...sticker, item_id: stickerIds.get(sticker.name) ?? null })),
+          charms: parsedCharms
+            .get(steamItem.assetId)
+            ?.map((charm) => ({ ...charm, item_id: charmIds.get(charm.name) ?? null })),
+        },
+      ])
+    )
+  }
+
   /**
    * Match Steam items to database items via market_hash_name
    *
@@ -238,6 +403,7 @@ export class InventorySyncService {
       },
       include: {
         marketplace_prices: {
+          where: NON_QUARANTINED_PRICE,
           orderBy: {
             total_cost: 'asc', // Get best price first
           },
@@ -249,6 +415,8 @@ export class InventorySyncService {
     // Create lookup map: market_hash_name → database item
     const itemLookup = new Map(dbItems.map((item) => [item.display_name, item]))
 
+    const attachments = await this.resolveAttachments(steamItems)
+
     // Match Steam items to database items
     return steamItems.map((steamItem) => {
       const dbItem = itemLookup.get(steamItem.marketHashName)
@@ -260,9 +428,11 @@ export class InventorySyncService {
         itemId: dbItem?.id ?? null, // NULL if no match
         customName: steamItem.customName,
         floatValue: steamItem.floatValue,
+        patternSeed: steamItem.patternSeed,
         wear: steamItem.wear,
         quality: steamItem.quality,
-        stickers: steamItem.stickerDescriptions,
+        stickers: attachments.get(steamItem.assetId)?.stickers,
+        charms: attachments.get(steamItem.assetId)?.charms,
         isTradable: steamItem.isTradable,
         tradeHoldUntil: steamItem.tradeHoldUntil,
         currentValue: price ? parseFloat(price.price.toString()) : null, // Use lowest_price, not total_cost
@@ -302,9 +472,11 @@ interface MatchedInventoryItem {
   itemId: string | null
   customName?: string
   floatValue?: number
+  patternSeed?: number
   wear?: string
   quality?: string
-  stickers?: string[]
+  stickers?: AppliedSticker[]
+  charms?: AppliedCharm[]
   isTradable: boolean
   tradeHoldUntil?: Date
   currentValue: number | null
@@ -5,7 +5,7 @@
  *
  * Type definitions for inventory synchronization service:
  * - Sync options (consent, force refresh)
- * - Sync results (success, error states)
+ * - Sync results (success, error states, added/removed/unchanged counts)
  * - Error types (privacy, rate limits, GDPR)
  */
 
@@ -20,6 +20,10 @@ export interface InventorySyncResult {
   unmatchedItems?: number
   totalValue?: number
   cached?: boolean
+  itemsAdded?: number // Incremental sync: new assets inserted
+  itemsRemoved?: number // Incremental sync: assets no longer in the Steam inventory
+  itemsUnchanged?: number // Incremental sync: stored rows kept with their prices
+  itemsBackfilled?: number // Incremental sync: unchanged rows given newly decoded float/pattern data
   error?: 'PRIVATE_INVENTORY' | 'RATE_LIMITED' | 'CONSENT_REQUIRED' | 'DATABASE_ERROR' | 'NETWORK_ERROR'
   message?: string
 }
@@ -8,10 +8,15 @@
  *
  * All normalize to: "ak-47 case hardened field-tested"
  *
+ * Also shared naming/wear helpers: base weapon names (wear and StatTrak
+ * stripped) and the standard wear float brackets
+ *
  * BDD Reference: features/01-item-database.feature:89-94
  * Spec Reference: features/01-item-database.md Gotcha #4
  */
 
+import type { Rarity } from '@/types/search';
+
 export function normalizeItemName(name: string): string {
   if (!name) return '';
 
@@ -24,3 +29,111 @@ export function normalizeItemName(name: string): string {
     .replace(/\s+/g, ' ')               // Collapse multiple spaces to single space
     .trim();                            // Remove leading/trailing whitespace
 }
+
+/**
+ * Extract base weapon name by removing prefixes (StatTrak™, Souvenir) and wear condition
+ * "StatTrak™ AK-47 | Redline (Field-Tested)" -> "AK-47 | Redline"
+ */
+export function getBaseWeaponName(name: string): string {
+  let baseName = name;
+
+  // Remove StatTrak™ prefix
+  baseName = baseName.replace(/^StatTrak™\s+/i, '');
+  // Remove Souvenir prefix
+  baseName = baseName.replace(/^Souvenir\s+/i, '');
+  // Remove wear condition in parentheses at the end
+  baseName = baseName.replace(/\s*\((Factory New|Minimal Wear|Field-Tested|Well-Worn|Battle-Scarred)\)\s*$/i, '');
+
+  return baseName.trim();
+}
+
+/**
+ * Item Rarity Normalization
+ *
+ * Item.rarity holds ByMykel rarity ids as imported ("rarity_rare_weapon",
+ * "rarity_ancient_character", "rarity_mythical" for stickers), while filters
+ * and features work on the weapon grade names in Rarity (src/types/search.ts).
+ *
+ * Non-weapon grades map to the weapon grade at the same tier:
+ * - Stickers: Base Grade = consumer, High Grade = milspec, Remarkable = restricted,
+ *   Exotic = classified, Extraordinary = covert
+ * - Agents: Distinguished = milspec ... Master = covert
+ */
+
+export const RARITY_TIERS: Rarity[] = [
+  'consumer',
+  'industrial',
+  'milspec',
+  'restricted',
+  'classified',
+  'covert',
+  'contraband',
+];
+
+const BYMYKEL_RARITY_TIERS: Record<string, Rarity> = {
+  default: 'consumer', // Base Grade (stickers)
+  common: 'consumer',
+  uncommon: 'industrial',
+  rare: 'milspec',
+  mythical: 'restricted',
+  legendary: 'classified',
+  ancient: 'covert',
+  contraband: 'contraband',
+};
+
+/**
+ * Weapon grade name for a stored rarity (ByMykel id or grade name)
+ *
+ * @returns Grade name, or null for missing/unknown rarities
+ */
+export function normalizeRarity(rarity: string | null | undefined): Rarity | null {
+  if (!rarity) return null;
+
+  const value = rarity.trim().toLowerCase();
+  if ((RARITY_TIERS as string[]).includes(value)) return value as Rarity;
+
+  const match = value.match(/^rarity_([a-z]+?)(?:_weapon|_character)?$/);
+  return match ? BYMYKEL_RARITY_TIERS[match[1]] ?? null : null;
+}
+
+/**
+ * 1-based tier of a stored rarity (consumer = 1 ... contraband = 7), 0 when unknown
+ */
+export function getRarityRank(rarity: string | null | undefined): number {
+  const normalized = normalizeRarity(rarity);
+  return normalized ? RARITY_TIERS.indexOf(normalized) + 1 : 0;
+}
+
+/**
+ * Every stored Item.rarity value that normalizes to a grade, for database filters
+ */
+export function getRarityIds(rarity: Rarity): string[] {
+  const ids: string[] = [rarity];
+  for (const [tier, grade] of Object.entries(BYMYKEL_RARITY_TIERS)) {
+    if (grade === rarity) {
+      ids.push(`rarity_${tier}`, `rarity_${tier}_weapon`, `rarity_${tier}_character`);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Standard CS2 wear brackets, [min, max) by float
+ */
+export const WEAR_FLOAT_RANGES: Record<string, [number, number]> = {
+  factory_new: [0, 0.07],
+  minimal_wear: [0.07, 0.15],
+  field_tested: [0.15, 0.38],
+  well_worn: [0.38, 0.45],
+  battle_scarred: [0.45, 1],
+};
+
+/**
+ * Wear bracket of a float value
+ */
+export function getWearForFloat(floatValue: number): string {
+  const entry = Object.entries(WEAR_FLOAT_RANGES).find(
+    ([, [low, high]]) => floatValue >= low && floatValue < high
+  );
+  return entry ? entry[0] : 'battle_scarred';
+}
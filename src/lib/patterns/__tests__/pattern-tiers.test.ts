@@ -0,0 +1,76 @@
+/**
+ * Pattern Seed Tier Tests
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { applyPatternPremium, parsePatternTierFile, patternTierKey, toPatternSkinName } from '../pattern-tiers'
+
+describe('Pattern Seed Tiers', () => {
+  it('should normalize skin names so one entry covers every variant', () => {
+    expect(toPatternSkinName('★ StatTrak™ Karambit | Fade (Factory New)')).toBe('Karambit | Fade')
+    expect(toPatternSkinName('StatTrak™ AK-47 | Case Hardened (Field-Tested)')).toBe('AK-47 | Case Hardened')
+    expect(toPatternSkinName('Souvenir Five-SeveN | Case Hardened (Well-Worn)')).toBe('Five-SeveN | Case Hardened')
+    expect(patternTierKey('AK-47 | Case Hardened (Minimal Wear)', 661)).toBe('AK-47 | Case Hardened#661')
+  })
+
+  it('should expand tier seeds into entries keyed by skin and seed', () => {
+    const { entries, errors } = parsePatternTierFile({
+      source: 'Community blue gem list',
+      skins: [
+        {
+          skin: 'AK-47 | Case Hardened',
+          tiers: [{ label: 'Tier 1 blue gem', tier: 1, seeds: [661, 670], premiumMultiplier: 20 }],
+        },
+        {
+          skin: '★ Karambit | Doppler',
+          tiers: [{ label: 'Ruby', seed: 412, dopplerPhase: 'Ruby', premiumMultiplier: 6 }],
+        },
+      ],
+    })
+
+    expect(errors).toEqual([])
+    expect(entries).toHaveLength(3)
+    expect(entries[0]).toEqual({
+      skinName: 'AK-47 | Case Hardened',
+      patternSeed: 661,
+      tierLabel: 'Tier 1 blue gem',
+      tier: 1,
+      fadePercentage: null,
+      dopplerPhase: null,
+      premiumMultiplier: 20,
+      source: 'Community blue gem list',
+    })
+    expect(entries[2]).toMatchObject({ skinName: 'Karambit | Doppler', patternSeed: 412, dopplerPhase: 'Ruby' })
+  })
+
+  it('should report invalid tiers and keep the valid ones', () => {
+    const { entries, errors } = parsePatternTierFile({
+      skins: [
+        {
+          skin: '★ Karambit | Fade',
+          tiers: [
+            { label: '100% Fade', seeds: [763], fadePercentage: 100, premiumMultiplier: 1.3 },
+            { label: 'Bad seed', seeds: [1001] },
+            { label: 'Bad fade', seeds: [1], fadePercentage: 120 },
+            { label: 'Bad premium', seeds: [2], premiumMultiplier: 0 },
+            { seeds: [3] },
+          ],
+        },
+      ],
+    })
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]).toMatchObject({ patternSeed: 763, fadePercentage: 100, premiumMultiplier: 1.3 })
+    expect(errors).toHaveLength(4)
+    expect(parsePatternTierFile([]).errors).toEqual(['Expected an object with a "skins" array'])
+  })
+
+  it('should apply the premium multiplier to the base value', () => {
+    const tier = { label: 'Tier 1 blue gem', tier: 1, fadePercentage: null, dopplerPhase: null, premiumMultiplier: 20 }
+
+    expect(applyPatternPremium(12.345, tier)).toBe(246.9)
+    expect(applyPatternPremium(12.345, null)).toBe(12.345)
+  })
+})
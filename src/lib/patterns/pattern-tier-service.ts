@@ -0,0 +1,92 @@
+/**
+ * Pattern Tier Service
+ *
+ * Loads tier lists into PatternTier and looks tiers up for owned items
+ * (src/lib/patterns/pattern-tiers.ts).
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { patternTierKey, toPatternSkinName, type PatternTierEntry, type PatternTierInfo } from './pattern-tiers'
+
+export interface PatternTierImportResult {
+  processed: number
+  created: number
+  updated: number
+  failed: number
+}
+
+/**
+ * Upsert tier entries keyed by skin + seed
+ */
+export async function importPatternTiers(
+  entries: PatternTierEntry[],
+  client: PrismaClient = prisma
+): Promise<PatternTierImportResult> {
+  const stats: PatternTierImportResult = { processed: 0, created: 0, updated: 0, failed: 0 }
+
+  for (const entry of entries) {
+    const data = {
+      tier_label: entry.tierLabel,
+      tier: entry.tier,
+      fade_percentage: entry.fadePercentage,
+      doppler_phase: entry.dopplerPhase,
+      premium_multiplier: entry.premiumMultiplier,
+      source: entry.source,
+    }
+
+    try {
+      const result = await client.patternTier.upsert({
+        where: { skin_name_pattern_seed: { skin_name: entry.skinName, pattern_seed: entry.patternSeed } },
+        update: data,
+        create: { skin_name: entry.skinName, pattern_seed: entry.patternSeed, ...data },
+      })
+
+      stats.processed++
+      if (result.created_at.getTime() === result.updated_at.getTime()) {
+        stats.created++
+      } else {
+        stats.updated++
+      }
+    } catch (error) {
+      console.error(`[PatternTiers] Failed to import ${entry.skinName} #${entry.patternSeed}`, error)
+      stats.failed++
+    }
+  }
+
+  return stats
+}
+
+/**
+ * Tiers for items with a pattern seed
+ *
+ * @param items - Item names (any variant) with their pattern seeds
+ * @param client - Prisma client
+ * @returns patternTierKey(name, seed) → tier, for items on a tier list
+ */
+export async function findPatternTiers(
+  items: Array<{ name: string; patternSeed: number | null }>,
+  client: PrismaClient = prisma
+): Promise<Map<string, PatternTierInfo>> {
+  const seeded = items.filter((item): item is { name: string; patternSeed: number } => item.patternSeed !== null)
+  if (seeded.length === 0) return new Map()
+
+  const rows = await client.patternTier.findMany({
+    where: {
+      OR: seeded.map((item) => ({ skin_name: toPatternSkinName(item.name), pattern_seed: item.patternSeed })),
+    },
+  })
+
+  return new Map(
+    rows.map((row) => [
+      patternTierKey(row.skin_name, row.pattern_seed),
+      {
+        label: row.tier_label,
+        tier: row.tier,
+        fadePercentage: row.fade_percentage !== null ? Number(row.fade_percentage) : null,
+        dopplerPhase: row.doppler_phase,
+        premiumMultiplier: Number(row.premium_multiplier),
+      },
+    ])
+  )
+}
@@ -0,0 +1,161 @@
+/**
+ * Pattern Seed Tiers
+ *
+ * Interprets InventoryItem.pattern_seed for pattern-driven skins using
+ * community tier lists stored in PatternTier (skin + seed → tier label,
+ * fade percentage or Doppler phase, premium multiplier).
+ *
+ * Tier list JSON format (scripts/import-pattern-tiers.ts):
+ *
+ *   {
+ *     "source": "Community blue gem list",
+ *     "skins": [
+ *       {
+ *         "skin": "AK-47 | Case Hardened",
+ *         "tiers": [
+ *           { "label": "Tier 1 blue gem", "tier": 1, "seeds": [661, 670], "premiumMultiplier": 20 }
+ *         ]
+ *       },
+ *       {
+ *         "skin": "★ Karambit | Fade",
+ *         "tiers": [{ "label": "100% Fade", "seeds": [763], "fadePercentage": 100, "premiumMultiplier": 1.3 }]
+ *       }
+ *     ]
+ *   }
+ *
+ * Critical Gotchas:
+ * - Skin names are normalized (no ★, StatTrak™, Souvenir or wear) so one
+ *   entry covers every variant; always key lookups with toPatternSkinName()
+ * - A seed listed twice for the same skin keeps the last entry, so later
+ *   tiers in a file override earlier ones
+ */
+
+import { getBaseWeaponName } from '../normalize'
+
+export const MAX_PATTERN_SEED = 1000
+
+export interface PatternTierEntry {
+  skinName: string
+  patternSeed: number
+  tierLabel: string
+  tier: number | null
+  fadePercentage: number | null
+  dopplerPhase: string | null
+  premiumMultiplier: number
+  source: string | null
+}
+
+/**
+ * Tier info attached to an item for display
+ */
+export interface PatternTierInfo {
+  label: string
+  tier: number | null
+  fadePercentage: number | null
+  dopplerPhase: string | null
+  premiumMultiplier: number
+}
+
+export interface PatternTierParseResult {
+  entries: PatternTierEntry[]
+  errors: string[]
+}
+
+/**
+ * Normalized skin name used as the tier key
+ * "★ StatTrak™ Karambit | Fade (Factory New)" -> "Karambit | Fade"
+ */
+export function toPatternSkinName(name: string): string {
+  return getBaseWeaponName(name.replace(/★\s*/g, '').replace(/StatTrak™\s+/gi, '').trim())
+}
+
+export function patternTierKey(skinName: string, patternSeed: number): string {
+  return `${toPatternSkinName(skinName)}#${patternSeed}`
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+/**
+ * Validate a tier list file
+ *
+ * Invalid tiers are skipped and reported; valid ones are still returned.
+ *
+ * @param data - Parsed JSON
+ * @returns Entries (deduplicated by skin + seed) and per-tier errors
+ */
+export function parsePatternTierFile(data: unknown): PatternTierParseResult {
+  const errors: string[] = []
+  const entries = new Map<string, PatternTierEntry>()
+
+  if (!isObject(data) || !Array.isArray(data.skins)) {
+    return { entries: [], errors: ['Expected an object with a "skins" array'] }
+  }
+
+  const source = typeof data.source === 'string' ? data.source.slice(0, 100) : null
+
+  data.skins.forEach((skin, skinIndex) => {
+    if (!isObject(skin) || typeof skin.skin !== 'string' || !Array.isArray(skin.tiers)) {
+      errors.push(`skins[${skinIndex}]: expected { skin, tiers[] }`)
+      return
+    }
+    const skinName = toPatternSkinName(skin.skin)
+
+    skin.tiers.forEach((tier, tierIndex) => {
+      const path = `${skinName} tiers[${tierIndex}]`
+      if (!isObject(tier) || typeof tier.label !== 'string' || tier.label.trim().length === 0) {
+        errors.push(`${path}: missing label`)
+        return
+      }
+
+      const seeds = Array.isArray(tier.seeds) ? tier.seeds : [tier.seed]
+      const invalidSeed = seeds.find(
+        (seed) => !Number.isInteger(seed) || (seed as number) < 0 || (seed as number) > MAX_PATTERN_SEED
+      )
+      if (seeds.length === 0 || invalidSeed !== undefined) {
+        errors.push(`${path}: seeds must be integers between 0 and ${MAX_PATTERN_SEED}`)
+        return
+      }
+
+      const premiumMultiplier = tier.premiumMultiplier === undefined ? 1 : optionalNumber(tier.premiumMultiplier)
+      if (premiumMultiplier === null || premiumMultiplier <= 0) {
+        errors.push(`${path}: premiumMultiplier must be a positive number`)
+        return
+      }
+
+      const fadePercentage = optionalNumber(tier.fadePercentage)
+      if (fadePercentage !== null && (fadePercentage < 0 || fadePercentage > 100)) {
+        errors.push(`${path}: fadePercentage must be between 0 and 100`)
+        return
+      }
+
+      for (const seed of seeds as number[]) {
+        entries.set(`${skinName}#${seed}`, {
+          skinName,
+          patternSeed: seed,
+          tierLabel: tier.label.trim().slice(0, 100),
+          tier: optionalNumber(tier.tier),
+          fadePercentage,
+          dopplerPhase: typeof tier.dopplerPhase === 'string' ? tier.dopplerPhase.slice(0, 30) : null,
+          premiumMultiplier,
+          source,
+        })
+      }
+    })
+  })
+
+  return { entries: Array.from(entries.values()), errors }
+}
+
+/**
+ * Base value adjusted by a pattern premium
+ */
+export function applyPatternPremium(baseValue: number, tier: PatternTierInfo | null | undefined): number {
+  if (!tier) return baseValue
+  return Math.round(baseValue * tier.premiumMultiplier * 100) / 100
+}
@@ -0,0 +1,100 @@
+/**
+ * Price Quarantine Tests
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Critical Gotchas Applied:
+ * - A single bad listing must not become the lowest price or fire alerts
+ * - Flat price series (IQR = 0) must not quarantine normal small moves
+ * - A sustained move must not stay quarantined for the whole baseline window
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { evaluatePriceOutlier } from '../price-quarantine-service'
+import { findLowestPrice, type PriceData } from '../../../types/price'
+
+function priceData(platform: PriceData['platform'], totalCost: number, quarantined = false): PriceData {
+  return {
+    platform,
+    price: totalCost,
+    currency: 'USD',
+    fees: { seller: 0, buyer: 0, total: 0 },
+    totalCost,
+    lastUpdated: new Date('2025-11-01T00:00:00Z'),
+    quarantined,
+  }
+}
+
+describe('evaluatePriceOutlier', () => {
+  it('should quarantine a listing 90% below every other marketplace', () => {
+    const result = evaluatePriceOutlier(5, {
+      crossPlatformPrices: [48, 50, 51, 52, 55],
+      historicalPrices: [],
+      latestPrices: [],
+    })
+
+    expect(result.quarantined).toBe(true)
+    expect(result.check).toBe('cross_platform')
+    expect(result.reason).toContain('below median')
+  })
+
+  it('should quarantine a spike against the platform history', () => {
+    const result = evaluatePriceOutlier(250, {
+      crossPlatformPrices: [],
+      historicalPrices: [98, 100, 101, 99, 102, 100],
+      latestPrices: [],
+    })
+
+    expect(result.quarantined).toBe(true)
+    expect(result.check).toBe('historical')
+  })
+
+  it('should accept small moves on a flat price series', () => {
+    const result = evaluatePriceOutlier(10.4, {
+      crossPlatformPrices: [],
+      historicalPrices: [10, 10, 10, 10, 10],
+      latestPrices: [],
+    })
+
+    expect(result.quarantined).toBe(false)
+    expect(result.reason).toBeNull()
+  })
+
+  it('should not quarantine without enough comparison data', () => {
+    const result = evaluatePriceOutlier(1, {
+      crossPlatformPrices: [50, 52],
+      historicalPrices: [51],
+      latestPrices: [],
+    })
+
+    expect(result.quarantined).toBe(false)
+  })
+
+  it('should release a move repeated across the latest snapshots', () => {
+    const baselines = {
+      crossPlatformPrices: [],
+      historicalPrices: [98, 100, 101, 99, 102, 100], // Quarantined snapshots are not part of this
+    }
+
+    expect(evaluatePriceOutlier(250, { ...baselines, latestPrices: [248, 100, 101] }).quarantined).toBe(true)
+    expect(evaluatePriceOutlier(250, { ...baselines, latestPrices: [248, 252, 245] }).quarantined).toBe(false)
+  })
+})
+
+describe('findLowestPrice', () => {
+  it('should ignore quarantined prices', () => {
+    const lowest = findLowestPrice([
+      priceData('csfloat', 5, true),
+      priceData('steam', 52),
+      priceData('buff163', 48),
+    ])
+
+    expect(lowest?.platform).toBe('buff163')
+  })
+
+  it('should return null when every price is quarantined', () => {
+    expect(findLowestPrice([priceData('csfloat', 5, true)])).toBeNull()
+  })
+})
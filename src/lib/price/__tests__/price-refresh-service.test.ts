@@ -0,0 +1,227 @@
+/**
+ * Scheduled Price Refresh Tests
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *   - Scenario: "Display data freshness indicator"
+ *
+ * Critical Gotchas Applied:
+ * - Chunks never exceed a provider's remaining rate limit budget
+ * - Each platform resumes from its own persisted cursor
+ * - A 429 partway through a chunk leaves the cursor after the last priced item
+ *
+ * Test Strategy:
+ * - FixturePriceProvider with an injected clock (no network)
+ * - In-memory stand-in for the Prisma models the refresh touches
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import type { PrismaClient } from '@prisma/client'
+import { DEFAULT_PRICE_PROVIDER_CONFIG } from '../providers/config'
+import { FixturePriceProvider } from '../providers/mock-provider'
+import { PriceProviderError } from '../providers/base-provider'
+import { PriceProviderRegistry } from '../providers/registry'
+import { CurrencyConversionService } from '../../currency-conversion'
+import {
+  calculateDemandScore,
+  orderRefreshQueue,
+  runPriceRefresh,
+  summarizeFreshness,
+} from '../price-refresh-service'
+
+interface CursorRow {
+  platform: string
+  position: number
+  cycle: number
+}
+
+/**
+ * Minimal in-memory client covering item.findMany, priceRefreshCursor and
+ * the writes made by recordMarketplacePrice()
+ */
+function createFakeClient(itemCount: number) {
+  const cursors = new Map<string, CursorRow>()
+  const writes: Array<{ item_id: string; platform: string }> = []
+
+  const items = Array.from({ length: itemCount }, (_, i) => ({
+    id: `item-${String(i).padStart(2, '0')}`,
+    name: `Item ${i}`,
+    _count: { inventory_items: 0, price_alerts: i === itemCount - 1 ? 1 : 0, loadout_weapon_skins: 0 },
+  }))
+
+  const client = {
+    item: {
+      findMany: async () => items,
+    },
+    priceRefreshCursor: {
+      findUnique: async ({ where }: { where: { platform: string } }) => cursors.get(where.platform) ?? null,
+      upsert: async ({ where, update, create }: any) => {
+        const existing = cursors.get(where.platform)
+        const row = existing
+          ? {
+              ...existing,
+              position: update.position,
+              cycle: update.cycle ? existing.cycle + update.cycle.increment : existing.cycle,
+            }
+          : { platform: create.platform, position: create.position, cycle: create.cycle }
+        cursors.set(where.platform, row)
+        return row
+      },
+    },
+    marketplacePrice: {
+      findMany: async () => [],
+      upsert: async ({ create }: any) => {
+        writes.push({ item_id: create.item_id, platform: create.platform })
+        return create
+      },
+    },
+    marketplacePriceHistory: {
+      findMany: async () => [],
+      create: async ({ data }: any) => data,
+    },
+    $transaction: async (operations: Promise<unknown>[]) => Promise.all(operations),
+  }
+
+  return { client: client as unknown as PrismaClient, cursors, writes, items }
+}
+
+describe('Price Refresh Service', () => {
+  let clock: number
+  const now = () => clock
+
+  beforeEach(() => {
+    clock = new Date('2025-11-01T00:00:00Z').getTime()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  function createRegistry(requestsPerMinute: number, itemCount: number) {
+    const fixture = Object.fromEntries(
+      Array.from({ length: itemCount }, (_, i) => [`Item ${i}`, { price: 10 + i }])
+    )
+    const provider = new FixturePriceProvider(
+      { ...DEFAULT_PRICE_PROVIDER_CONFIG.csfloat, requestsPerMinute },
+      fixture,
+      { now, currencyService: new CurrencyConversionService() }
+    )
+    const registry = new PriceProviderRegistry()
+    registry.register(provider)
+    return { registry, provider }
+  }
+
+  /**
+   * Fixture provider the marketplace starts answering with 429 after `okBatches` requests
+   */
+  class ThrottledFixtureProvider extends FixturePriceProvider {
+    constructor(private readonly okBatches: number, ...args: ConstructorParameters<typeof FixturePriceProvider>) {
+      super(...args)
+    }
+
+    protected async fetchListings(marketHashNames: string[]) {
+      if (this.requestedBatches.length >= this.okBatches) {
+        throw new PriceProviderError('Rate limited by marketplace', 'RATE_LIMITED', this.platform, 429)
+      }
+      return super.fetchListings(marketHashNames)
+    }
+  }
+
+  describe('calculateDemandScore', () => {
+    it('should weigh alerts above loadouts above holdings', () => {
+      expect(calculateDemandScore({ alerts: 1, loadouts: 0, holdings: 0 })).toBeGreaterThan(
+        calculateDemandScore({ alerts: 0, loadouts: 1, holdings: 0 })
+      )
+      expect(calculateDemandScore({ alerts: 0, loadouts: 1, holdings: 0 })).toBeGreaterThan(
+        calculateDemandScore({ alerts: 0, loadouts: 0, holdings: 1 })
+      )
+    })
+  })
+
+  describe('orderRefreshQueue', () => {
+    it('should order by demand and break ties on item id', () => {
+      const queue = orderRefreshQueue([
+        { id: 'b', name: 'B', counts: { holdings: 1, alerts: 0, loadouts: 0 } },
+        { id: 'a', name: 'A', counts: { holdings: 1, alerts: 0, loadouts: 0 } },
+        { id: 'c', name: 'C', counts: { holdings: 0, alerts: 1, loadouts: 0 } },
+      ])
+
+      expect(queue.map(item => item.id)).toEqual(['c', 'a', 'b'])
+    })
+  })
+
+  describe('runPriceRefresh', () => {
+    it('should stop at the provider budget and resume from the saved cursor', async () => {
+      const { client, cursors, writes } = createFakeClient(5)
+      const first = createRegistry(3, 5)
+
+      const [firstRun] = await runPriceRefresh({ registry: first.registry, client, now, chunkSize: 10 })
+
+      expect(firstRun.stoppedBy).toBe('budget')
+      expect(firstRun.priced).toBe(3)
+      expect(firstRun.endPosition).toBe(3)
+      expect(cursors.get('csfloat')?.position).toBe(3)
+      // Highest demand item (active alert) is refreshed first
+      expect(writes[0].item_id).toBe('item-04')
+
+      const second = createRegistry(3, 5)
+      const [secondRun] = await runPriceRefresh({ registry: second.registry, client, now, chunkSize: 10 })
+
+      expect(secondRun.startPosition).toBe(3)
+      expect(secondRun.priced).toBe(2)
+      expect(secondRun.cycleCompleted).toBe(true)
+      expect(cursors.get('csfloat')).toMatchObject({ position: 0, cycle: 1 })
+      expect(new Set(writes.map(w => w.item_id)).size).toBe(5)
+    })
+
+    it('should only advance past items priced before a 429', async () => {
+      const { client, cursors, writes } = createFakeClient(5)
+      const fixture = Object.fromEntries(Array.from({ length: 5 }, (_, i) => [`Item ${i}`, { price: 10 + i }]))
+      const provider = new ThrottledFixtureProvider(
+        2,
+        { ...DEFAULT_PRICE_PROVIDER_CONFIG.csfloat, requestsPerMinute: 60 },
+        fixture,
+        { now, currencyService: new CurrencyConversionService() }
+      )
+      const registry = new PriceProviderRegistry()
+      registry.register(provider)
+
+      const [result] = await runPriceRefresh({ registry, client, now, chunkSize: 5 })
+
+      expect(result.stoppedBy).toBe('budget')
+      expect(result.priced).toBe(2)
+      expect(result.endPosition).toBe(2)
+      expect(cursors.get('csfloat')?.position).toBe(2)
+      expect(writes).toHaveLength(2)
+    })
+
+    it('should not start a chunk after the deadline', async () => {
+      const { client, cursors } = createFakeClient(5)
+      const { registry, provider } = createRegistry(60, 5)
+
+      const [result] = await runPriceRefresh({ registry, client, now, deadline: clock, chunkSize: 2 })
+
+      expect(result.stoppedBy).toBe('deadline')
+      expect(result.requested).toBe(0)
+      expect(provider.requestedBatches).toHaveLength(0)
+      expect(cursors.get('csfloat')?.position).toBe(0)
+    })
+  })
+
+  describe('summarizeFreshness', () => {
+    it('should pass the SLA at the target percentage', () => {
+      const summary = summarizeFreshness('steam', 200, 190, null)
+
+      expect(summary.freshPercent).toBe(95)
+      expect(summary.meetsSla).toBe(true)
+      expect(summary.slaMinutes).toBe(360)
+    })
+
+    it('should flag platforms below the target', () => {
+      expect(summarizeFreshness('csfloat', 10, 5, new Date()).meetsSla).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,250 @@
+/**
+ * Price History Service
+ * Feature 04: Multi-Marketplace Price Aggregation
+ * BDD Reference: features/04-price-aggregation.feature
+ *   - Scenario: "View 30-day price history chart"
+ *
+ * MarketplacePrice keeps one row per (item_id, platform) and is overwritten
+ * on every sync. All price writes go through recordMarketplacePrice() so that
+ * each write also appends a MarketplacePriceHistory snapshot. Charts read the
+ * snapshots back as daily OHLC points via getPriceHistory().
+ *
+ * Every write is checked for outliers first (price-quarantine-service.ts).
+ * Suspect prices are stored with quarantined = true on both tables and are
+ * left out of the chart.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { evaluatePriceOutlier, loadOutlierBaselines, NON_QUARANTINED_PRICE } from './price-quarantine-service'
+import {
+  PRICE_HISTORY_RANGES,
+  type Platform,
+  type PriceFloatListing,
+  type PriceHistory,
+  type PriceHistoryPoint,
+  type PriceHistoryRange,
+} from '../../types/price'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Price write for a single item on a single platform
+ */
+export interface MarketplacePriceInput {
+  itemId: string
+  platform: string
+  price: number
+  totalCost: number
+  currency?: string
+  sellerFeePercent?: number | null
+  buyerFeePercent?: number | null
+  quantityAvailable?: number | null
+  listingUrl?: string | null
+  floatValue?: number | null // Wear float of the listing
+  floatListings?: PriceFloatListing[] // Replaces the stored float listings for the item + platform
+  lastUpdated?: Date
+  // Set when the listing was quoted in a foreign currency (stored on the snapshot for auditing)
+  originalPrice?: number
+  originalCurrency?: string
+  exchangeRate?: number
+  exchangeRateSource?: string
+}
+
+/**
+ * Raw snapshot row used for aggregation
+ */
+export interface PriceSnapshot {
+  price: number
+  recorded_at: Date
+}
+
+/**
+ * Check if a requested window is one of the supported ranges (30, 90, 365)
+ */
+export function isPriceHistoryRange(days: number): days is PriceHistoryRange {
+  return (PRICE_HISTORY_RANGES as readonly number[]).includes(days)
+}
+
+/**
+ * Upsert the current marketplace price and append a history snapshot
+ *
+ * Both writes run in one transaction so history never drifts from the
+ * current price table. Outliers are stored quarantined with a reason.
+ * Float listings, when given, replace the item's listings on the platform in
+ * the same transaction.
+ *
+ * @param input - Price data to store
+ * @param client - Prisma client (scripts pass their own instance)
+ */
+export async function recordMarketplacePrice(
+  input: MarketplacePriceInput,
+  client: PrismaClient = prisma
+) {
+  const lastUpdated = input.lastUpdated ?? new Date()
+  const currency = input.currency ?? 'USD'
+
+  const baselines = await loadOutlierBaselines(input.itemId, input.platform, lastUpdated, client)
+  const outlier = evaluatePriceOutlier(input.price, baselines)
+  const quarantine = {
+    quarantined: outlier.quarantined,
+    quarantine_reason: outlier.reason,
+    quarantined_at: outlier.quarantined ? lastUpdated : null,
+  }
+
+  if (outlier.quarantined) {
+    console.warn(`[PriceHistory] Quarantined ${input.platform} price for ${input.itemId}: ${outlier.reason}`)
+  }
+
+  const [marketplacePrice] = await client.$transaction([
+    client.marketplacePrice.upsert({
+      where: {
+        item_id_platform: {
+          item_id: input.itemId,
+          platform: input.platform,
+        },
+      },
+      update: {
+        price: input.price,
+        currency,
+        total_cost: input.totalCost,
+        ...(input.sellerFeePercent !== undefined && { seller_fee_percent: input.sellerFeePercent }),
+        ...(input.buyerFeePercent !== undefined && { buyer_fee_percent: input.buyerFeePercent }),
+        ...(input.quantityAvailable !== undefined && { quantity_available: input.quantityAvailable }),
+        ...(input.listingUrl !== undefined && { listing_url: input.listingUrl }),
+        ...(input.floatValue !== undefined && { float_value: input.floatValue }),
+        last_updated: lastUpdated,
+        ...quarantine,
+      },
+      create: {
+        item_id: input.itemId,
+        platform: input.platform,
+        price: input.price,
+        currency,
+        seller_fee_percent: input.sellerFeePercent ?? null,
+        buyer_fee_percent: input.buyerFeePercent ?? null,
+        total_cost: input.totalCost,
+        quantity_available: input.quantityAvailable ?? null,
+        listing_url: input.listingUrl ?? null,
+        float_value: input.floatValue ?? null,
+        last_updated: lastUpdated,
+        ...quarantine,
+      },
+    }),
+    client.marketplacePriceHistory.create({
+      data: {
+        item_id: input.itemId,
+        platform: input.platform,
+        price: input.price,
+        currency,
+        total_cost: input.totalCost,
+        quantity_available: input.quantityAvailable ?? null,
+        quarantined: outlier.quarantined,
+        original_price: input.originalPrice ?? null,
+        original_currency: input.originalCurrency ?? null,
+        exchange_rate: input.exchangeRate ?? null,
+        exchange_rate_source: input.exchangeRateSource ?? null,
+        recorded_at: lastUpdated,
+      },
+    }),
+    ...(input.floatListings
+      ? [
+          client.marketplaceFloatListing.deleteMany({
+            where: { item_id: input.itemId, platform: input.platform },
+          }),
+          client.marketplaceFloatListing.createMany({
+            data: input.floatListings.map(listing => ({
+              item_id: input.itemId,
+              platform: input.platform,
+              total_cost: listing.totalCost,
+              float_value: listing.floatValue,
+              listing_url: listing.listingUrl ?? null,
+              recorded_at: lastUpdated,
+            })),
+          }),
+        ]
+      : []),
+  ])
+
+  return marketplacePrice
+}
+
+/**
+ * Aggregate raw snapshots into one OHLC point per UTC day
+ *
+ * Days without snapshots are omitted (charts interpolate the gap).
+ *
+ * @param snapshots - Snapshots in any order
+ * @returns Points sorted chronologically
+ */
+export function aggregateDailyPoints(snapshots: PriceSnapshot[]): PriceHistoryPoint[] {
+  const sorted = [...snapshots].sort(
+    (a, b) => a.recorded_at.getTime() - b.recorded_at.getTime()
+  )
+
+  const byDay = new Map<string, PriceHistoryPoint>()
+
+  for (const snapshot of sorted) {
+    const date = snapshot.recorded_at.toISOString().slice(0, 10)
+    const point = byDay.get(date)
+
+    if (!point) {
+      byDay.set(date, {
+        date,
+        price: snapshot.price,
+        open: snapshot.price,
+        high: snapshot.price,
+        low: snapshot.price,
+        close: snapshot.price,
+        samples: 1,
+      })
+      continue
+    }
+
+    point.high = Math.max(point.high, snapshot.price)
+    point.low = Math.min(point.low, snapshot.price)
+    point.close = snapshot.price
+    point.price = snapshot.price
+    point.samples++
+  }
+
+  return Array.from(byDay.values())
+}
+
+/**
+ * Load daily price history for an item on one platform
+ *
+ * @param itemId - Item UUID
+ * @param platform - Marketplace platform
+ * @param days - Window size (30, 90 or 365)
+ * @param now - Reference time (injectable for tests)
+ */
+export async function getPriceHistory(
+  itemId: string,
+  platform: Platform,
+  days: PriceHistoryRange,
+  now: Date = new Date()
+): Promise<PriceHistory> {
+  const since = new Date(now.getTime() - days * DAY_MS)
+
+  const snapshots = await prisma.marketplacePriceHistory.findMany({
+    where: {
+      item_id: itemId,
+      platform,
+      ...NON_QUARANTINED_PRICE,
+      recorded_at: { gte: since, lte: now },
+    },
+    select: {
+      price: true,
+      recorded_at: true,
+    },
+    orderBy: { recorded_at: 'asc' },
+  })
+
+  return {
+    itemId,
+    platform,
+    dataPoints: aggregateDailyPoints(snapshots),
+    days,
+  }
+}
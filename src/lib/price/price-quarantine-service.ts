@@ -0,0 +1,248 @@
+/**
+ * Price Quarantine Service
+ * Feature 04: Multi-Marketplace Price Aggregation
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Runs IQR outlier detection (src/lib/outlier-detection.ts) on every price
+ * write made through recordMarketplacePrice():
+ * - Cross-platform: the new price vs. the item's current prices on other marketplaces
+ * - Historical: the new price vs. this platform's recent price_history snapshots
+ *
+ * Suspect prices are still stored, but flagged `quarantined` with a reason.
+ * findLowestPrice(), the price alert checker and every "cheapest price"
+ * query skip quarantined rows (NON_QUARANTINED_PRICE).
+ *
+ * Critical Gotchas:
+ * - IQR collapses to zero on flat price series (e.g. 10.00, 10.00, 10.00, 10.01),
+ *   flagging every cent of movement. A price must ALSO deviate from the median
+ *   by MIN_DEVIATION_PERCENT before it is quarantined.
+ * - Baselines exclude already-quarantined prices so one bad listing can't
+ *   shift the bounds for the next check.
+ * - Because of that, a real sustained move would stay quarantined for the whole
+ *   HISTORY_BASELINE_DAYS window. A price that agrees with the platform's last
+ *   SUSTAINED_MOVE_OBSERVATIONS snapshots (quarantined or not) is accepted.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { detectOutliersInObjects } from '../outlier-detection'
+
+/**
+ * Minimum relative distance from the baseline median to quarantine a price
+ */
+export const MIN_DEVIATION_PERCENT = 30
+
+/**
+ * Snapshot window used as the historical baseline
+ */
+export const HISTORY_BASELINE_DAYS = 14
+
+/**
+ * Consecutive snapshots within SUSTAINED_MOVE_TOLERANCE_PERCENT of a price
+ * that release it from quarantine
+ */
+export const SUSTAINED_MOVE_OBSERVATIONS = 3
+export const SUSTAINED_MOVE_TOLERANCE_PERCENT = 5
+
+/**
+ * Prisma filter for prices that passed outlier detection
+ * (MarketplacePrice and MarketplacePriceHistory)
+ */
+export const NON_QUARANTINED_PRICE = { quarantined: false } as const
+
+/**
+ * IQR multipliers: the historical baseline spans two weeks of normal market
+ * drift, so it uses the lenient 3.0 multiplier
+ */
+const CROSS_PLATFORM_MULTIPLIER = 1.5
+const HISTORICAL_MULTIPLIER = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type OutlierCheck = 'cross_platform' | 'historical'
+
+export interface OutlierEvaluation {
+  quarantined: boolean
+  check: OutlierCheck | null
+  reason: string | null
+}
+
+export interface OutlierBaselines {
+  crossPlatformPrices: number[] // Current prices on other platforms
+  historicalPrices: number[] // Recent snapshots on the same platform
+  latestPrices: number[] // Latest snapshots on the same platform, quarantined included (newest first)
+}
+
+interface BaselinePoint {
+  candidate: boolean
+  value: number
+}
+
+const NOT_QUARANTINED: OutlierEvaluation = { quarantined: false, check: null, reason: null }
+
+/**
+ * Check one price against a baseline with IQR plus the minimum deviation guard
+ * Returns the reason string when the price is an outlier, otherwise null
+ */
+function checkAgainstBaseline(
+  price: number,
+  baseline: number[],
+  multiplier: number,
+  label: string
+): string | null {
+  const points: BaselinePoint[] = [
+    { candidate: true, value: price },
+    ...baseline.map(value => ({ candidate: false, value })),
+  ]
+
+  const { outliers, stats } = detectOutliersInObjects(points, point => point.value, { multiplier })
+
+  if (!outliers.some(point => point.candidate)) {
+    return null
+  }
+
+  if (stats.median <= 0) {
+    return null
+  }
+
+  const deviationPercent = ((price - stats.median) / stats.median) * 100
+  if (Math.abs(deviationPercent) < MIN_DEVIATION_PERCENT) {
+    return null
+  }
+
+  return (
+    `${label}: $${price.toFixed(2)} is ${Math.abs(deviationPercent).toFixed(0)}% ` +
+    `${deviationPercent < 0 ? 'below' : 'above'} median $${stats.median.toFixed(2)} ` +
+    `(IQR bounds $${stats.lowerBound.toFixed(2)}–$${stats.upperBound.toFixed(2)}, ${baseline.length} samples)`
+  )
+}
+
+/**
+ * Whether the platform's latest snapshots already agree with a price
+ * (a sustained move rather than a one-off outlier)
+ */
+function isSustainedMove(price: number, latestPrices: number[]): boolean {
+  if (price <= 0 || latestPrices.length < SUSTAINED_MOVE_OBSERVATIONS) return false
+
+  return latestPrices
+    .slice(0, SUSTAINED_MOVE_OBSERVATIONS)
+    .every(value => (Math.abs(value - price) / price) * 100 <= SUSTAINED_MOVE_TOLERANCE_PERCENT)
+}
+
+/**
+ * Decide whether a price should be quarantined
+ *
+ * A sustained move is accepted before any IQR check. Cross-platform runs
+ * first: a listing far below every other marketplace is the false-alert case
+ * this guards against.
+ *
+ * @param price - Candidate price (USD, before fees)
+ * @param baselines - Comparison prices
+ */
+export function evaluatePriceOutlier(price: number, baselines: OutlierBaselines): OutlierEvaluation {
+  if (isSustainedMove(price, baselines.latestPrices)) {
+    return NOT_QUARANTINED
+  }
+
+  const crossPlatformReason = checkAgainstBaseline(
+    price,
+    baselines.crossPlatformPrices,
+    CROSS_PLATFORM_MULTIPLIER,
+    'Cross-platform outlier'
+  )
+  if (crossPlatformReason) {
+    return { quarantined: true, check: 'cross_platform', reason: crossPlatformReason }
+  }
+
+  const historicalReason = checkAgainstBaseline(
+    price,
+    baselines.historicalPrices,
+    HISTORICAL_MULTIPLIER,
+    'Historical outlier'
+  )
+  if (historicalReason) {
+    return { quarantined: true, check: 'historical', reason: historicalReason }
+  }
+
+  return NOT_QUARANTINED
+}
+
+/**
+ * Load baselines for an item/platform from the database
+ *
+ * @param itemId - Item UUID
+ * @param platform - Platform being written
+ * @param now - Reference time for the history window
+ * @param client - Prisma client
+ */
+export async function loadOutlierBaselines(
+  itemId: string,
+  platform: string,
+  now: Date,
+  client: PrismaClient = prisma
+): Promise<OutlierBaselines> {
+  const recordedAt = { gte: new Date(now.getTime() - HISTORY_BASELINE_DAYS * DAY_MS), lte: now }
+
+  const [otherPlatforms, history, latest] = await Promise.all([
+    client.marketplacePrice.findMany({
+      where: {
+        item_id: itemId,
+        platform: { not: platform },
+        ...NON_QUARANTINED_PRICE,
+      },
+      select: { price: true },
+    }),
+    client.marketplacePriceHistory.findMany({
+      where: {
+        item_id: itemId,
+        platform,
+        ...NON_QUARANTINED_PRICE,
+        recorded_at: recordedAt,
+      },
+      select: { price: true },
+    }),
+    client.marketplacePriceHistory.findMany({
+      where: { item_id: itemId, platform, recorded_at: recordedAt },
+      orderBy: { recorded_at: 'desc' },
+      take: SUSTAINED_MOVE_OBSERVATIONS,
+      select: { price: true },
+    }),
+  ])
+
+  return {
+    crossPlatformPrices: otherPlatforms.map(row => row.price),
+    historicalPrices: history.map(row => row.price),
+    latestPrices: latest.map(row => row.price),
+  }
+}
+
+/**
+ * List quarantined prices for admin review (newest first)
+ *
+ * @param limit - Maximum rows to return
+ * @param client - Prisma client
+ */
+export async function listQuarantinedPrices(limit = 100, client: PrismaClient = prisma) {
+  return client.marketplacePrice.findMany({
+    where: { quarantined: true },
+    orderBy: { quarantined_at: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      platform: true,
+      price: true,
+      total_cost: true,
+      currency: true,
+      quarantine_reason: true,
+      quarantined_at: true,
+      listing_url: true,
+      item: {
+        select: {
+          id: true,
+          name: true,
+          display_name: true,
+        },
+      },
+    },
+  })
+}
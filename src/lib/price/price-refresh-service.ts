@@ -0,0 +1,343 @@
+/**
+ * Scheduled Price Refresh Service
+ * Feature 04: Multi-Marketplace Price Aggregation
+ * BDD Reference: features/04-price-aggregation.feature
+ *   - Scenario: "Display data freshness indicator"
+ *
+ * Drives the /api/cron/refresh-prices job:
+ * 1. Build a refresh queue of items ordered by demand (inventory holdings,
+ *    active price alerts, loadout usage)
+ * 2. For each provider, continue from its persisted PriceRefreshCursor and
+ *    refresh chunks sized to the provider's remaining rate limit budget
+ * 3. Stop before the Vercel timeout and save the cursor so the next run resumes
+ * 4. Report per-platform freshness against PLATFORM_FRESHNESS_SLA_MINUTES
+ *
+ * Critical Gotchas:
+ * - Each provider keeps its own cursor: Steam (20 req/min) falls behind
+ *   CSFloat (60 req/min) without holding it back
+ * - A chunk never exceeds the provider's remaining budget, otherwise the
+ *   provider would silently skip the tail of the chunk and the cursor would
+ *   move past unpriced items
+ * - A marketplace 429 can still cut a chunk short; the cursor then only
+ *   advances past the last item actually priced
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { PLATFORM_NAMES, type Platform, type PriceProvider } from '../../types/price'
+import { syncProviderPrices, type PlatformSyncResult, type PriceSyncItem } from './price-sync-service'
+import { createPriceProviderRegistry, type PriceProviderRegistry } from './providers/registry'
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Maximum age of a price before it breaches the platform's freshness SLA
+ * Slower (more rate limited) marketplaces get a longer window
+ */
+export const PLATFORM_FRESHNESS_SLA_MINUTES: Record<Platform, number> = {
+  steam: 360,
+  csfloat: 60,
+  csmoney: 120,
+  tradeit: 120,
+  buff163: 240,
+  dmarket: 60,
+}
+
+/**
+ * Share of prices that must be within the SLA for a platform to pass
+ */
+export const FRESHNESS_TARGET_PERCENT = 95
+
+/**
+ * Weight of each demand signal when ordering the refresh queue
+ * Alerts weigh most: a stale price there means a missed notification
+ */
+export const DEMAND_WEIGHTS = {
+  alerts: 5,
+  loadouts: 2,
+  holdings: 1,
+} as const
+
+const DEFAULT_CHUNK_SIZE = 25
+
+export interface DemandCounts {
+  holdings: number // Inventory items matched to this item
+  alerts: number // Active price alerts on this item
+  loadouts: number // Loadout slots using this item
+}
+
+export interface RefreshQueueItem extends PriceSyncItem {
+  demandScore: number
+}
+
+export type RefreshStopReason = 'complete' | 'budget' | 'deadline'
+
+export interface PlatformRefreshResult extends PlatformSyncResult {
+  startPosition: number
+  endPosition: number
+  queueLength: number
+  cycleCompleted: boolean
+  stoppedBy: RefreshStopReason
+}
+
+export interface PlatformFreshness {
+  platform: Platform
+  slaMinutes: number
+  totalPrices: number
+  withinSla: number
+  freshPercent: number
+  oldestUpdate: Date | null
+  meetsSla: boolean
+}
+
+export interface PriceRefreshOptions {
+  registry?: PriceProviderRegistry
+  client?: PrismaClient
+  deadline?: number // Epoch ms; no new chunk starts after this
+  chunkSize?: number
+  now?: () => number
+}
+
+/**
+ * Weighted demand score for an item
+ */
+export function calculateDemandScore(counts: DemandCounts): number {
+  return (
+    counts.alerts * DEMAND_WEIGHTS.alerts +
+    counts.loadouts * DEMAND_WEIGHTS.loadouts +
+    counts.holdings * DEMAND_WEIGHTS.holdings
+  )
+}
+
+/**
+ * Order items by demand (highest first)
+ * Ties break on item id so the queue is stable between runs
+ */
+export function orderRefreshQueue(
+  items: Array<PriceSyncItem & { counts: DemandCounts }>
+): RefreshQueueItem[] {
+  return items
+    .map(item => ({
+      id: item.id,
+      name: item.name,
+      demandScore: calculateDemandScore(item.counts),
+    }))
+    .sort((a, b) => b.demandScore - a.demandScore || a.id.localeCompare(b.id))
+}
+
+/**
+ * Load the demand-ordered refresh queue
+ *
+ * Includes every item with demand or an existing marketplace price.
+ */
+export async function buildRefreshQueue(client: PrismaClient = prisma): Promise<RefreshQueueItem[]> {
+  const items = await client.item.findMany({
+    where: {
+      OR: [
+        { inventory_items: { some: {} } },
+        { price_alerts: { some: { is_active: true } } },
+        { loadout_weapon_skins: { some: {} } },
+        { marketplace_prices: { some: {} } },
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      _count: {
+        select: {
+          inventory_items: true,
+          price_alerts: { where: { is_active: true } },
+          loadout_weapon_skins: true,
+        },
+      },
+    },
+  })
+
+  return orderRefreshQueue(
+    items.map(item => ({
+      id: item.id,
+      name: item.name,
+      counts: {
+        holdings: item._count.inventory_items,
+        alerts: item._count.price_alerts,
+        loadouts: item._count.loadout_weapon_skins,
+      },
+    }))
+  )
+}
+
+/**
+ * Refresh one provider from its saved cursor until the queue wraps, the
+ * provider's budget runs out or the deadline passes
+ */
+async function refreshProvider(
+  provider: PriceProvider,
+  queue: RefreshQueueItem[],
+  client: PrismaClient,
+  chunkSize: number,
+  deadline: number,
+  now: () => number
+): Promise<PlatformRefreshResult> {
+  const cursor = await client.priceRefreshCursor.findUnique({
+    where: { platform: provider.platform },
+  })
+
+  // Queue may have shrunk since the last run
+  const startPosition = cursor && cursor.position < queue.length ? cursor.position : 0
+  let position = startPosition
+  let stoppedBy: RefreshStopReason = 'complete'
+
+  const result: PlatformRefreshResult = {
+    platform: provider.platform,
+    requested: 0,
+    priced: 0,
+    failed: 0,
+    startPosition,
+    endPosition: startPosition,
+    queueLength: queue.length,
+    cycleCompleted: false,
+    stoppedBy,
+  }
+
+  while (position < queue.length) {
+    if (now() >= deadline) {
+      stoppedBy = 'deadline'
+      break
+    }
+
+    const capacity = provider.remainingItemCapacity?.() ?? chunkSize
+    if (capacity <= 0) {
+      stoppedBy = 'budget'
+      break
+    }
+
+    const chunk = queue.slice(position, position + Math.min(chunkSize, capacity))
+    const chunkResult = await syncProviderPrices(provider, chunk, client)
+
+    result.requested += chunkResult.requested
+    result.priced += chunkResult.priced
+    result.failed += chunkResult.failed
+
+    if (chunkResult.rateLimited) {
+      position += chunkResult.lastPricedIndex + 1
+      stoppedBy = 'budget'
+      break
+    }
+    position += chunk.length
+  }
+
+  result.cycleCompleted = queue.length > 0 && position >= queue.length
+  result.endPosition = result.cycleCompleted ? 0 : position
+  result.stoppedBy = stoppedBy
+
+  const runAt = new Date(now())
+  await client.priceRefreshCursor.upsert({
+    where: { platform: provider.platform },
+    update: {
+      position: result.endPosition,
+      last_run_at: runAt,
+      ...(result.cycleCompleted && {
+        cycle: { increment: 1 },
+        cycle_started_at: runAt,
+      }),
+    },
+    create: {
+      platform: provider.platform,
+      position: result.endPosition,
+      cycle: result.cycleCompleted ? 1 : 0,
+      cycle_started_at: runAt,
+      last_run_at: runAt,
+    },
+  })
+
+  return result
+}
+
+/**
+ * Run one pass of the scheduled price refresh
+ *
+ * Providers run one after another against the same queue. Each stops on its
+ * own budget, so only the deadline is shared.
+ *
+ * @param options - Registry, client, deadline and chunk size (all optional)
+ */
+export async function runPriceRefresh(
+  options: PriceRefreshOptions = {}
+): Promise<PlatformRefreshResult[]> {
+  const client = options.client ?? prisma
+  const registry = options.registry ?? createPriceProviderRegistry()
+  const now = options.now ?? Date.now
+  const deadline = options.deadline ?? Number.POSITIVE_INFINITY
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE)
+
+  const queue = await buildRefreshQueue(client)
+  console.log(`[PriceRefresh] Queue contains ${queue.length} items`)
+
+  const results: PlatformRefreshResult[] = []
+
+  for (const provider of registry.getAll()) {
+    const result = await refreshProvider(provider, queue, client, chunkSize, deadline, now)
+    console.log(
+      `[PriceRefresh] ${result.platform}: ${result.startPosition} → ${result.endPosition}/${result.queueLength} (${result.stoppedBy})`
+    )
+    results.push(result)
+  }
+
+  return results
+}
+
+/**
+ * Build the freshness summary for one platform
+ */
+export function summarizeFreshness(
+  platform: Platform,
+  totalPrices: number,
+  withinSla: number,
+  oldestUpdate: Date | null
+): PlatformFreshness {
+  const freshPercent = totalPrices > 0 ? Math.round((withinSla / totalPrices) * 1000) / 10 : 100
+
+  return {
+    platform,
+    slaMinutes: PLATFORM_FRESHNESS_SLA_MINUTES[platform],
+    totalPrices,
+    withinSla,
+    freshPercent,
+    oldestUpdate,
+    meetsSla: freshPercent >= FRESHNESS_TARGET_PERCENT,
+  }
+}
+
+/**
+ * Per-platform freshness of stored marketplace prices
+ *
+ * @param client - Prisma client
+ * @param now - Reference time (injectable for tests)
+ */
+export async function getPlatformFreshness(
+  client: PrismaClient = prisma,
+  now: Date = new Date()
+): Promise<PlatformFreshness[]> {
+  const totals = await client.marketplacePrice.groupBy({
+    by: ['platform'],
+    _count: { _all: true },
+    _min: { last_updated: true },
+  })
+  const totalsByPlatform = new Map(totals.map(row => [row.platform, row]))
+
+  return Promise.all(
+    (Object.keys(PLATFORM_NAMES) as Platform[]).map(async platform => {
+      const total = totalsByPlatform.get(platform)
+      if (!total) {
+        return summarizeFreshness(platform, 0, 0, null)
+      }
+
+      const slaCutoff = new Date(now.getTime() - PLATFORM_FRESHNESS_SLA_MINUTES[platform] * MINUTE_MS)
+      const withinSla = await client.marketplacePrice.count({
+        where: { platform, last_updated: { gte: slaCutoff } },
+      })
+
+      return summarizeFreshness(platform, total._count._all, withinSla, total._min.last_updated)
+    })
+  )
+}
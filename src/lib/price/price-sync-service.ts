@@ -0,0 +1,121 @@
+/**
+ * Price Sync Service
+ * Feature 04: Multi-Marketplace Price Aggregation
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Pulls prices for a set of items from every registered PriceProvider and
+ * stores them in MarketplacePrice (plus a price_history snapshot) through
+ * recordMarketplacePrice().
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import type { Platform, PriceProvider } from '../../types/price'
+import { recordMarketplacePrice } from './price-history-service'
+import type { PriceProviderRegistry } from './providers/registry'
+
+export interface PriceSyncItem {
+  id: string // Item UUID
+  name: string // Steam market_hash_name
+}
+
+export interface PlatformSyncResult {
+  platform: Platform
+  requested: number
+  priced: number
+  failed: number
+}
+
+export interface ProviderSyncResult extends PlatformSyncResult {
+  rateLimited: boolean // Provider stopped early; items after lastPricedIndex may be unfetched
+  lastPricedIndex: number // Index in `items` of the last item stored (-1 if none)
+}
+
+/**
+ * Fetch and store prices for items from a single provider
+ *
+ * @param provider - Marketplace provider to query
+ * @param items - Items to price
+ * @param client - Prisma client (scripts pass their own instance)
+ */
+export async function syncProviderPrices(
+  provider: PriceProvider,
+  items: PriceSyncItem[],
+  client: PrismaClient = prisma
+): Promise<ProviderSyncResult> {
+  const itemIdByName = new Map(items.map(item => [item.name, item.id]))
+  const indexByName = new Map(items.map((item, index) => [item.name, index]))
+  const names = Array.from(itemIdByName.keys())
+  const result: ProviderSyncResult = {
+    platform: provider.platform,
+    requested: names.length,
+    priced: 0,
+    failed: 0,
+    rateLimited: false,
+    lastPricedIndex: -1,
+  }
+
+  const prices = await provider.getBulkPrices(names)
+  result.rateLimited = provider.lastBulkFetchRateLimited?.() ?? false
+
+  for (const [name, priceData] of prices) {
+    const itemId = itemIdByName.get(name)
+    if (!itemId) continue
+
+    try {
+      await recordMarketplacePrice(
+        {
+          itemId,
+          platform: priceData.platform,
+          price: priceData.price,
+          totalCost: priceData.totalCost,
+          currency: priceData.currency,
+          sellerFeePercent: priceData.fees.seller,
+          buyerFeePercent: priceData.fees.buyer,
+          quantityAvailable: priceData.availableQuantity ?? null,
+          listingUrl: priceData.listingUrl ?? null,
+          floatValue: priceData.floatValue ?? null,
+          floatListings: priceData.floatListings,
+          lastUpdated: priceData.lastUpdated,
+          originalPrice: priceData.conversion?.originalPrice,
+          originalCurrency: priceData.conversion?.originalCurrency,
+          exchangeRate: priceData.conversion?.exchangeRate,
+          exchangeRateSource: priceData.conversion?.rateSource,
+        },
+        client
+      )
+      result.priced++
+      result.lastPricedIndex = Math.max(result.lastPricedIndex, indexByName.get(name)!)
+    } catch (error) {
+      console.error(`[PriceSync] Failed to store ${provider.platform} price for ${name}:`, error)
+      result.failed++
+    }
+  }
+
+  console.log(`[PriceSync] ${provider.platform}: ${result.priced}/${result.requested} items priced`)
+  return result
+}
+
+/**
+ * Fetch and store prices for items from all providers in the registry
+ *
+ * Providers run one after another; each stops on its own rate limit, so a
+ * throttled marketplace never blocks the others.
+ *
+ * @param items - Items to price
+ * @param registry - Providers to query
+ * @param client - Prisma client (scripts pass their own instance)
+ */
+export async function syncMarketplacePrices(
+  items: PriceSyncItem[],
+  registry: PriceProviderRegistry,
+  client: PrismaClient = prisma
+): Promise<PlatformSyncResult[]> {
+  const results: PlatformSyncResult[] = []
+
+  for (const provider of registry.getAll()) {
+    results.push(await syncProviderPrices(provider, items, client))
+  }
+
+  return results
+}
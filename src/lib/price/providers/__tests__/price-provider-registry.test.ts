@@ -0,0 +1,265 @@
+/**
+ * Price Provider Registry Tests
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Critical Gotchas Applied:
+ * - Track rate limits per provider (one budget per marketplace)
+ * - Buff163 quotes CNY - must be normalized to USD before storage
+ * - Providers needing API keys stay disabled until configured
+ *
+ * Test Strategy:
+ * - FixturePriceProvider backed by __tests__/fixtures/marketplace-listings.json
+ * - Injected clock for deterministic rate limit windows
+ * - Injected fetch for HTTP adapters (no network)
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals'
+import fixtures from './fixtures/marketplace-listings.json'
+import { CurrencyConversionService } from '../../../currency-conversion'
+import { loadPriceProviderConfig, DEFAULT_PRICE_PROVIDER_CONFIG } from '../config'
+import { FixturePriceProvider, type PriceFixture } from '../mock-provider'
+import { SlidingWindowRateLimiter } from '../rate-limiter'
+import { createPriceProviderRegistry, PriceProviderRegistry } from '../registry'
+import { DMarketPriceProvider } from '../dmarket-provider'
+import { CSFloatPriceProvider } from '../csfloat-provider'
+
+describe('Price Providers', () => {
+  let clock: number
+  const now = () => clock
+
+  beforeEach(() => {
+    clock = new Date('2025-11-01T00:00:00Z').getTime()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('SlidingWindowRateLimiter', () => {
+    it('should allow requests up to the limit within the window', () => {
+      const limiter = new SlidingWindowRateLimiter(2, 60000, now)
+
+      expect(limiter.tryAcquire()).toBe(true)
+      expect(limiter.tryAcquire()).toBe(true)
+      expect(limiter.tryAcquire()).toBe(false)
+      expect(limiter.remaining()).toBe(0)
+    })
+
+    it('should free budget once the window has passed', () => {
+      const limiter = new SlidingWindowRateLimiter(1, 60000, now)
+
+      expect(limiter.tryAcquire()).toBe(true)
+      clock += 60001
+      expect(limiter.tryAcquire()).toBe(true)
+    })
+  })
+
+  describe('loadPriceProviderConfig', () => {
+    it('should disable providers that need an API key when none is set', () => {
+      const config = loadPriceProviderConfig({})
+
+      expect(config.steam.enabled).toBe(true)
+      expect(config.csfloat.enabled).toBe(false)
+      expect(config.buff163.enabled).toBe(false)
+    })
+
+    it('should enable only listed providers from PRICE_PROVIDERS', () => {
+      const config = loadPriceProviderConfig({
+        PRICE_PROVIDERS: 'steam, csfloat',
+        CSFLOAT_API_KEY: 'test-key',
+      })
+
+      expect(config.steam.enabled).toBe(true)
+      expect(config.csfloat.enabled).toBe(true)
+      expect(config.csfloat.apiKey).toBe('test-key')
+      expect(config.dmarket.enabled).toBe(false)
+    })
+
+    it('should apply per-provider rate limit overrides', () => {
+      const config = loadPriceProviderConfig({ PRICE_PROVIDER_STEAM_RPM: '5' })
+
+      expect(config.steam.requestsPerMinute).toBe(5)
+      expect(config.dmarket.requestsPerMinute).toBe(DEFAULT_PRICE_PROVIDER_CONFIG.dmarket.requestsPerMinute)
+    })
+  })
+
+  describe('FixturePriceProvider', () => {
+    it('should apply platform fees to USD prices', async () => {
+      const provider = new FixturePriceProvider(
+        { ...DEFAULT_PRICE_PROVIDER_CONFIG.csfloat },
+        fixtures.csfloat as PriceFixture,
+        { now }
+      )
+
+      const price = await provider.getPrice('AK-47 | Redline (Field-Tested)')
+
+      expect(price).not.toBeNull()
+      expect(price!.platform).toBe('csfloat')
+      expect(price!.price).toBe(8.5)
+      expect(price!.fees.total).toBe(2)
+      expect(price!.totalCost).toBe(8.67)
+      expect(price!.availableQuantity).toBe(12)
+      expect(price!.listingUrl).toBe('https://csfloat.com/item/100')
+    })
+
+    it('should normalize CNY prices to USD through CurrencyConversionService', async () => {
+      const fetchedAt = new Date(clock)
+      const currencyService = new CurrencyConversionService({
+        sources: [{ name: 'stub', fetchRates: async () => ({ rates: { CNY: 0.14 }, source: 'stub', fetchedAt }) }],
+        store: null,
+      })
+      const provider = new FixturePriceProvider(
+        { ...DEFAULT_PRICE_PROVIDER_CONFIG.buff163 },
+        fixtures.buff163 as PriceFixture,
+        { now, currencyService }
+      )
+
+      const price = await provider.getPrice('AK-47 | Redline (Field-Tested)')
+
+      expect(price!.currency).toBe('USD')
+      expect(price!.price).toBe(8.4)
+      expect(price!.conversion).toEqual({
+        originalPrice: 60,
+        originalCurrency: 'CNY',
+        exchangeRate: 0.14,
+        rateSource: 'stub',
+        rateTimestamp: fetchedAt,
+      })
+    })
+
+    it('should skip zero prices and unknown items', async () => {
+      const provider = new FixturePriceProvider(
+        { ...DEFAULT_PRICE_PROVIDER_CONFIG.buff163 },
+        fixtures.buff163 as PriceFixture,
+        { now }
+      )
+
+      const prices = await provider.getBulkPrices([
+        'Glock-18 | Fade (Factory New)',
+        'Not A Real Item',
+      ])
+
+      expect(prices.size).toBe(0)
+    })
+
+    it('should batch requests by configured batch size', async () => {
+      const provider = new FixturePriceProvider(
+        { ...DEFAULT_PRICE_PROVIDER_CONFIG.csfloat, batchSize: 2 },
+        fixtures.csfloat as PriceFixture,
+        { now }
+      )
+
+      await provider.getBulkPrices(['a', 'b', 'c'])
+
+      expect(provider.requestedBatches).toEqual([['a', 'b'], ['c']])
+    })
+
+    it('should stop fetching once the rate limit budget is spent', async () => {
+      const provider = new FixturePriceProvider(
+        { ...DEFAULT_PRICE_PROVIDER_CONFIG.csfloat, requestsPerMinute: 1 },
+        fixtures.csfloat as PriceFixture,
+        { now }
+      )
+
+      const prices = await provider.getBulkPrices([
+        'AK-47 | Redline (Field-Tested)',
+        'AWP | Asiimov (Field-Tested)',
+      ])
+
+      expect(prices.size).toBe(1)
+      expect(provider.requestedBatches).toHaveLength(1)
+      expect(provider.remainingBudget()).toBe(0)
+    })
+  })
+
+  describe('HTTP adapters', () => {
+    it('should parse DMarket cent prices from injected fetch', async () => {
+      const fetchFn = jest.fn(async () =>
+        new Response(
+          JSON.stringify({
+            objects: [
+              { itemId: 'x1', title: 'AWP | Asiimov (Field-Tested)', price: { USD: '9150' }, amount: 2 },
+            ],
+          }),
+          { status: 200 }
+        )
+      ) as unknown as typeof fetch
+
+      const provider = new DMarketPriceProvider({ ...DEFAULT_PRICE_PROVIDER_CONFIG.dmarket }, { fetchFn, now })
+      const price = await provider.getPrice('AWP | Asiimov (Field-Tested)')
+
+      expect(fetchFn).toHaveBeenCalledTimes(1)
+      expect(price!.price).toBe(91.5)
+      expect(price!.totalCost).toBe(96.08)
+    })
+
+    it('should keep every CSFloat listing with a float for float-range alerts', async () => {
+      const fetchFn = jest.fn(async () =>
+        new Response(
+          JSON.stringify([
+            { id: '1', price: 850, item: { market_hash_name: 'AK-47 | Redline (Field-Tested)', float_value: 0.37 } },
+            { id: '2', price: 900, item: { market_hash_name: 'AK-47 | Redline (Field-Tested)' } },
+            { id: '3', price: 1000, item: { market_hash_name: 'AK-47 | Redline (Field-Tested)', float_value: 0.151 } },
+          ]),
+          { status: 200 }
+        )
+      ) as unknown as typeof fetch
+
+      const provider = new CSFloatPriceProvider(
+        { ...DEFAULT_PRICE_PROVIDER_CONFIG.csfloat, apiKey: 'k' },
+        { fetchFn, now }
+      )
+      const price = await provider.getPrice('AK-47 | Redline (Field-Tested)')
+
+      expect(price!.price).toBe(8.5)
+      expect(price!.floatValue).toBe(0.37)
+      expect(price!.floatListings).toEqual([
+        { totalCost: 8.67, floatValue: 0.37, listingUrl: 'https://csfloat.com/item/1' },
+        { totalCost: 10.2, floatValue: 0.151, listingUrl: 'https://csfloat.com/item/3' },
+      ])
+    })
+
+    it('should return null when the marketplace responds with an error', async () => {
+      const fetchFn = jest.fn(async () => new Response('', { status: 500 })) as unknown as typeof fetch
+
+      const provider = new DMarketPriceProvider({ ...DEFAULT_PRICE_PROVIDER_CONFIG.dmarket }, { fetchFn, now })
+
+      expect(await provider.getPrice('AWP | Asiimov (Field-Tested)')).toBeNull()
+    })
+  })
+
+  describe('createPriceProviderRegistry', () => {
+    it('should create one adapter per enabled platform', () => {
+      const registry = createPriceProviderRegistry(loadPriceProviderConfig({}))
+
+      expect(registry.platforms().sort()).toEqual(['csmoney', 'dmarket', 'steam', 'tradeit'])
+      expect(registry.get('steam')?.name).toBe('Steam Market')
+    })
+
+    it('should use injected factories (mock adapters)', () => {
+      const config = loadPriceProviderConfig({ PRICE_PROVIDERS: 'csfloat', CSFLOAT_API_KEY: 'k' })
+      const registry = createPriceProviderRegistry(config, { now }, {
+        csfloat: (c, deps) => new FixturePriceProvider(c, fixtures.csfloat as PriceFixture, deps),
+      })
+
+      expect(registry.platforms()).toEqual(['csfloat'])
+      expect(registry.get('csfloat')).toBeInstanceOf(FixturePriceProvider)
+    })
+
+    it('should replace a provider registered for the same platform', () => {
+      const registry = new PriceProviderRegistry()
+      const first = new FixturePriceProvider({ ...DEFAULT_PRICE_PROVIDER_CONFIG.steam }, {})
+      const second = new FixturePriceProvider({ ...DEFAULT_PRICE_PROVIDER_CONFIG.steam }, {})
+
+      registry.register(first)
+      registry.register(second)
+
+      expect(registry.getAll()).toEqual([second])
+    })
+  })
+})
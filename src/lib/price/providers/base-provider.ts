@@ -0,0 +1,271 @@
+/**
+ * Base Marketplace Price Provider
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Shared behaviour for all marketplace adapters:
+ * - Per-provider rate limiting (SlidingWindowRateLimiter)
+ * - Batching item names to the provider's bulk size
+ * - Currency normalization to USD via CurrencyConversionService
+ * - Fee application from provider config
+ *
+ * Adapters only implement fetchListings() - the marketplace-specific HTTP
+ * request and response parsing. Item identifiers are Steam market_hash_name
+ * strings, which every marketplace accepts as a lookup key.
+ */
+
+import {
+  calculateTotalCost,
+  PLATFORM_NAMES,
+  type Platform,
+  type PriceData,
+  type PriceFees,
+  type PriceProvider,
+} from '../../../types/price'
+import { convert, CurrencyConversionService, type ConversionResult } from '../../currency-conversion'
+import { SlidingWindowRateLimiter } from './rate-limiter'
+import type {
+  PriceProviderConfig,
+  PriceProviderDependencies,
+  ProviderListing,
+} from './types'
+
+const DEFAULT_TIMEOUT_MS = 10000
+
+/**
+ * Error raised when a marketplace request fails
+ */
+export class PriceProviderError extends Error {
+  constructor(
+    message: string,
+    public code: 'HTTP_ERROR' | 'RATE_LIMITED' | 'INVALID_RESPONSE' | 'MISSING_API_KEY',
+    public platform: Platform,
+    public status?: number
+  ) {
+    super(message)
+    this.name = 'PriceProviderError'
+  }
+}
+
+export abstract class BasePriceProvider implements PriceProvider {
+  readonly name: string
+  readonly platform: Platform
+
+  protected readonly config: PriceProviderConfig
+  protected readonly fetchFn: typeof fetch
+  private readonly rateLimiter: SlidingWindowRateLimiter
+  private bulkFetchRateLimited = false
+  private readonly currencyService: CurrencyConversionService
+  private readonly now: () => number
+
+  constructor(config: PriceProviderConfig, deps: PriceProviderDependencies = {}) {
+    this.config = config
+    this.platform = config.platform
+    this.name = PLATFORM_NAMES[config.platform]
+    this.fetchFn = deps.fetchFn ?? fetch
+    this.now = deps.now ?? Date.now
+    this.currencyService = deps.currencyService ?? new CurrencyConversionService()
+    this.rateLimiter = new SlidingWindowRateLimiter(config.requestsPerMinute, 60 * 1000, this.now)
+  }
+
+  /**
+   * Fetch raw cheapest listings for a batch of item names
+   * Items the marketplace doesn't list are simply omitted
+   */
+  protected abstract fetchListings(marketHashNames: string[]): Promise<ProviderListing[]>
+
+  /**
+   * Fetch price for a single item
+   * Returns null if item not found or the rate limit budget is spent
+   */
+  async getPrice(marketHashName: string): Promise<PriceData | null> {
+    const prices = await this.getBulkPrices([marketHashName])
+    return prices.get(marketHashName) ?? null
+  }
+
+  /**
+   * Fetch prices for multiple items in batches of config.batchSize
+   * Stops early (returning partial results) once the rate limit budget is spent
+   */
+  async getBulkPrices(marketHashNames: string[]): Promise<Map<string, PriceData>> {
+    const prices = new Map<string, PriceData>()
+    const batchSize = Math.max(1, this.config.batchSize)
+    this.bulkFetchRateLimited = false
+
+    for (let i = 0; i < marketHashNames.length; i += batchSize) {
+      const batch = marketHashNames.slice(i, i + batchSize)
+
+      let listings: ProviderListing[]
+      try {
+        listings = await this.fetchListings(batch)
+      } catch (error) {
+        if (error instanceof PriceProviderError && error.code === 'RATE_LIMITED') {
+          console.log(`[PriceProvider:${this.platform}] Rate limit reached, stopping bulk fetch`)
+          this.bulkFetchRateLimited = true
+          break
+        }
+        console.error(`[PriceProvider:${this.platform}] Failed to fetch batch:`, error)
+        continue
+      }
+
+      for (const listing of listings) {
+        const priceData = await this.toPriceData(listing)
+        if (priceData) {
+          prices.set(listing.marketHashName, priceData)
+        }
+      }
+    }
+
+    return prices
+  }
+
+  /**
+   * Whether the last getBulkPrices() call stopped early on a rate limit
+   */
+  lastBulkFetchRateLimited(): boolean {
+    return this.bulkFetchRateLimited
+  }
+
+  /**
+   * Requests left in the current rate limit window
+   */
+  remainingBudget(): number {
+    return this.rateLimiter.remaining()
+  }
+
+  /**
+   * Items that can still be fetched in the current rate limit window
+   */
+  remainingItemCapacity(): number {
+    return this.rateLimiter.remaining() * Math.max(1, this.config.batchSize)
+  }
+
+  /**
+   * Fee breakdown from provider config
+   */
+  protected get fees(): PriceFees {
+    return {
+      seller: this.config.sellerFeePercent,
+      buyer: this.config.buyerFeePercent,
+      total: this.config.sellerFeePercent + this.config.buyerFeePercent,
+    }
+  }
+
+  /**
+   * Normalize a raw listing to USD PriceData
+   * Returns null for zero/negative prices or unconvertible currencies
+   */
+  protected async toPriceData(listing: ProviderListing): Promise<PriceData | null> {
+    if (!(listing.price > 0)) {
+      return null
+    }
+
+    let conversion: ConversionResult
+    try {
+      conversion = await this.currencyService.convertToUSD(listing.price, listing.currency)
+    } catch (error) {
+      console.error(`[PriceProvider:${this.platform}] Currency conversion failed:`, error)
+      return null
+    }
+
+    const priceUSD = conversion.convertedAmount
+    const fees = this.fees
+
+    return {
+      platform: this.platform,
+      price: priceUSD,
+      currency: 'USD',
+      fees,
+      totalCost: calculateTotalCost(priceUSD, fees),
+      availableQuantity: listing.quantity,
+      listingUrl: listing.listingUrl,
+      ...(listing.floatValue !== undefined && { floatValue: listing.floatValue }),
+      ...(listing.floatListings && {
+        floatListings: listing.floatListings
+          .filter(floatListing => floatListing.price > 0)
+          .map(floatListing => ({
+            totalCost: calculateTotalCost(
+              convert(floatListing.price, listing.currency, conversion.exchangeRate),
+              fees
+            ),
+            floatValue: floatListing.floatValue,
+            listingUrl: floatListing.listingUrl,
+          })),
+      }),
+      lastUpdated: new Date(this.now()),
+      ...(listing.currency !== 'USD' && {
+        conversion: {
+          originalPrice: listing.price,
+          originalCurrency: listing.currency,
+          exchangeRate: conversion.exchangeRate,
+          rateSource: conversion.rateSource,
+          rateTimestamp: conversion.rateTimestamp,
+        },
+      }),
+    }
+  }
+
+  /**
+   * Consume one request from the per-provider budget
+   * Every outgoing HTTP request must call this first
+   *
+   * @throws PriceProviderError (RATE_LIMITED) when the budget is spent
+   */
+  protected acquireRequestSlot(): void {
+    if (!this.rateLimiter.tryAcquire()) {
+      throw new PriceProviderError(
+        `Rate limit budget of ${this.config.requestsPerMinute}/min exhausted`,
+        'RATE_LIMITED',
+        this.platform
+      )
+    }
+  }
+
+  /**
+   * GET a JSON document with rate limiting, timeout and error mapping
+   */
+  protected async fetchJson<T>(url: string, headers: Record<string, string> = {}): Promise<T> {
+    this.acquireRequestSlot()
+
+    const response = await this.fetchFn(url, {
+      headers: {
+        Accept: 'application/json',
+        ...headers,
+      },
+      signal: AbortSignal.timeout(this.config.requestTimeoutMs ?? DEFAULT_TIMEOUT_MS),
+    })
+
+    if (response.status === 429) {
+      throw new PriceProviderError('Rate limited by marketplace', 'RATE_LIMITED', this.platform, 429)
+    }
+
+    if (!response.ok) {
+      throw new PriceProviderError(
+        `Marketplace request failed with status ${response.status}`,
+        'HTTP_ERROR',
+        this.platform,
+        response.status
+      )
+    }
+
+    try {
+      return (await response.json()) as T
+    } catch {
+      throw new PriceProviderError('Failed to parse marketplace response', 'INVALID_RESPONSE', this.platform)
+    }
+  }
+
+  /**
+   * API key from config, throwing if the provider requires one
+   */
+  protected requireApiKey(): string {
+    if (!this.config.apiKey) {
+      throw new PriceProviderError(
+        `Missing API key (${this.config.apiKeyEnv ?? 'not configured'})`,
+        'MISSING_API_KEY',
+        this.platform
+      )
+    }
+    return this.config.apiKey
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Buff163 Price Provider
+ *
+ * API: https://buff.163.com/api/market/goods
+ * - Search endpoint, one query per item name
+ * - Requires session cookie for reliable access
+ * - Prices returned as CNY strings ("123.5") - converted to USD by base provider
+ */
+
+import { BasePriceProvider } from './base-provider'
+import type { ProviderListing } from './types'
+
+interface Buff163Goods {
+  id: number
+  market_hash_name: string
+  sell_min_price: string // CNY
+  sell_num: number
+}
+
+interface Buff163GoodsResponse {
+  code: string
+  data?: {
+    items: Buff163Goods[]
+  }
+}
+
+export class Buff163PriceProvider extends BasePriceProvider {
+  protected async fetchListings(marketHashNames: string[]): Promise<ProviderListing[]> {
+    const listings: ProviderListing[] = []
+    const headers: Record<string, string> = this.config.apiKey
+      ? { Cookie: `session=${this.config.apiKey}` }
+      : {}
+
+    for (const marketHashName of marketHashNames) {
+      const url = new URL('/api/market/goods', this.config.baseUrl ?? 'https://buff.163.com')
+      url.searchParams.set('game', 'csgo')
+      url.searchParams.set('search', marketHashName)
+
+      const data = await this.fetchJson<Buff163GoodsResponse>(url.toString(), headers)
+
+      // Search is fuzzy - only accept the exact market_hash_name
+      const goods = data.data?.items.find(g => g.market_hash_name === marketHashName)
+
+      if (goods) {
+        listings.push({
+          marketHashName,
+          price: parseFloat(goods.sell_min_price),
+          currency: this.config.currency,
+          quantity: goods.sell_num,
+          listingUrl: `https://buff.163.com/goods/${goods.id}`,
+        })
+      }
+    }
+
+    return listings
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Price Provider Configuration
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *   - Tier 1 marketplaces (MVP): Steam, CSFloat, CS.MONEY, TradeIt.gg, Buff163, DMarket
+ *
+ * Defaults per marketplace plus environment overrides:
+ * - PRICE_PROVIDERS: comma-separated platforms to enable (e.g. "steam,csfloat,buff163")
+ * - PRICE_PROVIDER_<PLATFORM>_RPM: requests per minute override (e.g. PRICE_PROVIDER_CSFLOAT_RPM=30)
+ * - <apiKeyEnv>: API key/session for providers that need one
+ *
+ * Providers that require an API key stay disabled until the key is set.
+ */
+
+import type { Platform } from '../../../types/price'
+import type { PriceProviderConfig } from './types'
+
+export const DEFAULT_PRICE_PROVIDER_CONFIG: Record<Platform, PriceProviderConfig> = {
+  steam: {
+    platform: 'steam',
+    enabled: true,
+    requestsPerMinute: 20, // ~20 requests/minute before 429s
+    batchSize: 1,
+    currency: 'USD',
+    sellerFeePercent: 13,
+    buyerFeePercent: 2,
+  },
+  csfloat: {
+    platform: 'csfloat',
+    enabled: true,
+    requestsPerMinute: 60,
+    batchSize: 1,
+    currency: 'USD',
+    sellerFeePercent: 2,
+    buyerFeePercent: 0,
+    apiKeyEnv: 'CSFLOAT_API_KEY',
+  },
+  csmoney: {
+    platform: 'csmoney',
+    enabled: true,
+    requestsPerMinute: 30,
+    batchSize: 1,
+    currency: 'USD',
+    sellerFeePercent: 7,
+    buyerFeePercent: 0,
+  },
+  tradeit: {
+    platform: 'tradeit',
+    enabled: true,
+    requestsPerMinute: 30,
+    batchSize: 1,
+    currency: 'USD',
+    sellerFeePercent: 2,
+    buyerFeePercent: 0,
+  },
+  buff163: {
+    platform: 'buff163',
+    enabled: true,
+    requestsPerMinute: 20,
+    batchSize: 1,
+    currency: 'CNY', // Converted to USD via CurrencyConversionService
+    sellerFeePercent: 2.5,
+    buyerFeePercent: 0,
+    apiKeyEnv: 'BUFF163_SESSION',
+  },
+  dmarket: {
+    platform: 'dmarket',
+    enabled: true,
+    requestsPerMinute: 60,
+    batchSize: 1,
+    currency: 'USD',
+    sellerFeePercent: 5, // 2-10% item-dependent, 5% typical
+    buyerFeePercent: 0,
+  },
+}
+
+/**
+ * Providers that cannot run without an API key
+ */
+const API_KEY_REQUIRED: Platform[] = ['csfloat', 'buff163']
+
+/**
+ * Resolve provider config from defaults + environment
+ *
+ * @param env - Environment variables (defaults to process.env)
+ * @returns Config for every platform, with enabled flag resolved
+ */
+export function loadPriceProviderConfig(
+  env: Record<string, string | undefined> = process.env
+): Record<Platform, PriceProviderConfig> {
+  const enabledList = env.PRICE_PROVIDERS
+    ? env.PRICE_PROVIDERS.split(',').map(p => p.trim().toLowerCase()).filter(Boolean)
+    : null
+
+  const resolved = {} as Record<Platform, PriceProviderConfig>
+
+  for (const [platform, defaults] of Object.entries(DEFAULT_PRICE_PROVIDER_CONFIG) as [Platform, PriceProviderConfig][]) {
+    const apiKey = defaults.apiKeyEnv ? env[defaults.apiKeyEnv] : undefined
+    const rpmOverride = Number(env[`PRICE_PROVIDER_${platform.toUpperCase()}_RPM`])
+
+    let enabled = enabledList ? enabledList.includes(platform) : defaults.enabled
+    if (API_KEY_REQUIRED.includes(platform) && !apiKey) {
+      enabled = false
+    }
+
+    resolved[platform] = {
+      ...defaults,
+      enabled,
+      apiKey,
+      requestsPerMinute: rpmOverride > 0 ? rpmOverride : defaults.requestsPerMinute,
+    }
+  }
+
+  return resolved
+}
@@ -0,0 +1,71 @@
+/**
+ * CSFloat Price Provider
+ *
+ * API: https://csfloat.com/api/v1/listings
+ * - Requires API key (Authorization header)
+ * - One market_hash_name per request, sorted by lowest price
+ * - Prices returned in USD cents
+ * - Listings include the item's wear float (used by float-range price alerts)
+ *
+ * One page of the cheapest listings is fetched per item: the first is the
+ * item's price, and every listing with a float is kept for float-range alerts,
+ * whose match is often not the cheapest listing.
+ */
+
+import { BasePriceProvider } from './base-provider'
+import type { ProviderListing } from './types'
+
+interface CSFloatListing {
+  id: string
+  price: number // USD cents
+  item: {
+    market_hash_name: string
+    float_value?: number
+  }
+}
+
+type CSFloatListingsResponse = CSFloatListing[] | { data: CSFloatListing[] }
+
+const LISTINGS_PAGE_SIZE = 50 // CSFloat's maximum page size
+
+function listingUrl(listing: CSFloatListing): string {
+  return `https://csfloat.com/item/${listing.id}`
+}
+
+export class CSFloatPriceProvider extends BasePriceProvider {
+  protected async fetchListings(marketHashNames: string[]): Promise<ProviderListing[]> {
+    const apiKey = this.requireApiKey()
+    const listings: ProviderListing[] = []
+
+    for (const marketHashName of marketHashNames) {
+      const url = new URL('/api/v1/listings', this.config.baseUrl ?? 'https://csfloat.com')
+      url.searchParams.set('market_hash_name', marketHashName)
+      url.searchParams.set('sort_by', 'lowest_price')
+      url.searchParams.set('type', 'buy_now')
+      url.searchParams.set('limit', String(LISTINGS_PAGE_SIZE))
+
+      const data = await this.fetchJson<CSFloatListingsResponse>(url.toString(), {
+        Authorization: apiKey,
+      })
+      const page = Array.isArray(data) ? data : data.data ?? []
+      const [cheapest] = page
+
+      if (cheapest) {
+        listings.push({
+          marketHashName,
+          price: cheapest.price / 100,
+          currency: this.config.currency,
+          listingUrl: listingUrl(cheapest),
+          floatValue: cheapest.item.float_value,
+          floatListings: page.flatMap(listing =>
+            listing.item.float_value === undefined
+              ? []
+              : [{ price: listing.price / 100, floatValue: listing.item.float_value, listingUrl: listingUrl(listing) }]
+          ),
+        })
+      }
+    }
+
+    return listings
+  }
+}
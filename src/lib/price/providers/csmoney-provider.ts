@@ -0,0 +1,54 @@
+/**
+ * CS.MONEY Price Provider
+ *
+ * API: https://cs.money/1.0/market/sell-orders
+ * - One name filter per request, sorted by price ascending
+ * - Prices returned in USD (computed price already includes bot markup)
+ */
+
+import { BasePriceProvider } from './base-provider'
+import type { ProviderListing } from './types'
+
+interface CSMoneySellOrder {
+  id: number
+  pricing: {
+    computed: number // USD
+  }
+  asset: {
+    names: {
+      full: string
+    }
+  }
+}
+
+interface CSMoneySellOrdersResponse {
+  items?: CSMoneySellOrder[]
+}
+
+export class CSMoneyPriceProvider extends BasePriceProvider {
+  protected async fetchListings(marketHashNames: string[]): Promise<ProviderListing[]> {
+    const listings: ProviderListing[] = []
+
+    for (const marketHashName of marketHashNames) {
+      const url = new URL('/1.0/market/sell-orders', this.config.baseUrl ?? 'https://cs.money')
+      url.searchParams.set('name', marketHashName)
+      url.searchParams.set('sort', 'price')
+      url.searchParams.set('order', 'asc')
+      url.searchParams.set('limit', '1')
+
+      const data = await this.fetchJson<CSMoneySellOrdersResponse>(url.toString())
+      const cheapest = data.items?.find(order => order.asset.names.full === marketHashName)
+
+      if (cheapest) {
+        listings.push({
+          marketHashName,
+          price: cheapest.pricing.computed,
+          currency: this.config.currency,
+          listingUrl: `https://cs.money/market/buy/?search=${encodeURIComponent(marketHashName)}`,
+        })
+      }
+    }
+
+    return listings
+  }
+}
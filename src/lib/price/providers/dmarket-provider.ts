@@ -0,0 +1,54 @@
+/**
+ * DMarket Price Provider
+ *
+ * API: https://api.dmarket.com/exchange/v1/market/items
+ * - Title filter, one item per request, ordered by price ascending
+ * - Prices returned as USD cent strings ({ USD: "1234" })
+ */
+
+import { BasePriceProvider } from './base-provider'
+import type { ProviderListing } from './types'
+
+interface DMarketObject {
+  itemId: string
+  title: string
+  price: {
+    USD: string // cents
+  }
+  amount?: number
+}
+
+interface DMarketItemsResponse {
+  objects?: DMarketObject[]
+}
+
+export class DMarketPriceProvider extends BasePriceProvider {
+  protected async fetchListings(marketHashNames: string[]): Promise<ProviderListing[]> {
+    const listings: ProviderListing[] = []
+
+    for (const marketHashName of marketHashNames) {
+      const url = new URL('/exchange/v1/market/items', this.config.baseUrl ?? 'https://api.dmarket.com')
+      url.searchParams.set('gameId', 'a8db') // CS2
+      url.searchParams.set('title', marketHashName)
+      url.searchParams.set('currency', 'USD')
+      url.searchParams.set('orderBy', 'price')
+      url.searchParams.set('orderDir', 'asc')
+      url.searchParams.set('limit', '1')
+
+      const data = await this.fetchJson<DMarketItemsResponse>(url.toString())
+      const cheapest = data.objects?.find(obj => obj.title === marketHashName)
+
+      if (cheapest) {
+        listings.push({
+          marketHashName,
+          price: parseInt(cheapest.price.USD, 10) / 100,
+          currency: this.config.currency,
+          quantity: cheapest.amount,
+          listingUrl: `https://dmarket.com/ingame-items/item-list/csgo-skins?title=${encodeURIComponent(marketHashName)}`,
+        })
+      }
+    }
+
+    return listings
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Fixture-Backed Mock Price Provider
+ *
+ * Serves listings from an in-memory fixture instead of a marketplace API.
+ * Goes through the same rate limiting, currency conversion and fee logic
+ * as the real adapters, so tests exercise the full normalization path.
+ *
+ * Fixture format (see __tests__/fixtures/marketplace-listings.json):
+ * {
+ *   "AK-47 | Redline (Field-Tested)": { "price": 62.5, "currency": "CNY", "quantity": 40 }
+ * }
+ */
+
+import type { Currency } from '../../../types/price'
+import { BasePriceProvider } from './base-provider'
+import type { PriceProviderConfig, PriceProviderDependencies, ProviderListing } from './types'
+
+export interface FixtureListing {
+  price: number
+  currency?: Currency
+  quantity?: number
+  listingUrl?: string
+}
+
+export type PriceFixture = Record<string, FixtureListing>
+
+export class FixturePriceProvider extends BasePriceProvider {
+  private readonly fixture: PriceFixture
+
+  /** Item name batches requested so far (for asserting batching in tests) */
+  readonly requestedBatches: string[][] = []
+
+  constructor(config: PriceProviderConfig, fixture: PriceFixture, deps: PriceProviderDependencies = {}) {
+    super(config, deps)
+    this.fixture = fixture
+  }
+
+  protected async fetchListings(marketHashNames: string[]): Promise<ProviderListing[]> {
+    this.acquireRequestSlot()
+    this.requestedBatches.push(marketHashNames)
+
+    return marketHashNames
+      .filter(name => this.fixture[name])
+      .map(name => ({
+        marketHashName: name,
+        price: this.fixture[name].price,
+        currency: this.fixture[name].currency ?? this.config.currency,
+        quantity: this.fixture[name].quantity,
+        listingUrl: this.fixture[name].listingUrl,
+      }))
+  }
+}
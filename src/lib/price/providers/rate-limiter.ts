@@ -0,0 +1,55 @@
+/**
+ * Sliding Window Rate Limiter
+ *
+ * Tracks request timestamps per provider so each marketplace gets its own
+ * budget (Steam ~20/min, CSFloat ~60/min, ...).
+ *
+ * Gotcha Applied: Multi-Marketplace API Rate Limiting (Thundering Herd)
+ * - Track rate limits per provider, never share one global counter
+ * - Skip work when the budget is spent instead of queueing retries
+ */
+
+export class SlidingWindowRateLimiter {
+  private readonly timestamps: number[] = []
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number = 60 * 1000,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Record a request if the budget allows it
+   *
+   * @returns true if the request may proceed
+   */
+  tryAcquire(): boolean {
+    this.prune()
+
+    if (this.timestamps.length >= this.limit) {
+      return false
+    }
+
+    this.timestamps.push(this.now())
+    return true
+  }
+
+  /**
+   * Requests still available in the current window
+   */
+  remaining(): number {
+    this.prune()
+    return Math.max(0, this.limit - this.timestamps.length)
+  }
+
+  /**
+   * Remove timestamps that fell out of the window
+   */
+  private prune(): void {
+    const windowStart = this.now() - this.windowMs
+
+    while (this.timestamps.length > 0 && this.timestamps[0] <= windowStart) {
+      this.timestamps.shift()
+    }
+  }
+}
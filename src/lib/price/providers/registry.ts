@@ -0,0 +1,98 @@
+/**
+ * Price Provider Registry
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Builds one adapter per enabled platform from provider config and exposes
+ * them by platform. All adapters share a single CurrencyConversionService so
+ * exchange rates are fetched once per sync.
+ *
+ * Usage:
+ *   const registry = createPriceProviderRegistry()
+ *   for (const provider of registry.getAll()) {
+ *     const prices = await provider.getBulkPrices(names)
+ *   }
+ */
+
+import type { Platform, PriceProvider } from '../../../types/price'
+import { CurrencyConversionService } from '../../currency-conversion'
+import { Buff163PriceProvider } from './buff163-provider'
+import { loadPriceProviderConfig } from './config'
+import { CSFloatPriceProvider } from './csfloat-provider'
+import { CSMoneyPriceProvider } from './csmoney-provider'
+import { DMarketPriceProvider } from './dmarket-provider'
+import { SteamMarketPriceProvider } from './steam-market-provider'
+import { TradeItPriceProvider } from './tradeit-provider'
+import type { PriceProviderConfig, PriceProviderDependencies } from './types'
+
+export type PriceProviderFactory = (
+  config: PriceProviderConfig,
+  deps: PriceProviderDependencies
+) => PriceProvider
+
+/**
+ * Adapter constructor for each platform
+ */
+export const PRICE_PROVIDER_FACTORIES: Record<Platform, PriceProviderFactory> = {
+  steam: (config, deps) => new SteamMarketPriceProvider(config, deps),
+  csfloat: (config, deps) => new CSFloatPriceProvider(config, deps),
+  csmoney: (config, deps) => new CSMoneyPriceProvider(config, deps),
+  tradeit: (config, deps) => new TradeItPriceProvider(config, deps),
+  buff163: (config, deps) => new Buff163PriceProvider(config, deps),
+  dmarket: (config, deps) => new DMarketPriceProvider(config, deps),
+}
+
+export class PriceProviderRegistry {
+  private readonly providers = new Map<Platform, PriceProvider>()
+
+  /**
+   * Register (or replace) the provider for its platform
+   */
+  register(provider: PriceProvider): void {
+    this.providers.set(provider.platform, provider)
+  }
+
+  get(platform: Platform): PriceProvider | undefined {
+    return this.providers.get(platform)
+  }
+
+  has(platform: Platform): boolean {
+    return this.providers.has(platform)
+  }
+
+  getAll(): PriceProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  platforms(): Platform[] {
+    return Array.from(this.providers.keys())
+  }
+}
+
+/**
+ * Create a registry with an adapter for every enabled platform
+ *
+ * @param config - Provider config (defaults to loadPriceProviderConfig())
+ * @param deps - Shared dependencies (fetch, currency service)
+ * @param factories - Adapter factories (override to inject mocks)
+ */
+export function createPriceProviderRegistry(
+  config: Record<Platform, PriceProviderConfig> = loadPriceProviderConfig(),
+  deps: PriceProviderDependencies = {},
+  factories: Partial<Record<Platform, PriceProviderFactory>> = PRICE_PROVIDER_FACTORIES
+): PriceProviderRegistry {
+  const registry = new PriceProviderRegistry()
+  const sharedDeps: PriceProviderDependencies = {
+    ...deps,
+    currencyService: deps.currencyService ?? new CurrencyConversionService(),
+  }
+
+  for (const providerConfig of Object.values(config)) {
+    const factory = factories[providerConfig.platform]
+    if (!providerConfig.enabled || !factory) continue
+
+    registry.register(factory(providerConfig, sharedDeps))
+  }
+
+  return registry
+}
@@ -0,0 +1,47 @@
+/**
+ * Steam Community Market Price Provider
+ *
+ * API: https://steamcommunity.com/market/priceoverview/
+ * - One item per request (no bulk endpoint)
+ * - ~20 requests/minute before 429 errors
+ * - Prices returned as formatted strings ("$1.23")
+ */
+
+import { parsePrice } from '../steam-market-price-service'
+import { BasePriceProvider } from './base-provider'
+import type { ProviderListing } from './types'
+
+interface SteamPriceOverviewResponse {
+  success: boolean
+  lowest_price?: string
+  median_price?: string
+  volume?: string
+}
+
+export class SteamMarketPriceProvider extends BasePriceProvider {
+  protected async fetchListings(marketHashNames: string[]): Promise<ProviderListing[]> {
+    const listings: ProviderListing[] = []
+
+    for (const marketHashName of marketHashNames) {
+      const url = new URL('/market/priceoverview/', this.config.baseUrl ?? 'https://steamcommunity.com')
+      url.searchParams.set('appid', '730')
+      url.searchParams.set('currency', '1') // USD
+      url.searchParams.set('market_hash_name', marketHashName)
+
+      const data = await this.fetchJson<SteamPriceOverviewResponse>(url.toString())
+      const price = data.success ? parsePrice(data.lowest_price) : null
+
+      if (price !== null) {
+        listings.push({
+          marketHashName,
+          price,
+          currency: this.config.currency,
+          quantity: data.volume ? parseInt(data.volume.replace(/,/g, ''), 10) : undefined,
+          listingUrl: `https://steamcommunity.com/market/listings/730/${encodeURIComponent(marketHashName)}`,
+        })
+      }
+    }
+
+    return listings
+  }
+}
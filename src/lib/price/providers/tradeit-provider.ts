@@ -0,0 +1,49 @@
+/**
+ * TradeIt.gg Price Provider
+ *
+ * API: https://tradeit.gg/api/v2/inventory/data
+ * - Search endpoint, one query per item name
+ * - Prices returned in USD cents
+ */
+
+import { BasePriceProvider } from './base-provider'
+import type { ProviderListing } from './types'
+
+interface TradeItItem {
+  name: string
+  price: number // USD cents
+  currentStock?: number
+}
+
+interface TradeItInventoryResponse {
+  items?: TradeItItem[]
+}
+
+export class TradeItPriceProvider extends BasePriceProvider {
+  protected async fetchListings(marketHashNames: string[]): Promise<ProviderListing[]> {
+    const listings: ProviderListing[] = []
+
+    for (const marketHashName of marketHashNames) {
+      const url = new URL('/api/v2/inventory/data', this.config.baseUrl ?? 'https://tradeit.gg')
+      url.searchParams.set('gameId', '730')
+      url.searchParams.set('searchValue', marketHashName)
+      url.searchParams.set('sortType', 'Price - low')
+      url.searchParams.set('limit', '1')
+
+      const data = await this.fetchJson<TradeItInventoryResponse>(url.toString())
+      const item = data.items?.find(i => i.name === marketHashName)
+
+      if (item) {
+        listings.push({
+          marketHashName,
+          price: item.price / 100,
+          currency: this.config.currency,
+          quantity: item.currentStock,
+          listingUrl: `https://tradeit.gg/csgo/store?search=${encodeURIComponent(marketHashName)}`,
+        })
+      }
+    }
+
+    return listings
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Price Provider Type Definitions
+ *
+ * BDD Reference: features/04-price-aggregation.feature
+ *
+ * Shared types for marketplace price adapters:
+ * - Provider configuration (rate limits, currency, fees)
+ * - Raw listings returned by marketplace APIs before normalization
+ * - Dependencies injectable for tests (fetch, currency service)
+ */
+
+import type { Currency, Platform } from '../../../types/price'
+import type { CurrencyConversionService } from '../../currency-conversion'
+
+export interface PriceProviderConfig {
+  platform: Platform
+  enabled: boolean
+  requestsPerMinute: number // Per-provider budget, enforced by SlidingWindowRateLimiter
+  batchSize: number // Item names per request (1 for APIs without bulk lookup)
+  currency: Currency // Currency the marketplace quotes prices in
+  sellerFeePercent: number
+  buyerFeePercent: number
+  baseUrl?: string // Override for staging/test servers
+  apiKey?: string // Resolved from apiKeyEnv when loading config
+  apiKeyEnv?: string // Environment variable holding the API key
+  requestTimeoutMs?: number
+}
+
+/**
+ * Cheapest listing for one item as returned by a marketplace API
+ * Prices are in the marketplace currency, NOT yet converted to USD
+ */
+export interface ProviderListing {
+  marketHashName: string
+  price: number
+  currency: Currency
+  quantity?: number
+  listingUrl?: string
+  floatValue?: number // Wear float of the cheapest listing, when the marketplace exposes it
+  floatListings?: Array<{ price: number; floatValue: number; listingUrl?: string }> // Same currency as price
+}
+
+export interface PriceProviderDependencies {
+  fetchFn?: typeof fetch
+  currencyService?: CurrencyConversionService
+  now?: () => number
+}
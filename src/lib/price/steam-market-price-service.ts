@@ -20,6 +20,8 @@
  */
 
 import { prisma } from '@/lib/prisma'
+import { recordMarketplacePrice } from './price-history-service'
+import { NON_QUARANTINED_PRICE } from './price-quarantine-service'
 
 export interface SteamMarketPrice {
   lowestPrice: number | null
@@ -59,7 +61,7 @@ function recordRequest(): void {
 /**
  * Parse price string like "$1.23" or "€1,23" to number
  */
-function parsePrice(priceStr: string | undefined): number | null {
+export function parsePrice(priceStr: string | undefined): number | null {
   if (!priceStr) return null
 
   // Remove currency symbols and convert to number
@@ -134,6 +136,7 @@ export async function getItemPrice(marketHashName: string): Promise<number | nul
           name: marketHashName,
         },
         platform: 'steam',
+        ...NON_QUARANTINED_PRICE,
       },
       orderBy: {
         last_updated: 'desc',
@@ -161,28 +164,13 @@ export async function getItemPrice(marketHashName: string): Promise<number | nul
       })
 
       if (item) {
-        await prisma.marketplacePrice.upsert({
-          where: {
-            item_id_platform: {
-              item_id: item.id,
-              platform: 'steam',
-            },
-          },
-          update: {
-            price: price.lowestPrice,
-            total_cost: price.lowestPrice * 1.15, // Steam takes 15%
-            last_updated: new Date(),
-          },
-          create: {
-            item_id: item.id,
-            platform: 'steam',
-            price: price.lowestPrice,
-            currency: 'USD',
-            seller_fee_percent: 13,
-            buyer_fee_percent: 2,
-            total_cost: price.lowestPrice * 1.15,
-            last_updated: new Date(),
-          },
+        await recordMarketplacePrice({
+          itemId: item.id,
+          platform: 'steam',
+          price: price.lowestPrice,
+          totalCost: price.lowestPrice * 1.15, // Steam takes 15%
+          sellerFeePercent: 13,
+          buyerFeePercent: 2,
         })
       }
     } catch (error) {
@@ -211,6 +199,7 @@ export async function getBulkPrices(marketHashNames: string[]): Promise<Map<stri
           name: { in: marketHashNames },
         },
         platform: 'steam',
+        ...NON_QUARANTINED_PRICE,
         // Only use prices updated in last 15 minutes
         last_updated: {
           gte: new Date(Date.now() - CACHE_DURATION_MS),
@@ -250,28 +239,13 @@ export async function getBulkPrices(marketHashNames: string[]): Promise<Map<stri
         })
 
         if (item) {
-          await prisma.marketplacePrice.upsert({
-            where: {
-              item_id_platform: {
-                item_id: item.id,
-                platform: 'steam',
-              },
-            },
-            update: {
-              price: price.lowestPrice,
-              total_cost: price.lowestPrice * 1.15,
-              last_updated: new Date(),
-            },
-            create: {
-              item_id: item.id,
-              platform: 'steam',
-              price: price.lowestPrice,
-              currency: 'USD',
-              seller_fee_percent: 13,
-              buyer_fee_percent: 2,
-              total_cost: price.lowestPrice * 1.15,
-              last_updated: new Date(),
-            },
+          await recordMarketplacePrice({
+            itemId: item.id,
+            platform: 'steam',
+            price: price.lowestPrice,
+            totalCost: price.lowestPrice * 1.15,
+            sellerFeePercent: 13,
+            buyerFeePercent: 2,
           })
         }
       } catch (error) {
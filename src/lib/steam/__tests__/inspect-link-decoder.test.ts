@@ -0,0 +1,62 @@
+/**
+ * Inspect Link Decoder Tests
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Extract float value from Steam API response
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { decodeInspectLink, getMaskedInspectPayload } from '../inspect-link-decoder'
+
+const LINK_PREFIX = 'steam://rungame/730/76561202255233023/+csgo_econ_action_preview%20'
+
+// AK-47 | Case Hardened #661, float 0.15234, name tag, two stickers (slots 0 and 2), one keychain; masked with key 0xE3
+const MASKED_PAYLOAD =
+  'E3EB98F363435D6276E2FBE4C3CFCBE5D3E7DB671D0C13E0A376E6B9EBA18F9686C3A18C9A81EAEBE1F3E1FEE3E3E3DC81E7EBE3F3E241E2E4EBE3F3C7B35A837BE5E615250221'
+
+// Same item with key 0x00 (no XOR mask)
+const UNKEYED_PAYLOAD =
+  '00087B1080A0BE8195011807202C280630043884FEEFF0034095055A08426C756520426F796209080210021D0000003F620408001001A201070800102450B960980605F6C6E1C2'
+
+describe('Inspect Link Decoder', () => {
+  it('should decode paint wear, seed and index from a masked link', () => {
+    const data = decodeInspectLink(LINK_PREFIX + MASKED_PAYLOAD)
+
+    expect(data).toMatchObject({
+      defIndex: 7,
+      paintIndex: 44,
+      paintSeed: 661,
+      rarity: 6,
+      quality: 4,
+      customName: 'Blue Boy',
+    })
+    expect(data?.paintWear).toBeCloseTo(0.15234, 6)
+    expect(decodeInspectLink(`${LINK_PREFIX.replace('%20', ' ')}${UNKEYED_PAYLOAD}`)).toEqual(data)
+  })
+
+  it('should decode sticker and keychain slots in slot order', () => {
+    const data = decodeInspectLink(LINK_PREFIX + MASKED_PAYLOAD)
+
+    expect(data?.stickers).toEqual([
+      { slot: 0, stickerId: 1, wear: null, pattern: null },
+      { slot: 2, stickerId: 2, wear: 0.5, pattern: null },
+    ])
+    expect(data?.keychains).toEqual([{ slot: 0, stickerId: 36, wear: null, pattern: 12345 }])
+  })
+
+  it('should return null for unmasked links', () => {
+    const link = `${LINK_PREFIX}S76561198000000000A123456789D9876543210`
+
+    expect(getMaskedInspectPayload(link)).toBeNull()
+    expect(decodeInspectLink(link)).toBeNull()
+    expect(decodeInspectLink(`${LINK_PREFIX}S%owner_steamid%A%assetid%D123`)).toBeNull()
+  })
+
+  it('should reject payloads with a bad checksum', () => {
+    const tampered = MASKED_PAYLOAD.slice(0, -2) + '00'
+
+    expect(decodeInspectLink(LINK_PREFIX + tampered)).toBeNull()
+  })
+})
@@ -334,6 +334,32 @@ describe('SteamInventoryClient', () => {
       expect(result.items[0].stickerDescriptions![0]).toBe('Natus Vincere (Holo) | Katowice 2014')
     })
 
+    it('should extract the sticker_info HTML block', async () => {
+      // Arrange
+      const steamId = '76561198000000001'
+      const stickerInfo =
+        '<br><div id="sticker_info" name="sticker_info" title="Sticker"><center><img width=64 height=48 src="a.png"><img width=64 height=48 src="b.png"><br>Sticker: Natus Vincere (Holo) | Katowice 2014, Titan (Holo) | Katowice 2014</center></div>'
+      testServer.mockInventoryResponse(steamId, {
+        success: 1,
+        total_inventory_count: 1,
+        assets: [{ assetid: '123', classid: '456', instanceid: '0', amount: '1' }],
+        descriptions: [
+          {
+            classid: '456',
+            instanceid: '0',
+            market_hash_name: 'AK-47 | Redline (Field-Tested)',
+            descriptions: [{ value: stickerInfo }],
+          },
+        ],
+      })
+
+      // Act
+      const result = await client.fetchInventory(steamId)
+
+      // Assert
+      expect(result.items[0].stickerDescriptions).toEqual([stickerInfo])
+    })
+
     it('should extract custom name tags', async () => {
       // Arrange
       const steamId = '76561198000000001'
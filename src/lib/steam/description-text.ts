@@ -0,0 +1,28 @@
+/**
+ * Steam Description Text
+ *
+ * Inventory descriptions for applied stickers and charms are HTML blocks:
+ *   '<br><div id="sticker_info" ...><img ...><br>Sticker: A | Event, B | Event</center></div>'
+ *
+ * Used by parseStickerDescriptions() and parseCharmDescriptions().
+ */
+
+/**
+ * Strip HTML, decode entities and return the text after a label
+ *
+ * @param value - Description value from the Steam inventory API
+ * @param label - Leading label, e.g. "Sticker:" or "Charm:"
+ * @returns Text after the label, or the whole text when the label is missing
+ */
+export function getDescriptionLabelText(value: string, label: string): string {
+  const text = value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  const labelIndex = text.indexOf(label)
+  return labelIndex >= 0 ? text.slice(labelIndex + label.length).trim() : text
+}
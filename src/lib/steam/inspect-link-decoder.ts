@@ -0,0 +1,251 @@
+/**
+ * Inspect Link Decoder
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Extract float value from Steam API response
+ *   - Display applied stickers on item
+ *
+ * Decodes masked CS2 inspect links offline. A masked link carries the whole
+ * item preview (CEconItemPreviewDataBlock protobuf) in its hex payload:
+ *
+ *   steam://rungame/730/76561202255233023/+csgo_econ_action_preview%20{HEX}
+ *
+ *   HEX bytes = [key, ...protobuf, ...checksum] with every byte XORed by key
+ *   checksum  = big-endian uint32 of (crc32(0x00 + protobuf) & 0xffff) ^ (protobuf length × crc32)
+ *
+ * Critical Gotchas:
+ * - Unmasked links (S{steamid}A{assetid}D{id} / M...A...D...) only reference
+ *   the item; they need the game coordinator and decode to null here
+ * - paintwear is a float32 sent as its raw uint32 bits
+ * - Sticker and keychain slots are 0-based; wear is null for pristine stickers
+ * - Payloads with a bad checksum are rejected rather than partially trusted
+ */
+
+export interface InspectSticker {
+  slot: number // 0-based
+  stickerId: number // Sticker kit ID (keychain ID for keychains)
+  wear: number | null // 0 = pristine, 1 = scraped off
+  pattern: number | null // Keychain pattern seed
+}
+
+/**
+ * Item data recovered from a masked inspect link
+ */
+export interface InspectLinkData {
+  defIndex: number
+  paintIndex: number
+  paintSeed: number | null
+  paintWear: number | null
+  rarity: number | null
+  quality: number | null
+  customName: string | null
+  stickers: InspectSticker[]
+  keychains: InspectSticker[]
+}
+
+const PREVIEW_PREFIX = /csgo_econ_action_preview(?:%20|\s|\+)+/i
+const MASKED_PAYLOAD = /^(?:[0-9A-F]{2})+$/i
+const CHECKSUM_LENGTH = 4
+
+// CEconItemPreviewDataBlock field numbers
+const FIELD_DEF_INDEX = 3
+const FIELD_PAINT_INDEX = 4
+const FIELD_RARITY = 5
+const FIELD_QUALITY = 6
+const FIELD_PAINT_WEAR = 7
+const FIELD_PAINT_SEED = 8
+const FIELD_CUSTOM_NAME = 11
+const FIELD_STICKERS = 12
+const FIELD_KEYCHAINS = 20
+
+// CEconItemPreviewDataBlock.Sticker field numbers
+const STICKER_FIELD_SLOT = 1
+const STICKER_FIELD_ID = 2
+const STICKER_FIELD_WEAR = 3
+const STICKER_FIELD_PATTERN = 10
+
+const WIRE_VARINT = 0
+const WIRE_FIXED64 = 1
+const WIRE_LENGTH_DELIMITED = 2
+const WIRE_FIXED32 = 5
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Minimal protobuf reader for the preview message
+ */
+class ProtoReader {
+  private offset = 0
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length
+  }
+
+  varint(): number {
+    let value = 0
+    let multiplier = 1
+    for (let i = 0; i < 10; i++) {
+      const byte = this.byte()
+      value += (byte & 0x7f) * multiplier
+      if ((byte & 0x80) === 0) return value
+      multiplier *= 128
+    }
+    throw new Error('Varint too long')
+  }
+
+  float32(): number {
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.take(4), 4)
+    return view.getFloat32(0, true)
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.varint()
+    const start = this.take(length)
+    return this.bytes.subarray(start, start + length)
+  }
+
+  skip(wireType: number): void {
+    if (wireType === WIRE_VARINT) this.varint()
+    else if (wireType === WIRE_FIXED64) this.take(8)
+    else if (wireType === WIRE_LENGTH_DELIMITED) this.bytesField()
+    else if (wireType === WIRE_FIXED32) this.take(4)
+    else throw new Error(`Unsupported wire type ${wireType}`)
+  }
+
+  private byte(): number {
+    return this.bytes[this.take(1)]
+  }
+
+  private take(length: number): number {
+    const start = this.offset
+    if (start + length > this.bytes.length) throw new Error('Unexpected end of payload')
+    this.offset += length
+    return start
+  }
+}
+
+function float32FromBits(bits: number): number {
+  const view = new DataView(new ArrayBuffer(4))
+  view.setUint32(0, bits, true)
+  return view.getFloat32(0, true)
+}
+
+function decodeSticker(bytes: Uint8Array): InspectSticker {
+  const reader = new ProtoReader(bytes)
+  const sticker: InspectSticker = { slot: 0, stickerId: 0, wear: null, pattern: null }
+
+  while (!reader.done) {
+    const tag = reader.varint()
+    const field = Math.floor(tag / 8)
+    const wireType = tag % 8
+
+    if (field === STICKER_FIELD_SLOT && wireType === WIRE_VARINT) sticker.slot = reader.varint()
+    else if (field === STICKER_FIELD_ID && wireType === WIRE_VARINT) sticker.stickerId = reader.varint()
+    else if (field === STICKER_FIELD_WEAR && wireType === WIRE_FIXED32) sticker.wear = reader.float32()
+    else if (field === STICKER_FIELD_PATTERN && wireType === WIRE_VARINT) sticker.pattern = reader.varint()
+    else reader.skip(wireType)
+  }
+
+  return sticker
+}
+
+function decodePreview(bytes: Uint8Array): InspectLinkData {
+  const reader = new ProtoReader(bytes)
+  const data: InspectLinkData = {
+    defIndex: 0,
+    paintIndex: 0,
+    paintSeed: null,
+    paintWear: null,
+    rarity: null,
+    quality: null,
+    customName: null,
+    stickers: [],
+    keychains: [],
+  }
+
+  while (!reader.done) {
+    const tag = reader.varint()
+    const field = Math.floor(tag / 8)
+    const wireType = tag % 8
+
+    if (wireType === WIRE_VARINT && field === FIELD_DEF_INDEX) data.defIndex = reader.varint()
+    else if (wireType === WIRE_VARINT && field === FIELD_PAINT_INDEX) data.paintIndex = reader.varint()
+    else if (wireType === WIRE_VARINT && field === FIELD_RARITY) data.rarity = reader.varint()
+    else if (wireType === WIRE_VARINT && field === FIELD_QUALITY) data.quality = reader.varint()
+    else if (wireType === WIRE_VARINT && field === FIELD_PAINT_WEAR) data.paintWear = float32FromBits(reader.varint())
+    else if (wireType === WIRE_VARINT && field === FIELD_PAINT_SEED) data.paintSeed = reader.varint()
+    else if (wireType === WIRE_LENGTH_DELIMITED && field === FIELD_CUSTOM_NAME)
+      data.customName = new TextDecoder().decode(reader.bytesField())
+    else if (wireType === WIRE_LENGTH_DELIMITED && field === FIELD_STICKERS)
+      data.stickers.push(decodeSticker(reader.bytesField()))
+    else if (wireType === WIRE_LENGTH_DELIMITED && field === FIELD_KEYCHAINS)
+      data.keychains.push(decodeSticker(reader.bytesField()))
+    else reader.skip(wireType)
+  }
+
+  data.stickers.sort((a, b) => a.slot - b.slot)
+  data.keychains.sort((a, b) => a.slot - b.slot)
+  return data
+}
+
+/**
+ * Hex payload of a masked inspect link, or null for unmasked links
+ */
+export function getMaskedInspectPayload(link: string): string | null {
+  const match = PREVIEW_PREFIX.exec(link)
+  if (!match) return null
+
+  const payload = link.slice(match.index + match[0].length).trim()
+  return MASKED_PAYLOAD.test(payload) && payload.length > (CHECKSUM_LENGTH + 1) * 2 ? payload : null
+}
+
+/**
+ * Decode a masked inspect link
+ *
+ * @param link - Inspect link from the "Inspect in Game..." action
+ * @returns Item data, or null for unmasked, malformed or corrupted links
+ */
+export function decodeInspectLink(link: string): InspectLinkData | null {
+  const payload = getMaskedInspectPayload(link)
+  if (!payload) return null
+
+  const bytes = Uint8Array.from(Buffer.from(payload, 'hex'))
+  const key = bytes[0]
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] ^= key
+  }
+
+  const body = bytes.subarray(0, bytes.length - CHECKSUM_LENGTH)
+  const proto = body.subarray(1)
+  const crc = crc32(body)
+  const expected = ((crc & 0xffff) ^ (proto.length * crc)) >>> 0
+  const actual = new DataView(bytes.buffer, bytes.length - CHECKSUM_LENGTH, CHECKSUM_LENGTH).getUint32(0, false)
+  if (expected !== actual) return null
+
+  try {
+    return decodePreview(proto)
+  } catch {
+    return null
+  }
+}
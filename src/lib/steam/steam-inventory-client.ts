@@ -22,6 +22,7 @@ import type {
   SteamAsset,
   SteamDescription,
 } from './types'
+import { decodeInspectLink } from './inspect-link-decoder'
 
 export class SteamInventoryClient {
   private readonly baseUrl: string
@@ -238,9 +239,10 @@ export class SteamInventoryClient {
    * Extracts:
    * - Basic info: market_hash_name, tradable, marketable
    * - Custom name tags (from fraudwarnings or name field)
-   * - Sticker descriptions (from descriptions array)
+   * - Sticker and charm descriptions (from descriptions array)
    * - Trade hold info (from cache_expiration)
-   * - Inspect link (for float extraction in separate service)
+   * - Inspect link, decoded offline when masked (float, pattern seed,
+   *   sticker wear, keychains)
    */
   private parseItem(asset: SteamAsset, description?: SteamDescription): SteamInventoryItem {
     // BDD: "should extract custom name tags"
@@ -248,22 +250,29 @@ export class SteamInventoryClient {
 
     // BDD: "should extract sticker information from descriptions"
     const stickerDescriptions = this.extractStickerDescriptions(description)
+    const charmDescriptions = this.extractCharmDescriptions(description)
 
     // BDD: "should detect trade-locked items"
     const tradeHoldUntil = this.extractTradeHoldDate(description)
 
     // BDD: "should extract float value from inspect link"
     const inspectLink = this.extractInspectLink(description)
+    const inspectData = inspectLink ? decodeInspectLink(inspectLink) : null
 
     return {
       assetId: asset.assetid,
       marketHashName: description?.market_hash_name ?? 'Unknown Item',
       customName,
       stickerDescriptions,
+      charmDescriptions,
       isTradable: description?.tradable === 1,
       isMarketable: description?.marketable === 1,
       tradeHoldUntil,
       inspectLink,
+      floatValue: inspectData?.paintWear ?? undefined,
+      patternSeed: inspectData?.paintSeed ?? undefined,
+      inspectStickers: inspectData?.stickers.length ? inspectData.stickers : undefined,
+      keychains: inspectData?.keychains.length ? inspectData.keychains : undefined,
       iconUrl: description?.icon_url,
       rarityColor: description?.name_color,
     }
@@ -302,6 +311,8 @@ export class SteamInventoryClient {
    *
    * Stickers appear in descriptions array with format:
    * { value: "Sticker: Natus Vincere (Holo) | Katowice 2014", color: "9da1a9" }
+   * or as one sticker_info HTML block listing every sticker. Raw strings are
+   * split into slots by parseStickerDescriptions() (src/lib/stickers).
    */
   private extractStickerDescriptions(description?: SteamDescription): string[] | undefined {
     if (!description?.descriptions) return undefined
@@ -311,12 +322,31 @@ export class SteamInventoryClient {
     for (const desc of description.descriptions) {
       if (desc.value.startsWith('Sticker:')) {
         stickers.push(desc.value.replace('Sticker: ', ''))
+      } else if (desc.value.includes('id="sticker_info"') && desc.value.includes('Sticker:')) {
+        stickers.push(desc.value)
       }
     }
 
     return stickers.length > 0 ? stickers : undefined
   }
 
+  /**
+   * Extract charm descriptions from item
+   *
+   * Charms appear as one keychain_info HTML block:
+   * '<div id="keychain_info" ...><img ...><br>Charm: Lil' Squirt</center></div>'
+   * Names are parsed by parseCharmDescriptions() (src/lib/charms).
+   */
+  private extractCharmDescriptions(description?: SteamDescription): string[] | undefined {
+    if (!description?.descriptions) return undefined
+
+    const charms = description.descriptions
+      .filter((desc) => desc.value.startsWith('Charm:') || desc.value.includes('id="keychain_info"'))
+      .map((desc) => desc.value)
+
+    return charms.length > 0 ? charms : undefined
+  }
+
   /**
    * Extract trade hold expiration date
    *
@@ -337,10 +367,11 @@ export class SteamInventoryClient {
   /**
    * Extract inspect link for float value extraction
    *
-   * Inspect link format:
-   * steam://rungame/730/76561202255233023/+csgo_econ_action_preview%20S%owner_steamid%A%assetid%D{floatid}
+   * Inspect link formats:
+   * - Unmasked: steam://rungame/730/76561202255233023/+csgo_econ_action_preview%20S%owner_steamid%A%assetid%D{floatid}
+   * - Masked: steam://rungame/730/76561202255233023/+csgo_econ_action_preview%20{HEX}
    *
-   * Float extraction happens in separate service (CSFloat API)
+   * Only masked links can be decoded offline (src/lib/steam/inspect-link-decoder.ts)
    */
   private extractInspectLink(description?: SteamDescription): string | undefined {
     if (!description?.actions) return undefined
@@ -11,6 +11,8 @@
  * - Pagination: 2500 items max per request
  */
 
+import type { InspectSticker } from './inspect-link-decoder'
+
 /**
  * Steam Inventory API Response
  * Endpoint: GET https://steamcommunity.com/inventory/{steamid}/730/2
@@ -144,10 +146,10 @@ export interface SteamInventoryItem {
   /** Custom name tag (if applied) */
   customName?: string
 
-  /** Float value (extracted from inspect link via CSFloat API) */
+  /** Float value (decoded from masked inspect links) */
   floatValue?: number
 
-  /** Pattern seed */
+  /** Pattern seed (decoded from masked inspect links) */
   patternSeed?: number
 
   /** Wear condition */
@@ -159,6 +161,9 @@ export interface SteamInventoryItem {
   /** Sticker descriptions (raw text from Steam API) */
   stickerDescriptions?: string[]
 
+  /** Charm descriptions (raw text from Steam API) */
+  charmDescriptions?: string[]
+
   /** Trade status */
   isTradable: boolean
 
@@ -171,6 +176,12 @@ export interface SteamInventoryItem {
   /** Inspect link (for float extraction) */
   inspectLink?: string
 
+  /** Sticker slots with wear (decoded from masked inspect links) */
+  inspectStickers?: InspectSticker[]
+
+  /** Keychain (charm) slots (decoded from masked inspect links) */
+  keychains?: InspectSticker[]
+
   /** Icon URL */
   iconUrl?: string
 
@@ -0,0 +1,70 @@
+/**
+ * Sticker Parser Tests
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Display applied stickers on item
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  applyInspectStickers,
+  normalizeStoredStickers,
+  parseStickerDescriptions,
+  toStickerItemName,
+  toStickerName,
+} from '../sticker-parser'
+
+describe('Sticker Parser', () => {
+  it('should parse one sticker per description into 1-based slots', () => {
+    expect(
+      parseStickerDescriptions(['Natus Vincere (Holo) | Katowice 2014', 'Titan (Holo) | Katowice 2014'])
+    ).toEqual([
+      { name: 'Natus Vincere (Holo) | Katowice 2014', position: 1, wear: null },
+      { name: 'Titan (Holo) | Katowice 2014', position: 2, wear: null },
+    ])
+  })
+
+  it('should parse the sticker_info HTML block', () => {
+    const html =
+      '<br><div id="sticker_info" title="Sticker"><center><img src="a.png"><img src="b.png"><img src="c.png"><br>Sticker: Natus Vincere (Holo) | Katowice 2014, G2 Esports | Cologne 2016, Virtus.pro</center></div>'
+
+    expect(parseStickerDescriptions([html]).map((sticker) => [sticker.position, sticker.name])).toEqual([
+      [1, 'Natus Vincere (Holo) | Katowice 2014'],
+      [2, 'G2 Esports | Cologne 2016'],
+      [3, 'Virtus.pro'],
+    ])
+  })
+
+  it('should convert between sticker names and item names', () => {
+    expect(toStickerItemName('Cloud9 (Foil)')).toBe('Sticker | Cloud9 (Foil)')
+    expect(toStickerItemName('Sticker | Cloud9 (Foil)')).toBe('Sticker | Cloud9 (Foil)')
+    expect(toStickerName('Sticker | Cloud9 (Foil)')).toBe('Cloud9 (Foil)')
+  })
+
+  it('should read legacy string arrays and stored sticker objects', () => {
+    expect(normalizeStoredStickers(['Cloud9 (Foil)'])).toEqual([
+      { name: 'Cloud9 (Foil)', position: 1, wear: null, item_id: null },
+    ])
+    expect(
+      normalizeStoredStickers([{ name: 'Natus Vincere (Holo)', position: 3, wear: 0.25, item_id: 'sticker-1' }, 42])
+    ).toEqual([{ name: 'Natus Vincere (Holo)', position: 3, wear: 0.25, item_id: 'sticker-1' }])
+    expect(normalizeStoredStickers(null)).toEqual([])
+  })
+
+  it('should take slot and wear from inspect data in slot order', () => {
+    const stickers = parseStickerDescriptions(['Cloud9 (Foil), Natus Vincere (Holo)'])
+
+    expect(
+      applyInspectStickers(stickers, [
+        { slot: 3, stickerId: 2, wear: 0.5, pattern: null },
+        { slot: 0, stickerId: 1, wear: null, pattern: null },
+      ])
+    ).toEqual([
+      { name: 'Cloud9 (Foil)', position: 1, wear: 0 },
+      { name: 'Natus Vincere (Holo)', position: 4, wear: 0.5 },
+    ])
+    expect(applyInspectStickers(stickers, [])).toBe(stickers)
+  })
+})
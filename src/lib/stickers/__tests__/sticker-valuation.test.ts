@@ -0,0 +1,58 @@
+/**
+ * Sticker-Adjusted Valuation Tests
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Display applied stickers on item
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateStickerPremium,
+  resolveStickerPremiumConfig,
+  summarizeStickerValuations,
+  valueItemWithStickers,
+  type StickerPriceInfo,
+} from '../sticker-valuation'
+import type { AppliedSticker } from '../sticker-parser'
+
+const HOLO: AppliedSticker = { name: 'Natus Vincere (Holo) | Katowice 2014', position: 1, wear: null, item_id: 'navi-holo' }
+
+const PRICES = new Map<string, StickerPriceInfo>([
+  ['navi-holo', { price: 1000, rarity: 'rarity_mythical' }],
+  ['paper', { price: 10, rarity: 'rarity_rare' }],
+])
+
+describe('Sticker-Adjusted Valuation', () => {
+  it('should scale the premium by rarity, position and scrape', () => {
+    expect(calculateStickerPremium(HOLO, PRICES.get('navi-holo')).premium).toBe(100) // 1000 × 10%
+    expect(calculateStickerPremium({ ...HOLO, position: 4 }, PRICES.get('navi-holo')).premium).toBe(85)
+    expect(calculateStickerPremium({ ...HOLO, wear: 0.6 }, PRICES.get('navi-holo')).premium).toBe(10) // × 0.25 × 0.4
+    expect(calculateStickerPremium({ ...HOLO, wear: 1 }, PRICES.get('navi-holo')).premium).toBe(0)
+    expect(calculateStickerPremium(HOLO, undefined)).toMatchObject({ stickerPrice: null, premium: 0 })
+  })
+
+  it('should accept config overrides', () => {
+    const config = resolveStickerPremiumConfig({ rarityRates: { restricted: 0.2 }, positionMultipliers: [] })
+
+    expect(config.rarityRates.milspec).toBe(0.05)
+    expect(calculateStickerPremium({ ...HOLO, position: 3 }, PRICES.get('navi-holo'), config).premium).toBe(200)
+  })
+
+  it('should add sticker premiums to the base value and summarize by rarity', () => {
+    const redline = valueItemWithStickers(
+      50,
+      [HOLO, { name: 'Cloud9', position: 2, wear: null, item_id: 'paper' }, { name: 'Unknown', position: 3, wear: null, item_id: null }],
+      PRICES
+    )
+
+    // 100 + 10 × 5% × 0.95
+    expect(redline.stickerPremium).toBe(100.48)
+    expect(redline.totalValue).toBe(150.48)
+
+    const summary = summarizeStickerValuations([redline, valueItemWithStickers(20, [HOLO], PRICES)])
+    expect(summary).toMatchObject({ baseValue: 70, stickerPremium: 200.48, stickerCount: 4, pricedStickerCount: 3 })
+    expect(summary.byRarity[0]).toEqual({ rarity: 'restricted', label: 'Remarkable', count: 2, premium: 200 })
+  })
+})
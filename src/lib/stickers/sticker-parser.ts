@@ -0,0 +1,123 @@
+/**
+ * Sticker Parser
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Display applied stickers on item
+ *
+ * Turns the sticker strings Steam returns into per-slot sticker data that can
+ * be resolved to sticker `Item` rows (type="sticker").
+ *
+ * Steam formats seen in inventory descriptions:
+ * - One sticker per description: "Natus Vincere (Holo) | Katowice 2014"
+ * - All stickers in one sticker_info HTML block:
+ *   '<br><div id="sticker_info" ...><img ...><br>Sticker: A | Event, B | Event</center></div>'
+ *
+ * Critical Gotchas:
+ * - Positions are 1-based and follow Steam's order (slot 1 = first sticker)
+ * - Steam descriptions carry no sticker wear; wear is null unless it comes
+ *   from a masked inspect link (applyInspectStickers)
+ * - Item names from the ByMykel import are prefixed: "Sticker | Natus Vincere (Holo) | Katowice 2014"
+ * - Older rows store the raw string array; normalizeStoredStickers() reads both
+ */
+
+import type { InspectSticker } from '../steam/inspect-link-decoder'
+import { getDescriptionLabelText } from '../steam/description-text'
+
+export const MAX_STICKER_SLOTS = 5 // 4 on most weapons, 5 on a few
+
+const STICKER_ITEM_PREFIX = 'Sticker | '
+
+/**
+ * Sticker in a slot, before resolution against the Item table
+ */
+export interface ParsedSticker {
+  name: string // "Natus Vincere (Holo) | Katowice 2014"
+  position: number // 1-based slot
+  wear: number | null // 0 = pristine, 1 = scraped off
+}
+
+/**
+ * Sticker as stored in InventoryItem.stickers / LoadoutWeaponSkin.stickers
+ */
+export interface AppliedSticker extends ParsedSticker {
+  item_id: string | null // Sticker Item, NULL if not matched
+}
+
+/**
+ * Parse Steam sticker descriptions into positioned stickers
+ *
+ * @param descriptions - Strings from SteamInventoryClient.extractStickerDescriptions()
+ * @returns Stickers in slot order, at most MAX_STICKER_SLOTS
+ */
+export function parseStickerDescriptions(descriptions: string[]): ParsedSticker[] {
+  const names = descriptions
+    .flatMap((description) => getDescriptionLabelText(description, 'Sticker:').split(/,\s+/))
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0)
+
+  return names.slice(0, MAX_STICKER_SLOTS).map((name, index) => ({
+    name,
+    position: index + 1,
+    wear: null,
+  }))
+}
+
+/**
+ * Add slot and wear from decoded inspect data to stickers parsed from descriptions
+ *
+ * Steam lists stickers in slot order, so the n-th named sticker is the n-th
+ * occupied slot. Inspect stickers carry kit IDs but no names, so slots
+ * without a matching description are dropped.
+ *
+ * @param stickers - From parseStickerDescriptions()
+ * @param inspectStickers - From decodeInspectLink() (0-based slots)
+ */
+export function applyInspectStickers(stickers: ParsedSticker[], inspectStickers: InspectSticker[]): ParsedSticker[] {
+  if (inspectStickers.length === 0) return stickers
+
+  const slots = [...inspectStickers].sort((a, b) => a.slot - b.slot)
+  return stickers.map((sticker, index) => {
+    const slot = slots[index]
+    if (!slot) return sticker
+    return { ...sticker, position: slot.slot + 1, wear: slot.wear ?? 0 }
+  })
+}
+
+/**
+ * Item.name of a sticker: "Natus Vincere (Holo) | Katowice 2014" -> "Sticker | Natus Vincere (Holo) | Katowice 2014"
+ */
+export function toStickerItemName(name: string): string {
+  return name.startsWith(STICKER_ITEM_PREFIX) ? name : `${STICKER_ITEM_PREFIX}${name}`
+}
+
+/**
+ * Sticker name without the "Sticker | " prefix
+ */
+export function toStickerName(itemName: string): string {
+  return itemName.startsWith(STICKER_ITEM_PREFIX) ? itemName.slice(STICKER_ITEM_PREFIX.length) : itemName
+}
+
+/**
+ * Read a stickers JSON column, accepting both the legacy string array and
+ * the AppliedSticker shape
+ */
+export function normalizeStoredStickers(value: unknown): AppliedSticker[] {
+  if (!Array.isArray(value)) return []
+
+  const legacy = value.filter((entry): entry is string => typeof entry === 'string')
+  if (legacy.length > 0) {
+    return parseStickerDescriptions(legacy).map((sticker) => ({ ...sticker, item_id: null }))
+  }
+
+  return value
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        typeof entry === 'object' && entry !== null && typeof (entry as { name?: unknown }).name === 'string'
+    )
+    .map((entry, index) => ({
+      name: toStickerName(entry.name as string),
+      position: typeof entry.position === 'number' ? entry.position : index + 1,
+      wear: typeof entry.wear === 'number' ? entry.wear : null,
+      item_id: typeof entry.item_id === 'string' ? entry.item_id : null,
+    }))
+}
@@ -0,0 +1,253 @@
+/**
+ * Sticker Service
+ *
+ * Resolves parsed stickers (src/lib/stickers/sticker-parser.ts) to sticker
+ * `Item` rows and finds where a sticker is applied.
+ *
+ * Critical Gotchas:
+ * - Usage lookups use JSONB containment (stickers @> [{"item_id": ...}]),
+ *   backed by the GIN index on inventory_items.stickers
+ * - Loadout stickers are entered by name and may not carry item_id, so
+ *   loadouts also match on the sticker name
+ * - Only public inventories with consent and public loadouts are listed
+ * - Valuation resolves legacy rows (raw strings, no item_id) by name so
+ *   inventories synced before sticker resolution are priced too
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { prisma } from '../prisma'
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service'
+import {
+  normalizeStoredStickers,
+  toStickerItemName,
+  toStickerName,
+  type AppliedSticker,
+  type ParsedSticker,
+} from './sticker-parser'
+import {
+  DEFAULT_STICKER_PREMIUM_CONFIG,
+  valueItemWithStickers,
+  type StickerPremiumConfig,
+  type StickerPriceInfo,
+  type StickerValuation,
+} from './sticker-valuation'
+
+const USAGE_LIMIT = 50
+
+export interface StickerUsage {
+  sticker: {
+    id: string
+    name: string
+    display_name: string
+    rarity: string | null
+    image_url: string
+  }
+  inventories: Array<{
+    inventoryItemId: string
+    marketHashName: string
+    position: number | null
+    wear: number | null
+    owner: { steamId: string; personaName: string }
+  }>
+  loadouts: Array<{
+    loadoutId: string
+    slug: string | null
+    name: string
+    weaponType: string
+    skinName: string
+    position: number | null
+  }>
+}
+
+/**
+ * Map sticker names ("Natus Vincere (Holo) | Katowice 2014") to sticker Item IDs
+ */
+export async function resolveStickerItemIds(
+  names: string[],
+  client: PrismaClient = prisma
+): Promise<Map<string, string>> {
+  const uniqueNames = Array.from(new Set(names))
+  if (uniqueNames.length === 0) return new Map()
+
+  const items = await client.item.findMany({
+    where: { type: 'sticker', name: { in: uniqueNames.map(toStickerItemName) } },
+    select: { id: true, name: true },
+  })
+
+  return new Map(items.map((item) => [toStickerName(item.name), item.id]))
+}
+
+/**
+ * Attach sticker Item IDs to parsed stickers
+ */
+export async function resolveStickers(
+  stickers: ParsedSticker[],
+  client: PrismaClient = prisma
+): Promise<AppliedSticker[]> {
+  const ids = await resolveStickerItemIds(
+    stickers.map((sticker) => sticker.name),
+    client
+  )
+
+  return stickers.map((sticker) => ({ ...sticker, item_id: ids.get(sticker.name) ?? null }))
+}
+
+/**
+ * Sticker-adjusted value of inventory items
+ *
+ * @param items - Inventory items with their base value and stored stickers
+ * @param client - Prisma client
+ * @param config - Premium rates
+ * @returns Inventory item ID → valuation, for items with at least one sticker
+ */
+export async function valueInventoryStickers(
+  items: Array<{ id: string; current_value: unknown; stickers: unknown }>,
+  client: PrismaClient = prisma,
+  config: StickerPremiumConfig = DEFAULT_STICKER_PREMIUM_CONFIG
+): Promise<Map<string, StickerValuation>> {
+  const stickersByItem = new Map(
+    items
+      .map((item) => [item.id, normalizeStoredStickers(item.stickers)] as const)
+      .filter(([, stickers]) => stickers.length > 0)
+  )
+  if (stickersByItem.size === 0) return new Map()
+
+  const allStickers = Array.from(stickersByItem.values()).flat()
+  const idsByName = await resolveStickerItemIds(
+    allStickers.filter((sticker) => !sticker.item_id).map((sticker) => sticker.name),
+    client
+  )
+  const resolve = (sticker: AppliedSticker): AppliedSticker =>
+    sticker.item_id ? sticker : { ...sticker, item_id: idsByName.get(sticker.name) ?? null }
+
+  const stickerItemIds = Array.from(
+    new Set(allStickers.map((sticker) => resolve(sticker).item_id).filter((id): id is string => id !== null))
+  )
+  const stickerItems = await client.item.findMany({
+    where: { id: { in: stickerItemIds } },
+    select: {
+      id: true,
+      rarity: true,
+      marketplace_prices: {
+        where: NON_QUARANTINED_PRICE,
+        orderBy: { price: 'asc' },
+        take: 1,
+        select: { price: true },
+      },
+    },
+  })
+  const prices = new Map<string, StickerPriceInfo>(
+    stickerItems.map((item) => [
+      item.id,
+      {
+        price: item.marketplace_prices[0] ? Number(item.marketplace_prices[0].price) : null,
+        rarity: item.rarity,
+      },
+    ])
+  )
+
+  const valuations = new Map<string, StickerValuation>()
+  for (const item of items) {
+    const stickers = stickersByItem.get(item.id)
+    if (!stickers) continue
+    valuations.set(
+      item.id,
+      valueItemWithStickers(Number(item.current_value ?? 0), stickers.map(resolve), prices, config)
+    )
+  }
+
+  return valuations
+}
+
+function findSlot(stickers: unknown, itemId: string, name: string): AppliedSticker | undefined {
+  if (!Array.isArray(stickers)) return undefined
+  return (stickers as AppliedSticker[]).find(
+    (sticker) => sticker?.item_id === itemId || (typeof sticker?.name === 'string' && toStickerName(sticker.name) === name)
+  )
+}
+
+/**
+ * Public inventories and loadouts using a sticker
+ *
+ * @param stickerItemId - Item ID (type="sticker")
+ * @param client - Prisma client
+ * @returns Usage, or null when the item is not a sticker
+ */
+export async function getStickerUsage(
+  stickerItemId: string,
+  client: PrismaClient = prisma
+): Promise<StickerUsage | null> {
+  const sticker = await client.item.findUnique({
+    where: { id: stickerItemId },
+    select: { id: true, name: true, display_name: true, rarity: true, image_url: true, type: true },
+  })
+  if (!sticker || sticker.type !== 'sticker') return null
+
+  const name = toStickerName(sticker.name)
+
+  const [inventoryItems, weaponSkins] = await Promise.all([
+    client.inventoryItem.findMany({
+      where: {
+        stickers: { array_contains: [{ item_id: sticker.id }] },
+        inventory: { is_public: true, consent_given: true },
+      },
+      select: {
+        id: true,
+        market_hash_name: true,
+        stickers: true,
+        inventory: { select: { user: { select: { steam_id: true, persona_name: true } } } },
+      },
+      orderBy: { current_value: 'desc' },
+      take: USAGE_LIMIT,
+    }),
+    client.loadoutWeaponSkin.findMany({
+      where: {
+        OR: [
+          { stickers: { array_contains: [{ item_id: sticker.id }] } },
+          { stickers: { array_contains: [{ name }] } },
+          { stickers: { array_contains: [{ name: sticker.name }] } },
+        ],
+        loadout: { is_public: true },
+      },
+      select: {
+        weapon_type: true,
+        stickers: true,
+        item: { select: { display_name: true } },
+        loadout: { select: { id: true, slug: true, name: true } },
+      },
+      orderBy: { created_at: 'desc' },
+      take: USAGE_LIMIT,
+    }),
+  ])
+
+  return {
+    sticker: {
+      id: sticker.id,
+      name,
+      display_name: sticker.display_name,
+      rarity: sticker.rarity,
+      image_url: sticker.image_url,
+    },
+    inventories: inventoryItems.map((inventoryItem) => {
+      const slot = findSlot(inventoryItem.stickers, sticker.id, name)
+      return {
+        inventoryItemId: inventoryItem.id,
+        marketHashName: inventoryItem.market_hash_name,
+        position: slot?.position ?? null,
+        wear: slot?.wear ?? null,
+        owner: {
+          steamId: inventoryItem.inventory.user.steam_id,
+          personaName: inventoryItem.inventory.user.persona_name,
+        },
+      }
+    }),
+    loadouts: weaponSkins.map((weaponSkin) => ({
+      loadoutId: weaponSkin.loadout.id,
+      slug: weaponSkin.loadout.slug,
+      name: weaponSkin.loadout.name,
+      weaponType: weaponSkin.weapon_type,
+      skinName: weaponSkin.item.display_name,
+      position: findSlot(weaponSkin.stickers, sticker.id, name)?.position ?? null,
+    })),
+  }
+}
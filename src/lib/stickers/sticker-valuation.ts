@@ -0,0 +1,204 @@
+/**
+ * Sticker-Adjusted Valuation
+ *
+ * BDD Reference: features/07-inventory-import.feature
+ *   - Display applied stickers on item
+ *   - First-time inventory import shows total value
+ *
+ * InventoryItem.current_value is the base skin price. Applied stickers add a
+ * premium per sticker:
+ *
+ *   premium = sticker price × rarity rate × position multiplier × scrape multiplier
+ *
+ * Critical Gotchas:
+ * - Buyers rarely pay full sticker price; the rate is a fraction of it and
+ *   grows with sticker rarity (Holo/Foil/Gold are rarer)
+ * - Scraped stickers keep only a small part of the premium, scaled by how
+ *   much of the sticker is left (wear 1 = fully scraped = nothing)
+ * - Item.rarity holds ByMykel ids ("rarity_mythical"); rates are keyed by
+ *   grade through normalizeRarity() (Remarkable = restricted, and so on)
+ * - Unpriced or unmatched stickers add nothing; they are still listed in the
+ *   breakdown so the UI can show them
+ */
+
+import type { Rarity } from '@/types/search'
+import { normalizeRarity } from '../normalize'
+import type { AppliedSticker } from './sticker-parser'
+
+export interface StickerPremiumConfig {
+  /** Fraction of sticker price by sticker grade (normalizeRarity of Item.rarity) */
+  rarityRates: Partial<Record<Rarity, number>>
+  /** Fraction for rarities not in rarityRates */
+  defaultRate: number
+  /** Multiplier by 1-based slot (index 0 = slot 1); later slots use the last entry */
+  positionMultipliers: number[]
+  /** Multiplier for a scraped sticker, scaled by (1 - wear) */
+  scrapedMultiplier: number
+}
+
+export const DEFAULT_STICKER_PREMIUM_CONFIG: StickerPremiumConfig = {
+  rarityRates: {
+    consumer: 0.02, // Base Grade
+    milspec: 0.05, // High Grade (paper)
+    restricted: 0.1, // Remarkable (Holo)
+    classified: 0.12, // Exotic (Foil)
+    covert: 0.15, // Extraordinary (Gold)
+    contraband: 0.25, // Contraband (Howl)
+  },
+  defaultRate: 0.05,
+  positionMultipliers: [1, 0.95, 0.9, 0.85, 0.8], // Slot 1 is the most visible on most weapons
+  scrapedMultiplier: 0.25,
+}
+
+export const STICKER_RARITY_LABELS: Partial<Record<Rarity, string>> = {
+  consumer: 'Base Grade',
+  milspec: 'High Grade',
+  restricted: 'Remarkable',
+  classified: 'Exotic',
+  covert: 'Extraordinary',
+  contraband: 'Contraband',
+}
+
+/**
+ * Price and rarity of a sticker Item
+ */
+export interface StickerPriceInfo {
+  price: number | null
+  rarity: string | null
+}
+
+export interface StickerPremium extends AppliedSticker {
+  stickerPrice: number | null
+  rarity: Rarity | null // Grade
+  rate: number
+  positionMultiplier: number
+  scrapeMultiplier: number
+  premium: number
+}
+
+export interface StickerValuation {
+  baseValue: number
+  stickerPremium: number
+  totalValue: number
+  stickers: StickerPremium[]
+}
+
+export interface StickerValuationSummary {
+  baseValue: number
+  stickerPremium: number
+  totalValue: number
+  stickerCount: number
+  pricedStickerCount: number
+  byRarity: Array<{ rarity: string; label: string; count: number; premium: number }>
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Merge overrides into the default config
+ */
+export function resolveStickerPremiumConfig(overrides: Partial<StickerPremiumConfig> = {}): StickerPremiumConfig {
+  return {
+    ...DEFAULT_STICKER_PREMIUM_CONFIG,
+    ...overrides,
+    rarityRates: { ...DEFAULT_STICKER_PREMIUM_CONFIG.rarityRates, ...overrides.rarityRates },
+  }
+}
+
+/**
+ * Premium one applied sticker adds to the weapon
+ */
+export function calculateStickerPremium(
+  sticker: AppliedSticker,
+  info: StickerPriceInfo | undefined,
+  config: StickerPremiumConfig = DEFAULT_STICKER_PREMIUM_CONFIG
+): StickerPremium {
+  const rarity = normalizeRarity(info?.rarity)
+  const rate = (rarity !== null ? config.rarityRates[rarity] : undefined) ?? config.defaultRate
+  const multipliers = config.positionMultipliers
+  const positionMultiplier =
+    multipliers.length > 0 ? multipliers[Math.min(Math.max(sticker.position, 1), multipliers.length) - 1] : 1
+  const wear = sticker.wear ?? 0
+  const scrapeMultiplier = wear > 0 ? config.scrapedMultiplier * Math.max(0, 1 - wear) : 1
+  const stickerPrice = info?.price ?? null
+
+  return {
+    ...sticker,
+    stickerPrice,
+    rarity,
+    rate,
+    positionMultiplier,
+    scrapeMultiplier,
+    premium: stickerPrice !== null ? round2(stickerPrice * rate * positionMultiplier * scrapeMultiplier) : 0,
+  }
+}
+
+/**
+ * Base value plus the premium of every applied sticker
+ *
+ * @param baseValue - InventoryItem.current_value (base skin price)
+ * @param stickers - Applied stickers
+ * @param prices - Sticker Item ID → price and rarity
+ * @param config - Premium rates
+ */
+export function valueItemWithStickers(
+  baseValue: number,
+  stickers: AppliedSticker[],
+  prices: Map<string, StickerPriceInfo>,
+  config: StickerPremiumConfig = DEFAULT_STICKER_PREMIUM_CONFIG
+): StickerValuation {
+  const premiums = stickers.map((sticker) =>
+    calculateStickerPremium(sticker, sticker.item_id ? prices.get(sticker.item_id) : undefined, config)
+  )
+  const stickerPremium = round2(premiums.reduce((sum, sticker) => sum + sticker.premium, 0))
+
+  return {
+    baseValue: round2(baseValue),
+    stickerPremium,
+    totalValue: round2(baseValue + stickerPremium),
+    stickers: premiums,
+  }
+}
+
+/**
+ * Portfolio-level breakdown of sticker premiums
+ */
+export function summarizeStickerValuations(valuations: StickerValuation[]): StickerValuationSummary {
+  const byRarity = new Map<string, { count: number; premium: number }>()
+  let stickerCount = 0
+  let pricedStickerCount = 0
+
+  for (const valuation of valuations) {
+    for (const sticker of valuation.stickers) {
+      stickerCount++
+      if (sticker.stickerPrice !== null) pricedStickerCount++
+
+      const key = sticker.rarity ?? 'unknown'
+      const entry = byRarity.get(key) ?? { count: 0, premium: 0 }
+      entry.count++
+      entry.premium += sticker.premium
+      byRarity.set(key, entry)
+    }
+  }
+
+  const baseValue = valuations.reduce((sum, valuation) => sum + valuation.baseValue, 0)
+  const stickerPremium = valuations.reduce((sum, valuation) => sum + valuation.stickerPremium, 0)
+
+  return {
+    baseValue: round2(baseValue),
+    stickerPremium: round2(stickerPremium),
+    totalValue: round2(baseValue + stickerPremium),
+    stickerCount,
+    pricedStickerCount,
+    byRarity: Array.from(byRarity.entries())
+      .map(([rarity, entry]) => ({
+        rarity,
+        label: STICKER_RARITY_LABELS[rarity as Rarity] ?? 'Unknown',
+        count: entry.count,
+        premium: round2(entry.premium),
+      }))
+      .sort((a, b) => b.premium - a.premium),
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Trade-Up Contract Engine Tests
+ *
+ * Critical Gotchas Applied:
+ * - Odds split per input collection, not per output skin
+ * - Output float maps the average normalized input float onto the output range
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateOutputFloat,
+  calculateTradeUp,
+  suggestCheapestInputs,
+  validateTradeUpInputs,
+  type TradeUpInput,
+  type TradeUpOutputSkin,
+} from '../trade-up-engine';
+
+function makeInput(overrides: Partial<TradeUpInput> = {}): TradeUpInput {
+  return {
+    itemId: 'input',
+    name: 'P250 | Sand Dune (Field-Tested)',
+    baseName: 'P250 | Sand Dune',
+    collectionId: 'dust',
+    rarity: 'milspec',
+    stattrak: false,
+    floatValue: 0.2,
+    wearMin: 0,
+    wearMax: 1,
+    price: 1,
+    ...overrides,
+  };
+}
+
+function makeOutput(baseName: string, collectionId: string, price: number | null): TradeUpOutputSkin {
+  return {
+    baseName,
+    collectionId,
+    wearMin: 0,
+    wearMax: 0.5,
+    variants: ['factory_new', 'minimal_wear', 'field_tested', 'well_worn', 'battle_scarred'].map((wear) => ({
+      itemId: `${baseName}:${wear}`,
+      wear,
+      price,
+      sellerFeePercent: 10,
+    })),
+  };
+}
+
+const OUTPUTS = [
+  makeOutput('AK-47 | Redline', 'dust', 20),
+  makeOutput('M4A4 | Desert Storm', 'dust', 2),
+  makeOutput('AWP | Safari Mesh', 'safari', null),
+];
+
+describe('Trade-Up Contract Engine', () => {
+  it('should give each input one ticket per output in its collection and value outputs after fees', () => {
+    const inputs = [
+      ...Array.from({ length: 8 }, () => makeInput()),
+      ...Array.from({ length: 2 }, () => makeInput({ collectionId: 'safari' })),
+    ];
+
+    const result = calculateTradeUp(inputs, OUTPUTS);
+    const odds = Object.fromEntries(result.outcomes.map((outcome) => [outcome.baseName, outcome.probability]));
+
+    // 8 inputs × 2 dust outputs + 2 inputs × 1 safari output = 18 tickets
+    expect(odds).toEqual({ 'AK-47 | Redline': 44.44, 'M4A4 | Desert Storm': 44.44, 'AWP | Safari Mesh': 11.11 });
+    expect(result.inputCost).toBe(10);
+    // 8/18 × 18 + 8/18 × 1.8 + 2/18 × 0 (unpriced)
+    expect(result.expectedValue).toBeCloseTo(8.8);
+    expect(result.expectedProfit).toBeCloseTo(-1.2);
+    expect(result.profitProbability).toBe(44.44);
+    expect(result.priceCoverage).toBe(88.89);
+  });
+
+  it('should compute the output float and wear from each skin range', () => {
+    const inputs = Array.from({ length: 10 }, () => makeInput({ floatValue: 0.2 }));
+
+    // 0.2 of [0, 1] mapped onto [0, 0.5] = 0.1
+    expect(calculateOutputFloat(inputs, 0, 0.5)).toBeCloseTo(0.1);
+
+    const [outcome] = calculateTradeUp(inputs, [OUTPUTS[0]]).outcomes;
+    expect(outcome.floatValue).toBeCloseTo(0.1);
+    expect(outcome.wear).toBe('minimal_wear');
+    expect(outcome.itemId).toBe('AK-47 | Redline:minimal_wear');
+  });
+
+  it('should reject invalid contracts', () => {
+    const valid = Array.from({ length: 10 }, () => makeInput());
+
+    expect(validateTradeUpInputs(valid, OUTPUTS)).toBeNull();
+    expect(validateTradeUpInputs(valid.slice(1), OUTPUTS)).toMatch(/exactly 10/);
+    expect(validateTradeUpInputs([...valid.slice(1), makeInput({ rarity: 'restricted' })], OUTPUTS)).toMatch(
+      /same rarity/
+    );
+    expect(validateTradeUpInputs([...valid.slice(1), makeInput({ stattrak: true })], OUTPUTS)).toMatch(/StatTrak/);
+    expect(validateTradeUpInputs([...valid.slice(1), makeInput({ floatValue: 1.5 })], OUTPUTS)).toMatch(/float/);
+    expect(validateTradeUpInputs([...valid.slice(1), makeInput({ collectionId: 'empty' })], OUTPUTS)).toMatch(
+      /no higher-rarity/
+    );
+    expect(validateTradeUpInputs(Array.from({ length: 10 }, () => makeInput({ rarity: 'covert' })), OUTPUTS)).toMatch(
+      /cannot be traded up/
+    );
+  });
+
+  it('should suggest the cheapest inputs reaching the target wear', () => {
+    const options = [
+      { itemId: 'fn', name: 'P250 | Sand Dune', baseName: 'P250 | Sand Dune', wear: 'factory_new', wearMin: 0, wearMax: 1, price: 3 },
+      { itemId: 'mw', name: 'P250 | Sand Dune', baseName: 'P250 | Sand Dune', wear: 'minimal_wear', wearMin: 0, wearMax: 1, price: 1 },
+      { itemId: 'bs', name: 'P250 | Sand Dune', baseName: 'P250 | Sand Dune', wear: 'battle_scarred', wearMin: 0, wearMax: 1, price: 0.1 },
+    ];
+
+    // Factory New on [0, 0.5] needs output < 0.07, i.e. average input < 0.14
+    const suggestion = suggestCheapestInputs(OUTPUTS[0], 'factory_new', 2, options);
+
+    expect(suggestion?.input.itemId).toBe('mw');
+    expect(suggestion?.maxInputFloat).toBeCloseTo(0.14, 5);
+    expect(suggestion?.totalCost).toBe(10);
+    expect(suggestion?.targetProbability).toBe(50);
+    expect(suggestCheapestInputs(OUTPUTS[0], 'factory_new', 2, [options[2]])).toBeNull();
+  });
+});
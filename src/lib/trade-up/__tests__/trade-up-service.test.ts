@@ -0,0 +1,111 @@
+/**
+ * Trade-Up Service Tests
+ *
+ * Critical Gotchas Applied:
+ * - Items carry ByMykel rarity ids as imported ("rarity_rare_weapon"), not
+ *   grade names
+ *
+ * @jest-environment node
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import type { PrismaClient } from '@prisma/client';
+import { evaluateTradeUp, suggestTradeUpInputs, TradeUpError } from '../trade-up-service';
+
+interface ItemRow {
+  id: string;
+  name: string;
+  display_name: string;
+  rarity: string;
+  quality: string;
+  wear: string;
+  wear_min: number;
+  wear_max: number;
+  collection_id: string;
+  type: string;
+  marketplace_prices: Array<{ price: number; seller_fee_percent: number }>;
+}
+
+function uuid(n: number): string {
+  return `00000000-0000-4000-8000-${n.toString().padStart(12, '0')}`;
+}
+
+function skin(n: number, name: string, rarity: string, wear: string, price: number): ItemRow {
+  return {
+    id: uuid(n),
+    name,
+    display_name: name,
+    rarity,
+    quality: 'normal',
+    wear,
+    wear_min: 0,
+    wear_max: 1,
+    collection_id: 'dust',
+    type: 'skin',
+    marketplace_prices: [{ price, seller_fee_percent: 2 }],
+  };
+}
+
+// Importer-shaped rows: rarity is the ByMykel id
+const ITEMS: ItemRow[] = [
+  skin(1, 'P250 | Sand Dune (Field-Tested)', 'rarity_rare_weapon', 'field_tested', 0.5),
+  skin(2, 'P250 | Sand Dune (Battle-Scarred)', 'rarity_rare_weapon', 'battle_scarred', 0.3),
+  skin(3, 'AK-47 | Redline (Field-Tested)', 'rarity_mythical_weapon', 'field_tested', 20),
+  skin(4, 'AK-47 | Redline (Minimal Wear)', 'rarity_mythical_weapon', 'minimal_wear', 35),
+];
+
+/**
+ * Minimal in-memory stand-in for the item queries the service makes
+ */
+function fakeClient(items: ItemRow[]): PrismaClient {
+  const matches = (item: ItemRow, where: Record<string, any>) =>
+    (!where.id?.in || where.id.in.includes(item.id)) &&
+    (!where.collection_id?.in || where.collection_id.in.includes(item.collection_id)) &&
+    (!where.rarity?.in || where.rarity.in.includes(item.rarity)) &&
+    (!where.type || where.type === item.type) &&
+    (!where.quality || where.quality === item.quality);
+
+  return {
+    item: {
+      findMany: async ({ where }: { where: Record<string, any> }) => items.filter((item) => matches(item, where)),
+      findUnique: async ({ where }: { where: { id: string } }) => items.find((item) => item.id === where.id) ?? null,
+    },
+  } as unknown as PrismaClient;
+}
+
+describe('Trade-Up Service', () => {
+  it('should evaluate contracts of importer-style rarities', async () => {
+    const entries = Array.from({ length: 10 }, () => ({ itemId: uuid(1), floatValue: 0.2 }));
+
+    const { result } = await evaluateTradeUp(entries, fakeClient(ITEMS));
+
+    expect(result.outcomes).toHaveLength(1);
+    expect(result.outcomes[0]).toMatchObject({ baseName: 'AK-47 | Redline', probability: 100, itemId: uuid(3) });
+  });
+
+  it('should reject malformed item ids as invalid input', async () => {
+    const entries = Array.from({ length: 10 }, () => ({ itemId: 'not-a-uuid', floatValue: 0.2 }));
+
+    await expect(evaluateTradeUp(entries, fakeClient(ITEMS))).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    await expect(suggestTradeUpInputs('not-a-uuid', 'field_tested', fakeClient(ITEMS))).rejects.toBeInstanceOf(
+      TradeUpError
+    );
+  });
+
+  it('should reject floats outside the variant wear bracket', async () => {
+    // 0.5 is inside the skin's float range but Battle-Scarred, not Field-Tested
+    const entries = Array.from({ length: 10 }, () => ({ itemId: uuid(1), floatValue: 0.5 }));
+
+    await expect(evaluateTradeUp(entries, fakeClient(ITEMS))).rejects.toMatchObject({
+      code: 'INVALID_INPUT',
+      message: expect.stringContaining('for this wear'),
+    });
+  });
+
+  it('should suggest inputs one grade below an importer-style output', async () => {
+    const suggestion = await suggestTradeUpInputs(uuid(3), 'field_tested', fakeClient(ITEMS));
+
+    expect(suggestion).toMatchObject({ target: 'AK-47 | Redline', quantity: 10 });
+    expect(suggestion?.input.itemId).toBe(uuid(1)); // Battle-Scarred inputs cannot reach Field-Tested
+  });
+});
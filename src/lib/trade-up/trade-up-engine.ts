@@ -0,0 +1,331 @@
+/**
+ * Trade-Up Contract Engine
+ *
+ * CS2 trade-up rules:
+ * - 10 input skins of the same rarity, all StatTrak™ or all normal
+ * - Each input adds one ticket per skin one rarity higher in its own
+ *   collection, and the output is drawn from all tickets: P(skin) = inputs
+ *   from its collection / sum over inputs of their collection's output count
+ * - Output float: average of the inputs' positions inside their own float
+ *   ranges, mapped onto the output skin's [wear_min, wear_max] range
+ *   (CS2 normalized-float trade-ups)
+ *
+ * Values are what the user would receive selling the output: cheapest listing
+ * of the output's wear, net of the platform seller fee. Input cost is what the
+ * user paid (cheapest listing of each input variant).
+ *
+ * Critical Gotchas:
+ * - A collection without skins of the next rarity cannot be traded up; inputs
+ *   from it are rejected instead of silently shifting the odds
+ * - Item.rarity holds ByMykel ids ("rarity_rare_weapon"); rarities are
+ *   compared and laddered through normalizeRarity()
+ * - Output floats sit on bracket edges often; getWearForFloat() uses the
+ *   standard [min, max) brackets so 0.07 is Minimal Wear, not Factory New
+ */
+
+import type { Rarity } from '@/types/search';
+import { getWearForFloat, normalizeRarity, WEAR_FLOAT_RANGES } from '../normalize';
+
+export const TRADE_UP_INPUT_COUNT = 10;
+
+/**
+ * Rarities that can be traded up, lowest first; each trades into the next
+ */
+export const TRADE_UP_RARITY_LADDER: Rarity[] = ['consumer', 'industrial', 'milspec', 'restricted', 'classified', 'covert'];
+
+export interface TradeUpInput {
+  itemId: string;
+  name: string;
+  baseName: string;
+  collectionId: string | null;
+  rarity: string | null;
+  stattrak: boolean;
+  floatValue: number;
+  wearMin: number | null;
+  wearMax: number | null;
+  price: number | null; // Cheapest listing of this variant
+}
+
+export interface TradeUpOutputVariant {
+  itemId: string;
+  wear: string;
+  price: number | null;
+  sellerFeePercent: number | null;
+}
+
+/**
+ * A possible output skin (one rarity above the inputs, matching StatTrak™)
+ */
+export interface TradeUpOutputSkin {
+  baseName: string;
+  collectionId: string;
+  wearMin: number | null;
+  wearMax: number | null;
+  variants: TradeUpOutputVariant[];
+}
+
+export interface TradeUpOutcome {
+  baseName: string;
+  collectionId: string;
+  itemId: string | null; // Variant matching the resulting wear
+  probability: number; // Percentage
+  floatValue: number;
+  wear: string;
+  price: number | null;
+  netValue: number; // After seller fee; 0 when unpriced
+}
+
+export interface TradeUpResult {
+  inputCost: number;
+  grossExpectedValue: number;
+  expectedValue: number; // Net of seller fees
+  expectedProfit: number;
+  roi: number; // Percentage
+  profitProbability: number; // Percentage of outcomes worth more than the inputs
+  priceCoverage: number; // Percentage of outcome odds with a price
+  outcomes: TradeUpOutcome[];
+}
+
+/**
+ * Cheapest way to land a target output in a target wear (or better)
+ */
+export interface TradeUpInputOption {
+  itemId: string;
+  name: string;
+  baseName: string;
+  wear: string;
+  wearMin: number | null;
+  wearMax: number | null;
+  price: number;
+}
+
+export interface TradeUpSuggestion {
+  target: string;
+  targetWear: string;
+  targetProbability: number; // Percentage, all inputs from the target's collection
+  input: TradeUpInputOption;
+  quantity: number;
+  maxInputFloat: number; // Buy listings at or below this float
+  totalCost: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Grade a stored rarity trades into (null when it cannot be traded up)
+ */
+export function getNextRarity(rarity: string | null): Rarity | null {
+  const normalized = normalizeRarity(rarity);
+  const index = normalized ? TRADE_UP_RARITY_LADDER.indexOf(normalized) : -1;
+  return index >= 0 && index < TRADE_UP_RARITY_LADDER.length - 1 ? TRADE_UP_RARITY_LADDER[index + 1] : null;
+}
+
+/**
+ * Grade that trades into a stored rarity (null when none does)
+ */
+export function getPreviousRarity(rarity: string | null): Rarity | null {
+  const normalized = normalizeRarity(rarity);
+  const index = normalized ? TRADE_UP_RARITY_LADDER.indexOf(normalized) : -1;
+  return index > 0 ? TRADE_UP_RARITY_LADDER[index - 1] : null;
+}
+
+/**
+ * Position of a float inside a skin's float range (0 = best, 1 = worst)
+ */
+export function normalizeFloat(floatValue: number, wearMin: number | null, wearMax: number | null): number {
+  const min = wearMin ?? 0;
+  const max = wearMax ?? 1;
+  if (max <= min) return 0;
+  return Math.min(1, Math.max(0, (floatValue - min) / (max - min)));
+}
+
+/**
+ * Resulting float of an output skin for a set of inputs
+ */
+export function calculateOutputFloat(
+  inputs: Array<Pick<TradeUpInput, 'floatValue' | 'wearMin' | 'wearMax'>>,
+  outputWearMin: number | null,
+  outputWearMax: number | null
+): number {
+  const average =
+    inputs.reduce((sum, input) => sum + normalizeFloat(input.floatValue, input.wearMin, input.wearMax), 0) /
+    inputs.length;
+  const min = outputWearMin ?? 0;
+  const max = outputWearMax ?? 1;
+
+  return min + average * (max - min);
+}
+
+/**
+ * Validate a trade-up contract
+ *
+ * @param inputs - Input skins
+ * @param outputSkins - Skins one rarity above the inputs in the inputs' collections
+ * @returns Error message, or null when the contract is valid
+ */
+export function validateTradeUpInputs(inputs: TradeUpInput[], outputSkins: TradeUpOutputSkin[]): string | null {
+  if (inputs.length !== TRADE_UP_INPUT_COUNT) {
+    return `A trade-up needs exactly ${TRADE_UP_INPUT_COUNT} input skins`;
+  }
+
+  const rarity = normalizeRarity(inputs[0].rarity);
+  if (inputs.some((input) => normalizeRarity(input.rarity) !== rarity)) {
+    return 'All inputs must have the same rarity';
+  }
+  if (!getNextRarity(rarity)) {
+    return `${rarity ?? inputs[0].rarity ?? 'Unknown'} skins cannot be traded up`;
+  }
+  if (inputs.some((input) => input.stattrak !== inputs[0].stattrak)) {
+    return 'Inputs must be all StatTrak™ or all non-StatTrak™';
+  }
+
+  for (const input of inputs) {
+    const min = input.wearMin ?? 0;
+    const max = input.wearMax ?? 1;
+    if (!(input.floatValue >= min && input.floatValue <= max)) {
+      return `${input.name}: float must be between ${min} and ${max}`;
+    }
+    if (!input.collectionId || !outputSkins.some((skin) => skin.collectionId === input.collectionId)) {
+      return `${input.name}: its collection has no higher-rarity skins to trade into`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Every possible output with odds, float and value
+ *
+ * @param inputs - 10 validated inputs
+ * @param outputSkins - Skins one rarity above the inputs in the inputs' collections
+ */
+export function calculateTradeUp(inputs: TradeUpInput[], outputSkins: TradeUpOutputSkin[]): TradeUpResult {
+  const skinsByCollection = new Map<string, TradeUpOutputSkin[]>();
+  for (const skin of outputSkins) {
+    skinsByCollection.set(skin.collectionId, [...(skinsByCollection.get(skin.collectionId) ?? []), skin]);
+  }
+
+  // One ticket per input per output skin in the input's collection
+  const pools = inputs.map((input) => skinsByCollection.get(input.collectionId ?? '') ?? []);
+  const totalTickets = pools.reduce((sum, pool) => sum + pool.length, 0);
+
+  const odds = new Map<TradeUpOutputSkin, number>();
+  for (const pool of pools) {
+    for (const skin of pool) {
+      odds.set(skin, (odds.get(skin) ?? 0) + 1 / totalTickets);
+    }
+  }
+
+  const inputCost = inputs.reduce((sum, input) => sum + (input.price ?? 0), 0);
+
+  const outcomes: TradeUpOutcome[] = Array.from(odds.entries()).map(([skin, probability]) => {
+    const floatValue = calculateOutputFloat(inputs, skin.wearMin, skin.wearMax);
+    const wear = getWearForFloat(floatValue);
+    const variant =
+      skin.variants.find((candidate) => candidate.wear === wear) ??
+      skin.variants.find((candidate) => candidate.wear === 'none');
+    const price = variant?.price ?? null;
+
+    return {
+      baseName: skin.baseName,
+      collectionId: skin.collectionId,
+      itemId: variant?.itemId ?? null,
+      probability,
+      floatValue,
+      wear,
+      price,
+      netValue: price !== null ? price * (1 - (variant?.sellerFeePercent ?? 0) / 100) : 0,
+    };
+  });
+
+  const grossExpectedValue = outcomes.reduce((sum, outcome) => sum + outcome.probability * (outcome.price ?? 0), 0);
+  const expectedValue = outcomes.reduce((sum, outcome) => sum + outcome.probability * outcome.netValue, 0);
+  const expectedProfit = expectedValue - inputCost;
+
+  return {
+    inputCost: round2(inputCost),
+    grossExpectedValue: round2(grossExpectedValue),
+    expectedValue: round2(expectedValue),
+    expectedProfit: round2(expectedProfit),
+    roi: inputCost > 0 ? round2((expectedProfit / inputCost) * 100) : 0,
+    profitProbability: round2(
+      outcomes.filter((outcome) => outcome.netValue > inputCost).reduce((sum, outcome) => sum + outcome.probability, 0) *
+        100
+    ),
+    priceCoverage: round2(
+      outcomes.filter((outcome) => outcome.price !== null).reduce((sum, outcome) => sum + outcome.probability, 0) * 100
+    ),
+    outcomes: outcomes
+      .map((outcome) => ({
+        ...outcome,
+        probability: round2(outcome.probability * 100),
+        floatValue: Math.round(outcome.floatValue * 1e6) / 1e6,
+        price: outcome.price !== null ? round2(outcome.price) : null,
+        netValue: round2(outcome.netValue),
+      }))
+      .sort((a, b) => b.probability - a.probability || b.netValue - a.netValue),
+  };
+}
+
+/**
+ * Cheapest inputs that land `target` in `targetWear` or better
+ *
+ * Uses 10 copies of the cheapest eligible lower-rarity skin from the target's
+ * own collection, so every output comes from that collection. An input variant
+ * is eligible when its wear bracket contains floats at or below the maximum
+ * input float; the suggestion's price is the cheapest listing of that wear,
+ * so low-float listings may cost more.
+ *
+ * @param target - Desired output skin
+ * @param targetWear - Desired output wear (or better)
+ * @param collectionSkinCount - Output skins of the target's rarity in its collection
+ * @param options - Priced lower-rarity variants from the target's collection
+ * @returns Suggestion, or null when no input can reach the target wear
+ */
+export function suggestCheapestInputs(
+  target: TradeUpOutputSkin,
+  targetWear: string,
+  collectionSkinCount: number,
+  options: TradeUpInputOption[]
+): TradeUpSuggestion | null {
+  const bracket = WEAR_FLOAT_RANGES[targetWear];
+  if (!bracket) return null;
+
+  const outMin = target.wearMin ?? 0;
+  const outMax = target.wearMax ?? 1;
+  // Stay just inside the bracket: its upper bound belongs to the next wear
+  const maxOutputFloat = Math.min(bracket[1], outMax) - 1e-6;
+  if (maxOutputFloat < outMin) return null;
+
+  const maxAverage = outMax > outMin ? (maxOutputFloat - outMin) / (outMax - outMin) : 1;
+
+  let best: { option: TradeUpInputOption; maxInputFloat: number } | null = null;
+
+  for (const option of options) {
+    const inputMin = option.wearMin ?? 0;
+    const inputMax = option.wearMax ?? 1;
+    const maxInputFloat = inputMin + maxAverage * (inputMax - inputMin);
+    const [wearLow] = WEAR_FLOAT_RANGES[option.wear] ?? [0];
+
+    // The variant's bracket must contain floats at or below the limit
+    if (wearLow > maxInputFloat) continue;
+
+    if (!best || option.price < best.option.price) {
+      best = { option, maxInputFloat };
+    }
+  }
+
+  if (!best) return null;
+
+  return {
+    target: target.baseName,
+    targetWear,
+    targetProbability: round2((1 / Math.max(1, collectionSkinCount)) * 100),
+    input: best.option,
+    quantity: TRADE_UP_INPUT_COUNT,
+    maxInputFloat: Math.floor(best.maxInputFloat * 1e6) / 1e6,
+    totalCost: round2(best.option.price * TRADE_UP_INPUT_COUNT),
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Trade-Up Service
+ *
+ * Loads items, collections and live prices for the trade-up engine
+ * (src/lib/trade-up/trade-up-engine.ts).
+ *
+ * Critical Gotchas:
+ * - Items are stored per variant (wear × quality); output skins are grouped by
+ *   base name so the engine can pick the variant matching the resulting float
+ * - Prices come from the cheapest non-quarantined listing of each variant
+ * - Item.rarity holds ByMykel ids; collection skins of a grade are loaded by
+ *   every stored id of that grade (getRarityIds)
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import type { Rarity } from '@/types/search';
+import { prisma } from '../prisma';
+import { NON_QUARANTINED_PRICE } from '../price/price-quarantine-service';
+import { getBaseWeaponName, getRarityIds, getWearForFloat, normalizeRarity, WEAR_FLOAT_RANGES } from '../normalize';
+import {
+  calculateTradeUp,
+  getNextRarity,
+  getPreviousRarity,
+  suggestCheapestInputs,
+  validateTradeUpInputs,
+  type TradeUpInput,
+  type TradeUpInputOption,
+  type TradeUpOutputSkin,
+  type TradeUpResult,
+  type TradeUpSuggestion,
+} from './trade-up-engine';
+
+/**
+ * Error raised for invalid trade-up requests
+ */
+export class TradeUpError extends Error {
+  constructor(
+    message: string,
+    public code: 'INVALID_INPUT' | 'NOT_FOUND'
+  ) {
+    super(message);
+    this.name = 'TradeUpError';
+  }
+}
+
+export interface TradeUpInputEntry {
+  itemId: string;
+  floatValue: number;
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CHEAPEST_PRICE_SELECT = {
+  where: NON_QUARANTINED_PRICE,
+  orderBy: { price: 'asc' as const },
+  take: 1,
+  select: { price: true, seller_fee_percent: true },
+};
+
+const TRADE_UP_ITEM_SELECT = {
+  id: true,
+  name: true,
+  display_name: true,
+  rarity: true,
+  quality: true,
+  wear: true,
+  wear_min: true,
+  wear_max: true,
+  collection_id: true,
+  marketplace_prices: CHEAPEST_PRICE_SELECT,
+};
+
+/**
+ * Skins of one rarity in the given collections, grouped by base name
+ */
+async function loadCollectionSkins(
+  collectionIds: string[],
+  rarity: Rarity,
+  stattrak: boolean,
+  client: PrismaClient
+): Promise<TradeUpOutputSkin[]> {
+  const items = await client.item.findMany({
+    where: {
+      collection_id: { in: collectionIds },
+      rarity: { in: getRarityIds(rarity) },
+      type: 'skin',
+      quality: stattrak ? 'stattrak' : 'normal',
+    },
+    select: TRADE_UP_ITEM_SELECT,
+  });
+
+  const skins = new Map<string, TradeUpOutputSkin>();
+  for (const item of items) {
+    const baseName = getBaseWeaponName(item.name);
+    const key = `${item.collection_id}:${baseName}`;
+    const skin = skins.get(key) ?? {
+      baseName,
+      collectionId: item.collection_id!,
+      wearMin: item.wear_min,
+      wearMax: item.wear_max,
+      variants: [],
+    };
+    const price = item.marketplace_prices[0];
+
+    skin.variants.push({
+      itemId: item.id,
+      wear: item.wear,
+      price: price ? price.price : null,
+      sellerFeePercent: price?.seller_fee_percent ?? null,
+    });
+    skins.set(key, skin);
+  }
+
+  return Array.from(skins.values());
+}
+
+/**
+ * Evaluate a trade-up contract against live prices
+ *
+ * @param entries - 10 input items (variant IDs) with their floats
+ * @param client - Prisma client
+ * @throws TradeUpError when the inputs do not form a valid contract
+ */
+export async function evaluateTradeUp(
+  entries: TradeUpInputEntry[],
+  client: PrismaClient = prisma
+): Promise<{ inputs: TradeUpInput[]; result: TradeUpResult }> {
+  const invalidId = entries.find((entry) => !UUID_REGEX.test(entry.itemId));
+  if (invalidId) {
+    throw new TradeUpError(`Invalid item ID: ${invalidId.itemId}`, 'INVALID_INPUT');
+  }
+
+  const items = await client.item.findMany({
+    where: { id: { in: Array.from(new Set(entries.map((entry) => entry.itemId))) } },
+    select: TRADE_UP_ITEM_SELECT,
+  });
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+
+  const inputs: TradeUpInput[] = entries.map((entry) => {
+    const item = itemsById.get(entry.itemId);
+    if (!item) {
+      throw new TradeUpError(`Item ${entry.itemId} not found`, 'NOT_FOUND');
+    }
+    if (item.quality === 'souvenir') {
+      throw new TradeUpError(`${item.display_name}: souvenir skins cannot be traded up`, 'INVALID_INPUT');
+    }
+    // The float must match the variant's wear, not just the skin's float range
+    if (Object.hasOwn(WEAR_FLOAT_RANGES, item.wear) && getWearForFloat(entry.floatValue) !== item.wear) {
+      const [low, high] = WEAR_FLOAT_RANGES[item.wear];
+      throw new TradeUpError(
+        `${item.display_name}: float must be between ${low} and ${high} for this wear`,
+        'INVALID_INPUT'
+      );
+    }
+
+    return {
+      itemId: item.id,
+      name: item.display_name,
+      baseName: getBaseWeaponName(item.name),
+      collectionId: item.collection_id,
+      rarity: item.rarity,
+      stattrak: item.quality === 'stattrak',
+      floatValue: entry.floatValue,
+      wearMin: item.wear_min,
+      wearMax: item.wear_max,
+      price: item.marketplace_prices[0]?.price ?? null,
+    };
+  });
+
+  const nextRarity = getNextRarity(inputs[0]?.rarity ?? null);
+  const collectionIds = Array.from(
+    new Set(inputs.map((input) => input.collectionId).filter((id): id is string => id !== null))
+  );
+  const outputSkins = nextRarity
+    ? await loadCollectionSkins(collectionIds, nextRarity, inputs[0].stattrak, client)
+    : [];
+
+  const error = validateTradeUpInputs(inputs, outputSkins);
+  if (error) {
+    throw new TradeUpError(error, 'INVALID_INPUT');
+  }
+
+  return { inputs, result: calculateTradeUp(inputs, outputSkins) };
+}
+
+/**
+ * Cheapest inputs that land an output skin in a target wear (or better)
+ *
+ * @param outputItemId - Any variant of the desired output skin
+ * @param targetWear - factory_new ... battle_scarred
+ * @param client - Prisma client
+ * @returns Suggestion, or null when no priced input reaches the target wear
+ * @throws TradeUpError when the output cannot come from a trade-up
+ */
+export async function suggestTradeUpInputs(
+  outputItemId: string,
+  targetWear: string,
+  client: PrismaClient = prisma
+): Promise<TradeUpSuggestion | null> {
+  if (!UUID_REGEX.test(outputItemId)) {
+    throw new TradeUpError(`Invalid item ID: ${outputItemId}`, 'INVALID_INPUT');
+  }
+
+  const output = await client.item.findUnique({
+    where: { id: outputItemId },
+    select: TRADE_UP_ITEM_SELECT,
+  });
+  if (!output) {
+    throw new TradeUpError(`Item ${outputItemId} not found`, 'NOT_FOUND');
+  }
+
+  const outputRarity = normalizeRarity(output.rarity);
+  const inputRarity = getPreviousRarity(output.rarity);
+  if (!output.collection_id || !outputRarity || !inputRarity || output.quality === 'souvenir') {
+    throw new TradeUpError(`${output.display_name} cannot be obtained from a trade-up`, 'INVALID_INPUT');
+  }
+
+  const stattrak = output.quality === 'stattrak';
+  const baseName = getBaseWeaponName(output.name);
+
+  const [outputSkins, inputSkins] = await Promise.all([
+    loadCollectionSkins([output.collection_id], outputRarity, stattrak, client),
+    loadCollectionSkins([output.collection_id], inputRarity, stattrak, client),
+  ]);
+
+  const target = outputSkins.find((skin) => skin.baseName === baseName);
+  if (!target) {
+    throw new TradeUpError(`${output.display_name} cannot be obtained from a trade-up`, 'INVALID_INPUT');
+  }
+
+  const options: TradeUpInputOption[] = inputSkins.flatMap((skin) =>
+    skin.variants
+      .filter((variant): variant is typeof variant & { price: number } => variant.price !== null)
+      .map((variant) => ({
+        itemId: variant.itemId,
+        name: skin.baseName,
+        baseName: skin.baseName,
+        wear: variant.wear,
+        wearMin: skin.wearMin,
+        wearMax: skin.wearMax,
+        price: variant.price,
+      }))
+  );
+
+  return suggestCheapestInputs(target, targetWear, outputSkins.length, options);
+}
@@ -15,6 +15,15 @@ export interface InventoryItem {
   }
   tradable: boolean
   marketable: boolean
+  float?: {
+    value: number
+    percentile: number // 0 = best float in its wear bracket
+    tags: Array<"low_float" | "best_in_bracket">
+  }
+  pattern?: {
+    seed: number
+    tier: string | null // PatternTier label, e.g. "Tier 1 blue gem"
+  }
 }
 
 export interface InventoryStats {
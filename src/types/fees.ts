@@ -10,6 +10,8 @@
  * - PostgreSQL DECIMAL precision (Gotcha: Use DECIMAL(10,2) for money)
  */
 
+import { convertFromUSD, USD_DISPLAY, type DisplayCurrency } from '../lib/currency/display-currency';
+
 /**
  * Platform fee configuration stored in database
  * Maps to platform_fee_config table in PostgreSQL
@@ -97,9 +99,12 @@ export interface ArbitrageOpportunity {
 /**
  * Utility function to format currency with 2 decimal precision
  * Addresses Gotcha: JavaScript decimal precision
+ *
+ * @param amount - Amount in USD
+ * @param display - Display currency to convert into (default USD, unconverted)
  */
-export function formatCurrency(amount: number): string {
-  return amount.toFixed(2);
+export function formatCurrency(amount: number, display: DisplayCurrency = USD_DISPLAY): string {
+  return convertFromUSD(amount, display).toFixed(2);
 }
 
 /**
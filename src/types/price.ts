@@ -86,9 +86,39 @@ export interface PriceData {
   // Availability (optional)
   availableQuantity?: number; // For bulk traders - inventory count
   listingUrl?: string; // Direct link to marketplace listing
+  floatValue?: number; // Wear float of the listing (marketplaces that expose it)
+  floatListings?: PriceFloatListing[]; // Every fetched listing with a float, cheapest first
 
   // Data freshness
   lastUpdated: Date; // When this price was last synced
+
+  // Outlier quarantine (suspect prices are never the lowest price)
+  quarantined?: boolean;
+  quarantineReason?: string;
+
+  // Original listing when the marketplace quotes a non-USD currency (audit trail)
+  conversion?: PriceConversion;
+}
+
+/**
+ * One listing with a known wear float (USD, fees included)
+ * Float-range alerts scan these, not just the cheapest listing
+ */
+export interface PriceFloatListing {
+  totalCost: number;
+  floatValue: number;
+  listingUrl?: string;
+}
+
+/**
+ * How a foreign-currency listing was converted to USD
+ */
+export interface PriceConversion {
+  originalPrice: number;
+  originalCurrency: Currency;
+  exchangeRate: number; // 1 originalCurrency = exchangeRate USD
+  rateSource?: string; // "exchangerate-api", "fixer"
+  rateTimestamp?: Date;
 }
 
 /**
@@ -181,12 +211,26 @@ export function calculateFreshness(lastUpdated: Date): DataFreshness {
 // Price History Types
 // ============================================================================
 
+/**
+ * Supported history windows in days
+ * BDD: "View 30-day price history chart"
+ */
+export const PRICE_HISTORY_RANGES = [30, 90, 365] as const;
+
+export type PriceHistoryRange = (typeof PRICE_HISTORY_RANGES)[number];
+
 /**
  * Single price data point for historical charts
+ * One point per day, aggregated OHLC-style from raw snapshots
  */
 export interface PriceHistoryPoint {
   date: string; // ISO date string (YYYY-MM-DD)
-  price: number; // Price on that date
+  price: number; // Price on that date (same as close)
+  open: number; // First observed price of the day
+  high: number; // Highest observed price of the day
+  low: number; // Lowest observed price of the day
+  close: number; // Last observed price of the day
+  samples: number; // Number of snapshots aggregated into this point
 }
 
 /**
@@ -206,7 +250,10 @@ export interface PriceHistory {
 
 /**
  * Interface for marketplace API integrations
- * Implementations: CSGOSkinsGG, Pricempire, SteamAPI, etc.
+ * Implementations: src/lib/price/providers/* (one adapter per Platform)
+ *
+ * itemId is the Steam market_hash_name ("AK-47 | Redline (Field-Tested)"),
+ * the only identifier every marketplace accepts.
  */
 export interface PriceProvider {
   name: string; // "CSGOSKINS.GG API", "Steam Market API"
@@ -230,6 +277,18 @@ export interface PriceProvider {
    * Returns null if history not available
    */
   getPriceHistory?(itemId: string, days: number): Promise<PriceHistory | null>;
+
+  /**
+   * Items that can still be fetched in the current rate limit window
+   * Omitted by providers without a request budget
+   */
+  remainingItemCapacity?(): number;
+
+  /**
+   * Whether the last getBulkPrices() call stopped early on a rate limit
+   * (spent budget or HTTP 429), leaving the tail of the request unfetched
+   */
+  lastBulkFetchRateLimited?(): boolean;
 }
 
 // ============================================================================
@@ -252,6 +311,9 @@ export interface MarketplacePriceDB {
   quantity_available: number | null;
   listing_url: string | null;
   last_updated: Date;
+  quarantined: boolean;
+  quarantine_reason: string | null;
+  quarantined_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -273,16 +335,22 @@ export function fromDatabase(db: MarketplacePriceDB): PriceData {
     availableQuantity: db.quantity_available || undefined,
     listingUrl: db.listing_url || undefined,
     lastUpdated: db.last_updated,
+    quarantined: db.quarantined,
+    quarantineReason: db.quarantine_reason || undefined,
   };
 }
 
 /**
  * Convert PriceData to database insert/update format
+ * Quarantine fields are decided at write time by recordMarketplacePrice()
  */
 export function toDatabase(
   itemId: string,
   priceData: PriceData
-): Omit<MarketplacePriceDB, 'id' | 'created_at' | 'updated_at'> {
+): Omit<
+  MarketplacePriceDB,
+  'id' | 'created_at' | 'updated_at' | 'quarantined' | 'quarantine_reason' | 'quarantined_at'
+> {
   return {
     item_id: itemId,
     platform: priceData.platform,
@@ -323,12 +391,21 @@ export function calculateSavings(prices: PriceData[]): number {
   return parseFloat((highest - lowest).toFixed(2));
 }
 
+/**
+ * Drop quarantined (suspect outlier) prices
+ */
+export function excludeQuarantined(prices: PriceData[]): PriceData[] {
+  return prices.filter((price) => !price.quarantined);
+}
+
 /**
  * Find lowest price from array
+ * Quarantined prices are ignored
  */
 export function findLowestPrice(prices: PriceData[]): PriceData | null {
-  if (prices.length === 0) return null;
-  return [...prices].sort((a, b) => a.totalCost - b.totalCost)[0];
+  const usable = excludeQuarantined(prices);
+  if (usable.length === 0) return null;
+  return [...usable].sort((a, b) => a.totalCost - b.totalCost)[0];
 }
 
 /**
@@ -114,6 +114,14 @@ export interface SearchFilters {
    */
   weaponType?: string[];
 
+  /**
+   * Filter by item type(s) (Item.type)
+   *
+   * Examples: ["skin"], ["agent"]
+   * Logic: OR (show items matching ANY type)
+   */
+  type?: string[];
+
   /**
    * Filter by rarity level(s)
    * BDD: "Filter items by rarity" (features/03-search-filters.feature)
@@ -346,8 +354,11 @@ export interface SearchResultItem {
   lowestPricePlatform?: string;
 
   // Advanced attributes (collectors)
-  float_value?: number;
+  float_value?: number; // Float sorts: best owned float (InventoryItem.float_value)
+  float_percentile?: number; // Float sorts: its percentile in the wear bracket (0 = best)
   pattern_seed?: number;
+  pattern_tier_label?: string | null; // patternSeed searches: PatternTier label for the seed
+  pattern_premium_multiplier?: number | null;
 
   // Search relevance score (for sorting by relevance)
   _score?: number;